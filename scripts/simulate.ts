@@ -0,0 +1,114 @@
+/**
+ * Balance report from the headless simulator
+ *
+ *   npm run simulate -- [--from 1] [--to 100] [--rounds 50] [--player average]
+ *                       [--reaction 1100:450] [--accuracy 0.82] [--decoys 0.12]
+ *                       [--patience 120] [--seed 1] [--json]
+ *
+ * Use `npm run -s simulate -- --json > report.json` to keep npm's banner out of the JSON
+ *
+ * --reaction/--accuracy/--decoys override the chosen player profile,
+ * --patience is how long the player keeps going on untimed levels (seconds)
+ */
+
+import {
+  LevelBalanceReport,
+  PERFORMANCE_RATINGS,
+  SIMULATED_PLAYERS,
+  SimulatedPlayer,
+  simulateLevel,
+  simulateLevels,
+} from '@/lib/game/simulator';
+
+function parseArgs(argv: string[]): Record<string, string> {
+  const args: Record<string, string> = {};
+  for (let i = 0; i < argv.length; i++) {
+    if (!argv[i].startsWith('--')) continue;
+    const key = argv[i].slice(2);
+    const next = argv[i + 1];
+    args[key] = next !== undefined && !next.startsWith('--') ? argv[++i] : 'true';
+  }
+  return args;
+}
+
+function fail(message: string): never {
+  console.error(message);
+  process.exit(1);
+}
+
+function readNumber(args: Record<string, string>, key: string, fallback: number): number {
+  if (args[key] === undefined) return fallback;
+  const value = Number(args[key]);
+  if (!Number.isFinite(value)) fail(`--${key} expects a number, got "${args[key]}"`);
+  return value;
+}
+
+function buildPlayer(args: Record<string, string>): SimulatedPlayer {
+  const id = args.player ?? 'average';
+  const preset = SIMULATED_PLAYERS.find(p => p.id === id);
+  if (!preset) fail(`Unknown player "${id}" (${SIMULATED_PLAYERS.map(p => p.id).join(', ')})`);
+
+  const player = { ...preset, reactionTime: { ...preset.reactionTime } };
+  if (args.reaction) {
+    const [mean, stdDev] = args.reaction.split(':').map(Number);
+    if (!(mean > 0) || !(stdDev >= 0)) fail('--reaction expects mean:stdDev in ms, e.g. 1100:450');
+    player.reactionTime = { mean, stdDev };
+  }
+  player.accuracy = readNumber(args, 'accuracy', player.accuracy);
+  player.decoyRate = readNumber(args, 'decoys', player.decoyRate);
+  return player;
+}
+
+const percent = (value: number) => `${Math.round(value * 100)}%`;
+
+function formatRow(report: LevelBalanceReport): string {
+  const ratings = PERFORMANCE_RATINGS
+    .map(rating => `${rating} ${percent(report.ratings[rating])}`.padEnd(7))
+    .join(' ');
+  return [
+    String(report.level).padStart(5),
+    report.paletteId.padEnd(18),
+    String(report.wordCount).padStart(5),
+    (report.timeLimit ? `${report.timeLimit}s` : '-').padStart(5),
+    percent(report.completionRate).padStart(6),
+    (report.averageTime !== undefined ? `${report.averageTime.toFixed(1)}s` : '-').padStart(7),
+    `${report.accuracy.toFixed(0)}%`.padStart(5),
+    String(report.score.p10).padStart(7),
+    String(report.score.median).padStart(7),
+    String(report.score.p90).padStart(7),
+    ratings,
+    report.minigame ? `(${report.minigame} not simulated)` : '',
+  ].join('  ').trimEnd();
+}
+
+function main() {
+  const args = parseArgs(process.argv.slice(2));
+  const from = readNumber(args, 'from', 1);
+  const to = readNumber(args, 'to', 100);
+  const rounds = readNumber(args, 'rounds', 50);
+  if (from < 1 || to < from || rounds < 1) fail('Expected 1 <= --from <= --to and --rounds >= 1');
+
+  const player = buildPlayer(args);
+  const options = {
+    seed: readNumber(args, 'seed', 1),
+    patience: readNumber(args, 'patience', 120),
+  };
+
+  if (args.json) {
+    const reports = simulateLevels(from, to, player, rounds, options);
+    console.log(JSON.stringify({ player, rounds, ...options, reports }, null, 2));
+    return;
+  }
+
+  console.log(
+    `${player.name} player: reaction ${player.reactionTime.mean}±${player.reactionTime.stdDev}ms, ` +
+    `accuracy ${percent(player.accuracy)}, decoy clicks ${percent(player.decoyRate)} - ${rounds} rounds per level\n`
+  );
+  console.log('Level  Palette              Words   Time   Clear     Avg   Acc      P10   Median      P90  Ratings');
+  // Print as we go - the full range takes a while
+  for (let level = from; level <= to; level++) {
+    console.log(formatRow(simulateLevel(level, player, rounds, options)));
+  }
+}
+
+main();
@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getAdminAuth, isAdminConfigured } from '@/lib/firebase/admin';
+import { recordScoreSubmission } from '@/lib/firebase/scoreSubmissions';
+import { ScoreSubmission } from '@/lib/game/scoreVerification';
+
+export const runtime = 'nodejs';
+
+/**
+ * Submit a finished round for verification
+ * Expects a Firebase ID token as Bearer auth and a ScoreSubmission body
+ */
+export async function POST(request: NextRequest) {
+  if (!isAdminConfigured()) {
+    return NextResponse.json({ error: 'Score verification is not configured' }, { status: 503 });
+  }
+
+  const token = request.headers.get('authorization')?.replace(/^Bearer\s+/i, '');
+  if (!token) {
+    return NextResponse.json({ error: 'Missing auth token' }, { status: 401 });
+  }
+
+  let userId: string;
+  try {
+    userId = (await getAdminAuth().verifyIdToken(token)).uid;
+  } catch {
+    return NextResponse.json({ error: 'Invalid auth token' }, { status: 401 });
+  }
+
+  let submission: ScoreSubmission;
+  try {
+    submission = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Invalid submission' }, { status: 400 });
+  }
+  if (typeof submission?.level !== 'number' || typeof submission.finalScore !== 'number') {
+    return NextResponse.json({ error: 'Invalid submission' }, { status: 400 });
+  }
+
+  try {
+    const result = await recordScoreSubmission(userId, submission);
+    return NextResponse.json(result, { status: result.status === 'rejected' ? 422 : 200 });
+  } catch (error) {
+    console.error('❌ Failed to record score submission:', error);
+    return NextResponse.json({ error: 'Failed to record submission' }, { status: 500 });
+  }
+}
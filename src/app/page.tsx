@@ -6,27 +6,56 @@ import GameScreen from '@/components/Game/GameScreen';
 import ProfileScreen from '@/components/Profile/ProfileScreen';
 import LeaderboardScreen from '@/components/Leaderboard/LeaderboardScreen';
 import RulesScreen from '@/components/Rules/RulesScreen';
-type Screen = 'menu' | 'game' | 'profile' | 'leaderboard' | 'rules';
+import ShopScreen from '@/components/Shop/ShopScreen';
+import SettingsScreen from '@/components/Settings/SettingsScreen';
+import LevelEditorScreen from '@/components/LevelEditor/LevelEditorScreen';
+import { applyAccessibilitySettings } from '@/lib/accessibility';
+import { STORAGE_KEYS, runStorageMigrations } from '@/lib/storage/gameStorage';
+import { initializeStorage, parseStorageBackendKind } from '@/lib/storage/backend';
+import { isStorageKeyOf, useExternalStorageChange } from '@/hooks/useExternalStorageChange';
+import { DailyGlitchPuzzle, getDailyGlitchPuzzle, startDailyGlitchAttempt } from '@/lib/game/dailyGlitch';
+import { CustomLevel } from '@/lib/game/customLevels';
+type Screen = 'menu' | 'game' | 'daily' | 'profile' | 'leaderboard' | 'rules' | 'shop' | 'settings' | 'editor' | 'playtest';
+
+// Screens with a round in progress - they are never reloaded under the player
+const ROUND_SCREENS: Screen[] = ['game', 'daily', 'playtest'];
 
 export default function Home() {
   const [screen, setScreen] = useState<Screen>('menu');
   const [gameLevel, setGameLevel] = useState(1);
+  const [dailyPuzzle, setDailyPuzzle] = useState<DailyGlitchPuzzle | null>(null);
+  const [playtestLevel, setPlaytestLevel] = useState<CustomLevel | null>(null);
+  const [playtestRun, setPlaytestRun] = useState(0);
   const [mounted, setMounted] = useState(false);
+  const [profileRevision, setProfileRevision] = useState(0);
 
   useEffect(() => {
-    setMounted(true);
-    // Load saved level
-    try {
-      const { getCurrentLevel } = require('@/lib/game/levelSystem');
-      setGameLevel(getCurrentLevel());
-    } catch (e) {
-      console.error('Error loading level:', e);
-    }
+    // Open the storage backend and bring saved data up to the current schema before any screen reads it
+    initializeStorage(parseStorageBackendKind(process.env.NEXT_PUBLIC_STORAGE_BACKEND)).then(() => {
+      runStorageMigrations();
+      setMounted(true);
+    });
   }, []);
 
-  // Refresh level when returning to menu (in case profile was reset)
+  // Settings are per profile, so re-apply them after every screen change (profile switches included)
   useEffect(() => {
-    if (screen === 'menu') {
+    if (mounted) applyAccessibilitySettings();
+  }, [screen, mounted]);
+
+  // Another tab switched profiles: reload the open screen for the new profile
+  // (a round in progress is handled by the game screen itself)
+  useExternalStorageChange(key => key === STORAGE_KEYS.CURRENT_PROFILE, () => {
+    if (ROUND_SCREENS.includes(screen)) return;
+    setProfileRevision(revision => revision + 1);
+    applyAccessibilitySettings();
+  });
+
+  // Settings changed in another tab
+  useExternalStorageChange(key => isStorageKeyOf(key, STORAGE_KEYS.SETTINGS), () => applyAccessibilitySettings());
+
+  // Load the saved level, and refresh it when returning to menu (in case profile was reset)
+  useEffect(() => {
+    if (mounted && screen === 'menu') {
       try {
         const { getCurrentLevel } = require('@/lib/game/levelSystem');
         setGameLevel(getCurrentLevel());
@@ -34,7 +63,7 @@ export default function Home() {
         console.error('Error loading level:', e);
       }
     }
-  }, [screen]);
+  }, [screen, mounted, profileRevision]);
 
   if (!mounted) {
     return (
@@ -56,6 +85,14 @@ export default function Home() {
     setScreen('game');
   };
 
+  const handleDaily = () => {
+    const puzzle = getDailyGlitchPuzzle();
+    // One attempt per day - the attempt is used up as soon as the round starts
+    if (!startDailyGlitchAttempt(puzzle)) return;
+    setDailyPuzzle(puzzle);
+    setScreen('daily');
+  };
+
   const handleProfile = () => {
     setScreen('profile');
   };
@@ -68,10 +105,38 @@ export default function Home() {
     setScreen('rules');
   };
 
+  const handleShop = () => {
+    setScreen('shop');
+  };
+
+  const handleSettings = () => {
+    setScreen('settings');
+  };
+
   const handleMenu = () => {
     setScreen('menu');
   };
 
+  const handleEditor = () => {
+    setPlaytestLevel(null);
+    setScreen('editor');
+  };
+
+  const handlePlaytest = (level: CustomLevel) => {
+    setPlaytestLevel(level);
+    setScreen('playtest');
+  };
+
+  // Retrying a playtest remounts the game screen with the same level
+  const handlePlaytestRestart = () => {
+    setPlaytestRun(run => run + 1);
+  };
+
+  // Leaving a playtest goes back to the level in the editor
+  const handlePlaytestEnd = () => {
+    setScreen('editor');
+  };
+
   const handleLevelComplete = (newLevel: number) => {
     setGameLevel(newLevel);
     // Automatically continue to next level instead of going to menu
@@ -87,19 +152,58 @@ export default function Home() {
           onLevelComplete={handleLevelComplete}
         />
       );
+    case 'daily':
+      return dailyPuzzle ? (
+        <GameScreen
+          key={`daily-${dailyPuzzle.date}`}
+          level={dailyPuzzle.level}
+          seed={dailyPuzzle.seed}
+          daily={dailyPuzzle}
+          onMenu={handleMenu}
+          onLevelComplete={handleMenu}
+        />
+      ) : null;
+    case 'playtest':
+      return playtestLevel ? (
+        <GameScreen
+          key={`playtest-${playtestLevel.id}-${playtestRun}`}
+          level={playtestLevel.baseLevel}
+          customLevel={playtestLevel}
+          onMenu={handlePlaytestEnd}
+          onLevelComplete={handlePlaytestRestart}
+        />
+      ) : null;
+    case 'editor':
+      return (
+        <LevelEditorScreen
+          key={profileRevision}
+          onBack={handleMenu}
+          onPlaytest={handlePlaytest}
+          initialLevelId={playtestLevel?.id}
+        />
+      );
     case 'profile':
-      return <ProfileScreen onBack={handleMenu} />;
+      return <ProfileScreen key={profileRevision} onBack={handleMenu} />;
     case 'leaderboard':
-      return <LeaderboardScreen onBack={handleMenu} />;
+      return <LeaderboardScreen key={profileRevision} onBack={handleMenu} />;
     case 'rules':
       return <RulesScreen onBack={handleMenu} />;
+    case 'shop':
+      return <ShopScreen key={profileRevision} onBack={handleMenu} />;
+    case 'settings':
+      return <SettingsScreen key={profileRevision} onBack={handleMenu} />;
     default:
       return (
         <MenuScreen
+          key={profileRevision}
           onPlay={handlePlay}
+          onDaily={handleDaily}
           onProfile={handleProfile}
           onLeaderboard={handleLeaderboard}
-          onSettings={handleRules}
+          onSettings={handleSettings}
+          onRules={handleRules}
+          onShop={handleShop}
+          onEditor={handleEditor}
         />
       );
   }
@@ -1,6 +1,7 @@
 'use client';
 
 import React, { useState, useEffect, useRef, useCallback } from 'react';
+import { triggerHaptic } from '@/lib/haptics';
 import styles from './BridgeConstructor.module.css';
 
 interface BridgeConstructorProps {
@@ -521,6 +522,15 @@ export default function BridgeConstructor({
         setStickman(prev => ({ ...prev, isWalking: true }));
     };
 
+    // Haptics: a tap for every building crossed, a long buzz when the stickman falls
+    useEffect(() => {
+        if (buildingsCrossed > 0) triggerHaptic('wordFound');
+    }, [buildingsCrossed]);
+
+    useEffect(() => {
+        if (stickman.isFalling) triggerHaptic('gameOver');
+    }, [stickman.isFalling]);
+
     // Stickman physics and movement
     useEffect(() => {
         if (!stickman.isWalking || gameOver) return;
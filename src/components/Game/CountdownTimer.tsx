@@ -3,6 +3,8 @@
 import React, { useRef, useEffect } from 'react';
 import styles from './CountdownTimer.module.css';
 import { ColorPalette } from '@/lib/colorPalettes';
+import { playSound } from '@/lib/audio/soundEffects';
+import { triggerHaptic } from '@/lib/haptics';
 import * as animeModule from 'animejs';
 
 const anime = (animeModule as any).default || animeModule;
@@ -21,6 +23,23 @@ export default function CountdownTimer({
     const textRef = useRef<HTMLSpanElement>(null);
     const barRef = useRef<HTMLDivElement>(null);
     const previousTimeRef = useRef(timeRemaining);
+    const previousSecondRef = useRef(Math.ceil(timeRemaining));
+
+    // Warning beeps: once at 10 seconds left, then a tick for each of the last 5
+    useEffect(() => {
+        const second = Math.ceil(timeRemaining);
+        const previousSecond = previousSecondRef.current;
+        previousSecondRef.current = second;
+        if (second >= previousSecond) return; // Extra time or a new round, not a countdown step
+
+        if (second === 10) {
+            playSound('countdownWarning');
+            triggerHaptic('lowTime');
+        } else if (second > 0 && second <= 5) {
+            playSound('countdownTick');
+            if (second === 5) triggerHaptic('lowTime');
+        }
+    }, [timeRemaining]);
 
     // Animate text updates smoothly
     useEffect(() => {
@@ -4,6 +4,7 @@ import React, { useState } from 'react';
 import { GameScore } from '@/types/game';
 import { ColorPalette, getPalette, DEFAULT_PALETTE_ID } from '@/lib/colorPalettes';
 import { loadSettings, loadProfile } from '@/lib/storage/gameStorage';
+import { DifficultyAdjustment, TunedParameter } from '@/lib/game/difficultyDirector';
 import GameMusicPlayer from './GameMusicPlayer';
 import styles from './GameOverModal.module.css';
 
@@ -11,12 +12,28 @@ interface GameOverModalProps {
   score: GameScore;
   level: number;
   onContinue: () => void;
-  onRetry: () => void;
+  onRetry?: () => void; // Omitted when the round can't be replayed (Daily Glitch)
   onMenu: () => void;
   isVictory: boolean;
   palette?: ColorPalette;
   cumulativeTotalTime?: number;
   cumulativeTotalScore?: number;
+  difficultyAdjustment?: DifficultyAdjustment | null; // Set when adaptive difficulty tuned the round
+}
+
+const TUNED_PARAMETER_LABELS: Record<TunedParameter, string> = {
+  glitchSpeed: 'Glitch Interval (ms)',
+  letterUpdateRate: 'Letters Changing',
+  wordCount: 'Words',
+  timeLimit: 'Time Limit (s)',
+  visibilityScale: 'Word Visibility',
+};
+
+function formatTunedValue(parameter: TunedParameter, value: number): string {
+  if (parameter === 'letterUpdateRate' || parameter === 'visibilityScale') {
+    return `${Math.round(value * 100)}%`;
+  }
+  return value.toString();
 }
 
 export default function GameOverModal({
@@ -29,8 +46,10 @@ export default function GameOverModal({
   palette,
   cumulativeTotalTime,
   cumulativeTotalScore,
+  difficultyAdjustment,
 }: GameOverModalProps) {
   const [showBreakdown, setShowBreakdown] = useState(false);
+  const [showTuning, setShowTuning] = useState(false);
 
   const currentPalette = palette || (() => {
     const settings = loadSettings();
@@ -375,6 +394,12 @@ export default function GameOverModal({
                       <span style={{ color: '#4ade80' }}>+{score.scoreBreakdown.wordLengthBonus.toLocaleString()}</span>
                     </div>
                   )}
+                  {score.decoyPenalty !== undefined && score.decoyPenalty > 0 && (
+                    <div className={styles.breakdownRow}>
+                      <span>Decoy Penalty</span>
+                      <span style={{ color: '#f87171' }}>-{score.decoyPenalty.toLocaleString()}</span>
+                    </div>
+                  )}
                   <div className={styles.breakdownDivider} />
                   <div className={styles.breakdownRow}>
                     <span>Before Multipliers</span>
@@ -403,6 +428,38 @@ export default function GameOverModal({
               </div>
             </>
           )}
+
+          {/* Adaptive Difficulty - how this round was tuned */}
+          {difficultyAdjustment && (
+            <>
+              <button
+                className={styles.breakdownToggle}
+                onClick={() => setShowTuning(!showTuning)}
+              >
+                <span>Adaptive Difficulty</span>
+                <span className={`${styles.breakdownIcon} ${showTuning ? styles.open : ''}`}>▼</span>
+              </button>
+
+              <div className={`${styles.breakdownPanel} ${showTuning ? styles.open : ''}`}>
+                <div className={styles.breakdownContent}>
+                  {difficultyAdjustment.reasons.map(reason => (
+                    <div key={reason} className={styles.breakdownRow}>
+                      <span>{reason}</span>
+                    </div>
+                  ))}
+                  {difficultyAdjustment.changes.length > 0 && <div className={styles.breakdownDivider} />}
+                  {difficultyAdjustment.changes.map(change => (
+                    <div key={change.parameter} className={styles.breakdownRow}>
+                      <span>{TUNED_PARAMETER_LABELS[change.parameter]}</span>
+                      <span style={{ color: difficultyAdjustment.skill > 0 ? '#f87171' : '#4ade80' }}>
+                        {formatTunedValue(change.parameter, change.from)} → {formatTunedValue(change.parameter, change.to)}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            </>
+          )}
         </div>
 
         {/* Actions - Horizontal */}
@@ -419,12 +476,14 @@ export default function GameOverModal({
               Continue
             </button>
           )}
-          <button 
-            className={`${styles.button} ${styles.secondary}`} 
-            onClick={onRetry}
-          >
-            Retry
-          </button>
+          {onRetry && (
+            <button 
+              className={`${styles.button} ${styles.secondary}`} 
+              onClick={onRetry}
+            >
+              Retry
+            </button>
+          )}
           <button 
             className={`${styles.button} ${styles.tertiary}`} 
             onClick={onMenu}
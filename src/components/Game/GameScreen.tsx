@@ -1,18 +1,21 @@
 'use client';
 
 import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react';
-import { Level, GameWord, GameScore, GameSession } from '@/types/game';
+import { Level, GameWord, GameScore, GameSession, InputMode } from '@/types/game';
 import LetterGlitch, { LetterGlitchHandle } from './LetterGlitch';
 import GameHUD from './GameHUD';
 import WordList from './WordList';
 import HangmanMiniGame from './HangmanMiniGame';
 import BridgeConstructor from './BridgeConstructor';
 import GameOverModal from './GameOverModal';
+import PowerUpBar from './PowerUpBar';
+import WordInput from './WordInput';
 import { initializeLevel, generateWords, calculateFinalScore } from '@/lib/game/gameEngine';
-import { calculateComboMultiplier, calculateScore } from '@/lib/game/scoring';
+import { calculateComboMultiplier, calculateScore, DECOY_PENALTY_POINTS } from '@/lib/game/scoring';
 import { getDifficultyMultiplier } from '@/lib/colorPalettes';
 import {
   getComboMessage,
+  getComboTier,
   shouldResetCombo,
   type ComboState
 } from '@/lib/game/comboSystem';
@@ -22,28 +25,74 @@ import {
   createBonusNotification,
   type AchievementNotification
 } from '@/lib/game/achievementNotifications';
-import { checkChallengeCompletion } from '@/lib/game/dailyChallenges';
+import { recordRoundResult } from '@/lib/game/dailyChallenges';
 import NotificationToast from './NotificationToast';
 import { WordManager } from '@/lib/game/wordManager';
-import { updateStats, saveScore, loadProfile } from '@/lib/storage/gameStorage';
+import { getWordGridColumns } from '@/lib/game/wordGenerator';
+import { WordPack, getActiveWordPack, getBuiltinWordPack } from '@/lib/game/wordPacks';
+import { getLocale } from '@/lib/game/locales';
+import { createLevelRandom, generateSeed } from '@/lib/game/random';
+import { DifficultyAdjustment, directLevel, summarizeRound } from '@/lib/game/difficultyDirector';
+import { ReplayRecorder } from '@/lib/game/replay';
+import { SwipePath } from '@/lib/game/orientation';
+import {
+  updateStats,
+  saveScore,
+  loadProfile,
+  saveReplay,
+  getCurrentProfileId,
+  getProfileMetadata,
+  loadRoundHistory,
+  saveRoundPerformance,
+  STORAGE_KEYS
+} from '@/lib/storage/gameStorage';
+import { onExternalStorageChange } from '@/lib/storage/backend';
+import { GameSessionLock, acquireGameSessionLock } from '@/lib/game/sessionLock';
 import { syncCurrencyWithTotalScore } from '@/lib/currency';
+import {
+  Inventory,
+  getInventory,
+  consumeShopItem,
+  getPaletteForRound,
+  HINT_DURATION_MS,
+  EXTRA_TIME_SECONDS,
+  MAX_EXTRA_TIME_PER_ROUND
+} from '@/lib/shop';
+import { saveGameSession, saveDailyGlitchSession } from '@/lib/firebase/sync';
+import { DailyGlitchPuzzle, completeDailyGlitchAttempt } from '@/lib/game/dailyGlitch';
 import { unlockLevel } from '@/lib/game/levelSystem';
 import { ACHIEVEMENTS } from '@/lib/constants';
 import { saveAchievement, hasAchievement, loadSettings, saveSettings } from '@/lib/storage/gameStorage';
 import { getPalette, DEFAULT_PALETTE_ID, ColorPalette, COLOR_PALETTES, PaletteDifficulty } from '@/lib/colorPalettes';
 import { getTextSizingForDifficulty } from '@/lib/game/difficulty';
 import { getMandatoryPaletteDifficulty, hasMandatoryPalette } from '@/lib/constants';
-import { getPaletteForLevel } from '@/lib/game/levelProgression';
+import { getLevelDefinition } from '@/lib/game/levelDefinitions';
+import { CustomLevel, toPlayableLevel, toWordPack } from '@/lib/game/customLevels';
 import { LockIcon } from '@/components/UI/GameIcons';
+import { playSound } from '@/lib/audio/soundEffects';
+import { triggerHaptic } from '@/lib/haptics';
+import { applyTextScale, isReducedMotion } from '@/lib/accessibility';
 import styles from './GameScreen.module.css';
 
+// Why this tab's round can't be counted: another tab is playing, took the round over or switched profiles
+type SessionConflict = 'busy' | 'taken-over' | 'profile-switched';
+
+const SESSION_CONFLICT_MESSAGES: Record<SessionConflict, string> = {
+  'busy': 'A round is already running in another tab. Play here to end that one - its result won\'t be counted.',
+  'taken-over': 'This round continues in another tab and won\'t be counted here.',
+  'profile-switched': 'Another tab switched profiles, so this round won\'t be counted.',
+};
+
 interface GameScreenProps {
   level: number;
   onMenu: () => void;
   onLevelComplete: (newLevel: number) => void;
+  seed?: number; // Optional fixed seed to recreate a specific round
+  daily?: DailyGlitchPuzzle; // Daily Glitch round: shared puzzle, single attempt, separate leaderboard
+  customLevel?: CustomLevel; // Level editor playtest: never saved to stats, leaderboards or replays
 }
 
-export default function GameScreen({ level, onMenu, onLevelComplete }: GameScreenProps) {
+export default function GameScreen({ level, onMenu, onLevelComplete, seed, daily, customLevel }: GameScreenProps) {
   const [currentLevel, setCurrentLevel] = useState<Level>(initializeLevel(level));
   const [words, setWords] = useState<GameWord[]>([]);
   const [score, setScore] = useState(0);
@@ -75,18 +124,39 @@ export default function GameScreen({ level, onMenu, onLevelComplete }: GameScree
   const [hangmanCompleted, setHangmanCompleted] = useState<boolean>(false);
   const [hangmanRevealedWords, setHangmanRevealedWords] = useState<string[]>([]);
   const [hangmanWords, setHangmanWords] = useState<GameWord[]>([]); // Store exact words used in Hangman
+  const [inventory, setInventory] = useState<Inventory>(getInventory);
+  // Everyone plays the Daily Glitch with the same built-in words
+  const [wordPack] = useState<WordPack>(() => {
+    if (customLevel) return toWordPack(customLevel);
+    return daily ? getBuiltinWordPack() : getActiveWordPack();
+  });
+  const locale = getLocale(wordPack.language);
+  const [inputMode] = useState<InputMode>(() => loadSettings().inputMode ?? 'tap');
+  const [reducedMotion] = useState(() => isReducedMotion());
+  // The Daily Glitch is the same puzzle for everyone, so it is never tuned
+  const [adaptiveDifficulty] = useState(() => !daily && !customLevel && !!loadSettings().adaptiveDifficulty);
+  const [difficultyAdjustment, setDifficultyAdjustment] = useState<DifficultyAdjustment | null>(null);
+  const [hintedWord, setHintedWord] = useState<string | undefined>(undefined);
+  const [extraTimeUsed, setExtraTimeUsed] = useState(0);
+  const [sessionConflict, setSessionConflict] = useState<SessionConflict | null>(null);
+  const sessionConflictRef = useRef<SessionConflict | null>(null);
+  const sessionLockRef = useRef<GameSessionLock | null>(null);
 
   // Initialize refs to match initial state
   const attemptsRef = useRef<number>(0);
   const correctFindsRef = useRef<number>(0);
+  const decoyHitsRef = useRef<number>(0);
   const hangmanCompletedRef = useRef<boolean>(false);
   const hangmanWordsRef = useRef<GameWord[]>([]);
 
 
+  // Daily puzzles and custom levels bring their own palette, otherwise the one chosen in the menu or the level's
+  const fixedPaletteId = daily?.paletteId ?? customLevel?.paletteId;
+  const minigame = customLevel ? customLevel.minigame ?? null : getLevelDefinition(level).minigame;
+
   // Get initial palette based on level progression
   const getInitialPalette = (): ColorPalette => {
-    // Use the level progression system to determine the palette
-    return getPaletteForLevel(level);
+    return applyTextScale(fixedPaletteId ? getPalette(fixedPaletteId) : getPaletteForRound(level));
   };
 
   const [currentPalette, setCurrentPalette] = useState<ColorPalette>(getInitialPalette);
@@ -101,6 +171,9 @@ export default function GameScreen({ level, onMenu, onLevelComplete }: GameScree
   const pausedTimeRef = useRef<number>(0);
   const pauseStartRef = useRef<number | null>(null);
   const autoAdvanceTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+  const replayRecorderRef = useRef<ReplayRecorder | null>(null);
+  const wasPausedRef = useRef<boolean>(false);
+  const hintTimeoutRef = useRef<NodeJS.Timeout | null>(null);
 
   // Helper function to calculate responsive exclusion zones
   const getExclusionZones = useCallback(() => {
@@ -108,24 +181,24 @@ export default function GameScreen({ level, onMenu, onLevelComplete }: GameScree
     let topExclusion = 120; // Default desktop (for GameHUD)
     let bottomExclusion = 200; // Default desktop (for WordList)
 
-    // Increase bottom exclusion when hangman is active (it takes more space)
-    const hangmanActive = showHangman && !hangmanCompleted;
-    if (hangmanActive) {
+    // Increase bottom exclusion when hangman or the typing panel is shown (they take more space)
+    const panelActive = (showHangman && !hangmanCompleted) || inputMode === 'keyboard';
+    if (panelActive) {
       bottomExclusion = 280; // More space for hangman + word list
     }
 
     if (width <= 360) {
       // Small mobile devices
       topExclusion = 80;
-      bottomExclusion = hangmanActive ? 200 : 120;
+      bottomExclusion = panelActive ? 200 : 120;
     } else if (width <= 480) {
       // Mobile devices
       topExclusion = 90;
-      bottomExclusion = hangmanActive ? 240 : 140;
+      bottomExclusion = panelActive ? 240 : 140;
     } else if (width <= 768) {
       // Tablet devices
       topExclusion = 100;
-      bottomExclusion = hangmanActive ? 260 : 180;
+      bottomExclusion = panelActive ? 260 : 180;
     }
 
     // Add safe area insets
@@ -140,14 +213,60 @@ export default function GameScreen({ level, onMenu, onLevelComplete }: GameScree
       top: topExclusion + safeAreaTop,
       bottom: bottomExclusion + safeAreaBottom,
     };
-  }, [showHangman, hangmanCompleted]);
+  }, [showHangman, hangmanCompleted, inputMode]);
 
-  // Check if hangman mini-game should be shown (every 10 levels: 10, 20, 30, 40, 50, 60, etc.)
+  // Check if a mini-game should be shown (Hangman or Bridge Constructor, set in src/data/levels/minigames.json)
   const shouldShowHangman = React.useMemo(() => {
-    // Show mini-game on levels that are multiples of 10 (Hangman) or 6 (Bridge Constructor)
-    // Overlap handled by render logic (Bridge takes precedence on multiples of 30)
-    return (level >= 10 && level % 10 === 0) || (level >= 6 && level % 6 === 0);
-  }, [level]);
+    return minigame !== null;
+  }, [minigame]);
+
+  // Stop counting this round (stats, challenges, leaderboards) and hold the game behind the conflict overlay
+  const blockRound = (conflict: SessionConflict) => {
+    sessionConflictRef.current = conflict;
+    setSessionConflict(conflict);
+    setIsPaused(true);
+  };
+
+  // One counted round at a time across tabs, so two rounds never double count through updateStats
+  // (playtests never count, so they don't need the lock)
+  useEffect(() => {
+    if (customLevel) return;
+    let unmounted = false;
+    const profileId = getCurrentProfileId();
+
+    acquireGameSessionLock({ onLost: () => blockRound('taken-over') }).then(lock => {
+      if (unmounted) {
+        lock?.release();
+      } else if (lock) {
+        sessionLockRef.current = lock;
+      } else {
+        blockRound('busy');
+      }
+    });
+    const stopListening = onExternalStorageChange(keys => {
+      if (keys.includes(STORAGE_KEYS.CURRENT_PROFILE) && getCurrentProfileId() !== profileId) {
+        blockRound('profile-switched');
+      }
+    });
+
+    return () => {
+      unmounted = true;
+      sessionLockRef.current?.release();
+      sessionLockRef.current = null;
+      stopListening();
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  // Take the round over from the other tab
+  const handleTakeOver = async () => {
+    const lock = await acquireGameSessionLock({ takeOver: true, onLost: () => blockRound('taken-over') });
+    if (!lock) return;
+    sessionLockRef.current = lock;
+    sessionConflictRef.current = null;
+    setSessionConflict(null);
+    setIsPaused(false);
+  };
 
   // Initialize game
   useEffect(() => {
@@ -159,15 +278,17 @@ export default function GameScreen({ level, onMenu, onLevelComplete }: GameScree
     setHangmanWords([]); // Reset hangman words on level init
 
 
-    // Determine the palette to use for this level using level progression
-    const paletteToUse = getPaletteForLevel(level);
+    // Determine the palette to use for this level (menu choice or level progression)
+    const paletteToUse = applyTextScale(fixedPaletteId ? getPalette(fixedPaletteId) : getPaletteForRound(level));
 
     // Update palette if it changed
     if (currentPalette.id !== paletteToUse.id) {
       setCurrentPalette(paletteToUse);
-      // Save the palette to settings for consistency
-      const settings = loadSettings();
-      saveSettings({ ...settings, colorPalette: paletteToUse.id });
+      // Save the palette to settings for consistency (daily and custom level palettes are one-offs)
+      if (!fixedPaletteId) {
+        const settings = loadSettings();
+        saveSettings({ ...settings, colorPalette: paletteToUse.id });
+      }
     }
 
 
@@ -179,6 +300,7 @@ export default function GameScreen({ level, onMenu, onLevelComplete }: GameScree
     setCorrectFinds(0);
     attemptsRef.current = 0;
     correctFindsRef.current = 0;
+    decoyHitsRef.current = 0;
     setGameOver(false);
     setIsVictory(false);
     setIsPaused(false);
@@ -186,7 +308,19 @@ export default function GameScreen({ level, onMenu, onLevelComplete }: GameScree
     setCumulativeTotalTime(0); // Will be calculated when level completes
     setCumulativeTotalScore(0); // Will be calculated when level completes
 
-    const levelConfig = initializeLevel(level);
+    // Every round is seeded so its words and placement can be recreated from (level, seed)
+    let levelConfig = customLevel
+      ? toPlayableLevel(customLevel, seed ?? generateSeed())
+      : initializeLevel(level, seed ?? generateSeed());
+    let difficultySkill: number | undefined;
+    if (adaptiveDifficulty) {
+      const directed = directLevel(levelConfig, loadRoundHistory());
+      levelConfig = directed.level;
+      difficultySkill = directed.adjustment.skill;
+      setDifficultyAdjustment(directed.adjustment);
+    } else {
+      setDifficultyAdjustment(null);
+    }
     setCurrentLevel(levelConfig);
 
     // Get dynamic text sizing based on palette difficulty and level (updates every 10 levels on boss levels)
@@ -215,7 +349,10 @@ export default function GameScreen({ level, onMenu, onLevelComplete }: GameScree
       bottomExclusionRows,
       charWidth,
       charHeight,
-      paletteToUse.difficulty
+      paletteToUse.difficulty,
+      createLevelRandom(levelConfig.seed, 'words'),
+      createLevelRandom(levelConfig.seed, 'placement'),
+      wordPack
     );
 
     // Initialize word manager with level and dynamic sizing
@@ -228,7 +365,9 @@ export default function GameScreen({ level, onMenu, onLevelComplete }: GameScree
       level,
       paletteToUse.difficulty,
       charWidth,
-      charHeight
+      charHeight,
+      createLevelRandom(levelConfig.seed, 'schedule'),
+      levelConfig.visibilityScale
     );
 
     setWords(generatedWords);
@@ -257,12 +396,30 @@ export default function GameScreen({ level, onMenu, onLevelComplete }: GameScree
       maxCombo: 0,
       attempts: 0,
       correctFinds: 0,
+      seed: levelConfig.seed,
     };
 
     startTimeRef.current = Date.now();
     pausedTimeRef.current = 0;
     pauseStartRef.current = null;
     setElapsedTime(0);
+    setHintedWord(undefined);
+    setExtraTimeUsed(0);
+
+    // Start recording a replay of this round
+    const profileId = getCurrentProfileId();
+    replayRecorderRef.current = new ReplayRecorder({
+      level,
+      seed: levelConfig.seed,
+      paletteId: paletteToUse.id,
+      wordPackId: wordPack.id,
+      columns: getWordGridColumns(cols * charWidth, charWidth),
+      profileName: profileId ? getProfileMetadata(profileId)?.name : undefined,
+      startTime: startTimeRef.current,
+      inputMode,
+      difficultySkill,
+    });
+    wasPausedRef.current = false;
 
     return () => {
       if (timerRef.current) {
@@ -271,8 +428,11 @@ export default function GameScreen({ level, onMenu, onLevelComplete }: GameScree
       if (wordUpdateRef.current) {
         clearInterval(wordUpdateRef.current);
       }
+      if (hintTimeoutRef.current) {
+        clearTimeout(hintTimeoutRef.current);
+      }
     };
-  }, [level, getExclusionZones]);
+  }, [level, seed, daily, customLevel, wordPack, adaptiveDifficulty, getExclusionZones]);
 
   // Sync WordManager dimensions with actual canvas dimensions
   useEffect(() => {
@@ -525,6 +685,26 @@ export default function GameScreen({ level, onMenu, onLevelComplete }: GameScree
     }
   }, [hangmanCompleted, isPaused, gameOver, level, currentPalette]);
 
+  // Record word spawns/despawns, combo changes and pause/resume for the replay
+  useEffect(() => {
+    if (gameOver) return;
+    replayRecorderRef.current?.recordWords(words);
+  }, [words, gameOver]);
+
+  useEffect(() => {
+    replayRecorderRef.current?.recordCombo(combo);
+  }, [combo]);
+
+  useEffect(() => {
+    if (gameOver || isPaused === wasPausedRef.current) return;
+    wasPausedRef.current = isPaused;
+    if (isPaused) {
+      replayRecorderRef.current?.recordPause();
+    } else {
+      replayRecorderRef.current?.recordResume();
+    }
+  }, [isPaused, gameOver]);
+
   // Elapsed time timer (always running)
   useEffect(() => {
     if (gameOver) return;
@@ -613,6 +793,9 @@ export default function GameScreen({ level, onMenu, onLevelComplete }: GameScree
       // Process the completion (save stats, unlock next level, etc.)
       handleGameOver(true);
 
+      // Daily rounds and playtests end on the results screen
+      if (daily || customLevel) return;
+
       // Auto-advance to next level immediately (no modal, like normal level progression)
       // Delay increased to 4 seconds to allow user to see stats
       // Store in ref to allow cleanup if component unmounts (e.g. user goes to menu)
@@ -624,7 +807,7 @@ export default function GameScreen({ level, onMenu, onLevelComplete }: GameScree
     // Cleanup timeout if dependencies change (though mainly for unmount which is handled separately)
     // We don't want to clear on gameOver change because that happens during the flow
 
-  }, [words, gameOver, showHangman, hangmanCompleted, level, onLevelComplete]);
+  }, [words, gameOver, showHangman, hangmanCompleted, level, daily, customLevel, onLevelComplete]);
 
   // Clean up auto-advance timer on unmount
   useEffect(() => {
@@ -635,9 +818,33 @@ export default function GameScreen({ level, onMenu, onLevelComplete }: GameScree
     };
   }, []);
 
-  const handleWordFound = useCallback((word: string, isCorrectClick: boolean) => {
+  // Chime when the combo climbs into a new tier (same thresholds as the combo notifications)
+  useEffect(() => {
+    const tier = getComboTier(comboState.currentCombo);
+    if (tier > 0) {
+      playSound('comboTier', { tier });
+      triggerHaptic('comboMilestone');
+    }
+  }, [comboState.currentCombo]);
+
+  const handleWordFound = useCallback((word: string, isCorrectClick: boolean, point?: { x: number; y: number }, swipe?: SwipePath) => {
     if (!wordManagerRef.current) return;
 
+    // Record the pointer outcome for the replay (decided before state updates so it's recorded once)
+    if (word.startsWith('FAKE:')) {
+      replayRecorderRef.current?.recordPointer('decoy', word.slice('FAKE:'.length), point, swipe);
+      playSound('decoy');
+      triggerHaptic('decoy');
+    } else {
+      const target = isCorrectClick && word
+        ? wordManagerRef.current.getVisibleWords().find(w => w.word === word)
+        : undefined;
+      const isHit = !!target && wordManagerRef.current.isWordClickable(target);
+      replayRecorderRef.current?.recordPointer(isHit ? 'hit' : 'miss', word, point, swipe);
+      playSound(isHit ? 'wordFound' : 'miss');
+      triggerHaptic(isHit ? 'wordFound' : 'miss');
+    }
+
     // Always increment attempts exactly once for every click
     const newAttempts = attemptsRef.current + 1;
     attemptsRef.current = newAttempts;
@@ -645,9 +852,10 @@ export default function GameScreen({ level, onMenu, onLevelComplete }: GameScree
 
     // Check if this is a fake word click (marked with "FAKE:" prefix)
     if (word.startsWith('FAKE:')) {
-      // Fake word clicked - this is a penalty/miss
-      // Could add visual feedback here (e.g., screen shake, red flash)
-      // For now, just count as an attempt (already done above)
+      // Fake word clicked - counts as an attempt (done above) and costs points,
+      // taken off again in the final score (see calculateFinalScore)
+      decoyHitsRef.current++;
+      setScore(prev => Math.max(0, prev - DECOY_PENALTY_POINTS));
       return;
     }
 
@@ -703,9 +911,7 @@ export default function GameScreen({ level, onMenu, onLevelComplete }: GameScree
 
         // Check for combo milestones
         const comboMessage = getComboMessage(updatedCombo);
-        if (comboMessage && (updatedCombo === 2 || updatedCombo === 3 || updatedCombo === 5 ||
-          updatedCombo === 7 || updatedCombo === 10 || updatedCombo === 15 ||
-          updatedCombo === 20 || updatedCombo === 25 || updatedCombo === 30)) {
+        if (comboMessage && getComboTier(updatedCombo) > 0) {
           setNotifications(prev => [...prev, createComboNotification(updatedCombo)]);
         }
 
@@ -744,7 +950,8 @@ export default function GameScreen({ level, onMenu, onLevelComplete }: GameScree
         attemptsRef.current,
         correctFindsRef.current,
         currentPalette.difficulty,
-        timeSinceLastWord
+        timeSinceLastWord,
+        inputMode
       );
 
       const wordScore = scoreResult.finalScore;
@@ -754,21 +961,6 @@ export default function GameScreen({ level, onMenu, onLevelComplete }: GameScree
         setNotifications(prev => [...prev, createBonusNotification('combo', scoreResult.comboBonus || 0)]);
       }
 
-      // Update daily challenges
-      const completedChallenges = checkChallengeCompletion('words', wordsFoundAfterMarking);
-      completedChallenges.forEach(challenge => {
-        setNotifications(prev => [...prev, {
-          id: `challenge-${challenge.id}-${Date.now()}`,
-          type: 'achievement',
-          title: challenge.title,
-          message: `Challenge complete! +${challenge.reward} currency`,
-          icon: '🎯',
-          color: '#ffd700',
-          duration: 3000,
-          priority: 4,
-        }]);
-      });
-
       // Update score
       setScore(prev => prev + wordScore);
 
@@ -789,6 +981,20 @@ export default function GameScreen({ level, onMenu, onLevelComplete }: GameScree
     });
   }, [timeRemaining, currentPalette.difficulty]);
 
+  // Keyboard input mode: typed text goes through the same path as a tap
+  // Decoys count as a penalised attempt (DECOY_PENALTY_POINTS), words outside their clickable window as misses
+  const handleTypedWord = useCallback((text: string) => {
+    if (!wordManagerRef.current) return;
+    const target = wordManagerRef.current.findTypedWord(text);
+    if (!target) {
+      handleWordFound('', false);
+    } else if (target.isFake) {
+      handleWordFound('FAKE:' + target.word, false);
+    } else {
+      handleWordFound(target.word, wordManagerRef.current.isWordClickable(target));
+    }
+  }, [handleWordFound]);
+
   const handleGameOver = (victory: boolean) => {
     // Check if hangman is active and not completed - prevent level completion
     if (showHangman && !hangmanCompleted) {
@@ -813,6 +1019,8 @@ export default function GameScreen({ level, onMenu, onLevelComplete }: GameScree
     setIsVictory(victory);
     setGameOver(true);
     setIsPaused(true);
+    playSound(victory ? 'levelComplete' : 'levelFailed');
+    triggerHaptic(victory ? 'victory' : 'gameOver');
 
     if (timerRef.current) {
       clearInterval(timerRef.current);
@@ -860,7 +1068,9 @@ export default function GameScreen({ level, onMenu, onLevelComplete }: GameScree
       currentCorrectFinds,
       levelTime,
       currentPalette.difficulty,
-      level // Pass level for level-based multipliers
+      level, // Pass level for level-based multipliers
+      inputMode,
+      decoyHitsRef.current
     );
 
     // Override accuracy with calculated value to ensure it's correct
@@ -893,6 +1103,56 @@ export default function GameScreen({ level, onMenu, onLevelComplete }: GameScree
       setCumulativeTotalTime(totalTime);
       setCumulativeTotalScore(totalScore);
 
+      // Playtests of custom levels never count towards challenges, stats or leaderboards,
+      // and neither do rounds blocked by another tab
+      if (customLevel || sessionConflictRef.current) return;
+
+      // Feed the round into today's challenges (rewards are claimed from the menu)
+      const completedChallenges = recordRoundResult({
+        wordsFound: final.wordsFound,
+        score: final.finalScore,
+        maxCombo: comboState.maxCombo,
+        accuracy: final.accuracy,
+        victory,
+      });
+      completedChallenges.forEach(challenge => {
+        setNotifications(prev => [...prev, {
+          id: `challenge-${challenge.id}-${Date.now()}`,
+          type: 'achievement',
+          title: challenge.title,
+          message: `Challenge complete! Claim +${challenge.reward} currency in the menu`,
+          icon: '🎯',
+          color: '#ffd700',
+          duration: 3000,
+          priority: 4,
+        }]);
+      });
+
+      // Close the replay recording and store it next to the session
+      const replay = replayRecorderRef.current?.finish(final, victory);
+      replayRecorderRef.current = null;
+      if (replay) {
+        saveReplay(replay);
+        sessionRef.current.replayId = replay.id;
+      }
+
+      // Daily Glitch rounds only count towards the daily leaderboard
+      if (daily) {
+        completeDailyGlitchAttempt(daily.date, {
+          score: final.finalScore,
+          wordsFound: final.wordsFound,
+          accuracy: final.accuracy,
+          victory,
+        });
+        if (replay) {
+          saveDailyGlitchSession(sessionRef.current, replay, daily.date, timeRemaining);
+        }
+        return;
+      }
+
+      // Remember how the round went so the difficulty director can tune the next ones
+      saveRoundPerformance(summarizeRound({ ...sessionRef.current, words }, victory, difficultyAdjustment?.skill));
+
       // Save to storage (this will update totalPlayTime for next level)
       updateStats(sessionRef.current);
       saveScore({
@@ -903,8 +1163,12 @@ export default function GameScreen({ level, onMenu, onLevelComplete }: GameScree
         timestamp: Date.now(),
         accuracy: final.accuracy,
         levelTime: final.levelTime, // Include level time for ranking
+        replayId: replay?.id,
       });
 
+      // Submit the round for server-side score verification (no-op when offline or signed out)
+      saveGameSession(sessionRef.current, replay ?? undefined, timeRemaining);
+
       // Sync currency with updated total score (20:1 ratio)
       const updatedProfile = loadProfile();
       if (updatedProfile) {
@@ -984,6 +1248,54 @@ export default function GameScreen({ level, onMenu, onLevelComplete }: GameScree
     setIsPaused(prev => !prev);
   };
 
+  // Shop power-ups (not offered in the shared Daily Glitch puzzle)
+  const getHintTarget = () => {
+    const now = Date.now();
+    return words.find(w => w.isVisible && !w.found && !w.isFake && (!w.clickableUntil || w.clickableUntil > now));
+  };
+
+  const handleUseHint = () => {
+    const target = getHintTarget();
+    if (!target || !consumeShopItem('hint')) return;
+    setInventory(getInventory());
+    setHintedWord(target.word);
+
+    if (hintTimeoutRef.current) {
+      clearTimeout(hintTimeoutRef.current);
+    }
+    hintTimeoutRef.current = setTimeout(() => setHintedWord(undefined), HINT_DURATION_MS);
+  };
+
+  const handleUseExtraTime = () => {
+    if (timeRemaining === undefined || extraTimeUsed >= MAX_EXTRA_TIME_PER_ROUND) return;
+    if (!consumeShopItem('extra-time')) return;
+    setInventory(getInventory());
+    setExtraTimeUsed(prev => prev + 1);
+    setTimeRemaining(prev => prev === undefined ? prev : prev + EXTRA_TIME_SECONDS);
+    // Recorded so score verification can account for the longer countdown
+    replayRecorderRef.current?.recordExtraTime(EXTRA_TIME_SECONDS);
+  };
+
+  // Returns whether a life was actually used (none may be left, e.g. spent in another tab)
+  const handleUseExtraLife = useCallback((): boolean => {
+    if (!consumeShopItem('hangman-life')) {
+      setInventory(getInventory());
+      return false;
+    }
+    setInventory(getInventory());
+    setNotifications(prev => [...prev, {
+      id: `extra-life-${Date.now()}`,
+      type: 'achievement',
+      title: 'Extra Life Used',
+      message: 'Saved from the last wrong guess!',
+      icon: '♥',
+      color: '#ef5350',
+      duration: 2000,
+      priority: 3,
+    }]);
+    return true;
+  }, []);
+
   const handleContinue = () => {
     if (isVictory) {
       const nextLevel = level + 1;
@@ -995,6 +1307,11 @@ export default function GameScreen({ level, onMenu, onLevelComplete }: GameScree
   };
 
   const handleRetry = () => {
+    // A reload would leave the level editor, so playtests restart through the parent
+    if (customLevel) {
+      onLevelComplete(level);
+      return;
+    }
     window.location.reload();
   };
 
@@ -1030,7 +1347,7 @@ export default function GameScreen({ level, onMenu, onLevelComplete }: GameScree
     }
   }, [notifications, currentNotification]);
 
-  const isBridgeConstructorLevel = useMemo(() => level % 6 === 0, [level]);
+  const isBridgeConstructorLevel = minigame === 'bridge';
 
   // Helper to get exclusion zones (re-implemented to ensure availability)
   const getExclusionZonesLocal = () => {
@@ -1135,7 +1452,8 @@ export default function GameScreen({ level, onMenu, onLevelComplete }: GameScree
             level,
             currentPalette.difficulty,
             charWidth,
-            charHeight
+            charHeight,
+            createLevelRandom(currentLevel.seed, 'schedule-minigame')
           );
 
           // Set the new WordManager
@@ -1211,7 +1529,8 @@ export default function GameScreen({ level, onMenu, onLevelComplete }: GameScree
                   level,
                   currentPalette.difficulty,
                   charWidth,
-                  charHeight
+                  charHeight,
+                  createLevelRandom(currentLevel.seed, 'schedule-minigame')
                 );
 
                 wordManagerRef.current = newWordManager;
@@ -1271,6 +1590,7 @@ export default function GameScreen({ level, onMenu, onLevelComplete }: GameScree
     }
   }, [
     level,
+    currentLevel.seed,
     currentPalette,
     hangmanWords,
     words,
@@ -1299,6 +1619,10 @@ export default function GameScreen({ level, onMenu, onLevelComplete }: GameScree
         palette={currentPalette}
         isHangmanActive={showHangman && !hangmanCompleted}
         hangmanRevealedWords={hangmanRevealedWords}
+        hintedWord={hintedWord}
+        locale={locale}
+        inputMode={inputMode}
+        reducedMotion={reducedMotion}
       />
       <GameHUD
         score={score}
@@ -1314,10 +1638,21 @@ export default function GameScreen({ level, onMenu, onLevelComplete }: GameScree
         currentPaletteId={currentPalette.id}
         isPaused={isPaused}
         isGameOver={gameOver}
-        totalTime={Math.min(30 + (currentLevel.level - 1) * 5, 300)}
+        totalTime={Math.min(30 + (currentLevel.level - 1) * 5, 300) + extraTimeUsed * EXTRA_TIME_SECONDS}
       />
 
       <div className={styles.wordListContainer}>
+        {!daily && !customLevel && (
+          <PowerUpBar
+            palette={currentPalette}
+            hints={inventory.consumables['hint']}
+            extraTime={inventory.consumables['extra-time']}
+            canUseHint={!isPaused && !gameOver && !!getHintTarget()}
+            canUseExtraTime={!isPaused && !gameOver && timeRemaining !== undefined && extraTimeUsed < MAX_EXTRA_TIME_PER_ROUND}
+            onHint={handleUseHint}
+            onExtraTime={handleUseExtraTime}
+          />
+        )}
         <WordList
           words={
             // After hangman completes, only show the words that were in hangman
@@ -1353,24 +1688,58 @@ export default function GameScreen({ level, onMenu, onLevelComplete }: GameScree
                 // Track which words are fully revealed
                 setHangmanRevealedWords(revealedWords);
               }}
+              extraLives={inventory.consumables['hangman-life']}
+              onUseExtraLife={handleUseExtraLife}
+              locale={locale}
             />
           )
         )}
+        {inputMode === 'keyboard' && !(showHangman && !hangmanCompleted) && (
+          <WordInput
+            palette={currentPalette}
+            locale={locale}
+            disabled={isPaused || gameOver}
+            onSubmit={handleTypedWord}
+          />
+        )}
       </div>
       {gameOver && finalScore && (
         <GameOverModal
           score={finalScore}
           level={currentLevel.level}
-          onContinue={handleContinue}
-          onRetry={handleRetry}
+          onContinue={daily || customLevel ? onMenu : handleContinue}
+          onRetry={daily ? undefined : handleRetry}
           onMenu={onMenu}
           isVictory={isVictory}
           palette={currentPalette}
           cumulativeTotalTime={cumulativeTotalTime}
           cumulativeTotalScore={cumulativeTotalScore}
+          difficultyAdjustment={difficultyAdjustment}
         />
       )}
-      {isPaused && !gameOver && (
+      {sessionConflict && !gameOver && (
+        <div className={styles.pauseOverlay}>
+          <div className={styles.pauseModal}>
+            <h2>{sessionConflict === 'busy' ? 'Already Playing' : 'Round Paused'}</h2>
+            <p className={styles.sessionMessage}>{SESSION_CONFLICT_MESSAGES[sessionConflict]}</p>
+            {sessionConflict === 'busy' && (
+              <button
+                className={styles.resumeButton}
+                onClick={handleTakeOver}
+                style={{
+                  background: `linear-gradient(135deg, ${currentPalette.uiColors.primary} 0%, ${currentPalette.uiColors.secondary} 100%)`,
+                }}
+              >
+                Play Here
+              </button>
+            )}
+            <button className={styles.menuButton} onClick={onMenu}>
+              Menu
+            </button>
+          </div>
+        </div>
+      )}
+      {isPaused && !gameOver && !sessionConflict && (
         <div className={styles.pauseOverlay}>
           <div
             className={styles.pauseModal}
@@ -3,6 +3,7 @@
 import React, { useState, useEffect, useMemo, useRef, useCallback } from 'react';
 import { ColorPalette } from '@/lib/colorPalettes';
 import { generateHintsForWords, getProgressiveHint, getLetterFrequencyHint, WordHint } from '@/lib/game/hangmanHints';
+import { GameLocale, GAME_LOCALES } from '@/lib/game/locales';
 import styles from './HangmanHints.module.css';
 
 interface HangmanHintsProps {
@@ -13,6 +14,7 @@ interface HangmanHintsProps {
   palette: ColorPalette;
   gameWon: boolean;
   gameLost: boolean;
+  locale?: GameLocale;
 }
 
 export default function HangmanHints({
@@ -23,6 +25,7 @@ export default function HangmanHints({
   palette,
   gameWon,
   gameLost,
+  locale = GAME_LOCALES.en,
 }: HangmanHintsProps) {
   const [activeHintIndex, setActiveHintIndex] = useState(0);
   const [showLetterHint, setShowLetterHint] = useState(false);
@@ -39,8 +42,8 @@ export default function HangmanHints({
 
   // Generate hints for all words - only when words change
   const wordHints = useMemo(() => {
-    return generateHintsForWords(wordsRef.current);
-  }, [wordsKey]);
+    return generateHintsForWords(wordsRef.current, locale);
+  }, [wordsKey, locale]);
 
   // Convert Set to sorted array for stable memoization
   const guessedLettersArray = useMemo(() => {
@@ -55,8 +58,8 @@ export default function HangmanHints({
 
   // Get letter frequency hint - memoized with stable dependencies
   const letterHints = useMemo(() => {
-    return getLetterFrequencyHint(wordsRef.current, guessedLettersRef.current);
-  }, [wordsKey, guessedLettersArray]);
+    return getLetterFrequencyHint(wordsRef.current, guessedLettersRef.current, locale);
+  }, [wordsKey, guessedLettersArray, locale]);
 
   // Cycle through word hints - slower, smoother transitions
   useEffect(() => {
@@ -102,8 +105,8 @@ export default function HangmanHints({
   // Memoize progressive hint
   const progressiveHint = useMemo(() => {
     if (!currentHint) return '';
-    return getProgressiveHint(currentHint, wrongGuesses, maxWrongGuesses);
-  }, [currentHint, wrongGuesses, maxWrongGuesses]);
+    return getProgressiveHint(currentHint, wrongGuesses, maxWrongGuesses, locale);
+  }, [currentHint, wrongGuesses, maxWrongGuesses, locale]);
 
   // Memoize difficulty color function
   const getDifficultyColor = useCallback((difficulty: 'easy' | 'medium' | 'hard') => {
@@ -3,6 +3,9 @@
 import React, { useState, useEffect, useCallback } from 'react';
 import { GameWord } from '@/types/game';
 import { ColorPalette } from '@/lib/colorPalettes';
+import { GameLocale, GAME_LOCALES, toKeyboardLetter } from '@/lib/game/locales';
+import { playSound } from '@/lib/audio/soundEffects';
+import { triggerHaptic } from '@/lib/haptics';
 import HangmanHints from './HangmanHints';
 import styles from './HangmanMiniGame.module.css';
 
@@ -12,40 +15,46 @@ interface HangmanMiniGameProps {
   onComplete: (success: boolean) => void;
   onLetterRevealed?: (word: string, letter: string) => void;
   onWordsRevealed?: (revealedWords: string[]) => void;
+  extraLives?: number; // Extra lives bought in the shop
+  onUseExtraLife?: () => boolean; // false when no life could be used
+  locale?: GameLocale; // Keyboard alphabet and hint language (English when unset)
 }
 
-const ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ'.split('');
 const MAX_WRONG_GUESSES = 6; // Head, body, left arm, right arm, left leg, right leg
 
-export default function HangmanMiniGame({ words, palette, onComplete, onLetterRevealed, onWordsRevealed }: HangmanMiniGameProps) {
+export default function HangmanMiniGame({ words, palette, onComplete, onLetterRevealed, onWordsRevealed, extraLives = 0, onUseExtraLife, locale = GAME_LOCALES.en }: HangmanMiniGameProps) {
   const [guessedLetters, setGuessedLetters] = useState<Set<string>>(new Set());
   const [wrongGuesses, setWrongGuesses] = useState<number>(0);
   const [gameWon, setGameWon] = useState<boolean>(false);
   const [gameLost, setGameLost] = useState<boolean>(false);
   const canvasRef = React.useRef<HTMLCanvasElement>(null);
+  const alphabet = React.useMemo(() => locale.letters.split(''), [locale]);
+
+  // Keyboard letters of a word; accented letters map to the key that reveals them
+  const getWordKeys = useCallback((word: string) => {
+    return word.split('')
+      .map(char => toKeyboardLetter(char, locale))
+      .filter((letter): letter is string => letter !== null);
+  }, [locale]);
 
   // Get all unique letters from all words
   const allLetters = React.useMemo(() => {
     const letters = new Set<string>();
     words.forEach(word => {
-      word.word.toUpperCase().split('').forEach(letter => {
-        if (letter.match(/[A-Z]/)) {
-          letters.add(letter);
-        }
-      });
+      getWordKeys(word.word).forEach(letter => letters.add(letter));
     });
     return Array.from(letters);
-  }, [words]);
+  }, [words, getWordKeys]);
 
   // Track fully revealed words
   const [previousRevealedCount, setPreviousRevealedCount] = useState(0);
   
   const fullyRevealedWords = React.useMemo(() => {
     return words.filter(word => {
-      const wordLetters = word.word.toUpperCase().split('').filter(l => l.match(/[A-Z]/));
+      const wordLetters = getWordKeys(word.word);
       return wordLetters.length > 0 && wordLetters.every(letter => guessedLetters.has(letter));
     }).map(w => w.word);
-  }, [words, guessedLetters]);
+  }, [words, guessedLetters, getWordKeys]);
 
   // Notify when NEW words are fully revealed (not on every render)
   useEffect(() => {
@@ -177,29 +186,33 @@ export default function HangmanMiniGame({ words, palette, onComplete, onLetterRe
 
     // Check if letter is in any word
     const isCorrect = words.some(word => 
-      word.word.toUpperCase().includes(letter)
+      getWordKeys(word.word).includes(letter)
     );
 
+    playSound(isCorrect ? 'hangmanCorrect' : 'hangmanWrong');
+    triggerHaptic(isCorrect ? 'wordFound' : 'miss');
+
     if (isCorrect) {
       // Reveal letter in all words
       if (onLetterRevealed) {
         words.forEach(word => {
-          if (word.word.toUpperCase().includes(letter)) {
+          if (getWordKeys(word.word).includes(letter)) {
             onLetterRevealed(word.word, letter);
           }
         });
       }
     } else {
-      // Wrong guess - increment wrong guesses
-      setWrongGuesses(prev => prev + 1);
+      // An extra life absorbs the guess that would end the game; without one the wrong guess counts
+      const savedByLife = wrongGuesses + 1 >= MAX_WRONG_GUESSES && extraLives > 0 && !!onUseExtraLife?.();
+      if (!savedByLife) setWrongGuesses(prev => prev + 1);
     }
-  }, [guessedLetters, gameWon, gameLost, words, onLetterRevealed]);
+  }, [guessedLetters, gameWon, gameLost, words, getWordKeys, onLetterRevealed, wrongGuesses, extraLives, onUseExtraLife]);
 
   // Render word with blur for unguessed letters
   const renderWord = (word: GameWord) => {
     return word.word.split('').map((char, index) => {
-      const upperChar = char.toUpperCase();
-      const isGuessed = guessedLetters.has(upperChar) || !upperChar.match(/[A-Z]/);
+      const key = toKeyboardLetter(char, locale);
+      const isGuessed = !key || guessedLetters.has(key);
       
       return (
         <span
@@ -226,6 +239,7 @@ export default function HangmanMiniGame({ words, palette, onComplete, onLetterRe
           {!gameWon && !gameLost && (
             <span className={styles.guessesRemaining}>
               Wrong: {wrongGuesses}/{MAX_WRONG_GUESSES}
+              {extraLives > 0 && ` · ♥ ${extraLives}`}
             </span>
           )}
         </div>
@@ -242,6 +256,7 @@ export default function HangmanMiniGame({ words, palette, onComplete, onLetterRe
           palette={palette}
           gameWon={gameWon}
           gameLost={gameLost}
+          locale={locale}
         />
 
         {/* Center Panel: Hangman display and hidden words */}
@@ -263,7 +278,7 @@ export default function HangmanMiniGame({ words, palette, onComplete, onLetterRe
 
         {/* Right Side: Letter keyboard */}
         <div className={styles.letterKeyboard}>
-          {ALPHABET.map(letter => {
+          {alphabet.map(letter => {
             const isGuessed = guessedLetters.has(letter);
             const isWrong = isGuessed && !allLetters.includes(letter);
             const isCorrect = isGuessed && allLetters.includes(letter);
@@ -1,11 +1,24 @@
 'use client';
 
 import React, { useEffect, useRef, forwardRef, useImperativeHandle, useCallback } from 'react';
-import { Level, GameWord } from '@/types/game';
+import { Level, GameWord, InputMode } from '@/types/game';
 import { CHAR_WIDTH, CHAR_HEIGHT, FONT_SIZE } from '@/lib/constants';
 import { ColorPalette, getPalette, DEFAULT_PALETTE_ID } from '@/lib/colorPalettes';
 import { getTextSizingForDifficulty } from '@/lib/game/difficulty';
 import { generateAdaptiveColorSet, interpolateColor } from '@/lib/colorUtils';
+import { GameLocale, getFillerCharacters } from '@/lib/game/locales';
+import {
+  GridCell,
+  getWordCells,
+  isWordInBounds,
+  isPointOnWord,
+  getSwipeCells,
+  isSwipeOnWord,
+  SwipePath,
+} from '@/lib/game/orientation';
+
+// Filler letters change this many times slower with reduced motion
+const REDUCED_MOTION_SLOWDOWN = 3;
 
 // Get word color from palette (will be set dynamically)
 let currentPalette: ColorPalette = getPalette(DEFAULT_PALETTE_ID);
@@ -180,7 +193,7 @@ const getGlowProperties = (level: number) => {
 interface LetterGlitchProps {
   level: Level;
   words: GameWord[];
-  onWordFound: (word: string, isCorrectClick: boolean) => void;
+  onWordFound: (word: string, isCorrectClick: boolean, point?: { x: number; y: number }, swipe?: SwipePath) => void;
   isPaused: boolean;
   timeRemaining?: number;
   glitchColors?: string[];
@@ -188,6 +201,10 @@ interface LetterGlitchProps {
   menuDisplayWords?: string[]; // Words to randomly display in menu screen (e.g., ["WORD GLITCH", "by PGT"])
   hangmanRevealedWords?: string[]; // Words fully revealed in hangman mini-game
   isHangmanActive?: boolean; // Whether hangman mini-game is active
+  hintedWord?: string; // Word marked by a hint reveal bought in the shop
+  locale?: GameLocale; // Alphabet of the filler letters (English when unset)
+  inputMode?: InputMode; // Tap near a word, drag across its letters, or type it (canvas ignores pointers)
+  reducedMotion?: boolean; // Slower filler changes and no letter scatter (accessibility setting)
 }
 
 interface Letter {
@@ -216,7 +233,7 @@ export interface LetterGlitchHandle {
 }
 
 const LetterGlitch = forwardRef<LetterGlitchHandle, LetterGlitchProps>(
-  ({ level, words, onWordFound, isPaused, timeRemaining, glitchColors, palette, menuDisplayWords, hangmanRevealedWords = [], isHangmanActive = false }, ref) => {
+  ({ level, words, onWordFound, isPaused, timeRemaining, glitchColors, palette, menuDisplayWords, hangmanRevealedWords = [], isHangmanActive = false, hintedWord, locale, inputMode = 'tap', reducedMotion = false }, ref) => {
     const canvasRef = useRef<HTMLCanvasElement | null>(null);
     const contextRef = useRef<CanvasRenderingContext2D | null>(null);
     const lettersRef = useRef<Letter[]>([]);
@@ -229,6 +246,16 @@ const LetterGlitch = forwardRef<LetterGlitchHandle, LetterGlitchProps>(
     // Menu display words system
     const menuWordRef = useRef<{ word: string; startCol: number; startRow: number; visibleUntil: number } | null>(null);
     const lastMenuWordTimeRef = useRef<number>(0);
+    // Read by the animation loop, which keeps the closure of its first render
+    const hintedWordRef = useRef<string | undefined>(hintedWord);
+    hintedWordRef.current = hintedWord;
+    const reducedMotionRef = useRef(reducedMotion);
+    reducedMotionRef.current = reducedMotion;
+    // Filler characters follow the locale of the current word pack
+    const fillerCharactersRef = useRef(getFillerCharacters(locale));
+    fillerCharactersRef.current = getFillerCharacters(locale);
+    // Cells of the drag in progress (swipe mode), drawn by the animation loop
+    const swipeRef = useRef<SwipePath | null>(null);
     
     // Use palette colors if provided, otherwise use glitchColors prop, otherwise default
     const activePalette = palette || getPalette(DEFAULT_PALETTE_ID);
@@ -333,7 +360,7 @@ const LetterGlitch = forwardRef<LetterGlitchHandle, LetterGlitchProps>(
       const rows = rowsRef.current;
       const letters: Letter[] = [];
 
-      const characters = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ!@#$&*()-_+=/[]{};:<>.,0123456789Ω';
+      const characters = fillerCharactersRef.current;
       
       // Use current palette colors from ref (always up-to-date)
       const colors = originalColorsRef.current;
@@ -539,8 +566,8 @@ const LetterGlitch = forwardRef<LetterGlitchHandle, LetterGlitchProps>(
           // Found words - freeze these letters but keep others animating
           // Use palette's hidden word color for found words (slightly brighter)
           const foundColor = activePalette.hiddenWordColor;
-          for (let i = 0; i < word.word.length; i++) {
-            const index = word.startRow * cols + (word.startCol + i);
+          getWordCells(word).forEach(({ col, row }, i) => {
+            const index = row * cols + col;
             if (index >= 0 && index < letters.length) {
               letters[index].isFrozen = true;
               letters[index].frozenText = word.word;
@@ -550,7 +577,7 @@ const LetterGlitch = forwardRef<LetterGlitchHandle, LetterGlitchProps>(
               letters[index].colorProgress = 1;
               letters[index].isVisibleWord = false; // Found words are frozen, not visible words
             }
-          }
+          });
         } else if (word.isVisible) {
           // If hangman is active, only show words that are fully revealed
           if (isHangmanActive && !hangmanRevealedWords.includes(word.word)) {
@@ -609,8 +636,8 @@ const LetterGlitch = forwardRef<LetterGlitchHandle, LetterGlitchProps>(
             }
           }
           
-          for (let i = 0; i < word.word.length; i++) {
-            const index = word.startRow * cols + (word.startCol + i);
+          getWordCells(word).forEach(({ col, row }, i) => {
+            const index = row * cols + col;
             if (index >= 0 && index < letters.length && !letters[index].isFrozen) {
               letters[index].char = word.word[i];
               letters[index].color = vibrantColor;
@@ -619,7 +646,7 @@ const LetterGlitch = forwardRef<LetterGlitchHandle, LetterGlitchProps>(
               letters[index].isVisibleWord = true; // Mark as part of visible word
               letters[index].visibleWordText = word.word; // Track which word
             }
-          }
+          });
         }
       });
     };
@@ -656,7 +683,8 @@ const LetterGlitch = forwardRef<LetterGlitchHandle, LetterGlitchProps>(
       const now = Date.now();
       const timeSinceLastUpdate = now - lastUpdateRef.current;
 
-      if (isPaused || timeSinceLastUpdate < level.glitchSpeed) {
+      const glitchInterval = level.glitchSpeed * (reducedMotionRef.current ? REDUCED_MOTION_SLOWDOWN : 1);
+      if (isPaused || timeSinceLastUpdate < glitchInterval) {
         return;
       }
 
@@ -766,7 +794,7 @@ const LetterGlitch = forwardRef<LetterGlitchHandle, LetterGlitchProps>(
       const updateRate = isMobile ? baseUpdateRate * 0.7 : baseUpdateRate; // 30% fewer updates on mobile
       const updateCount = Math.max(1, Math.floor(letters.length * updateRate));
 
-      const characters = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ!@#$&*()-_+=/[]{};:<>.,0123456789Ω';
+      const characters = fillerCharactersRef.current;
       const colors = originalColorsRef.current;
 
       for (let i = 0; i < updateCount; i++) {
@@ -952,13 +980,12 @@ const LetterGlitch = forwardRef<LetterGlitchHandle, LetterGlitchProps>(
         // First pass: collect positions and calculate bounds
         // Validate word position is within bounds
         const currentRows = rowsRef.current;
-        if (word.startCol < 0 || word.startCol + word.word.length > cols ||
-            word.startRow < 0 || word.startRow >= currentRows) {
+        if (!isWordInBounds(word, cols, 0, currentRows)) {
           return; // Skip words that are out of bounds
         }
         
-        for (let i = 0; i < word.word.length; i++) {
-          const index = word.startRow * cols + (word.startCol + i);
+        for (const cell of getWordCells(word)) {
+          const index = cell.row * cols + cell.col;
           if (index < 0 || index >= letters.length) continue;
           
           const letter = letters[index];
@@ -1001,6 +1028,29 @@ const LetterGlitch = forwardRef<LetterGlitchHandle, LetterGlitchProps>(
           const boxY = minY - padding;
           const boxWidth = (maxX - minX) + (padding * 2);
           const boxHeight = (maxY - minY) + (padding * 2);
+
+          // Diagonal words get a frame rotated along the word instead of their bounding box
+          const firstPosition = wordPositions[0];
+          const lastPosition = wordPositions[wordPositions.length - 1];
+          const isDiagonal = word.orientation === 'diagonal' && wordPositions.length > 1;
+          // Callers wrap this in ctx.save()/restore(), which also undoes the rotation
+          const drawWordFrame = (mode: 'fill' | 'stroke', grow: number = 0) => {
+            let rect = [boxX - grow, boxY - grow, boxWidth + grow * 2, boxHeight + grow * 2] as const;
+            if (isDiagonal) {
+              const dx = lastPosition.x - firstPosition.x;
+              const dy = lastPosition.y - firstPosition.y;
+              const frameLength = Math.sqrt(dx * dx + dy * dy) + charWidth + (padding + grow) * 2;
+              const frameThickness = charHeight + (padding + grow) * 2;
+              ctx.translate(firstPosition.x + dx / 2 + charWidth / 2, firstPosition.y + dy / 2 + charHeight / 2);
+              ctx.rotate(Math.atan2(dy, dx));
+              rect = [-frameLength / 2, -frameThickness / 2, frameLength, frameThickness] as const;
+            }
+            if (mode === 'fill') {
+              ctx.fillRect(...rect);
+            } else {
+              ctx.strokeRect(...rect);
+            }
+          };
           
           // Convert vibrant color to rgba for background
           const hex = vibrantColor.replace('#', '');
@@ -1019,7 +1069,7 @@ const LetterGlitch = forwardRef<LetterGlitchHandle, LetterGlitchProps>(
           ctx.fillStyle = `rgba(${r}, ${g}, ${b}, ${0.25 * pulseIntensity * urgencyPulse})`;
           ctx.shadowBlur = isClickable ? 20 * urgencyPulse : 15;
           ctx.shadowColor = vibrantColor;
-          ctx.fillRect(boxX, boxY, boxWidth, boxHeight);
+          drawWordFrame('fill');
           ctx.restore();
           
           // Draw border outline around word (pulsing when clickable)
@@ -1036,7 +1086,7 @@ const LetterGlitch = forwardRef<LetterGlitchHandle, LetterGlitchProps>(
               ctx.shadowBlur = isClickable ? glowBlur * urgencyPulse : glowBlur * pulseIntensity;
               ctx.shadowColor = glowColor;
             }
-            ctx.strokeRect(boxX, boxY, boxWidth, boxHeight);
+            drawWordFrame('stroke');
             ctx.restore();
           } else {
             // Fallback to default outline
@@ -1046,7 +1096,20 @@ const LetterGlitch = forwardRef<LetterGlitchHandle, LetterGlitchProps>(
             ctx.globalAlpha = Math.max(0.4, Math.min(0.9, glowProps.opacity * 0.8 * pulseIntensity * urgencyPulse));
             ctx.shadowBlur = isClickable ? 12 * urgencyPulse : 8;
             ctx.shadowColor = vibrantColor;
-            ctx.strokeRect(boxX, boxY, boxWidth, boxHeight);
+            drawWordFrame('stroke');
+            ctx.restore();
+          }
+
+          // Hint reveal: dashed accent frame around the real word
+          if (hintedWordRef.current === word.word) {
+            ctx.save();
+            ctx.strokeStyle = activePalette.uiColors.accent;
+            ctx.lineWidth = 3;
+            ctx.setLineDash([6, 4]);
+            ctx.lineDashOffset = -(now / 40) % 10;
+            ctx.shadowBlur = 20;
+            ctx.shadowColor = activePalette.uiColors.accent;
+            drawWordFrame('stroke', 4);
             ctx.restore();
           }
           
@@ -1194,6 +1257,26 @@ const LetterGlitch = forwardRef<LetterGlitchHandle, LetterGlitchProps>(
         ctx.fillText(letter.char, x, y);
         ctx.restore();
       });
+
+      // Swipe path: a rounded band over the selected letters
+      const swipe = swipeRef.current;
+      if (swipe) {
+        const swipeCells = getSwipeCells(swipe.from, swipe.to);
+        const first = swipeCells[0];
+        const last = swipeCells[swipeCells.length - 1];
+        ctx.save();
+        ctx.strokeStyle = activePalette.uiColors.accent;
+        ctx.globalAlpha = 0.35;
+        ctx.lineWidth = charHeight * 0.9;
+        ctx.lineCap = 'round';
+        ctx.shadowBlur = 12;
+        ctx.shadowColor = activePalette.uiColors.accent;
+        ctx.beginPath();
+        ctx.moveTo((first.col + 0.5) * charWidth, (first.row + 0.5) * charHeight);
+        ctx.lineTo((last.col + 0.5) * charWidth, (last.row + 0.5) * charHeight);
+        ctx.stroke();
+        ctx.restore();
+      }
     };
 
     // Smooth transitions
@@ -1256,10 +1339,10 @@ const LetterGlitch = forwardRef<LetterGlitchHandle, LetterGlitchProps>(
       };
     }, [isPaused, level]);
 
-    // Unified click/touch handler - works for both mouse and touch
-    const handlePointer = (clientX: number, clientY: number) => {
+    // Convert a pointer position to canvas coordinates, or null over the UI areas
+    const getCanvasPoint = (clientX: number, clientY: number): { x: number; y: number } | null => {
       const canvas = canvasRef.current;
-      if (!canvas || isPaused) return;
+      if (!canvas || isPaused) return null;
 
       const rect = canvas.getBoundingClientRect();
       // Calculate coordinates in CSS pixel space (logical coordinates)
@@ -1306,9 +1389,19 @@ const LetterGlitch = forwardRef<LetterGlitchHandle, LetterGlitchProps>(
       const canvasHeight = rect.height;
       
       if (clickY < finalTopExclusion || clickY > canvasHeight - finalBottomExclusion) {
-        return; // Click is in UI area, ignore
+        return null; // Click is in UI area, ignore
       }
 
+      return { x: clickX, y: clickY };
+    };
+
+    // Unified click/touch handler - works for both mouse and touch
+    const handlePointer = (clientX: number, clientY: number) => {
+      if (inputMode === 'keyboard') return; // Words are typed in the word input
+      const point = getCanvasPoint(clientX, clientY);
+      if (!point) return;
+      const { x: clickX, y: clickY } = point;
+
       // Get current sizing (always up-to-date from ref)
       const currentSizing = sizingRef.current;
       const charWidth = currentSizing.charWidth;
@@ -1329,23 +1422,13 @@ const LetterGlitch = forwardRef<LetterGlitchHandle, LetterGlitchProps>(
           continue; // Skip words not revealed in hangman
         }
         
-        const textStartX = word.startCol * charWidth - paddingX;
-        const textEndX = (word.startCol + word.word.length) * charWidth + paddingX;
-        const textStartY = word.startRow * charHeight - paddingY;
-        const textEndY = (word.startRow + 1) * charHeight + paddingY;
-
-        // Check if click is within this word's bounds
-        if (
-          clickX >= textStartX &&
-          clickX <= textEndX &&
-          clickY >= textStartY &&
-          clickY <= textEndY
-        ) {
+        // Check if click is within this word's bounds (along its orientation)
+        if (isPointOnWord(word, clickX, clickY, charWidth, charHeight, paddingX, paddingY)) {
           // Check if this is a fake word
           if (word.isFake) {
             // Fake word clicked - always count as a miss/penalty
             // Pass the word text with a special flag (prepend with special marker)
-            onWordFound('FAKE:' + word.word, false);
+            onWordFound('FAKE:' + word.word, false, { x: clickX, y: clickY });
             foundClickableWord = true;
             break;
           }
@@ -1357,11 +1440,11 @@ const LetterGlitch = forwardRef<LetterGlitchHandle, LetterGlitchProps>(
           
           if (isClickable) {
             // Correct click - word is clickable and not fake
-            onWordFound(word.word, true);
+            onWordFound(word.word, true, { x: clickX, y: clickY });
             foundClickableWord = true;
           } else {
             // Miss - clicked on word but it's not clickable (too early/late)
-            onWordFound(word.word, false);
+            onWordFound(word.word, false, { x: clickX, y: clickY });
             foundClickableWord = true;
           }
           break;
@@ -1370,14 +1453,83 @@ const LetterGlitch = forwardRef<LetterGlitchHandle, LetterGlitchProps>(
       
       // If no word was clicked, it's a miss
       if (!foundClickableWord) {
-        onWordFound('', false);
+        onWordFound('', false, { x: clickX, y: clickY });
       }
     };
 
+    // Swipe mode: grid cell under a canvas point
+    const getCellAt = (x: number, y: number): GridCell => {
+      const { charWidth, charHeight } = sizingRef.current;
+      return { col: Math.floor(x / charWidth), row: Math.floor(y / charHeight) };
+    };
+
+    const startSwipe = (clientX: number, clientY: number) => {
+      const point = getCanvasPoint(clientX, clientY);
+      if (!point) return;
+      const cell = getCellAt(point.x, point.y);
+      swipeRef.current = { from: cell, to: cell };
+    };
+
+    const moveSwipe = (clientX: number, clientY: number) => {
+      const canvas = canvasRef.current;
+      if (!canvas || !swipeRef.current) return;
+      // The drag may pass over the UI areas; only the start has to be on the matrix
+      const rect = canvas.getBoundingClientRect();
+      swipeRef.current = { ...swipeRef.current, to: getCellAt(clientX - rect.left, clientY - rect.top) };
+    };
+
+    // Check the dragged cells against the visible words
+    // Partial or wrong drags are misses, just like taps on empty space
+    const endSwipe = () => {
+      const swipe = swipeRef.current;
+      swipeRef.current = null;
+      if (!swipe || isPaused) return;
+
+      const cells = getSwipeCells(swipe.from, swipe.to);
+      const { charWidth, charHeight } = sizingRef.current;
+      const lastCell = cells[cells.length - 1];
+      const point = { x: (lastCell.col + 0.5) * charWidth, y: (lastCell.row + 0.5) * charHeight };
+
+      for (const word of words) {
+        if (!word.isVisible || word.found) continue;
+        if (isHangmanActive && !hangmanRevealedWords.includes(word.word)) continue;
+        if (!isSwipeOnWord(word, cells)) continue;
+
+        if (word.isFake) {
+          onWordFound('FAKE:' + word.word, false, point, swipe);
+          return;
+        }
+        const now = Date.now();
+        const isClickable = !!word.clickableAt && !!word.clickableUntil &&
+                           now >= word.clickableAt && now <= word.clickableUntil;
+        onWordFound(word.word, isClickable, point, swipe);
+        return;
+      }
+
+      onWordFound('', false, point, swipe);
+    };
+
+    const handleMouseDown = (e: React.MouseEvent<HTMLCanvasElement>) => {
+      if (inputMode !== 'swipe') return;
+      e.preventDefault();
+      startSwipe(e.clientX, e.clientY);
+    };
+
+    const handleMouseMove = (e: React.MouseEvent<HTMLCanvasElement>) => {
+      if (inputMode !== 'swipe') return;
+      moveSwipe(e.clientX, e.clientY);
+    };
+
+    const handleMouseUp = () => {
+      if (inputMode !== 'swipe') return;
+      endSwipe();
+    };
+
     // Mouse click handler
     const handleCanvasClick = (e: React.MouseEvent<HTMLCanvasElement>) => {
       e.preventDefault();
       e.stopPropagation();
+      if (inputMode === 'swipe') return; // Handled by the mouse down/up pair
       handlePointer(e.clientX, e.clientY);
     };
 
@@ -1387,16 +1539,28 @@ const LetterGlitch = forwardRef<LetterGlitchHandle, LetterGlitchProps>(
       e.stopPropagation();
       const touch = e.touches[0] || e.changedTouches[0];
       if (!touch) return;
+      if (inputMode === 'swipe') {
+        startSwipe(touch.clientX, touch.clientY);
+        return;
+      }
       handlePointer(touch.clientX, touch.clientY);
     };
     
     // Prevent default touch behaviors to avoid scrolling/zooming
     const handleTouchMove = (e: React.TouchEvent<HTMLCanvasElement>) => {
       e.preventDefault();
+      const touch = e.touches[0];
+      if (inputMode === 'swipe' && touch) {
+        moveSwipe(touch.clientX, touch.clientY);
+      }
     };
     
     const handleTouchEnd = (e: React.TouchEvent<HTMLCanvasElement>) => {
       e.preventDefault();
+      if (inputMode === 'swipe') {
+        endSwipe();
+        return;
+      }
       // Handle touch end as well for better mobile support
       const touch = e.changedTouches[0];
       if (touch) {
@@ -1412,7 +1576,7 @@ const LetterGlitch = forwardRef<LetterGlitchHandle, LetterGlitchProps>(
         glitchEndTimeRef.current = Date.now() + duration;
 
         const letters = lettersRef.current;
-        const characters = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ!@#$&*()-_+=/[]{};:<>.,0123456789Ω';
+        const characters = fillerCharactersRef.current;
         letters.forEach(letter => {
           if (!letter.isFrozen) {
             letter.char = characters[Math.floor(Math.random() * characters.length)];
@@ -1455,10 +1619,11 @@ const LetterGlitch = forwardRef<LetterGlitchHandle, LetterGlitchProps>(
 
         const letters = lettersRef.current;
         const currentSizing = sizingRef.current;
+        const hoverIntensity = reducedMotionRef.current ? 0 : 4;
         letters.forEach(letter => {
           if (!letter.isFrozen) {
-            letter.targetOffsetX = (Math.random() - 0.5) * currentSizing.charWidth * 4;
-            letter.targetOffsetY = (Math.random() - 0.5) * currentSizing.charHeight * 4;
+            letter.targetOffsetX = (Math.random() - 0.5) * currentSizing.charWidth * hoverIntensity;
+            letter.targetOffsetY = (Math.random() - 0.5) * currentSizing.charHeight * hoverIntensity;
             letter.offsetProgress = 0;
           }
         });
@@ -1502,8 +1667,9 @@ const LetterGlitch = forwardRef<LetterGlitchHandle, LetterGlitchProps>(
         glitchEndTimeRef.current = Date.now() + duration;
 
         const letters = lettersRef.current;
-        const characters = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ!@#$&*()-_+=/[]{};:<>.,0123456789Ω';
-        const scrambleIntensity = 8; // Character widths to scatter (stronger than hover)
+        const characters = fillerCharactersRef.current;
+        // Character widths to scatter (stronger than hover), characters still change with reduced motion
+        const scrambleIntensity = reducedMotionRef.current ? 0 : 8;
         const currentSizing = sizingRef.current;
 
         letters.forEach(letter => {
@@ -1608,6 +1774,10 @@ const LetterGlitch = forwardRef<LetterGlitchHandle, LetterGlitchProps>(
           key={`canvas-${activePalette.difficulty}-${activePalette.id}-${level.level}`}
           ref={canvasRef}
           onClick={handleCanvasClick}
+          onMouseDown={handleMouseDown}
+          onMouseMove={handleMouseMove}
+          onMouseUp={handleMouseUp}
+          onMouseLeave={handleMouseUp}
           onTouchStart={handleTouchStart}
           onTouchMove={handleTouchMove}
           onTouchEnd={handleTouchEnd}
@@ -1615,7 +1785,7 @@ const LetterGlitch = forwardRef<LetterGlitchHandle, LetterGlitchProps>(
             display: 'block',
             width: '100%',
             height: '100%',
-            cursor: 'pointer',
+            cursor: inputMode === 'swipe' ? 'crosshair' : inputMode === 'keyboard' ? 'default' : 'pointer',
             userSelect: 'none',
             WebkitUserSelect: 'none',
             touchAction: 'none',
@@ -0,0 +1,65 @@
+'use client';
+
+import React from 'react';
+import { ColorPalette } from '@/lib/colorPalettes';
+import { EXTRA_TIME_SECONDS } from '@/lib/shop';
+import { SearchIcon, ClockIcon } from '../UI/GameIcons';
+import styles from './PowerUpBar.module.css';
+
+interface PowerUpBarProps {
+  palette: ColorPalette;
+  hints: number;
+  extraTime: number;
+  canUseHint: boolean;
+  canUseExtraTime: boolean; // Timed round with uses left this round
+  onHint: () => void;
+  onExtraTime: () => void;
+}
+
+export default function PowerUpBar({
+  palette,
+  hints,
+  extraTime,
+  canUseHint,
+  canUseExtraTime,
+  onHint,
+  onExtraTime,
+}: PowerUpBarProps) {
+  if (hints === 0 && extraTime === 0) return null;
+
+  const buttonStyle = (enabled: boolean): React.CSSProperties => ({
+    borderColor: enabled ? palette.uiColors.primary : 'rgba(255, 255, 255, 0.2)',
+    color: enabled ? palette.uiColors.text : 'rgba(255, 255, 255, 0.4)',
+  });
+
+  return (
+    <div className={styles.powerUpBar}>
+      {hints > 0 && (
+        <button
+          className={styles.powerUp}
+          onClick={onHint}
+          disabled={!canUseHint}
+          style={buttonStyle(canUseHint)}
+          title="Reveal a real word on screen"
+        >
+          <SearchIcon size={16} />
+          <span>Hint</span>
+          <span className={styles.count} style={{ background: palette.uiColors.primary }}>{hints}</span>
+        </button>
+      )}
+      {extraTime > 0 && (
+        <button
+          className={styles.powerUp}
+          onClick={onExtraTime}
+          disabled={!canUseExtraTime}
+          style={buttonStyle(canUseExtraTime)}
+          title={`Add ${EXTRA_TIME_SECONDS} seconds to the countdown`}
+        >
+          <ClockIcon size={16} />
+          <span>+{EXTRA_TIME_SECONDS}s</span>
+          <span className={styles.count} style={{ background: palette.uiColors.primary }}>{extraTime}</span>
+        </button>
+      )}
+    </div>
+  );
+}
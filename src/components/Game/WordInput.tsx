@@ -0,0 +1,113 @@
+'use client';
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { ColorPalette } from '@/lib/colorPalettes';
+import { GameLocale, toKeyboardLetter } from '@/lib/game/locales';
+import styles from './WordInput.module.css';
+
+const MAX_INPUT_LENGTH = 20;
+
+interface WordInputProps {
+  palette: ColorPalette;
+  locale: GameLocale;
+  disabled?: boolean;
+  onSubmit: (text: string) => void;
+}
+
+/**
+ * Keyboard input mode: type the word you see instead of tapping it
+ * Listens to the physical keyboard and offers on-screen keys on touch devices
+ */
+export default function WordInput({ palette, locale, disabled = false, onSubmit }: WordInputProps) {
+  const [text, setText] = useState('');
+
+  const addLetter = useCallback((letter: string) => {
+    setText(prev => (prev.length < MAX_INPUT_LENGTH ? prev + letter : prev));
+  }, []);
+
+  const removeLetter = useCallback(() => {
+    setText(prev => prev.slice(0, -1));
+  }, []);
+
+  const submit = useCallback(() => {
+    if (text) onSubmit(text);
+    setText('');
+  }, [text, onSubmit]);
+
+  // Physical keyboard
+  useEffect(() => {
+    if (disabled) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.ctrlKey || e.metaKey || e.altKey) return;
+      const target = e.target as HTMLElement | null;
+      if (target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable)) return;
+
+      if (e.key === 'Enter') {
+        e.preventDefault();
+        submit();
+      } else if (e.key === 'Backspace') {
+        e.preventDefault();
+        removeLetter();
+      } else if (e.key === 'Escape') {
+        setText('');
+      } else if (e.key.length === 1 && /\p{L}/u.test(e.key)) {
+        // Accented letters are kept as typed, matching ignores accents anyway
+        e.preventDefault();
+        addLetter(e.key.toLocaleUpperCase());
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [disabled, submit, removeLetter, addLetter]);
+
+  // Clear half-typed words while paused
+  useEffect(() => {
+    if (disabled) setText('');
+  }, [disabled]);
+
+  const keyStyle: React.CSSProperties = {
+    borderColor: palette.uiColors.primary,
+    color: palette.uiColors.text,
+  };
+
+  return (
+    <div className={styles.wordInput}>
+      <div
+        className={styles.display}
+        style={{ borderColor: palette.uiColors.primary, color: palette.uiColors.text }}
+        aria-live="polite"
+        aria-label="Typed word"
+      >
+        {text || <span className={styles.placeholder}>Type a word you see…</span>}
+        {!disabled && <span className={styles.caret} style={{ background: palette.uiColors.accent }} />}
+      </div>
+      <div className={styles.keys}>
+        {locale.letters.split('').map(letter => (
+          <button
+            key={letter}
+            className={styles.key}
+            style={keyStyle}
+            disabled={disabled}
+            onClick={() => addLetter(toKeyboardLetter(letter, locale) ?? letter)}
+          >
+            {letter}
+          </button>
+        ))}
+        <button className={`${styles.key} ${styles.wideKey}`} style={keyStyle} disabled={disabled} onClick={removeLetter} aria-label="Delete letter">
+          ⌫
+        </button>
+        <button
+          className={`${styles.key} ${styles.wideKey}`}
+          style={{ ...keyStyle, background: palette.uiColors.primary, color: '#000' }}
+          disabled={disabled}
+          onClick={submit}
+          aria-label="Submit word"
+        >
+          ↵
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -1,10 +1,17 @@
 'use client';
 
 import React, { useState, useEffect } from 'react';
-import { getGlobalLeaderboard, getUserRank, LeaderboardEntry } from '@/lib/firebase/leaderboard';
+import { getGlobalLeaderboard, getUserRank, LeaderboardEntry, LeaderboardPeriod } from '@/lib/firebase/leaderboard';
 import { useFirebaseSync } from '@/hooks/useFirebaseSync';
 import styles from './GlobalLeaderboard.module.css';
 
+const PERIOD_TABS: { period: LeaderboardPeriod; label: string }[] = [
+    { period: 'daily', label: 'TODAY' },
+    { period: 'weekly', label: 'THIS WEEK' },
+    { period: 'monthly', label: 'THIS MONTH' },
+    { period: 'allTime', label: 'ALL TIME' },
+];
+
 interface GlobalLeaderboardProps {
     palette: any;
     onClose?: () => void;
@@ -16,22 +23,23 @@ export default function GlobalLeaderboard({ palette, onClose }: GlobalLeaderboar
     const [userRank, setUserRank] = useState<number | null>(null);
     const [loading, setLoading] = useState(true);
     const [filter, setFilter] = useState<'score' | 'level'>('score');
+    const [period, setPeriod] = useState<LeaderboardPeriod>('allTime');
     const [limit, setLimit] = useState(50);
 
     useEffect(() => {
         loadLeaderboard();
-    }, [filter, limit]);
+    }, [filter, limit, period]);
 
     useEffect(() => {
         if (user) {
             loadUserRank();
         }
-    }, [user]);
+    }, [user, period]);
 
     const loadLeaderboard = async () => {
         setLoading(true);
         try {
-            const data = await getGlobalLeaderboard(limit);
+            const data = await getGlobalLeaderboard(limit, period);
             setLeaderboard(data);
         } catch (error) {
             console.error('Failed to load leaderboard:', error);
@@ -43,7 +51,7 @@ export default function GlobalLeaderboard({ palette, onClose }: GlobalLeaderboar
     const loadUserRank = async () => {
         if (!user) return;
         try {
-            const rank = await getUserRank(user.uid);
+            const rank = await getUserRank(user.uid, period);
             setUserRank(rank);
         } catch (error) {
             console.error('Failed to load user rank:', error);
@@ -101,6 +109,23 @@ export default function GlobalLeaderboard({ palette, onClose }: GlobalLeaderboar
                     </div>
                 )}
 
+                {/* Period Tabs */}
+                <div className={styles.periodTabs}>
+                    {PERIOD_TABS.map(tab => (
+                        <button
+                            key={tab.period}
+                            className={`${styles.periodTab} ${period === tab.period ? styles.active : ''}`}
+                            onClick={() => setPeriod(tab.period)}
+                            style={{
+                                borderColor: period === tab.period ? palette.uiColors.primary : 'transparent',
+                                color: period === tab.period ? palette.uiColors.primary : palette.uiColors.text,
+                            }}
+                        >
+                            {tab.label}
+                        </button>
+                    ))}
+                </div>
+
                 {/* Filters */}
                 <div className={styles.filters}>
                     <button
@@ -134,7 +159,7 @@ export default function GlobalLeaderboard({ palette, onClose }: GlobalLeaderboar
                         </div>
                     ) : leaderboard.length === 0 ? (
                         <div className={styles.empty} style={{ color: palette.uiColors.text }}>
-                            <p>No players yet!</p>
+                            <p>{period === 'allTime' ? 'No players yet!' : 'No scores this period yet!'}</p>
                             <p style={{ fontSize: '0.9rem', opacity: 0.7 }}>
                                 Be the first to set a score!
                             </p>
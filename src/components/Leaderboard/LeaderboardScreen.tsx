@@ -2,7 +2,9 @@
 
 import React, { useState, useEffect } from 'react';
 import { LeaderboardEntry } from '@/types/profile';
-import { getLeaderboard, getLeaderboardByLevel } from '@/lib/storage/gameStorage';
+import { getLeaderboard, getLeaderboardByLevel, getReplay } from '@/lib/storage/gameStorage';
+import { ReplayLog, decodeReplay } from '@/lib/game/replay';
+import ReplayViewer from '@/components/Replay/ReplayViewer';
 import styles from './LeaderboardScreen.module.css';
 
 interface LeaderboardScreenProps {
@@ -13,6 +15,9 @@ export default function LeaderboardScreen({ onBack }: LeaderboardScreenProps) {
   const [entries, setEntries] = useState<LeaderboardEntry[]>([]);
   const [filter, setFilter] = useState<'all' | number>('all');
   const [limit, setLimit] = useState(10);
+  const [activeReplay, setActiveReplay] = useState<ReplayLog | null>(null);
+  const [replayCode, setReplayCode] = useState('');
+  const [replayError, setReplayError] = useState<string | null>(null);
 
   useEffect(() => {
     loadEntries();
@@ -26,6 +31,28 @@ export default function LeaderboardScreen({ onBack }: LeaderboardScreenProps) {
     }
   };
 
+  const handleWatchReplay = (replayId: string) => {
+    const replay = getReplay(replayId);
+    if (replay) {
+      setActiveReplay(replay);
+    }
+  };
+
+  const handleLoadSharedReplay = () => {
+    const replay = decodeReplay(replayCode);
+    if (!replay) {
+      setReplayError('Invalid replay code');
+      return;
+    }
+    setReplayError(null);
+    setReplayCode('');
+    setActiveReplay(replay);
+  };
+
+  if (activeReplay) {
+    return <ReplayViewer replay={activeReplay} onClose={() => setActiveReplay(null)} />;
+  }
+
   const formatDate = (timestamp: number) => {
     const date = new Date(timestamp);
     return date.toLocaleDateString();
@@ -71,6 +98,7 @@ export default function LeaderboardScreen({ onBack }: LeaderboardScreenProps) {
               <div className={styles.totalScore}>Total Score</div>
               <div className={styles.totalTime}>Total Time</div>
               <div className={styles.level}>Level</div>
+              <div className={styles.replay}>Replay</div>
             </div>
             {entries.map((entry, index) => {
               const displayName = entry.walletAddress 
@@ -111,11 +139,40 @@ export default function LeaderboardScreen({ onBack }: LeaderboardScreenProps) {
                     }
                   </div>
                   <div className={styles.level}>{entry.level}</div>
+                  <div className={styles.replay}>
+                    {entry.replayId && getReplay(entry.replayId) ? (
+                      <button
+                        className={styles.replayButton}
+                        onClick={() => handleWatchReplay(entry.replayId!)}
+                        title="Watch replay"
+                      >
+                        ▶
+                      </button>
+                    ) : '—'}
+                  </div>
                 </div>
               );
             })}
           </div>
         )}
+
+        <div className={styles.sharedReplay}>
+          <input
+            className={styles.replayInput}
+            type="text"
+            placeholder="Paste a shared replay code"
+            value={replayCode}
+            onChange={(e) => setReplayCode(e.target.value)}
+          />
+          <button
+            className={styles.filterButton}
+            onClick={handleLoadSharedReplay}
+            disabled={!replayCode.trim()}
+          >
+            Watch
+          </button>
+          {replayError && <span className={styles.replayError}>{replayError}</span>}
+        </div>
       </div>
     </div>
   );
@@ -0,0 +1,380 @@
+'use client';
+
+import React, { useState } from 'react';
+import { COLOR_PALETTES, getPalette } from '@/lib/colorPalettes';
+import { getAllLocales } from '@/lib/game/locales';
+import { Minigame } from '@/lib/game/levelDefinitions';
+import {
+  CustomLevel,
+  CUSTOM_LEVEL_LIMITS,
+  createCustomLevel,
+  createShareCode,
+  deleteCustomLevel,
+  exportCustomLevel,
+  getCustomLevel,
+  getCustomLevels,
+  parseCustomLevel,
+  parseLevelWords,
+  saveCustomLevel,
+  validateCustomLevel,
+} from '@/lib/game/customLevels';
+import styles from './LevelEditorScreen.module.css';
+
+interface LevelEditorScreenProps {
+  onBack: () => void;
+  onPlaytest: (level: CustomLevel) => void;
+  initialLevelId?: string; // Reopen this level, e.g. when coming back from a playtest
+}
+
+/**
+ * Author custom levels: words, decoys, palette and glitch settings,
+ * playtested in the regular game screen and shared as a code or file
+ */
+export default function LevelEditorScreen({ onBack, onPlaytest, initialLevelId }: LevelEditorScreenProps) {
+  const [levels, setLevels] = useState<CustomLevel[]>(getCustomLevels);
+  const [draft, setDraft] = useState<CustomLevel | null>(() => (initialLevelId ? getCustomLevel(initialLevelId) : null));
+  const [wordsText, setWordsText] = useState(() => draft?.words.join('\n') ?? '');
+  const [decoysText, setDecoysText] = useState(() => draft?.decoys.join('\n') ?? '');
+  const [importText, setImportText] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const openLevel = (level: CustomLevel) => {
+    setDraft(level);
+    setWordsText(level.words.join('\n'));
+    setDecoysText(level.decoys.join('\n'));
+    setError(null);
+    setMessage(null);
+  };
+
+  const update = (changes: Partial<CustomLevel>) => {
+    setDraft(prev => (prev ? { ...prev, ...changes } : prev));
+    setMessage(null);
+  };
+
+  const handleSave = (): CustomLevel | null => {
+    if (!draft) return null;
+    const problem = validateCustomLevel(draft);
+    if (problem) {
+      setError(problem);
+      return null;
+    }
+    const saved = saveCustomLevel(draft);
+    setDraft(saved);
+    setLevels(getCustomLevels());
+    setError(null);
+    setMessage('Level saved.');
+    return saved;
+  };
+
+  const handlePlaytest = (level: CustomLevel | null) => {
+    if (level) onPlaytest(level);
+  };
+
+  const handleDelete = (level: CustomLevel) => {
+    if (!window.confirm(`Delete "${level.name}"? This cannot be undone.`)) return;
+    deleteCustomLevel(level.id);
+    setLevels(getCustomLevels());
+  };
+
+  const handleCopyCode = async (level: CustomLevel) => {
+    const code = createShareCode(level);
+    try {
+      await navigator.clipboard.writeText(code);
+      setMessage('Share code copied to the clipboard.');
+    } catch {
+      // Clipboard access can be blocked - show the code to copy by hand
+      setMessage(code);
+    }
+  };
+
+  const handleDownload = (level: CustomLevel) => {
+    const blob = new Blob([exportCustomLevel(level)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `word-glitch-level-${level.name.replace(/[^a-z0-9-]+/gi, '-').toLowerCase()}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImport = (text: string) => {
+    const result = parseCustomLevel(text);
+    if (!result.success) {
+      setError(result.error);
+      return;
+    }
+    saveCustomLevel(result.level);
+    setLevels(getCustomLevels());
+    setImportText('');
+    setError(null);
+    openLevel(result.level);
+    setMessage(`Imported "${result.level.name}".`);
+  };
+
+  const handleFileImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (file) handleImport(await file.text());
+  };
+
+  if (!draft) {
+    return (
+      <div className={styles.editorScreen}>
+        <div className={styles.container}>
+          <button className={styles.backButton} onClick={onBack}>
+            ← Back
+          </button>
+
+          <h1 className={styles.title}>Level Editor</h1>
+
+          <div className={styles.list}>
+            <button className={`${styles.actionButton} ${styles.primaryButton}`} onClick={() => openLevel(createCustomLevel())}>
+              + New Level
+            </button>
+
+            {levels.length === 0 && (
+              <p className={styles.empty}>No custom levels yet. Create one or import a share code.</p>
+            )}
+
+            {levels.map(level => (
+              <div key={level.id} className={styles.levelRow}>
+                <span className={styles.swatch} style={{ background: getPalette(level.paletteId).uiColors.primary }} />
+                <div className={styles.levelInfo}>
+                  <h3 className={styles.levelName}>{level.name}</h3>
+                  <p className={styles.levelMeta}>
+                    {level.words.length} words · {level.decoys.length} decoys
+                    {level.timeLimit ? ` · ${level.timeLimit}s` : ''}
+                    {level.minigame ? ` · ${level.minigame}` : ''}
+                  </p>
+                </div>
+                <div className={styles.actions}>
+                  <button className={styles.actionButton} onClick={() => handlePlaytest(level)}>Play</button>
+                  <button className={styles.actionButton} onClick={() => openLevel(level)}>Edit</button>
+                  <button className={`${styles.actionButton} ${styles.dangerButton}`} onClick={() => handleDelete(level)}>
+                    Delete
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+
+          <div className={styles.section}>
+            <h2 className={styles.sectionTitle}>Import</h2>
+            <textarea
+              className={styles.textarea}
+              placeholder="Paste a share code (WGL1:…) or level JSON"
+              value={importText}
+              onChange={(e) => setImportText(e.target.value)}
+              rows={3}
+            />
+            <div className={styles.actions}>
+              <button className={styles.actionButton} onClick={() => handleImport(importText)} disabled={!importText.trim()}>
+                Import Code
+              </button>
+              <label className={styles.actionButton}>
+                Import File
+                <input type="file" accept=".json,application/json" hidden onChange={handleFileImport} />
+              </label>
+            </div>
+            {error && <p className={styles.error}>{error}</p>}
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  const limits = CUSTOM_LEVEL_LIMITS;
+
+  return (
+    <div className={styles.editorScreen}>
+      <div className={styles.container}>
+        <button className={styles.backButton} onClick={() => { setDraft(null); setError(null); setMessage(null); }}>
+          ← Levels
+        </button>
+
+        <h1 className={styles.title}>{draft.name.trim() || 'New Level'}</h1>
+
+        <div className={styles.section}>
+          <h2 className={styles.sectionTitle}>Words</h2>
+
+          <label className={styles.field}>
+            <span className={styles.fieldLabel}>Name</span>
+            <input
+              className={styles.input}
+              value={draft.name}
+              maxLength={40}
+              onChange={(e) => update({ name: e.target.value })}
+            />
+          </label>
+
+          <label className={styles.field}>
+            <span className={styles.fieldLabel}>Language</span>
+            <select className={styles.select} value={draft.language} onChange={(e) => update({ language: e.target.value })}>
+              {getAllLocales().map(locale => (
+                <option key={locale.id} value={locale.id}>{locale.name}</option>
+              ))}
+            </select>
+          </label>
+
+          <label className={styles.field}>
+            <span className={styles.fieldLabel}>
+              Words ({draft.words.length}/{limits.words.max}, at least {limits.words.min})
+            </span>
+            <textarea
+              className={styles.textarea}
+              value={wordsText}
+              rows={5}
+              placeholder="One word per line"
+              onChange={(e) => {
+                setWordsText(e.target.value);
+                update({ words: parseLevelWords(e.target.value) });
+              }}
+            />
+          </label>
+
+          <label className={styles.field}>
+            <span className={styles.fieldLabel}>Decoys ({draft.decoys.length}/{limits.decoys.max}) - look-alikes that cost accuracy</span>
+            <textarea
+              className={styles.textarea}
+              value={decoysText}
+              rows={3}
+              placeholder="Optional, one per line"
+              onChange={(e) => {
+                setDecoysText(e.target.value);
+                update({ decoys: parseLevelWords(e.target.value) });
+              }}
+            />
+          </label>
+        </div>
+
+        <div className={styles.section}>
+          <h2 className={styles.sectionTitle}>Glitch</h2>
+
+          <label className={styles.field}>
+            <span className={styles.fieldLabel}>Palette</span>
+            <select className={styles.select} value={draft.paletteId} onChange={(e) => update({ paletteId: e.target.value })}>
+              {COLOR_PALETTES.map(palette => (
+                <option key={palette.id} value={palette.id}>{palette.name} ({palette.difficulty})</option>
+              ))}
+            </select>
+          </label>
+
+          <label className={styles.field}>
+            <span className={styles.fieldLabel}>Glitch Speed: {draft.glitchSpeed}ms between updates</span>
+            <input
+              type="range"
+              className={styles.range}
+              min={limits.glitchSpeed.min}
+              max={limits.glitchSpeed.max}
+              step={5}
+              value={draft.glitchSpeed}
+              onChange={(e) => update({ glitchSpeed: Number(e.target.value) })}
+            />
+          </label>
+
+          <label className={styles.field}>
+            <span className={styles.fieldLabel}>Letter Update Rate: {(draft.letterUpdateRate * 100).toFixed(1)}% per update</span>
+            <input
+              type="range"
+              className={styles.range}
+              min={limits.letterUpdateRate.min}
+              max={limits.letterUpdateRate.max}
+              step={0.005}
+              value={draft.letterUpdateRate}
+              onChange={(e) => update({ letterUpdateRate: Number(e.target.value) })}
+            />
+          </label>
+
+          <label className={styles.field}>
+            <span className={styles.fieldLabel}>Vortex Strength: {Math.round(draft.vortexStrength * 100)}%</span>
+            <input
+              type="range"
+              className={styles.range}
+              min={limits.vortexStrength.min}
+              max={limits.vortexStrength.max}
+              step={0.05}
+              value={draft.vortexStrength}
+              onChange={(e) => update({ vortexStrength: Number(e.target.value) })}
+            />
+          </label>
+        </div>
+
+        <div className={styles.section}>
+          <h2 className={styles.sectionTitle}>Rules</h2>
+
+          <label className={styles.field}>
+            <span className={styles.fieldLabel}>
+              Time Limit: {draft.timeLimit ? `${draft.timeLimit}s` : 'none'}
+            </span>
+            <div className={styles.inline}>
+              <input
+                type="checkbox"
+                checked={draft.timeLimit !== undefined}
+                onChange={(e) => update({ timeLimit: e.target.checked ? 90 : undefined })}
+              />
+              <input
+                type="range"
+                className={styles.range}
+                min={limits.timeLimit.min}
+                max={limits.timeLimit.max}
+                step={5}
+                value={draft.timeLimit ?? 90}
+                disabled={draft.timeLimit === undefined}
+                onChange={(e) => update({ timeLimit: Number(e.target.value) })}
+              />
+            </div>
+          </label>
+
+          <label className={styles.field}>
+            <span className={styles.fieldLabel}>Minigame</span>
+            <select
+              className={styles.select}
+              value={draft.minigame ?? ''}
+              onChange={(e) => update({ minigame: (e.target.value || undefined) as Minigame | undefined })}
+            >
+              <option value="">None</option>
+              <option value="hangman">Hangman</option>
+              <option value="bridge">Bridge Constructor</option>
+            </select>
+          </label>
+
+          <label className={styles.field}>
+            <span className={styles.fieldLabel}>Word Timing: like level {draft.baseLevel} (how long words stay visible and clickable)</span>
+            <input
+              type="range"
+              className={styles.range}
+              min={limits.baseLevel.min}
+              max={limits.baseLevel.max}
+              step={1}
+              value={draft.baseLevel}
+              onChange={(e) => update({ baseLevel: Number(e.target.value) })}
+            />
+          </label>
+        </div>
+
+        {error && <p className={styles.error}>{error}</p>}
+        {message && <p className={styles.message}>{message}</p>}
+
+        <div className={styles.actions}>
+          <button className={`${styles.actionButton} ${styles.primaryButton}`} onClick={() => handlePlaytest(handleSave())}>
+            Playtest
+          </button>
+          <button className={styles.actionButton} onClick={handleSave}>Save</button>
+          <button
+            className={styles.actionButton}
+            onClick={() => { const saved = handleSave(); if (saved) handleCopyCode(saved); }}
+          >
+            Copy Share Code
+          </button>
+          <button
+            className={styles.actionButton}
+            onClick={() => { const saved = handleSave(); if (saved) handleDownload(saved); }}
+          >
+            Export File
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
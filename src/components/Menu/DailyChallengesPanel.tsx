@@ -0,0 +1,109 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { ColorPalette } from '@/lib/colorPalettes';
+import {
+    DailyChallenge,
+    getTodaysChallenges,
+    getChallengeProgress,
+    claimChallengeReward,
+} from '@/lib/game/dailyChallenges';
+import styles from './DailyChallengesPanel.module.css';
+
+interface DailyChallengesPanelProps {
+    palette: ColorPalette;
+    onClaim?: (amount: number) => void;
+}
+
+export default function DailyChallengesPanel({ palette, onClaim }: DailyChallengesPanelProps) {
+    const [challenges, setChallenges] = useState<DailyChallenge[]>([]);
+
+    // Challenges roll over at midnight, so reload them periodically
+    useEffect(() => {
+        setChallenges(getTodaysChallenges());
+        const interval = setInterval(() => setChallenges(getTodaysChallenges()), 60000);
+        return () => clearInterval(interval);
+    }, []);
+
+    const hexToRgba = (hex: string, alpha: number) => {
+        const r = parseInt(hex.slice(1, 3), 16);
+        const g = parseInt(hex.slice(3, 5), 16);
+        const b = parseInt(hex.slice(5, 7), 16);
+        return `rgba(${r}, ${g}, ${b}, ${alpha})`;
+    };
+
+    const handleClaim = (challengeId: string) => {
+        const amount = claimChallengeReward(challengeId);
+        setChallenges(getTodaysChallenges());
+        if (amount > 0) {
+            onClaim?.(amount);
+        }
+    };
+
+    if (challenges.length === 0) return null;
+
+    return (
+        <div
+            className={styles.panel}
+            style={{
+                background: hexToRgba(palette.uiColors.background, 0.5),
+                borderColor: hexToRgba(palette.uiColors.primary, 0.3),
+            }}
+        >
+            <h3 className={styles.title} style={{ color: palette.uiColors.primary }}>
+                DAILY CHALLENGES
+            </h3>
+
+            <div className={styles.list}>
+                {challenges.map(challenge => {
+                    const progress = getChallengeProgress(challenge);
+                    return (
+                        <div key={challenge.id} className={styles.challenge}>
+                            <div className={styles.info}>
+                                <span className={styles.challengeTitle} style={{ color: palette.uiColors.text }}>
+                                    {challenge.title}
+                                </span>
+                                <span className={styles.description} style={{ color: palette.uiColors.text }}>
+                                    {challenge.description}
+                                </span>
+                                <div
+                                    className={styles.progressTrack}
+                                    style={{ background: hexToRgba(palette.uiColors.text, 0.1) }}
+                                >
+                                    <div
+                                        className={styles.progressFill}
+                                        style={{
+                                            width: `${progress}%`,
+                                            background: challenge.completed ? palette.uiColors.accent : palette.uiColors.primary,
+                                        }}
+                                    />
+                                </div>
+                                <span className={styles.progressText} style={{ color: palette.uiColors.text }}>
+                                    {challenge.progress.toLocaleString()} / {challenge.target.toLocaleString()}
+                                </span>
+                            </div>
+
+                            {challenge.claimed ? (
+                                <span className={styles.claimed} style={{ color: palette.uiColors.accent }}>
+                                    CLAIMED
+                                </span>
+                            ) : (
+                                <button
+                                    className={styles.claimButton}
+                                    onClick={() => handleClaim(challenge.id)}
+                                    disabled={!challenge.completed}
+                                    style={{
+                                        borderColor: challenge.completed ? palette.uiColors.accent : hexToRgba(palette.uiColors.text, 0.2),
+                                        color: challenge.completed ? palette.uiColors.accent : hexToRgba(palette.uiColors.text, 0.5),
+                                    }}
+                                >
+                                    +{challenge.reward}
+                                </button>
+                            )}
+                        </div>
+                    );
+                })}
+            </div>
+        </div>
+    );
+}
@@ -4,35 +4,46 @@ import React, { useState, useEffect, useRef } from 'react';
 import { calculateProfileLevel } from '@/lib/game/profileSystem';
 import MenuButton from './MenuButton';
 import ProfileCard from './ProfileCard';
+import DailyChallengesPanel from './DailyChallengesPanel';
 import Loader from '../UI/Loader';
 import LetterGlitch, { LetterGlitchHandle } from '../Game/LetterGlitch';
 import AuthModal from '../Auth/AuthModal';
 import { getCurrentLevel } from '@/lib/game/levelSystem';
-import { loadProfile } from '@/lib/storage/gameStorage';
+import { STORAGE_KEYS, loadProfile } from '@/lib/storage/gameStorage';
+import { isStorageKeyOf, useExternalStorageChange } from '@/hooks/useExternalStorageChange';
 import { initializeLevel } from '@/lib/game/difficulty';
 import { ColorPalette, getPalette } from '@/lib/colorPalettes';
-import { getPaletteForLevel } from '@/lib/game/levelProgression';
+import { getPaletteForRound, selectPalette } from '@/lib/shop';
 import PaletteToggle from '../UI/PaletteToggle';
-import { EyeIcon, EyeOffIcon, PlayIcon, UserIcon, TrophyIcon, SettingsIcon } from '../UI/GameIcons';
+import { EyeIcon, EyeOffIcon, PlayIcon, UserIcon, TrophyIcon, SettingsIcon, ZapIcon, WalletIcon, BookIcon, EditIcon } from '../UI/GameIcons';
 import { getCurrencyBalance, syncCurrencyWithTotalScore } from '@/lib/currency';
 import GameMusicPlayer from '../Game/GameMusicPlayer';
 import { useFirebaseSync } from '@/hooks/useFirebaseSync';
-import { getGlobalLeaderboard, LeaderboardEntry } from '@/lib/firebase/leaderboard';
+import { getGlobalLeaderboard, getDailyGlitchLeaderboard, LeaderboardEntry } from '@/lib/firebase/leaderboard';
+import { getDailyGlitchDate, getDailyGlitchResult, DailyGlitchResult } from '@/lib/game/dailyGlitch';
 import GlitchText from '../UI/GlitchText';
 import styles from './MenuScreen.module.css';
 
 interface MenuScreenProps {
   onPlay: () => void;
+  onDaily: () => void;
   onProfile: () => void;
   onLeaderboard: () => void;
   onSettings: () => void;
+  onRules: () => void;
+  onShop: () => void;
+  onEditor: () => void;
 }
 
 export default function MenuScreen({
   onPlay,
+  onDaily,
   onProfile,
   onLeaderboard,
   onSettings,
+  onRules,
+  onShop,
+  onEditor,
 }: MenuScreenProps) {
   const [currentLevel, setCurrentLevel] = useState(1);
   const [bestScore, setBestScore] = useState(0);
@@ -41,7 +52,7 @@ export default function MenuScreen({
   const [currentPalette, setCurrentPalette] = useState<ColorPalette>(() => {
     // Get the actual current level from storage, not just default to 1
     const actualLevel = getCurrentLevel();
-    const palette = getPaletteForLevel(actualLevel);
+    const palette = getPaletteForRound(actualLevel);
     console.log('🎨 Menu initializing with level:', actualLevel, 'palette:', palette.name);
     return palette;
   });
@@ -49,6 +60,8 @@ export default function MenuScreen({
   const [showAuth, setShowAuth] = useState(false);
   const [leaderboard, setLeaderboard] = useState<LeaderboardEntry[]>([]);
   const [loadingLeaderboard, setLoadingLeaderboard] = useState(true);
+  const [leaderboardMode, setLeaderboardMode] = useState<'global' | 'daily'>('global');
+  const [dailyResult, setDailyResult] = useState<DailyGlitchResult | undefined>(() => getDailyGlitchResult());
 
   const { user, isAuthenticated, isSyncInitialized } = useFirebaseSync();
   const glitchRef = useRef<LetterGlitchHandle>(null);
@@ -59,7 +72,7 @@ export default function MenuScreen({
     loadLeaderboardData();
     const interval = setInterval(loadLeaderboardData, 30000); // Refresh every 30s
     return () => clearInterval(interval);
-  }, []);
+  }, [leaderboardMode]);
 
   // Refresh leaderboard when user changes (login/logout)
   useEffect(() => {
@@ -72,7 +85,9 @@ export default function MenuScreen({
   const loadLeaderboardData = async () => {
     try {
       console.log('📊 Loading menu leaderboard...');
-      const data = await getGlobalLeaderboard(10); // Top 10
+      const data = leaderboardMode === 'daily'
+        ? await getDailyGlitchLeaderboard(getDailyGlitchDate(), 10)
+        : await getGlobalLeaderboard(10); // Top 10
       console.log('📊 Menu leaderboard loaded:', data.length, 'entries');
       setLeaderboard(data);
     } catch (error) {
@@ -100,9 +115,23 @@ export default function MenuScreen({
     return () => clearInterval(interval);
   }, []);
 
+  // Coins earned or spent in another tab
+  useExternalStorageChange(key => isStorageKeyOf(key, STORAGE_KEYS.CURRENCY), () => setCurrency(getCurrencyBalance()));
+
+  // A round finished in another tab: refresh level, score and the palette it brings
+  useExternalStorageChange(key => isStorageKeyOf(key, STORAGE_KEYS.PROGRESS, STORAGE_KEYS.PROFILE), () => {
+    setCurrentLevel(getCurrentLevel());
+    setBestScore(loadProfile()?.totalScore ?? 0);
+  });
+
+  // Palette chosen or bought in another tab
+  useExternalStorageChange(key => isStorageKeyOf(key, STORAGE_KEYS.INVENTORY), () => {
+    setCurrentPalette(getPaletteForRound(getCurrentLevel()));
+  });
+
   // Update palette when level changes
   useEffect(() => {
-    const palette = getPaletteForLevel(currentLevel);
+    const palette = getPaletteForRound(currentLevel);
     console.log('🎨 Updating palette for level:', currentLevel, '→', palette.name);
     setCurrentPalette(palette);
   }, [currentLevel]);
@@ -118,6 +147,7 @@ export default function MenuScreen({
     if (profile) {
       setBestScore(profile.totalScore); // Use totalScore instead of bestScore
     }
+    setDailyResult(getDailyGlitchResult());
 
     // Load profile picture from profile metadata
     const { getAllProfiles, getCurrentProfileId } = require('@/lib/storage/gameStorage');
@@ -293,8 +323,9 @@ export default function MenuScreen({
                   <PaletteToggle
                     currentPaletteId={currentPalette.id}
                     onPaletteChange={(paletteId: string) => {
-                      const newPalette = getPalette(paletteId);
-                      setCurrentPalette(newPalette);
+                      // Kept for the profile's rounds until another palette is chosen
+                      selectPalette(paletteId, currentLevel);
+                      setCurrentPalette(getPalette(paletteId));
                     }}
                   />
                 </div>
@@ -373,6 +404,17 @@ export default function MenuScreen({
                   palette={currentPalette}
                 />
 
+                <MenuButton
+                  onClick={onDaily}
+                  icon={<ZapIcon size={20} />}
+                  label={dailyResult
+                    ? `DAILY GLITCH ✓ ${dailyResult.score !== undefined ? dailyResult.score.toLocaleString() : 'PLAYED'}`
+                    : 'DAILY GLITCH'}
+                  variant="secondary"
+                  disabled={!!dailyResult}
+                  palette={currentPalette}
+                />
+
                 {!isAuthenticated && (
                   <MenuButton
                     onClick={() => setShowAuth(true)}
@@ -383,6 +425,14 @@ export default function MenuScreen({
                   />
                 )}
 
+                <MenuButton
+                  onClick={onShop}
+                  icon={<WalletIcon size={20} />}
+                  label={`SHOP · ${currency.toLocaleString()}`}
+                  variant="secondary"
+                  palette={currentPalette}
+                />
+
                 <MenuButton
                   onClick={onSettings}
                   icon={<SettingsIcon size={20} />}
@@ -391,6 +441,22 @@ export default function MenuScreen({
                   palette={currentPalette}
                 />
 
+                <MenuButton
+                  onClick={onEditor}
+                  icon={<EditIcon size={20} />}
+                  label="LEVEL EDITOR"
+                  variant="secondary"
+                  palette={currentPalette}
+                />
+
+                <MenuButton
+                  onClick={onRules}
+                  icon={<BookIcon size={20} />}
+                  label="HOW TO PLAY"
+                  variant="secondary"
+                  palette={currentPalette}
+                />
+
                 {/* User Status - Moved from right column */}
                 {isAuthenticated && user && (
                   <div className={styles.userStatusContainer}>
@@ -421,8 +487,13 @@ export default function MenuScreen({
                 )}
               </div>
 
-              {/* Right: Leaderboard */}
+              {/* Right: Daily Challenges & Leaderboard */}
               <div className={styles.rightColumn}>
+                <DailyChallengesPanel
+                  palette={currentPalette}
+                  onClaim={() => setCurrency(getCurrencyBalance())}
+                />
+
                 <div
                   className={styles.leaderboardCard}
                   style={{
@@ -433,8 +504,26 @@ export default function MenuScreen({
                   <div className={styles.leaderboardHeader}>
                     <TrophyIcon size={20} color={currentPalette.uiColors.primary} />
                     <h3 style={{ color: currentPalette.uiColors.primary }}>
-                      GLOBAL LEADERBOARD
+                      {leaderboardMode === 'daily' ? 'DAILY GLITCH' : 'GLOBAL LEADERBOARD'}
                     </h3>
+                    <div className={styles.leaderboardTabs}>
+                      {(['global', 'daily'] as const).map(mode => (
+                        <button
+                          key={mode}
+                          className={styles.leaderboardTab}
+                          onClick={() => {
+                            setLoadingLeaderboard(true);
+                            setLeaderboardMode(mode);
+                          }}
+                          style={{
+                            borderColor: leaderboardMode === mode ? currentPalette.uiColors.primary : 'transparent',
+                            color: leaderboardMode === mode ? currentPalette.uiColors.primary : currentPalette.uiColors.text,
+                          }}
+                        >
+                          {mode === 'daily' ? 'TODAY' : 'ALL'}
+                        </button>
+                      ))}
+                    </div>
                   </div>
 
                   {loadingLeaderboard ? (
@@ -443,7 +532,7 @@ export default function MenuScreen({
                     </div>
                   ) : leaderboard.length === 0 ? (
                     <div className={styles.leaderboardEmpty} style={{ color: currentPalette.uiColors.text }}>
-                      <p>No players yet!</p>
+                      <p>{leaderboardMode === 'daily' ? "No one has cracked today's glitch yet!" : 'No players yet!'}</p>
                       <p style={{ fontSize: '0.85rem', opacity: 0.7 }}>
                         Be the first!
                       </p>
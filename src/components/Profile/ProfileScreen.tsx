@@ -14,7 +14,9 @@ import {
   getCurrentProfileId,
   deleteProfile,
   resetProfile,
-  autoLoginByWallet
+  autoLoginByWallet,
+  clearCurrentProfileId,
+  STORAGE_KEYS
 } from '@/lib/storage/gameStorage';
 import { getWalletAddress, isWalletAvailable } from '@/lib/wallet/walletUtils';
 import { syncCurrencyWithTotalScore, getCurrencyBalance } from '@/lib/currency';
@@ -40,6 +42,7 @@ import {
 import styles from './ProfileScreen.module.css';
 import AuthForm from '../Auth/AuthForm'; // Import the new form
 import { useFirebaseSync } from '@/hooks/useFirebaseSync'; // Hook for auth state
+import { isStorageKeyOf, useExternalStorageChange } from '@/hooks/useExternalStorageChange';
 import { getPaletteForLevel } from '@/lib/game/levelProgression'; // To style the form
 
 interface ProfileScreenProps {
@@ -100,6 +103,13 @@ export default function ProfileScreen({ onBack }: ProfileScreenProps) {
 
   const [progressLevel, setProgressLevel] = useState(1);
 
+  // Keep the view current while another tab plays or edits profiles
+  useExternalStorageChange(
+    key => isStorageKeyOf(key, STORAGE_KEYS.PROFILE, STORAGE_KEYS.PROGRESS, STORAGE_KEYS.ACHIEVEMENTS, STORAGE_KEYS.PROFILES),
+    () => refreshData()
+  );
+  useExternalStorageChange(key => isStorageKeyOf(key, STORAGE_KEYS.CURRENCY), () => setCurrency(getCurrencyBalance()));
+
   const refreshData = () => {
     const profileId = getCurrentProfileId();
     setCurrentProfileId(profileId);
@@ -162,7 +172,7 @@ export default function ProfileScreen({ onBack }: ProfileScreenProps) {
   };
 
   const handleLogout = () => {
-    localStorage.removeItem('word-glitch-current-profile');
+    clearCurrentProfileId();
     refreshData();
   };
 
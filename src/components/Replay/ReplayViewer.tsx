@@ -0,0 +1,162 @@
+'use client';
+
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import LetterGlitch from '@/components/Game/LetterGlitch';
+import { initializeLevel } from '@/lib/game/difficulty';
+import { getPalette } from '@/lib/colorPalettes';
+import { ReplayLog, buildReplayFrame, encodeReplay, countReplayEvents } from '@/lib/game/replay';
+import styles from './ReplayViewer.module.css';
+
+interface ReplayViewerProps {
+  replay: ReplayLog;
+  onClose: () => void;
+}
+
+const PLAYBACK_SPEEDS = [1, 2, 4];
+const TICK_MS = 50;
+
+export default function ReplayViewer({ replay, onClose }: ReplayViewerProps) {
+  const [time, setTime] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(true);
+  const [speed, setSpeed] = useState(1);
+  const [copied, setCopied] = useState(false);
+  const lastTickRef = useRef<number>(Date.now());
+
+  // Re-create the exact level config the round was generated from
+  const level = useMemo(() => initializeLevel(replay.level, replay.seed), [replay.level, replay.seed]);
+  const palette = useMemo(() => getPalette(replay.paletteId), [replay.paletteId]);
+  const eventCounts = useMemo(() => countReplayEvents(replay), [replay]);
+
+  // Advance playback clock
+  useEffect(() => {
+    if (!isPlaying) return;
+    lastTickRef.current = Date.now();
+
+    const interval = setInterval(() => {
+      const now = Date.now();
+      const delta = (now - lastTickRef.current) * speed;
+      lastTickRef.current = now;
+      setTime(prev => Math.min(replay.duration, prev + delta));
+    }, TICK_MS);
+
+    return () => clearInterval(interval);
+  }, [isPlaying, speed, replay.duration]);
+
+  // Stop at the end of the recording
+  useEffect(() => {
+    if (time >= replay.duration) {
+      setIsPlaying(false);
+    }
+  }, [time, replay.duration]);
+
+  const frame = useMemo(() => buildReplayFrame(replay, time), [replay, time]);
+
+  // Only hand LetterGlitch a new words array when an event actually changed the state
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  const words = useMemo(() => frame.words, [frame.eventIndex]);
+  const wordsFound = words.filter(w => w.found).length;
+  const totalWords = words.filter(w => !w.isFake).length;
+
+  const handleRestart = () => {
+    setTime(0);
+    setIsPlaying(true);
+  };
+
+  const handleTogglePlay = () => {
+    if (!isPlaying && time >= replay.duration) {
+      handleRestart();
+      return;
+    }
+    setIsPlaying(prev => !prev);
+  };
+
+  const handleSpeed = () => {
+    const index = PLAYBACK_SPEEDS.indexOf(speed);
+    setSpeed(PLAYBACK_SPEEDS[(index + 1) % PLAYBACK_SPEEDS.length]);
+  };
+
+  const handleSeek = (e: React.ChangeEvent<HTMLInputElement>) => {
+    setTime(Number(e.target.value));
+  };
+
+  const handleShare = async () => {
+    try {
+      await navigator.clipboard.writeText(encodeReplay(replay));
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (err) {
+      console.error('Failed to copy replay code:', err);
+    }
+  };
+
+  const formatTime = (ms: number): string => {
+    const totalSeconds = Math.floor(ms / 1000);
+    const mins = Math.floor(totalSeconds / 60);
+    const secs = totalSeconds % 60;
+    return `${mins}:${secs.toString().padStart(2, '0')}`;
+  };
+
+  return (
+    <div className={styles.replayViewer}>
+      <LetterGlitch
+        level={level}
+        words={words}
+        onWordFound={() => { }}
+        isPaused={!isPlaying}
+        palette={palette}
+      />
+
+      {frame.taps.map(tap => (
+        <div
+          key={`${tap.t}-${tap.x}-${tap.y}`}
+          className={`${styles.tapMarker} ${styles[tap.type]}`}
+          style={{ left: tap.x, top: tap.y }}
+        />
+      ))}
+
+      <div className={styles.header}>
+        <div className={styles.title}>
+          Replay · Level {replay.level}
+          {replay.profileName && <span className={styles.player}> · {replay.profileName}</span>}
+        </div>
+        <div className={styles.stats}>
+          <span>Words {wordsFound}/{totalWords}</span>
+          <span>Combo {frame.combo}</span>
+          <span>Misses {eventCounts.miss + eventCounts.decoy}</span>
+          {replay.finalScore !== undefined && <span>Score {replay.finalScore.toLocaleString()}</span>}
+        </div>
+        {frame.isPaused && <div className={styles.pausedBadge}>Player paused</div>}
+      </div>
+
+      <div className={styles.controls}>
+        <button className={styles.controlButton} onClick={handleTogglePlay}>
+          {isPlaying ? 'Pause' : 'Play'}
+        </button>
+        <button className={styles.controlButton} onClick={handleRestart}>
+          Restart
+        </button>
+        <button className={styles.controlButton} onClick={handleSpeed}>
+          {speed}x
+        </button>
+        <input
+          className={styles.timeline}
+          type="range"
+          min={0}
+          max={replay.duration}
+          step={TICK_MS}
+          value={time}
+          onChange={handleSeek}
+        />
+        <span className={styles.time}>
+          {formatTime(time)} / {formatTime(replay.duration)}
+        </span>
+        <button className={styles.controlButton} onClick={handleShare}>
+          {copied ? 'Copied!' : 'Share'}
+        </button>
+        <button className={`${styles.controlButton} ${styles.closeButton}`} onClick={onClose}>
+          Close
+        </button>
+      </div>
+    </div>
+  );
+}
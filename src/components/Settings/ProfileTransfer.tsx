@@ -0,0 +1,293 @@
+'use client';
+
+import React, { useState, useEffect, useRef } from 'react';
+import { drawQrCode, encodeQrCode } from '@/lib/qr/qrEncoder';
+import { detectQrCodes, detectQrCodesInFile, isQrScanningSupported } from '@/lib/qr/qrScanner';
+import { TransferReceiver, createTransferFrames } from '@/lib/storage/profileTransfer';
+import { ProfileBackup, importProfileBackup } from '@/lib/storage/profileBackup';
+import { getProfileMetadata } from '@/lib/storage/gameStorage';
+import styles from './ProfileTransfer.module.css';
+
+const FRAME_INTERVAL_MS = 900;
+const SCAN_INTERVAL_MS = 250;
+
+interface ProfileTransferProps {
+  mode: 'send' | 'receive';
+  onClose: () => void;
+  onImported: (profileId: string) => void;
+}
+
+export default function ProfileTransfer({ mode, onClose, onImported }: ProfileTransferProps) {
+  return (
+    <div className={styles.transfer}>
+      {mode === 'send' ? <TransferSender /> : <TransferScanner onImported={onImported} />}
+      <button className={styles.button} onClick={onClose}>
+        Close
+      </button>
+    </div>
+  );
+}
+
+/**
+ * Cycles through the QR codes of the current profile
+ */
+function TransferSender() {
+  const [frames, setFrames] = useState<string[] | null>(null);
+  const [frameIndex, setFrameIndex] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    createTransferFrames()
+      .then(setFrames)
+      .catch((err: Error) => setError(err.message || 'Failed to prepare the transfer'));
+  }, []);
+
+  useEffect(() => {
+    if (!frames || frames.length < 2) return;
+    const timer = setInterval(() => setFrameIndex(index => (index + 1) % frames.length), FRAME_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [frames]);
+
+  useEffect(() => {
+    if (frames && canvasRef.current) {
+      drawQrCode(canvasRef.current, encodeQrCode(frames[frameIndex]), 6);
+    }
+  }, [frames, frameIndex]);
+
+  // Every code on one image, for devices that can't point a camera at this screen
+  const handleSaveImage = () => {
+    if (!frames) return;
+    const columns = Math.ceil(Math.sqrt(frames.length));
+    const rows = Math.ceil(frames.length / columns);
+    const tiles = frames.map(frame => {
+      const tile = document.createElement('canvas');
+      drawQrCode(tile, encodeQrCode(frame), 6);
+      return tile;
+    });
+    const tileSize = Math.max(...tiles.map(tile => tile.width));
+    const image = document.createElement('canvas');
+    image.width = columns * tileSize;
+    image.height = rows * tileSize;
+    const context = image.getContext('2d');
+    if (!context) return;
+    context.fillStyle = '#fff';
+    context.fillRect(0, 0, image.width, image.height);
+    tiles.forEach((tile, i) => context.drawImage(tile, (i % columns) * tileSize, Math.floor(i / columns) * tileSize));
+
+    const link = document.createElement('a');
+    link.href = image.toDataURL('image/png');
+    link.download = `word-glitch-transfer-${new Date().toISOString().slice(0, 10)}.png`;
+    link.click();
+  };
+
+  const handleCopy = async () => {
+    if (!frames) return;
+    try {
+      await navigator.clipboard.writeText(frames.join('\n'));
+      setCopied(true);
+    } catch {
+      setError('Could not copy to the clipboard');
+    }
+  };
+
+  if (error) return <p className={styles.error}>{error}</p>;
+  if (!frames) return <p className={styles.status}>Preparing transfer...</p>;
+
+  return (
+    <>
+      <canvas ref={canvasRef} className={styles.qrCode} />
+      <p className={styles.status}>
+        Code {frameIndex + 1} of {frames.length}. On the other device open Settings → Device Transfer → Receive
+        and point its camera at this screen until every code is read.
+      </p>
+      <div className={styles.row}>
+        <button className={styles.button} onClick={handleSaveImage}>
+          Save Image
+        </button>
+        <button className={styles.button} onClick={handleCopy}>
+          {copied ? 'Copied' : 'Copy as Text'}
+        </button>
+      </div>
+    </>
+  );
+}
+
+interface TransferScannerProps {
+  onImported: (profileId: string) => void;
+}
+
+/**
+ * Collects transfer codes from the camera, images or pasted text, then merges the profile
+ */
+function TransferScanner({ onImported }: TransferScannerProps) {
+  const [canScan, setCanScan] = useState(false);
+  const [scanning, setScanning] = useState(false);
+  const [progress, setProgress] = useState({ received: 0, total: 0 });
+  const [pastedCode, setPastedCode] = useState('');
+  const [backup, setBackup] = useState<ProfileBackup | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const receiverRef = useRef(new TransferReceiver());
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const streamRef = useRef<MediaStream | null>(null);
+
+  useEffect(() => {
+    isQrScanningSupported().then(setCanScan);
+    return () => stopCamera();
+  }, []);
+
+  const stopCamera = () => {
+    streamRef.current?.getTracks().forEach(track => track.stop());
+    streamRef.current = null;
+    setScanning(false);
+  };
+
+  const handleCodes = async (codes: string[]) => {
+    const receiver = receiverRef.current;
+    if (receiver.isComplete) return;
+    const added = codes.filter(code => receiver.addFrame(code) === 'added').length;
+    setProgress({ received: receiver.received, total: receiver.total });
+    if (added === 0 || !receiver.isComplete) return;
+
+    stopCamera();
+    const result = await receiver.assemble();
+    if (result.success) {
+      setBackup(result.backup);
+      setError(null);
+    } else {
+      receiverRef.current = new TransferReceiver();
+      setProgress({ received: 0, total: 0 });
+      setError(result.error);
+    }
+  };
+
+  // Read the camera a few times a second while it is on
+  useEffect(() => {
+    if (!scanning) return;
+    let busy = false;
+    const timer = setInterval(async () => {
+      const video = videoRef.current;
+      if (busy || !video || video.readyState < 2) return;
+      busy = true;
+      try {
+        await handleCodes(await detectQrCodes(video));
+      } catch {
+        // A frame that can't be read - try the next one
+      } finally {
+        busy = false;
+      }
+    }, SCAN_INTERVAL_MS);
+    return () => clearInterval(timer);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [scanning]);
+
+  const handleStartCamera = async () => {
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({ video: { facingMode: 'environment' }, audio: false });
+      streamRef.current = stream;
+      if (videoRef.current) {
+        videoRef.current.srcObject = stream;
+        await videoRef.current.play();
+      }
+      setScanning(true);
+      setError(null);
+    } catch {
+      setError('Could not open the camera - import an image or paste the code instead');
+    }
+  };
+
+  const handleImageImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files || []);
+    event.target.value = '';
+    try {
+      const codes = (await Promise.all(files.map(detectQrCodesInFile))).flat();
+      if (codes.length === 0) {
+        setError('No codes found in the image');
+        return;
+      }
+      await handleCodes(codes);
+    } catch {
+      setError('The image could not be read');
+    }
+  };
+
+  const handlePaste = async () => {
+    await handleCodes(pastedCode.split(/\s+/).filter(Boolean));
+    setPastedCode('');
+  };
+
+  const handleMerge = () => {
+    if (!backup) return;
+    try {
+      onImported(importProfileBackup(backup, 'merge'));
+    } catch (err: any) {
+      setError(err.message || 'Failed to import profile');
+    }
+  };
+
+  if (backup) {
+    return (
+      <>
+        <p className={styles.status}>
+          Received &quot;{backup.profile.name}&quot; (level {backup.progress?.currentLevel ?? 1},
+          {' '}{backup.stats?.totalScore ?? 0} points).
+          {getProfileMetadata(backup.profile.id)
+            ? ' It will be merged with the same profile on this device.'
+            : ' It will be added as a new profile.'}
+        </p>
+        <div className={styles.row}>
+          <button className={styles.button} onClick={handleMerge}>
+            Merge
+          </button>
+          <button className={styles.button} onClick={() => setBackup(null)}>
+            Cancel
+          </button>
+        </div>
+      </>
+    );
+  }
+
+  return (
+    <>
+      <video ref={videoRef} className={styles.video} hidden={!scanning} muted playsInline />
+      {progress.total > 0 && (
+        <p className={styles.status}>
+          Read {progress.received} of {progress.total} codes
+        </p>
+      )}
+      {canScan ? (
+        <div className={styles.row}>
+          {scanning ? (
+            <button className={styles.button} onClick={stopCamera}>
+              Stop Camera
+            </button>
+          ) : (
+            <button className={styles.button} onClick={handleStartCamera}>
+              Scan with Camera
+            </button>
+          )}
+          <label className={styles.button}>
+            Import Image
+            <input type="file" accept="image/*" multiple onChange={handleImageImport} hidden />
+          </label>
+        </div>
+      ) : (
+        <p className={styles.status}>
+          This browser can&apos;t read QR codes. On the sending device use Copy as Text and paste the code here.
+        </p>
+      )}
+      <textarea
+        className={styles.textarea}
+        placeholder="Or paste a transfer code (WGT1:...)"
+        value={pastedCode}
+        onChange={(e) => setPastedCode(e.target.value)}
+        rows={3}
+      />
+      <button className={styles.button} onClick={handlePaste} disabled={!pastedCode.trim()}>
+        Add Pasted Code
+      </button>
+      {error && <p className={styles.error}>{error}</p>}
+    </>
+  );
+}
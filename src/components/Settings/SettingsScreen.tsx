@@ -1,8 +1,44 @@
 'use client';
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { GameSettings } from '@/lib/storage/types';
-import { loadSettings, saveSettings } from '@/lib/storage/gameStorage';
+import { InputMode } from '@/types/game';
+import {
+  STORAGE_KEYS,
+  loadSettings,
+  saveSettings,
+  resetSettings,
+  resetProfile,
+  getCurrentProfileId,
+  getProfileMetadata,
+} from '@/lib/storage/gameStorage';
+import {
+  ImportMode,
+  ProfileBackup,
+  createProfileBackup,
+  importProfileBackup,
+  parseProfileBackup,
+} from '@/lib/storage/profileBackup';
+import {
+  QuarantinedDocument,
+  discardQuarantinedDocument,
+  getQuarantinedDocuments,
+  restoreQuarantinedDocument,
+} from '@/lib/storage/schema';
+import { LocaleId, getAllLocales, getLocale } from '@/lib/game/locales';
+import { getBuiltinWordPackId } from '@/lib/game/wordPacks';
+import { DEFAULT_SFX_VOLUME, playSound } from '@/lib/audio/soundEffects';
+import {
+  TEXT_SCALE_MIN,
+  TEXT_SCALE_MAX,
+  applyAccessibilitySettings,
+  getTextScale,
+  isReducedMotion,
+} from '@/lib/accessibility';
+import { useMusicPlayer, MUSIC_PLAYERS } from '@/contexts/MusicPlayerContext';
+import { isStorageKeyOf, useExternalStorageChange } from '@/hooks/useExternalStorageChange';
+import WordPackSettings from './WordPackSettings';
+import ProfileTransfer from './ProfileTransfer';
 import styles from './SettingsScreen.module.css';
 
 interface SettingsScreenProps {
@@ -11,11 +47,25 @@ interface SettingsScreenProps {
 
 export default function SettingsScreen({ onBack }: SettingsScreenProps) {
   const [settings, setSettings] = useState<GameSettings>(loadSettings());
+  const [message, setMessage] = useState<string | null>(null);
+  const [pendingImport, setPendingImport] = useState<ProfileBackup | null>(null);
+  const [transferMode, setTransferMode] = useState<'send' | 'receive' | null>(null);
+  const [quarantined, setQuarantined] = useState<QuarantinedDocument[]>(getQuarantinedDocuments);
+  const previewTimerRef = useRef<ReturnType<typeof setTimeout>>();
+  const { playerState, setVolume, setMuted, setCurrentPlayer } = useMusicPlayer();
+  const profileId = getCurrentProfileId();
 
   useEffect(() => {
     saveSettings(settings);
+    applyAccessibilitySettings(settings);
   }, [settings]);
 
+  // Settings changed in another tab - only reload when they differ, as every change here is saved back
+  useExternalStorageChange(key => isStorageKeyOf(key, STORAGE_KEYS.SETTINGS), () => {
+    const stored = loadSettings();
+    if (JSON.stringify(stored) !== JSON.stringify(settings)) setSettings(stored);
+  });
+
   const handleToggle = (key: keyof GameSettings) => {
     setSettings(prev => ({
       ...prev,
@@ -23,6 +73,129 @@ export default function SettingsScreen({ onBack }: SettingsScreenProps) {
     }));
   };
 
+  // A new locale starts on its own built-in word pack
+  const handleLocaleChange = (localeId: LocaleId) => {
+    setSettings(prev => ({
+      ...prev,
+      locale: localeId,
+      wordPackId: getBuiltinWordPackId(localeId),
+    }));
+  };
+
+  // Preview the new level once it's saved - only when the slider moves, not when the screen opens
+  const handleSfxVolumeChange = (volume: number) => {
+    setSettings(prev => ({ ...prev, sfxVolume: volume }));
+    clearTimeout(previewTimerRef.current);
+    previewTimerRef.current = setTimeout(() => playSound('wordFound'), 150);
+  };
+
+  useEffect(() => () => clearTimeout(previewTimerRef.current), []);
+
+  const handleStationChange = (stationId: string) => {
+    setSettings(prev => ({ ...prev, musicStationId: stationId || undefined }));
+    const station = MUSIC_PLAYERS.find(p => p.id === stationId);
+    if (station && station.id !== playerState.currentPlayer.id) {
+      setCurrentPlayer(station);
+    }
+  };
+
+  const handleExport = async () => {
+    const name = (profileId && getProfileMetadata(profileId)?.name) || 'guest';
+    try {
+      const blob = new Blob([await createProfileBackup()], { type: 'application/json' });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `word-glitch-${name.replace(/[^a-z0-9-]+/gi, '-').toLowerCase()}-${new Date().toISOString().slice(0, 10)}.json`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (err: any) {
+      setMessage(err.message || 'Failed to export profile');
+    }
+  };
+
+  const handleImportFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    const result = await parseProfileBackup(await file.text());
+    if (result.success) {
+      setPendingImport(result.backup);
+      setMessage(null);
+    } else {
+      setPendingImport(null);
+      setMessage(result.error);
+    }
+  };
+
+  const handleImport = (mode: ImportMode) => {
+    if (!pendingImport) return;
+    try {
+      const importedId = importProfileBackup(pendingImport, mode);
+      setSettings(loadSettings());
+      setPendingImport(null);
+      setMessage(`${mode === 'merge' ? 'Merged' : 'Restored'} profile "${getProfileMetadata(importedId)?.name}".`);
+    } catch (err: any) {
+      setMessage(err.message || 'Failed to import profile');
+    }
+  };
+
+  const handleTransferImported = (importedId: string) => {
+    setSettings(loadSettings());
+    setTransferMode(null);
+    setMessage(`Merged profile "${getProfileMetadata(importedId)?.name}" from the other device.`);
+  };
+
+  const handleDownloadQuarantine = () => {
+    const blob = new Blob([JSON.stringify(quarantined, null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `word-glitch-recovered-${new Date().toISOString().slice(0, 10)}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleRestoreQuarantined = (entry: QuarantinedDocument) => {
+    if (!window.confirm(`Put the saved copy of ${entry.key} back? The current copy is kept here in its place.`)) return;
+    try {
+      restoreQuarantinedDocument(entry);
+      setSettings(loadSettings());
+      setMessage(`Restored ${entry.key}.`);
+    } catch (err: any) {
+      setMessage(err.message || 'Failed to restore data');
+    }
+    setQuarantined(getQuarantinedDocuments());
+  };
+
+  const handleDiscardQuarantined = (entry: QuarantinedDocument) => {
+    if (!window.confirm(`Delete the saved copy of ${entry.key}? This cannot be undone.`)) return;
+    discardQuarantinedDocument(entry);
+    setQuarantined(getQuarantinedDocuments());
+  };
+
+  const handleResetSettings = () => {
+    if (window.confirm('Restore all settings to their defaults?')) {
+      setSettings(resetSettings());
+      setMessage('Settings restored to defaults.');
+    }
+  };
+
+  const handleResetProgress = () => {
+    if (window.confirm('Are you sure you want to reset your progress? This will:\n\n• Reset your level to 1\n• Reset all scores to 0\n• Reset total play time to 0\n• Reset unlocked levels\n\nThis action cannot be undone. Achievements will be preserved.')) {
+      try {
+        resetProfile();
+        setMessage('Progress has been reset.');
+      } catch (err: any) {
+        setMessage(err.message || 'Failed to reset progress');
+      }
+    }
+  };
+
+  const locale = getLocale(settings.locale);
+  const textScale = getTextScale(settings);
+
   return (
     <div className={styles.settingsScreen}>
       <div className={styles.container}>
@@ -33,6 +206,8 @@ export default function SettingsScreen({ onBack }: SettingsScreenProps) {
         <h1 className={styles.title}>Settings</h1>
 
         <div className={styles.settingsList}>
+          <h2 className={styles.sectionTitle}>Audio</h2>
+
           <div className={styles.setting}>
             <div className={styles.settingInfo}>
               <h3 className={styles.settingLabel}>Sound Effects</h3>
@@ -52,22 +227,73 @@ export default function SettingsScreen({ onBack }: SettingsScreenProps) {
 
           <div className={styles.setting}>
             <div className={styles.settingInfo}>
-              <h3 className={styles.settingLabel}>Background Music</h3>
+              <h3 className={styles.settingLabel}>Effects Volume</h3>
               <p className={styles.settingDescription}>
-                Play background music (coming soon)
+                {Math.round((settings.sfxVolume ?? DEFAULT_SFX_VOLUME) * 100)}%
               </p>
             </div>
-            <label className={styles.toggle}>
+            <input
+              type="range"
+              className={styles.range}
+              min={0}
+              max={1}
+              step={0.05}
+              value={settings.sfxVolume ?? DEFAULT_SFX_VOLUME}
+              disabled={!settings.soundEnabled}
+              onChange={(e) => handleSfxVolumeChange(Number(e.target.value))}
+            />
+          </div>
+
+          <div className={styles.setting}>
+            <div className={styles.settingInfo}>
+              <h3 className={styles.settingLabel}>Music Volume</h3>
+              <p className={styles.settingDescription}>
+                {playerState.isMuted ? 'Muted' : `${Math.round(playerState.volume * 100)}%`}
+              </p>
+            </div>
+            <input
+              type="range"
+              className={styles.range}
+              min={0}
+              max={1}
+              step={0.05}
+              value={playerState.volume}
+              disabled={playerState.isMuted}
+              onChange={(e) => setVolume(Number(e.target.value))}
+            />
+            <label className={styles.toggle} title="Music on/off">
               <input
                 type="checkbox"
-                checked={settings.musicEnabled}
-                onChange={() => handleToggle('musicEnabled')}
-                disabled
+                checked={!playerState.isMuted}
+                onChange={() => setMuted(!playerState.isMuted)}
               />
               <span className={styles.slider}></span>
             </label>
           </div>
 
+          <div className={styles.setting}>
+            <div className={styles.settingInfo}>
+              <h3 className={styles.settingLabel}>Default Station</h3>
+              <p className={styles.settingDescription}>
+                Music station the player starts on
+              </p>
+            </div>
+            <select
+              className={styles.select}
+              value={settings.musicStationId ?? ''}
+              onChange={(e) => handleStationChange(e.target.value)}
+            >
+              <option value="">Last played</option>
+              {MUSIC_PLAYERS.map(station => (
+                <option key={station.id} value={station.id}>
+                  {station.name}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <h2 className={styles.sectionTitle}>Haptics</h2>
+
           <div className={styles.setting}>
             <div className={styles.settingInfo}>
               <h3 className={styles.settingLabel}>Vibration</h3>
@@ -84,6 +310,236 @@ export default function SettingsScreen({ onBack }: SettingsScreenProps) {
               <span className={styles.slider}></span>
             </label>
           </div>
+
+          <h2 className={styles.sectionTitle}>Gameplay</h2>
+
+          <div className={styles.setting}>
+            <div className={styles.settingInfo}>
+              <h3 className={styles.settingLabel}>Input</h3>
+              <p className={styles.settingDescription}>
+                Tap words, drag across their letters (1.25× score) or type them on a keyboard
+              </p>
+            </div>
+            <select
+              className={styles.select}
+              value={settings.inputMode ?? 'tap'}
+              onChange={(e) => setSettings(prev => ({ ...prev, inputMode: e.target.value as InputMode }))}
+            >
+              <option value="tap">Tap</option>
+              <option value="swipe">Swipe to Select</option>
+              <option value="keyboard">Type</option>
+            </select>
+          </div>
+
+          <div className={styles.setting}>
+            <div className={styles.settingInfo}>
+              <h3 className={styles.settingLabel}>Adaptive Difficulty</h3>
+              <p className={styles.settingDescription}>
+                Tune glitch speed, word count, time and visibility from your recent rounds. Never applies to the Daily Glitch
+              </p>
+            </div>
+            <label className={styles.toggle}>
+              <input
+                type="checkbox"
+                checked={!!settings.adaptiveDifficulty}
+                onChange={() => handleToggle('adaptiveDifficulty')}
+              />
+              <span className={styles.slider}></span>
+            </label>
+          </div>
+
+          <div className={styles.setting}>
+            <div className={styles.settingInfo}>
+              <h3 className={styles.settingLabel}>Language</h3>
+              <p className={styles.settingDescription}>
+                Alphabet of the glitch matrix, built-in words and Hangman keyboard
+              </p>
+            </div>
+            <select
+              className={styles.select}
+              value={locale.id}
+              onChange={(e) => handleLocaleChange(e.target.value as LocaleId)}
+            >
+              {getAllLocales().map(option => (
+                <option key={option.id} value={option.id}>
+                  {option.name}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div className={styles.setting}>
+            <div className={styles.settingInfo}>
+              <h3 className={styles.settingLabel}>Word Pack</h3>
+              <p className={styles.settingDescription}>
+                Choose the words hidden in the glitch. Import your own list for training sessions or events.
+              </p>
+              <WordPackSettings
+                localeId={locale.id}
+                activePackId={settings.wordPackId}
+                onSelect={(packId) => setSettings(prev => ({ ...prev, wordPackId: packId }))}
+              />
+            </div>
+          </div>
+
+          <h2 className={styles.sectionTitle}>Accessibility</h2>
+
+          <div className={styles.setting}>
+            <div className={styles.settingInfo}>
+              <h3 className={styles.settingLabel}>Reduced Motion</h3>
+              <p className={styles.settingDescription}>
+                Calmer glitch: filler letters change slower and never scatter. Follows your system setting until changed
+              </p>
+            </div>
+            <label className={styles.toggle}>
+              <input
+                type="checkbox"
+                checked={isReducedMotion(settings)}
+                onChange={() => setSettings(prev => ({ ...prev, reducedMotion: !isReducedMotion(prev) }))}
+              />
+              <span className={styles.slider}></span>
+            </label>
+          </div>
+
+          <div className={styles.setting}>
+            <div className={styles.settingInfo}>
+              <h3 className={styles.settingLabel}>Text Size</h3>
+              <p className={styles.settingDescription}>
+                Letter matrix size: {Math.round(textScale * 100)}% (applies from the next round)
+              </p>
+            </div>
+            <input
+              type="range"
+              className={styles.range}
+              min={TEXT_SCALE_MIN}
+              max={TEXT_SCALE_MAX}
+              step={0.1}
+              value={textScale}
+              onChange={(e) => setSettings(prev => ({ ...prev, textScale: Number(e.target.value) }))}
+            />
+          </div>
+
+          <h2 className={styles.sectionTitle}>Data</h2>
+
+          <div className={styles.setting}>
+            <div className={styles.settingInfo}>
+              <h3 className={styles.settingLabel}>Your Data</h3>
+              <p className={styles.settingDescription}>
+                {profileId
+                  ? 'Settings are saved for this profile. Export a backup of your stats, progress, achievements, scores, settings and coins, or import one from another device.'
+                  : 'Settings are saved on this device. Create a profile to keep separate settings per player, or import a profile backup.'}
+              </p>
+              {message && <p className={styles.message}>{message}</p>}
+              {pendingImport && (
+                <p className={styles.message}>
+                  Backup of &quot;{pendingImport.profile.name}&quot; from {new Date(pendingImport.exportedAt).toLocaleString()}
+                  {' '}(level {pendingImport.progress?.currentLevel ?? 1}, {pendingImport.stats?.totalScore ?? 0} points).
+                  {getProfileMetadata(pendingImport.profile.id)
+                    ? ' Merge it with this profile\'s local data or replace it?'
+                    : ' It will be added as a new profile.'}
+                </p>
+              )}
+            </div>
+            <div className={styles.actions}>
+              {pendingImport ? (
+                <>
+                  <button className={styles.actionButton} onClick={() => handleImport('merge')}>
+                    {getProfileMetadata(pendingImport.profile.id) ? 'Merge' : 'Import'}
+                  </button>
+                  {getProfileMetadata(pendingImport.profile.id) && (
+                    <button className={`${styles.actionButton} ${styles.dangerButton}`} onClick={() => handleImport('replace')}>
+                      Replace
+                    </button>
+                  )}
+                  <button className={styles.actionButton} onClick={() => setPendingImport(null)}>
+                    Cancel
+                  </button>
+                </>
+              ) : (
+                <>
+                  {profileId && (
+                    <button className={styles.actionButton} onClick={handleExport}>
+                      Export
+                    </button>
+                  )}
+                  <label className={styles.actionButton}>
+                    Import
+                    <input type="file" accept=".json,application/json" onChange={handleImportFile} hidden />
+                  </label>
+                </>
+              )}
+              <button className={styles.actionButton} onClick={handleResetSettings}>
+                Reset Settings
+              </button>
+              {profileId && (
+                <button className={`${styles.actionButton} ${styles.dangerButton}`} onClick={handleResetProgress}>
+                  Reset Progress
+                </button>
+              )}
+            </div>
+          </div>
+
+          {quarantined.length > 0 && (
+            <div className={styles.setting}>
+              <div className={styles.settingInfo}>
+                <h3 className={styles.settingLabel}>Recovered Data</h3>
+                <p className={styles.settingDescription}>
+                  Saved data this version of the game couldn&apos;t read was set aside instead of deleted.
+                  Download it, put it back after an update, or delete it.
+                </p>
+                <ul className={styles.recoveredList}>
+                  {quarantined.map(entry => (
+                    <li key={`${entry.key}-${entry.quarantinedAt}`} className={styles.recoveredItem}>
+                      <span>
+                        {entry.key} ({entry.reason}, {new Date(entry.quarantinedAt).toLocaleDateString()})
+                      </span>
+                      <button className={styles.actionButton} onClick={() => handleRestoreQuarantined(entry)}>
+                        Restore
+                      </button>
+                      <button className={`${styles.actionButton} ${styles.dangerButton}`} onClick={() => handleDiscardQuarantined(entry)}>
+                        Delete
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+              <div className={styles.actions}>
+                <button className={styles.actionButton} onClick={handleDownloadQuarantine}>
+                  Download
+                </button>
+              </div>
+            </div>
+          )}
+
+          <div className={styles.setting}>
+            <div className={styles.settingInfo}>
+              <h3 className={styles.settingLabel}>Device Transfer</h3>
+              <p className={styles.settingDescription}>
+                Move a profile between your phone and laptop with QR codes - no account or internet needed.
+                The received profile is merged with the same profile on the other device.
+              </p>
+              {transferMode && (
+                <ProfileTransfer
+                  key={transferMode}
+                  mode={transferMode}
+                  onClose={() => setTransferMode(null)}
+                  onImported={handleTransferImported}
+                />
+              )}
+            </div>
+            {!transferMode && (
+              <div className={styles.actions}>
+                {profileId && (
+                  <button className={styles.actionButton} onClick={() => setTransferMode('send')}>
+                    Send
+                  </button>
+                )}
+                <button className={styles.actionButton} onClick={() => setTransferMode('receive')}>
+                  Receive
+                </button>
+              </div>
+            )}
+          </div>
         </div>
 
         <div className={styles.info}>
@@ -99,4 +555,3 @@ export default function SettingsScreen({ onBack }: SettingsScreenProps) {
     </div>
   );
 }
-
@@ -0,0 +1,160 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import {
+  WordPack,
+  WordPackParseResult,
+  getBuiltinWordPackId,
+  getAllWordPacks,
+  getWordPackWords,
+  parseWordPackJson,
+  parseWordPackCsv,
+  parsePastedWordList,
+  saveWordPack,
+  deleteWordPack,
+} from '@/lib/game/wordPacks';
+import { LocaleId, getLocale } from '@/lib/game/locales';
+import styles from './WordPackSettings.module.css';
+
+interface WordPackSettingsProps {
+  localeId: LocaleId; // Only packs of this locale are listed
+  activePackId?: string;
+  onSelect: (packId: string) => void;
+}
+
+export default function WordPackSettings({ localeId, activePackId = getBuiltinWordPackId(localeId), onSelect }: WordPackSettingsProps) {
+  const [allPacks, setPacks] = useState<WordPack[]>(getAllWordPacks);
+  const [name, setName] = useState('');
+  const [language, setLanguage] = useState<string>(localeId);
+  const [tags, setTags] = useState('');
+  const [pastedWords, setPastedWords] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const packs = allPacks.filter(pack => getLocale(pack.language).id === localeId);
+
+  useEffect(() => {
+    setLanguage(localeId);
+  }, [localeId]);
+
+  const getMeta = (fallbackName: string) => ({
+    name: name.trim() || fallbackName,
+    language,
+    tags: tags.split(',').filter(tag => tag.trim()),
+  });
+
+  const handleResult = (result: WordPackParseResult) => {
+    if (!result.success) {
+      setError(result.error);
+      return;
+    }
+    saveWordPack(result.pack);
+    setPacks(getAllWordPacks());
+    setError(null);
+    setName('');
+    setTags('');
+    setPastedWords('');
+    onSelect(result.pack.id);
+  };
+
+  const handleFileImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    const text = await file.text();
+    const fileName = file.name.replace(/\.[^.]+$/, '');
+    handleResult(file.name.toLowerCase().endsWith('.json')
+      ? parseWordPackJson(text, name.trim() || fileName)
+      : parseWordPackCsv(text, getMeta(fileName)));
+  };
+
+  const handleDelete = (pack: WordPack) => {
+    deleteWordPack(pack.id);
+    setPacks(getAllWordPacks());
+    if (pack.id === activePackId) {
+      onSelect(getBuiltinWordPackId(localeId));
+    }
+  };
+
+  return (
+    <div className={styles.wordPacks}>
+      <div className={styles.packList}>
+        {packs.map(pack => (
+          <label
+            key={pack.id}
+            className={`${styles.pack} ${pack.id === activePackId ? styles.active : ''}`}
+          >
+            <input
+              type="radio"
+              name="wordPack"
+              checked={pack.id === activePackId}
+              onChange={() => onSelect(pack.id)}
+            />
+            <div className={styles.packInfo}>
+              <span className={styles.packName}>{pack.name}</span>
+              <span className={styles.packMeta}>
+                {pack.language.toUpperCase()} · {getWordPackWords(pack).length} words
+                {pack.tags && pack.tags.length > 0 && ` · ${pack.tags.join(', ')}`}
+              </span>
+            </div>
+            {pack.source !== 'builtin' && (
+              <button
+                className={styles.deleteButton}
+                onClick={(event) => {
+                  event.preventDefault();
+                  handleDelete(pack);
+                }}
+              >
+                Delete
+              </button>
+            )}
+          </label>
+        ))}
+      </div>
+
+      <div className={styles.form}>
+        <div className={styles.row}>
+          <input
+            className={styles.input}
+            placeholder="Pack name"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+          />
+          <input
+            className={`${styles.input} ${styles.short}`}
+            placeholder="Language"
+            value={language}
+            onChange={(e) => setLanguage(e.target.value)}
+          />
+        </div>
+        <input
+          className={styles.input}
+          placeholder="Tags, comma separated (e.g. vocabulary, holiday)"
+          value={tags}
+          onChange={(e) => setTags(e.target.value)}
+        />
+        <textarea
+          className={styles.textarea}
+          placeholder="Paste words separated by spaces, commas or new lines"
+          value={pastedWords}
+          onChange={(e) => setPastedWords(e.target.value)}
+          rows={4}
+        />
+        <div className={styles.row}>
+          <button
+            className={styles.button}
+            onClick={() => handleResult(parsePastedWordList(pastedWords, getMeta('')))}
+            disabled={!pastedWords.trim()}
+          >
+            Add Pasted List
+          </button>
+          <label className={styles.button}>
+            Import JSON / CSV
+            <input type="file" accept=".json,.csv,.txt" onChange={handleFileImport} hidden />
+          </label>
+        </div>
+        {error && <p className={styles.error}>{error}</p>}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,161 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { getCurrencyBalance, getTransactionHistory, CurrencyTransaction } from '@/lib/currency';
+import {
+  CONSUMABLE_ITEMS,
+  Inventory,
+  ShopItem,
+  getInventory,
+  getPaletteShopItems,
+  purchaseShopItem,
+} from '@/lib/shop';
+import { getPalette } from '@/lib/colorPalettes';
+import { isPaletteUnlocked } from '@/lib/game/levelProgression';
+import { getCurrentLevel } from '@/lib/game/levelSystem';
+import { STORAGE_KEYS } from '@/lib/storage/gameStorage';
+import { isStorageKeyOf, useExternalStorageChange } from '@/hooks/useExternalStorageChange';
+import styles from './ShopScreen.module.css';
+
+interface ShopScreenProps {
+  onBack: () => void;
+}
+
+const PURCHASE_ERRORS = {
+  'no-profile': 'Create a profile first',
+  'unknown-item': 'This item is not available',
+  'already-owned': 'You already own this',
+  'insufficient-funds': 'Not enough currency',
+};
+
+export default function ShopScreen({ onBack }: ShopScreenProps) {
+  const [balance, setBalance] = useState(0);
+  const [inventory, setInventory] = useState<Inventory>(getInventory);
+  const [purchases, setPurchases] = useState<CurrencyTransaction[]>([]);
+  const [message, setMessage] = useState<{ text: string; error: boolean } | null>(null);
+
+  const currentLevel = getCurrentLevel();
+
+  useEffect(() => {
+    refresh();
+  }, []);
+
+  const refresh = () => {
+    setBalance(getCurrencyBalance());
+    setInventory(getInventory());
+    setPurchases(getTransactionHistory().filter(t => t.itemId).slice(0, 10));
+  };
+
+  // Earned or spent in another tab
+  useExternalStorageChange(key => isStorageKeyOf(key, STORAGE_KEYS.CURRENCY, STORAGE_KEYS.INVENTORY), refresh);
+
+  const handleBuy = (item: ShopItem) => {
+    const result = purchaseShopItem(item.id);
+    if (result.success) {
+      setMessage({ text: `Bought ${item.name}!`, error: false });
+    } else {
+      setMessage({ text: PURCHASE_ERRORS[result.reason], error: true });
+    }
+    refresh();
+  };
+
+  const formatDate = (timestamp: number) => {
+    const date = new Date(timestamp);
+    return date.toLocaleDateString();
+  };
+
+  return (
+    <div className={styles.shopScreen}>
+      <div className={styles.container}>
+        <button className={styles.backButton} onClick={onBack}>
+          ← Back
+        </button>
+
+        <h1 className={styles.title}>Shop</h1>
+        <p className={styles.subtitle}>Spend your glitch credits</p>
+
+        <div className={styles.balance}>
+          <span className={styles.balanceLabel}>Balance</span>
+          <span className={styles.balanceValue}>{balance.toLocaleString()}</span>
+        </div>
+
+        {message && (
+          <p className={`${styles.message} ${message.error ? styles.error : ''}`}>{message.text}</p>
+        )}
+
+        <h2 className={styles.sectionTitle}>Power-Ups</h2>
+        <div className={styles.grid}>
+          {CONSUMABLE_ITEMS.map(item => (
+            <div key={item.id} className={styles.item}>
+              <div className={styles.itemHeader}>
+                <span className={styles.itemName}>{item.name}</span>
+                <span className={styles.owned}>Owned: {inventory.consumables[item.consumable!]}</span>
+              </div>
+              <p className={styles.itemDescription}>{item.description}</p>
+              <button
+                className={styles.buyButton}
+                onClick={() => handleBuy(item)}
+                disabled={balance < item.price}
+              >
+                Buy · {item.price}
+              </button>
+            </div>
+          ))}
+        </div>
+
+        <h2 className={styles.sectionTitle}>Palettes</h2>
+        <div className={styles.grid}>
+          {getPaletteShopItems().map(item => {
+            const palette = getPalette(item.paletteId!);
+            const isPurchased = inventory.palettes.includes(palette.id);
+            const isUnlocked = isPurchased || isPaletteUnlocked(palette.id, currentLevel);
+
+            return (
+              <div key={item.id} className={styles.item}>
+                <div className={styles.itemHeader}>
+                  <span className={styles.itemName}>{item.name}</span>
+                  <span className={styles.difficulty} data-difficulty={palette.difficulty}>
+                    {palette.difficulty}
+                  </span>
+                </div>
+                <div className={styles.swatches}>
+                  {palette.glitchColors.slice(0, 4).map((color, index) => (
+                    <div key={index} className={styles.swatch} style={{ backgroundColor: color }} />
+                  ))}
+                  <div className={styles.swatch} style={{ backgroundColor: palette.hiddenWordColor }} />
+                </div>
+                <p className={styles.itemDescription}>{item.description}</p>
+                {isUnlocked ? (
+                  <span className={styles.unlocked}>{isPurchased ? 'Purchased' : 'Unlocked'}</span>
+                ) : (
+                  <button
+                    className={styles.buyButton}
+                    onClick={() => handleBuy(item)}
+                    disabled={balance < item.price}
+                  >
+                    Unlock · {item.price}
+                  </button>
+                )}
+              </div>
+            );
+          })}
+        </div>
+
+        <h2 className={styles.sectionTitle}>Recent Purchases</h2>
+        {purchases.length === 0 ? (
+          <div className={styles.empty}>No purchases yet</div>
+        ) : (
+          <div className={styles.history}>
+            {purchases.map(transaction => (
+              <div key={transaction.id} className={styles.historyRow}>
+                <span>{transaction.description}</span>
+                <span className={styles.historyAmount}>{transaction.amount}</span>
+                <span className={styles.historyDate}>{formatDate(transaction.timestamp)}</span>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
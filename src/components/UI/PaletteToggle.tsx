@@ -5,6 +5,7 @@ import { ColorPalette, getPalette, getNextPalette, getNextPaletteByDifficulty, C
 import { generateAdaptiveColorSet, interpolateColor } from '@/lib/colorUtils';
 import { getPalettesByDifficulty, isPaletteUnlocked, getLevelRangeForPalette } from '@/lib/game/levelProgression';
 import { getCurrentLevel } from '@/lib/game/levelSystem';
+import { isPalettePurchased } from '@/lib/shop';
 import { PaletteIcon, LockIcon } from './GameIcons';
 import styles from './PaletteToggle.module.css';
 
@@ -162,7 +163,7 @@ export default function PaletteToggle({
         </div>
       </div>
       <div className={styles.infoText} style={{ marginBottom: '1rem', padding: '0.75rem', background: 'rgba(255,255,255,0.1)', borderRadius: '8px' }}>
-        <strong>Level-Based Progression:</strong> Palettes unlock as you progress through levels. Complete 3 levels per palette to advance!
+        <strong>Level-Based Progression:</strong> Palettes unlock as you progress through levels. Complete 3 levels per palette to advance, or unlock them early in the shop!
       </div>
       <div className={styles.paletteListContainer}>
         {(['easy', 'average', 'hard'] as PaletteDifficulty[]).map((difficulty) => {
@@ -182,7 +183,7 @@ export default function PaletteToggle({
               <div className={styles.paletteList}>
                 {palettesWithRanges.map(({ palette, levelRange }) => {
                   const isActive = palette.id === currentPaletteId;
-                  const isLocked = !isPaletteUnlocked(palette.id, currentLevel);
+                  const isLocked = !isPaletteUnlocked(palette.id, currentLevel) && !isPalettePurchased(palette.id);
 
                   return (
                     <PaletteCard
@@ -191,6 +192,7 @@ export default function PaletteToggle({
                       isActive={isActive}
                       isLocked={isLocked}
                       levelRange={levelRange}
+                      onSelect={() => onPaletteChange(palette.id)}
                     />
                   );
                 })}
@@ -208,12 +210,14 @@ function PaletteCard({
   palette,
   isActive,
   isLocked,
-  levelRange
+  levelRange,
+  onSelect
 }: {
   palette: ColorPalette;
   isActive: boolean;
   isLocked: boolean;
   levelRange: { start: number; end: number };
+  onSelect: () => void;
 }) {
   const [animatedColor, setAnimatedColor] = useState<string>(palette.hiddenWordColor);
   const adaptiveColorsRef = useRef<string[]>([]);
@@ -292,6 +296,7 @@ function PaletteCard({
     <div
       className={`${styles.paletteOption} ${isActive ? styles.active : ''} ${isLocked ? styles.locked : ''}`}
       title={isLocked ? `Unlock at Level ${levelRange.start}` : `${palette.name} - Levels ${levelRange.start}-${levelRange.end}`}
+      onClick={isLocked ? undefined : onSelect}
     >
       {isLocked && (
         <div className={styles.lockOverlay}>
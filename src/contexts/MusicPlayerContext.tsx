@@ -1,6 +1,8 @@
 'use client';
 
 import React, { createContext, useContext, useState, useEffect, useRef, useCallback } from 'react';
+import { loadSettings } from '@/lib/storage/gameStorage';
+import { whenStorageReady } from '@/lib/storage/backend';
 
 // Music player configurations (from Omega Player system)
 export interface MusicPlayerConfig {
@@ -60,6 +62,8 @@ interface MusicPlayerContextType {
   nextTrack: () => void;
   previousTrack: () => void;
   setCurrentPlayer: (player: MusicPlayerConfig) => void;
+  setVolume: (volume: number) => void; // 0-1
+  setMuted: (muted: boolean) => void;
   iframeRef: React.RefObject<HTMLIFrameElement>;
 }
 
@@ -68,6 +72,7 @@ const MusicPlayerContext = createContext<MusicPlayerContextType | undefined>(und
 export function MusicPlayerProvider({ children }: { children: React.ReactNode }) {
   const [playerState, setPlayerState] = useState<MusicPlayerState>(() => {
     // Load from localStorage if available
+    // (the default station from settings is applied once game storage is open, below)
     if (typeof window !== 'undefined') {
       const saved = localStorage.getItem('musicPlayerState');
       if (saved) {
@@ -93,6 +98,21 @@ export function MusicPlayerProvider({ children }: { children: React.ReactNode })
     };
   });
 
+  // The default station from settings wins over the last one played
+  // Settings live in game storage, which the page opens after this provider mounts
+  useEffect(() => {
+    let cancelled = false;
+    whenStorageReady().then(() => {
+      const defaultPlayer = MUSIC_PLAYERS.find(p => p.id === loadSettings().musicStationId);
+      if (!cancelled && defaultPlayer) {
+        setPlayerState(prev => ({ ...prev, currentPlayer: defaultPlayer }));
+      }
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
   const iframeRef = useRef<HTMLIFrameElement | null>(null);
   const iframeInitializedRef = useRef(false);
   const messageListenerRef = useRef<((event: MessageEvent) => void) | null>(null);
@@ -469,6 +489,34 @@ export function MusicPlayerProvider({ children }: { children: React.ReactNode })
     }
   }, [playerState.isPlaying, play, pause]);
 
+  const setVolume = useCallback((volume: number) => {
+    setPlayerState(prev => ({ ...prev, volume: Math.min(1, Math.max(0, volume)) }));
+  }, []);
+
+  const setMuted = useCallback((muted: boolean) => {
+    setPlayerState(prev => ({ ...prev, isMuted: muted }));
+  }, []);
+
+  // Apply volume to the YouTube player (0-100), also after a track starts since it resets on load
+  useEffect(() => {
+    const iframe = iframeRef.current;
+    if (!iframe || !iframe.contentWindow) return;
+    const level = playerState.isMuted ? 0 : Math.round(playerState.volume * 100);
+    const apply = () => {
+      try {
+        iframe.contentWindow?.postMessage(
+          JSON.stringify({ event: 'command', func: 'setVolume', args: [level] }),
+          '*'
+        );
+      } catch (e) {
+        console.warn('Iframe volume command failed:', e);
+      }
+    };
+    apply();
+    const retry = setTimeout(apply, 1000);
+    return () => clearTimeout(retry);
+  }, [playerState.volume, playerState.isMuted, playerState.isPlaying, playerState.currentPlayer.id]);
+
   return (
     <MusicPlayerContext.Provider
       value={{
@@ -479,6 +527,8 @@ export function MusicPlayerProvider({ children }: { children: React.ReactNode })
         nextTrack,
         previousTrack,
         setCurrentPlayer,
+        setVolume,
+        setMuted,
         iframeRef,
       }}
     >
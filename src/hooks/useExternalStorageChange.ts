@@ -0,0 +1,28 @@
+// useExternalStorageChange Hook
+// Re-read stored game data when another tab of the game changes it
+
+import { useEffect, useRef } from 'react';
+import { onExternalStorageChange } from '@/lib/storage/backend';
+
+/**
+ * Document key check: the global key itself or its per-profile keys (`${base}-${profileId}`)
+ */
+export function isStorageKeyOf(key: string, ...bases: string[]): boolean {
+    return bases.some(base => key === base || key.startsWith(`${base}-`));
+}
+
+/**
+ * Call onChange whenever another tab writes a key that matches
+ */
+export function useExternalStorageChange(matches: (key: string) => boolean, onChange: () => void): void {
+    const matchesRef = useRef(matches);
+    const onChangeRef = useRef(onChange);
+    matchesRef.current = matches;
+    onChangeRef.current = onChange;
+
+    useEffect(() => {
+        return onExternalStorageChange(keys => {
+            if (keys.some(key => matchesRef.current(key))) onChangeRef.current();
+        });
+    }, []);
+}
@@ -4,7 +4,6 @@
 import { useState, useEffect, useCallback } from 'react';
 import { onAuthChange, getCurrentUser, AuthUser } from '@/lib/firebase/auth';
 import { initializeSync, syncProgressToFirebase, saveGameSession, forceSyncNow, getSyncStatus } from '@/lib/firebase/sync';
-import { loadProgress } from '@/lib/storage/gameStorage';
 import { GameSession } from '@/types/game';
 
 export function useFirebaseSync() {
@@ -40,11 +39,8 @@ export function useFirebaseSync() {
 
     // Sync progress to Firebase
     const syncProgress = useCallback(async () => {
-        const progress = loadProgress();
-        if (progress) {
-            await syncProgressToFirebase(progress);
-            setSyncStatus(getSyncStatus());
-        }
+        await syncProgressToFirebase();
+        setSyncStatus(getSyncStatus());
     }, []);
 
     // Save session to Firebase
@@ -0,0 +1,42 @@
+/**
+ * Accessibility Settings
+ * Resolves the display options stored in settings and applies them to the page
+ */
+
+import { ColorPalette } from '@/lib/colorPalettes';
+import { GameSettings } from '@/lib/storage/types';
+import { loadSettings } from '@/lib/storage/gameStorage';
+
+export const TEXT_SCALE_MIN = 0.8;
+export const TEXT_SCALE_MAX = 1.5;
+
+/**
+ * Reduced motion from settings, or the system preference when never set
+ */
+export function isReducedMotion(settings: GameSettings = loadSettings()): boolean {
+  if (settings.reducedMotion !== undefined) return settings.reducedMotion;
+  return typeof window !== 'undefined' && !!window.matchMedia?.('(prefers-reduced-motion: reduce)').matches;
+}
+
+/**
+ * Text size override for the letter matrix, clamped to the supported range
+ */
+export function getTextScale(settings: GameSettings = loadSettings()): number {
+  return Math.min(TEXT_SCALE_MAX, Math.max(TEXT_SCALE_MIN, settings.textScale ?? 1));
+}
+
+/**
+ * Palette with the player's text size override applied on top of its own multiplier
+ */
+export function applyTextScale(palette: ColorPalette, scale: number = getTextScale()): ColorPalette {
+  if (scale === 1) return palette;
+  return { ...palette, textSizeMultiplier: (palette.textSizeMultiplier ?? 1) * scale };
+}
+
+/**
+ * Mirror the motion setting on <html> so CSS animations follow it too
+ */
+export function applyAccessibilitySettings(settings: GameSettings = loadSettings()): void {
+  if (typeof document === 'undefined') return;
+  document.documentElement.toggleAttribute('data-reduced-motion', isReducedMotion(settings));
+}
@@ -0,0 +1,183 @@
+/**
+ * Sound Effects
+ * Procedurally synthesized Web Audio effects for game events - no audio files to load.
+ * Everything goes through one bus (volume → limiter) so overlapping effects never clip
+ * and stay under the background music from the music player
+ */
+
+import { loadSettings } from '@/lib/storage/gameStorage';
+
+export type SoundEffect =
+  | 'wordFound'
+  | 'miss'
+  | 'decoy'
+  | 'comboTier'
+  | 'countdownWarning'
+  | 'countdownTick'
+  | 'levelComplete'
+  | 'levelFailed'
+  | 'hangmanCorrect'
+  | 'hangmanWrong';
+
+export const DEFAULT_SFX_VOLUME = 0.7;
+
+// Effects sit below full scale so they mix under the music instead of over it
+const BUS_HEADROOM = 0.5;
+
+// The same effect retriggered faster than this is dropped (e.g. rapid misses)
+const MIN_RETRIGGER_MS = 40;
+
+interface Tone {
+  frequency: number;
+  slideTo?: number;      // Pitch glide target over the tone's duration
+  type?: OscillatorType; // 'sine' when unset
+  delay?: number;        // Seconds after the effect starts
+  duration: number;      // Seconds
+  gain?: number;         // Peak level, 1 when unset
+}
+
+interface SoundOptions {
+  tier?: number; // Combo tier (1-based), raises the pitch of comboTier
+}
+
+let audioContext: AudioContext | null = null;
+let busGain: GainNode | null = null;
+const lastPlayedAt = new Map<SoundEffect, number>();
+
+/**
+ * Lazily create the audio graph (browsers only allow it after a user gesture)
+ */
+function getAudioBus(): { context: AudioContext; bus: GainNode } | null {
+  if (typeof window === 'undefined') return null;
+  if (!audioContext) {
+    const AudioContextClass = window.AudioContext
+      || (window as unknown as { webkitAudioContext?: typeof AudioContext }).webkitAudioContext;
+    if (!AudioContextClass) return null;
+
+    audioContext = new AudioContextClass();
+    const limiter = audioContext.createDynamicsCompressor();
+    limiter.threshold.value = -12;
+    limiter.knee.value = 6;
+    limiter.ratio.value = 12;
+    limiter.attack.value = 0.003;
+    limiter.release.value = 0.15;
+    limiter.connect(audioContext.destination);
+
+    busGain = audioContext.createGain();
+    busGain.connect(limiter);
+  }
+  if (audioContext.state === 'suspended') {
+    audioContext.resume().catch(() => {});
+  }
+  return busGain ? { context: audioContext, bus: busGain } : null;
+}
+
+function playTone(context: AudioContext, bus: GainNode, tone: Tone): void {
+  const start = context.currentTime + (tone.delay ?? 0);
+  const end = start + tone.duration;
+  const peak = tone.gain ?? 1;
+
+  const oscillator = context.createOscillator();
+  oscillator.type = tone.type ?? 'sine';
+  oscillator.frequency.setValueAtTime(tone.frequency, start);
+  if (tone.slideTo) {
+    oscillator.frequency.exponentialRampToValueAtTime(tone.slideTo, end);
+  }
+
+  // Short attack and exponential release avoid clicks
+  const envelope = context.createGain();
+  envelope.gain.setValueAtTime(0.0001, start);
+  envelope.gain.exponentialRampToValueAtTime(peak, start + Math.min(0.01, tone.duration / 4));
+  envelope.gain.exponentialRampToValueAtTime(0.0001, end);
+
+  oscillator.connect(envelope);
+  envelope.connect(bus);
+  oscillator.start(start);
+  oscillator.stop(end + 0.02);
+}
+
+/**
+ * Tones making up each effect
+ */
+function getTones(effect: SoundEffect, options: SoundOptions): Tone[] {
+  switch (effect) {
+    case 'wordFound':
+      return [
+        { frequency: 660, duration: 0.08, type: 'triangle' },
+        { frequency: 990, duration: 0.14, type: 'triangle', delay: 0.06 },
+      ];
+    case 'miss':
+      return [{ frequency: 180, slideTo: 120, duration: 0.12, type: 'square', gain: 0.35 }];
+    case 'decoy':
+      return [
+        { frequency: 140, duration: 0.18, type: 'sawtooth', gain: 0.5 },
+        { frequency: 148, duration: 0.18, type: 'sawtooth', gain: 0.5 },
+      ];
+    case 'comboTier': {
+      // Each tier climbs a whole tone
+      const base = 523.25 * Math.pow(2, (2 * Math.max(0, (options.tier ?? 1) - 1)) / 12);
+      return [
+        { frequency: base, duration: 0.09, type: 'square', gain: 0.4 },
+        { frequency: base * 1.25, duration: 0.09, type: 'square', gain: 0.4, delay: 0.07 },
+        { frequency: base * 1.5, duration: 0.16, type: 'square', gain: 0.4, delay: 0.14 },
+      ];
+    }
+    case 'countdownWarning':
+      return [
+        { frequency: 880, duration: 0.1, type: 'square', gain: 0.4 },
+        { frequency: 880, duration: 0.1, type: 'square', gain: 0.4, delay: 0.16 },
+      ];
+    case 'countdownTick':
+      return [{ frequency: 1200, duration: 0.05, type: 'square', gain: 0.3 }];
+    case 'levelComplete':
+      return [523.25, 659.25, 783.99, 1046.5].map((frequency, i) => ({
+        frequency,
+        duration: i === 3 ? 0.4 : 0.12,
+        type: 'triangle' as OscillatorType,
+        delay: i * 0.1,
+      }));
+    case 'levelFailed':
+      return [392, 329.63, 261.63].map((frequency, i) => ({
+        frequency,
+        slideTo: i === 2 ? 196 : undefined,
+        duration: i === 2 ? 0.45 : 0.16,
+        type: 'triangle' as OscillatorType,
+        delay: i * 0.15,
+      }));
+    case 'hangmanCorrect':
+      return [{ frequency: 740, slideTo: 880, duration: 0.1, type: 'triangle' }];
+    case 'hangmanWrong':
+      return [{ frequency: 220, slideTo: 160, duration: 0.18, type: 'sawtooth', gain: 0.4 }];
+  }
+}
+
+/**
+ * Effective effects volume from settings, 0 when muted
+ */
+export function getSfxVolume(): number {
+  const settings = loadSettings();
+  if (!settings.soundEnabled) return 0;
+  return Math.min(1, Math.max(0, settings.sfxVolume ?? DEFAULT_SFX_VOLUME));
+}
+
+/**
+ * Play a sound effect, honoring the mute toggle and volume from settings
+ */
+export function playSound(effect: SoundEffect, options: SoundOptions = {}): void {
+  const volume = getSfxVolume();
+  if (volume <= 0) return;
+
+  const now = Date.now();
+  if (now - (lastPlayedAt.get(effect) ?? 0) < MIN_RETRIGGER_MS) return;
+  lastPlayedAt.set(effect, now);
+
+  try {
+    const audio = getAudioBus();
+    if (!audio) return;
+    audio.bus.gain.setValueAtTime(volume * BUS_HEADROOM, audio.context.currentTime);
+    getTones(effect, options).forEach(tone => playTone(audio.context, audio.bus, tone));
+  } catch (error) {
+    // Audio is decoration - never let it break the game
+    console.warn('Failed to play sound effect:', error);
+  }
+}
@@ -1,25 +1,26 @@
+import { getLevelDefinition } from '@/lib/game/levelDefinitions';
+
 export const APP_VERSION = '1.0.0';
 
 /**
  * Mandatory Palette Requirements for Boss Levels
+ * Set in src/data/levels/bosses.json:
  * Average difficulty levels: 5, 10, 15, 20, 25
  * Hard difficulty levels: 35, 45, 55, 65, 75, 85, 95, 105, etc. (every 10 after 35)
  */
-export const MANDATORY_AVERAGE_LEVELS: readonly number[] = [5, 10, 15, 20, 25];
 
 /**
  * Check if a level is an average difficulty boss level
  */
 export function isAverageBossLevel(level: number): boolean {
-  return MANDATORY_AVERAGE_LEVELS.includes(level);
+  return getMandatoryPaletteDifficulty(level) === 'average';
 }
 
 /**
  * Check if a level is a hard difficulty boss level
- * Hard levels: 35, 45, 55, 65, 75, 85, 95, 105, etc. (every 10 after 35)
  */
 export function isHardBossLevel(level: number): boolean {
-  return level >= 35 && level % 10 === 5;
+  return getMandatoryPaletteDifficulty(level) === 'hard';
 }
 
 /**
@@ -31,19 +32,10 @@ export function isBossLevel(level: number): boolean {
 
 /**
  * Get mandatory palette difficulty for a level
- * Returns 'average' for levels 5, 10, 15, 20, 25
- * Returns 'hard' for levels 35, 45, 55, 65, 75, 85, 95, 105, etc.
- * Returns null if no mandatory requirement
+ * Returns 'average' or 'hard' for boss levels, null if no mandatory requirement
  */
 export function getMandatoryPaletteDifficulty(level: number): 'average' | 'hard' | null {
-  if (isAverageBossLevel(level)) {
-    return 'average';
-  }
-  if (isHardBossLevel(level)) {
-    return 'hard';
-  }
-  
-  return null;
+  return getLevelDefinition(level).mandatoryPalette;
 }
 
 /**
@@ -58,7 +50,7 @@ export function hasMandatoryPalette(level: number): boolean {
  * Useful for display purposes
  */
 export function getAverageBossLevels(upToLevel: number = 100): number[] {
-  return MANDATORY_AVERAGE_LEVELS.filter(level => level <= upToLevel);
+  return Array.from({ length: upToLevel }, (_, i) => i + 1).filter(isAverageBossLevel);
 }
 
 /**
@@ -66,14 +58,7 @@ export function getAverageBossLevels(upToLevel: number = 100): number[] {
  * Useful for display purposes
  */
 export function getHardBossLevels(upToLevel: number = 100): number[] {
-  const hardLevels: number[] = [];
-  
-  // Hard levels: 35, 45, 55, 65, 75, 85, 95, 105, etc. (every 10 after 35)
-  for (let level = 35; level <= upToLevel; level += 10) {
-    hardLevels.push(level);
-  }
-  
-  return hardLevels;
+  return Array.from({ length: upToLevel }, (_, i) => i + 1).filter(isHardBossLevel);
 }
 
 // Game Constants
@@ -98,95 +83,40 @@ export const WORD_VISIBLE_COLORS = [
 
 /**
  * Calculate word visibility duration based on level
- * Updates every 5 levels for progressive difficulty
- * Lower levels: Longer visibility (max 5 seconds)
- * Higher levels: Shorter visibility (1-2 seconds max)
- * Gets progressively harder as player advances
+ * Set in src/data/levels/progression.json: 4-5 seconds on levels 1-5,
+ * 500ms shorter every 5 levels down to 1-2 seconds
  */
 export const getWordVisibilityDuration = (level: number): { min: number; max: number } => {
-  // Ensure level is valid
-  const validLevel = Math.max(1, Math.floor(level));
-  
-  // Group levels into tiers (every 5 levels for more granular progression)
-  const tier = Math.floor((validLevel - 1) / 5);
-  
-  // Progressive difficulty scaling
-  // Tier 0 (levels 1-5): 4-5 seconds (max 5)
-  // Tier 1 (levels 6-10): 3.5-4.5 seconds
-  // Tier 2 (levels 11-15): 3-4 seconds
-  // Tier 3 (levels 16-20): 2.5-3.5 seconds
-  // Tier 4 (levels 21-25): 2-3 seconds
-  // Tier 5 (levels 26-30): 1.5-2.5 seconds
-  // Tier 6 (levels 31-35): 1-2 seconds (max 2)
-  // Tier 7+ (levels 36+): 1-2 seconds (stays at max 2)
-  
-  // Calculate min and max durations in milliseconds
-  // Start at 4000-5000ms (4-5 seconds) and decrease by 500ms per tier
-  const baseMin = Math.max(1000, 4000 - (tier * 500)); // Minimum: 1 second
-  const baseMax = Math.max(2000, 5000 - (tier * 500)); // Maximum: 2 seconds at higher levels
-  
-  // Cap the maximum at 2 seconds for very high levels (tier 6+)
-  const finalMin = tier >= 6 ? 1000 : baseMin;
-  const finalMax = tier >= 6 ? 2000 : baseMax;
-  
-  // Ensure min <= max
-  return {
-    min: Math.min(finalMin, finalMax),
-    max: Math.max(finalMin, finalMax),
-  };
+  return { ...getLevelDefinition(level).modifiers.visibilityMs };
 };
 
 /**
  * Calculate word clickable window duration based on level
- * Updated to provide more time for early levels and progressive difficulty
+ * Set in src/data/levels/progression.json:
  * Levels 1-10: 5 seconds (5000ms) - generous time for beginners
  * Levels 11-30: 4 seconds (4000ms) - moderate challenge
  * Levels 31-75: 3 seconds (3000ms) - challenging
  * Levels 75+: 2 seconds (2000ms) - maximum difficulty
  */
 export const getWordClickableDuration = (level: number): number => {
-  // Ensure level is valid
-  const validLevel = Math.max(1, Math.floor(level));
-  
-  // Level-based duration tiers
-  if (validLevel <= 10) {
-    // Levels 1-10: 5 seconds
-    return 5000;
-  } else if (validLevel <= 30) {
-    // Levels 11-30: 4 seconds
-    return 4000;
-  } else if (validLevel <= 75) {
-    // Levels 31-75: 3 seconds
-    return 3000;
-  } else {
-    // Levels 75+: 2 seconds
-    return 2000;
-  }
+  return getLevelDefinition(level).modifiers.clickableMs;
 };
 
-// Difficulty Settings
-export const DIFFICULTY_SETTINGS = {
-  easy: {
-    glitchSpeed: 100,
-    letterUpdateRate: 0.03,
-    vortexStrength: 0.3,
-  },
-  medium: {
-    glitchSpeed: 60,
-    letterUpdateRate: 0.05,
-    vortexStrength: 0.5,
-  },
-  hard: {
-    glitchSpeed: 40,
-    letterUpdateRate: 0.08,
-    vortexStrength: 0.7,
-  },
-  extreme: {
-    glitchSpeed: 25,
-    letterUpdateRate: 0.12,
-    vortexStrength: 0.9,
-  },
-} as const;
+/**
+ * Visibility duration range stretched or shortened by the difficulty director (scale 1 = untuned)
+ */
+export const getScaledVisibilityRange = (level: number, scale = 1): { min: number; max: number } => {
+  const range = getWordVisibilityDuration(level);
+  return { min: range.min * scale, max: range.max * scale };
+};
+
+/**
+ * Clickable window duration stretched or shortened by the difficulty director,
+ * optionally capped at maxMs before scaling
+ */
+export const getScaledClickableDuration = (level: number, scale = 1, maxMs = Infinity): number => {
+  return Math.min(maxMs, getWordClickableDuration(level)) * scale;
+};
 
 // Word Lists by Difficulty - Comprehensive collection from multiple categories
 export const WORD_LISTS = {
@@ -714,6 +644,68 @@ export const WORD_LISTS = {
   ],
 } as const;
 
+// Built-in word lists for the other game locales (see lib/game/locales.ts)
+// Letters beyond A-Z (Ñ, Ä, accents, Greek) come from the locale's own alphabet
+export const LOCALE_WORD_LISTS = {
+  es: {
+    easy: [
+      'SOL', 'MAR', 'PAN', 'LUZ', 'RÍO', 'PEZ', 'CASA', 'GATO', 'PERRO', 'LUNA',
+      'AGUA', 'FUEGO', 'ROSA', 'NIÑO', 'AÑO', 'MESA', 'PATO', 'OSO', 'LEÓN', 'VINO',
+      'CIELO', 'NUBE', 'ÁRBOL', 'FLOR', 'MANO', 'PIE', 'OJO', 'BOCA', 'TÉ', 'MIEL',
+    ],
+    medium: [
+      'MONTAÑA', 'CAMIÓN', 'CANCIÓN', 'PIÑA', 'ARAÑA', 'SUEÑO', 'PLAYA', 'TIERRA', 'VIENTO', 'NIEVE',
+      'LIMÓN', 'PLÁTANO', 'MÚSICA', 'BAILE', 'JUEGO', 'LIBRO', 'PÁJARO', 'CABALLO', 'CONEJO', 'RATÓN',
+      'DINERO', 'BANCO', 'MONEDA', 'CORAZÓN', 'ESTRELLA', 'CAMINO', 'PUERTA', 'VENTANA', 'CIUDAD', 'PUEBLO',
+    ],
+    hard: [
+      'MURCIÉLAGO', 'PINGÜINO', 'CIGÜEÑA', 'MARIPOSA', 'TELÉFONO', 'ORDENADOR', 'BIBLIOTECA', 'CUMPLEAÑOS', 'MAÑANA', 'ESPAÑOL',
+      'ELEFANTE', 'COCODRILO', 'TORMENTA', 'RELÁMPAGO', 'HORIZONTE', 'AVENTURA', 'MISTERIO', 'PROGRAMA', 'PANTALLA', 'TECLADO',
+    ],
+    extreme: [
+      'ELECTRICIDAD', 'DESARROLLADOR', 'CONTRASEÑA', 'VERGÜENZA', 'ARQUITECTURA', 'CRIPTOMONEDA', 'ALGORITMO', 'INTELIGENCIA',
+      'EXTRAORDINARIO', 'DESCUBRIMIENTO', 'IMAGINACIÓN', 'REVOLUCIÓN', 'SOSTENIBILIDAD', 'MADRILEÑO', 'ENGAÑOSO', 'ACOMPAÑANTE',
+    ],
+  },
+  de: {
+    easy: [
+      'HUND', 'HAUS', 'BAUM', 'MOND', 'SONNE', 'BROT', 'MILCH', 'BÄR', 'FUCHS', 'MAUS',
+      'WALD', 'SEE', 'MEER', 'BERG', 'TÜR', 'UHR', 'BUCH', 'BALL', 'FISCH', 'VOGEL',
+      'ÖL', 'KÄSE', 'TEE', 'EIS', 'ROT', 'BLAU', 'GRÜN', 'HERZ', 'KUH', 'ZUG',
+    ],
+    medium: [
+      'MÄDCHEN', 'BRÜCKE', 'KÜCHE', 'SCHULE', 'STRASSE', 'GARTEN', 'BLUME', 'WOLKE', 'REGEN', 'SCHNEE',
+      'APFEL', 'BIRNE', 'KUCHEN', 'KAFFEE', 'MÖWE', 'KÄFER', 'VÖGEL', 'BÄCKER', 'MÜNZE', 'GELD',
+      'STERN', 'FLUSS', 'INSEL', 'STADT', 'DORF', 'FENSTER', 'SPIEL', 'MUSIK', 'TANZEN', 'LÖWE',
+    ],
+    hard: [
+      'SCHMETTERLING', 'EICHHÖRNCHEN', 'GEMÜSE', 'FRÜHLING', 'GLÜCKLICH', 'SCHLÜSSEL', 'ÜBERRASCHUNG', 'FLUGZEUG', 'FAHRRAD', 'KRANKENHAUS',
+      'BIBLIOTHEK', 'COMPUTER', 'TASTATUR', 'BILDSCHIRM', 'GEWITTER', 'ABENTEUER', 'GEHEIMNIS', 'HIMMEL', 'KÖNIGIN', 'MÄRCHEN',
+    ],
+    extreme: [
+      'ZEITGEIST', 'SCHADENFREUDE', 'WANDERLUST', 'FERNWEH', 'SEHNSUCHT', 'WELTSCHMERZ', 'GEMÜTLICHKEIT', 'FINGERSPITZENGEFÜHL',
+      'KUMMERSPECK', 'TORSCHLUSSPANIK', 'VERSCHLÜSSELUNG', 'ENTWICKLER', 'KÜNSTLICH', 'DRACHENFUTTER', 'OHRWURM', 'FREMDSCHÄMEN',
+    ],
+  },
+  el: {
+    easy: [
+      'ΗΛΙΟΣ', 'ΝΕΡΟ', 'ΦΩΣ', 'ΓΑΤΑ', 'ΣΚΥΛΟΣ', 'ΣΠΙΤΙ', 'ΔΕΝΤΡΟ', 'ΨΑΡΙ', 'ΠΟΥΛΙ', 'ΒΙΒΛΙΟ',
+      'ΜΗΛΟ', 'ΨΩΜΙ', 'ΓΑΛΑ', 'ΜΕΛΙ', 'ΤΣΑΙ', 'ΦΙΛΟΣ', 'ΧΕΡΙ', 'ΜΑΤΙ', 'ΠΟΔΙ', 'ΛΥΚΟΣ',
+      'ΑΕΡΑΣ', 'ΦΩΤΙΑ', 'ΓΗ', 'ΟΥΡΑΝΟΣ', 'ΒΡΟΧΗ', 'ΧΙΟΝΙ', 'ΔΡΟΜΟΣ', 'ΠΟΛΗ', 'ΒΟΥΝΟ', 'ΛΙΜΝΗ',
+    ],
+    medium: [
+      'ΘΑΛΑΣΣΑ', 'ΑΣΤΕΡΙ', 'ΦΕΓΓΑΡΙ', 'ΛΟΥΛΟΥΔΙ', 'ΠΟΤΑΜΙ', 'ΣΥΝΝΕΦΟ', 'ΠΑΡΑΘΥΡΟ', 'ΠΟΡΤΑ', 'ΜΟΥΣΙΚΗ', 'ΧΟΡΟΣ',
+      'ΠΑΙΧΝΙΔΙ', 'ΧΡΗΜΑΤΑ', 'ΝΟΜΙΣΜΑ', 'ΤΡΑΠΕΖΑ', 'ΑΛΟΓΟ', 'ΚΟΥΝΕΛΙ', 'ΛΙΟΝΤΑΡΙ', 'ΑΕΤΟΣ', 'ΔΕΛΦΙΝΙ', 'ΚΑΡΔΙΑ',
+    ],
+    hard: [
+      'ΥΠΟΛΟΓΙΣΤΗΣ', 'ΠΛΗΚΤΡΟΛΟΓΙΟ', 'ΒΙΒΛΙΟΘΗΚΗ', 'ΠΕΤΑΛΟΥΔΑ', 'ΤΗΛΕΦΩΝΟ', 'ΑΕΡΟΠΛΑΝΟ', 'ΠΡΟΓΡΑΜΜΑ', 'ΟΡΙΖΟΝΤΑΣ', 'ΠΕΡΙΠΕΤΕΙΑ', 'ΜΥΣΤΗΡΙΟ',
+    ],
+    extreme: [
+      'ΦΙΛΟΣΟΦΙΑ', 'ΔΗΜΟΚΡΑΤΙΑ', 'ΑΛΓΟΡΙΘΜΟΣ', 'ΚΡΥΠΤΟΓΡΑΦΙΑ', 'ΗΛΕΚΤΡΙΣΜΟΣ', 'ΑΡΧΙΤΕΚΤΟΝΙΚΗ', 'ΜΕΤΑΜΟΡΦΩΣΗ', 'ΕΥΔΑΙΜΟΝΙΑ',
+    ],
+  },
+} as const;
+
 // Achievement Definitions
 export const ACHIEVEMENTS = {
   first_word: {
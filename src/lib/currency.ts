@@ -1,21 +1,25 @@
-import { getCurrentProfileId } from '@/lib/storage/gameStorage';
-import { STORAGE_KEYS } from '@/lib/constants';
+import { STORAGE_KEYS, getCurrentProfileId } from '@/lib/storage/gameStorage';
+import { readDocument, writeDocument } from '@/lib/storage/schema';
 
-const CURRENCY_RATIO = 20; // 20 total score = 1 currency
-const STORAGE_KEY = 'word-glitch-currency';
+export const CURRENCY_RATIO = 20; // 20 total score = 1 currency
+const STORAGE_KEY = STORAGE_KEYS.CURRENCY;
 
-interface CurrencyData {
+export interface CurrencyData {
   currency: number;
   totalEarned: number;
+  bonusEarned?: number; // Currency awarded on top of the score-derived balance (e.g. challenge rewards)
+  totalSpent?: number;
   transactions: CurrencyTransaction[];
 }
 
-interface CurrencyTransaction {
+export interface CurrencyTransaction {
   id: string;
   type: 'earned' | 'spent' | 'converted';
   amount: number;
   timestamp: number;
   description: string;
+  itemId?: string; // Shop item bought with this transaction
+  bonus?: boolean; // Counted in bonusEarned (awards, not the score-derived balance)
 }
 
 function getCurrencyKey(profileId: string): string {
@@ -23,27 +27,15 @@ function getCurrencyKey(profileId: string): string {
 }
 
 function loadCurrencyData(profileId: string): CurrencyData {
-  try {
-    const data = localStorage.getItem(getCurrencyKey(profileId));
-    if (!data) {
-      return {
-        currency: 0,
-        totalEarned: 0,
-        transactions: [],
-      };
-    }
-    return JSON.parse(data) as CurrencyData;
-  } catch {
-    return {
-      currency: 0,
-      totalEarned: 0,
-      transactions: [],
-    };
-  }
+  return readDocument<CurrencyData>(getCurrencyKey(profileId), 'currency') ?? {
+    currency: 0,
+    totalEarned: 0,
+    transactions: [],
+  };
 }
 
 function saveCurrencyData(profileId: string, data: CurrencyData): void {
-  localStorage.setItem(getCurrencyKey(profileId), JSON.stringify(data));
+  writeDocument(getCurrencyKey(profileId), 'currency', data);
 }
 
 /**
@@ -69,8 +61,9 @@ export function convertPointsToCurrency(points: number): number {
 }
 
 /**
- * Award currency from gameplay points
- * @param points - Points earned from gameplay
+ * Award bonus currency from points (e.g. challenge rewards)
+ * Awards are kept on top of the balance derived from total score
+ * @param points - Points to convert into currency
  * @param description - Optional description for transaction
  * @returns Amount of currency awarded
  */
@@ -94,6 +87,7 @@ export function awardCurrency(points: number, description?: string): number {
     const data = loadCurrencyData(profileId);
     data.currency += currencyAmount;
     data.totalEarned += currencyAmount;
+    data.bonusEarned = (data.bonusEarned || 0) + currencyAmount;
 
     // Validate currency values
     if (!Number.isFinite(data.currency) || data.currency < 0) {
@@ -110,6 +104,7 @@ export function awardCurrency(points: number, description?: string): number {
       amount: currencyAmount,
       timestamp: Date.now(),
       description: description || `Earned from gameplay (${points} points)`,
+      bonus: true,
     });
 
     // Keep only last 100 transactions
@@ -141,9 +136,10 @@ export function getCurrencyBalance(): number {
  * Spend currency
  * @param amount - Amount to spend
  * @param description - Description of purchase
+ * @param itemId - Optional shop item the currency was spent on
  * @returns True if successful, false if insufficient funds
  */
-export function spendCurrency(amount: number, description: string): boolean {
+export function spendCurrency(amount: number, description: string, itemId?: string): boolean {
   const profileId = getCurrentProfileId();
   if (!profileId) {
     console.warn('Cannot spend currency: No active profile');
@@ -170,6 +166,7 @@ export function spendCurrency(amount: number, description: string): boolean {
     }
 
     data.currency -= amount;
+    data.totalSpent = (data.totalSpent || 0) + amount;
     
     // Ensure currency doesn't go negative
     if (data.currency < 0) {
@@ -182,6 +179,7 @@ export function spendCurrency(amount: number, description: string): boolean {
       amount: -amount,
       timestamp: Date.now(),
       description,
+      ...(itemId ? { itemId } : {}),
     });
 
     // Keep only last 100 transactions
@@ -230,9 +228,22 @@ export function getCurrencyStats(): {
   };
 }
 
+/**
+ * Get the transaction log of the current profile, newest first
+ * @param limit - Maximum number of transactions to return
+ */
+export function getTransactionHistory(limit = 100): CurrencyTransaction[] {
+  const profileId = getCurrentProfileId();
+  if (!profileId) return [];
+
+  const data = loadCurrencyData(profileId);
+  return data.transactions.slice(-limit).reverse();
+}
+
 /**
  * Sync currency with total score from profile
- * This ensures currency is always calculated from total score (20:1 ratio)
+ * This ensures currency is always calculated from total score (20:1 ratio),
+ * plus bonus awards, minus purchases
  * @param totalScore - Total score from profile stats
  * @returns The currency amount that should be set
  */
@@ -243,11 +254,14 @@ export function syncCurrencyWithTotalScore(totalScore: number): number {
     return 0;
   }
 
-  // Calculate what currency should be based on total score
-  const expectedCurrency = convertTotalScoreToCurrency(totalScore);
-  
   try {
     const data = loadCurrencyData(profileId);
+
+    // Calculate what currency should be based on total score, awards and purchases
+    const expectedCurrency = Math.max(
+      0,
+      convertTotalScoreToCurrency(totalScore) + (data.bonusEarned || 0) - (data.totalSpent || 0)
+    );
     const currentCurrency = data.currency;
     const currencyDifference = expectedCurrency - currentCurrency;
     
@@ -285,6 +299,72 @@ export function syncCurrencyWithTotalScore(totalScore: number): number {
   }
 }
 
+/**
+ * Get the stored currency ledger of the current profile (null before anything was earned)
+ */
+export function getCurrencyData(): CurrencyData | null {
+  const profileId = getCurrentProfileId();
+  if (!profileId) return null;
+  return readDocument<CurrencyData>(getCurrencyKey(profileId), 'currency');
+}
+
+/**
+ * Rebuild a running total (awards or purchases) of two merged ledgers from their transactions:
+ * one ledger's total plus the other's transactions it doesn't list, deduplicated by id
+ * Only transactions newer than the ledger's oldest listed one are added - older ones may have
+ * been trimmed from its log (the last 100 are kept; transfer codes carry none) and already be
+ * in its total
+ */
+function mergeLedgerTotal(
+  local: CurrencyData,
+  incoming: CurrencyData,
+  getTotal: (data: CurrencyData) => number,
+  counts: (transaction: CurrencyTransaction) => boolean
+): number {
+  const withOther = (data: CurrencyData, other: CurrencyData) => {
+    const listed = new Set(data.transactions.map(t => t.id));
+    const since = Math.min(...data.transactions.map(t => t.timestamp));
+    return other.transactions
+      .filter(t => counts(t) && !listed.has(t.id) && t.timestamp > since)
+      .reduce((total, t) => total + Math.abs(t.amount), getTotal(data));
+  };
+  return Math.max(withOther(local, incoming), withOther(incoming, local));
+}
+
+/**
+ * Restore a currency ledger into the current profile (profile backups)
+ * 'replace' takes the ledger as is; 'merge' unions the transactions by id and rebuilds the award
+ * and purchase totals from them, so purchases made on either device are paid for once (this
+ * includes power-ups the other device still holds - restoreInventory leaves those there).
+ * Call syncCurrencyWithTotalScore afterwards to settle the balance
+ */
+export function restoreCurrencyData(ledger: CurrencyData, mode: 'merge' | 'replace'): void {
+  const profileId = getCurrentProfileId();
+  if (!profileId) {
+    console.warn('Cannot restore currency: No active profile');
+    return;
+  }
+
+  if (mode === 'replace') {
+    saveCurrencyData(profileId, { ...ledger, transactions: ledger.transactions.slice(-100) });
+    return;
+  }
+
+  const data = loadCurrencyData(profileId);
+  const transactions = new Map(data.transactions.map(t => [t.id, t]));
+  ledger.transactions.forEach(t => {
+    if (!transactions.has(t.id)) transactions.set(t.id, t);
+  });
+  saveCurrencyData(profileId, {
+    currency: Math.max(data.currency, ledger.currency),
+    totalEarned: Math.max(data.totalEarned, ledger.totalEarned),
+    bonusEarned: mergeLedgerTotal(data, ledger, d => d.bonusEarned || 0, t => t.type === 'earned' && !!t.bonus),
+    totalSpent: mergeLedgerTotal(data, ledger, d => d.totalSpent || 0, t => t.type === 'spent'),
+    // Keep only last 100 transactions
+    transactions: [...transactions.values()].sort((a, b) => a.timestamp - b.timestamp).slice(-100),
+  });
+}
+
 /**
  * Reset currency for a profile (for testing/debugging)
  */
@@ -0,0 +1,53 @@
+// Firebase Admin Configuration
+// Server-only Firebase access used to verify and record trusted data
+// When FIRESTORE_EMULATOR_HOST / FIREBASE_AUTH_EMULATOR_HOST are set the Admin SDK
+// talks to the local emulators instead of production
+
+import { initializeApp, getApps, cert, applicationDefault, App } from 'firebase-admin/app';
+import { getAuth, Auth } from 'firebase-admin/auth';
+import { getFirestore, Firestore } from 'firebase-admin/firestore';
+
+let adminApp: App;
+
+export function isUsingEmulator(): boolean {
+    return !!process.env.FIRESTORE_EMULATOR_HOST;
+}
+
+function initializeAdmin(): App {
+    if (getApps().length) {
+        return getApps()[0];
+    }
+
+    const projectId = process.env.FIREBASE_PROJECT_ID || process.env.NEXT_PUBLIC_FIREBASE_PROJECT_ID;
+
+    // The emulators accept any credentials
+    if (isUsingEmulator()) {
+        return initializeApp({ projectId });
+    }
+
+    // Service account JSON (e.g. on Vercel) or application default credentials
+    const serviceAccount = process.env.FIREBASE_SERVICE_ACCOUNT;
+    return initializeApp({
+        projectId,
+        credential: serviceAccount ? cert(JSON.parse(serviceAccount)) : applicationDefault(),
+    });
+}
+
+export const getAdminApp = () => {
+    if (!adminApp) {
+        adminApp = initializeAdmin();
+    }
+    return adminApp;
+};
+
+export const getAdminAuth = (): Auth => getAuth(getAdminApp());
+
+export const getAdminDb = (): Firestore => getFirestore(getAdminApp());
+
+// Check if server-side Firebase can be used
+export const isAdminConfigured = () => {
+    return !!(
+        (process.env.FIREBASE_PROJECT_ID || process.env.NEXT_PUBLIC_FIREBASE_PROJECT_ID) &&
+        (isUsingEmulator() || process.env.FIREBASE_SERVICE_ACCOUNT || process.env.GOOGLE_APPLICATION_CREDENTIALS)
+    );
+};
@@ -2,8 +2,8 @@
 // This file initializes Firebase with your project credentials
 
 import { initializeApp, getApps, FirebaseApp } from 'firebase/app';
-import { getAuth, Auth } from 'firebase/auth';
-import { getFirestore, Firestore } from 'firebase/firestore';
+import { getAuth, Auth, connectAuthEmulator } from 'firebase/auth';
+import { getFirestore, Firestore, connectFirestoreEmulator } from 'firebase/firestore';
 import { getAnalytics, Analytics } from 'firebase/analytics';
 
 // Firebase configuration from environment variables
@@ -30,8 +30,14 @@ export function initializeFirebase() {
         auth = getAuth(app);
         db = getFirestore(app);
 
+        // Point at the local emulators (firebase emulators:start)
+        if (isUsingEmulators()) {
+            connectAuthEmulator(auth, 'http://127.0.0.1:9099', { disableWarnings: true });
+            connectFirestoreEmulator(db, '127.0.0.1', 8080);
+        }
+
         // Initialize analytics only in browser environment
-        if (typeof window !== 'undefined') {
+        if (typeof window !== 'undefined' && !isUsingEmulators()) {
             analytics = getAnalytics(app);
         }
     } else {
@@ -40,7 +46,7 @@ export function initializeFirebase() {
         db = getFirestore(app);
 
         // Get analytics if in browser
-        if (typeof window !== 'undefined' && !analytics) {
+        if (typeof window !== 'undefined' && !analytics && !isUsingEmulators()) {
             analytics = getAnalytics(app);
         }
     }
@@ -84,3 +90,8 @@ export const isFirebaseConfigured = () => {
         process.env.NEXT_PUBLIC_FIREBASE_PROJECT_ID
     );
 };
+
+// Check if the app should talk to the local Firebase emulators
+export const isUsingEmulators = () => {
+    return process.env.NEXT_PUBLIC_FIREBASE_USE_EMULATORS === 'true';
+};
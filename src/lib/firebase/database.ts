@@ -12,12 +12,13 @@ import {
     orderBy,
     limit,
     getDocs,
+    runTransaction,
     serverTimestamp,
     Timestamp,
 } from 'firebase/firestore';
 import { getFirebaseDb, isFirebaseConfigured } from './config';
 import { StoredProgress, StoredProfile, GameStats } from '../storage/types';
-import { GameSession } from '@/types/game';
+import { ChallengeSyncState } from '@/lib/game/dailyChallenges';
 
 export interface UserProgress {
     currentLevel: number;
@@ -28,9 +29,24 @@ export interface UserProgress {
     unlockedLevels: number[];
     bestScores: Record<number, number>; // level -> best score
     achievements: string[];
+    achievementTimes?: Record<string, number>; // achievement id -> first unlock time
+    stats?: GameStats; // Full stats, merged field by field (see syncMerge)
+    countedSessions?: string[]; // Recent session ids already added to the totals
+    dailyChallenges?: ChallengeSyncState; // Today's completed/claimed challenges
     lastUpdated: Timestamp;
 }
 
+/**
+ * Summary of a finished round stored under users/{uid}/sessions
+ */
+export interface SessionSummary {
+    level: number;
+    score: number;
+    wordsFound: number;
+    accuracy: number;
+    endedAt: number;
+}
+
 // ... UserProfile ...
 
 /**
@@ -39,7 +55,8 @@ export interface UserProgress {
 export async function saveProgress(
     userId: string,
     progress: StoredProgress,
-    stats: GameStats
+    stats: GameStats,
+    dailyChallenges?: ChallengeSyncState
 ): Promise<void> {
     if (!isFirebaseConfigured()) {
         throw new Error('Firebase is not configured');
@@ -57,6 +74,7 @@ export async function saveProgress(
         unlockedLevels: progress.unlockedLevels,
         bestScores: progress.bestScores || {},
         achievements: progress.achievements?.map(a => a.id) || [],
+        ...(dailyChallenges ? { dailyChallenges } : {}),
         lastUpdated: serverTimestamp() as Timestamp,
     };
 
@@ -84,6 +102,29 @@ export async function loadProgress(userId: string): Promise<UserProgress | null>
     return snapshot.data() as UserProgress;
 }
 
+/**
+ * Read, merge and write the progress document in one transaction,
+ * so two devices syncing at the same time can't overwrite each other's rounds
+ */
+export async function updateProgress(
+    userId: string,
+    merge: (current: UserProgress | null) => Omit<UserProgress, 'lastUpdated'>
+): Promise<Omit<UserProgress, 'lastUpdated'>> {
+    if (!isFirebaseConfigured()) {
+        throw new Error('Firebase is not configured');
+    }
+
+    const db = getFirebaseDb();
+    const progressRef = doc(db, 'users', userId, 'progress', 'current');
+
+    return runTransaction(db, async (transaction) => {
+        const snapshot = await transaction.get(progressRef);
+        const data = merge(snapshot.exists() ? snapshot.data() as UserProgress : null);
+        transaction.set(progressRef, { ...data, lastUpdated: serverTimestamp() }, { merge: true });
+        return data;
+    });
+}
+
 /**
  * Save user profile to Firestore
  */
@@ -142,24 +183,22 @@ export async function loadProfile(userId: string): Promise<UserProfile | null> {
 
 /**
  * Save game session to Firestore
+ * Keyed by session id, so a retried write replaces the first one instead of duplicating it
  */
 export async function saveSession(
     userId: string,
-    session: GameSession
+    sessionId: string,
+    session: SessionSummary
 ): Promise<void> {
     if (!isFirebaseConfigured()) {
         throw new Error('Firebase is not configured');
     }
 
     const db = getFirebaseDb();
-    const sessionId = `session-${Date.now()}`;
     const sessionRef = doc(db, 'users', userId, 'sessions', sessionId);
 
     await setDoc(sessionRef, {
-        level: session.level,
-        score: session.score.finalScore,
-        wordsFound: session.score.wordsFound,
-        accuracy: session.score.accuracy,
+        ...session,
         timestamp: serverTimestamp(),
     });
 }
@@ -14,7 +14,9 @@ import {
     serverTimestamp,
     Timestamp,
 } from 'firebase/firestore';
-import { getFirebaseDb, isFirebaseConfigured } from './config';
+import { getFirebaseDb, getFirebaseAuth, isFirebaseConfigured } from './config';
+import { LeaderboardPeriod, DAILY_GLITCH_COLLECTION, getPeriodEntriesPath } from './periods';
+import { ScoreSubmission, ScoreVerificationResult } from '@/lib/game/scoreVerification';
 
 export interface LeaderboardEntry {
     userId: string;
@@ -27,16 +29,26 @@ export interface LeaderboardEntry {
     rank?: number;
 }
 
-export type LeaderboardPeriod = 'daily' | 'weekly' | 'monthly' | 'allTime';
+export type { LeaderboardPeriod };
 
 /**
- * Update user's leaderboard entry
+ * Get the collection holding entries for a period
+ * All-time entries are the cumulative leaderboard/{userId} documents
+ */
+function getLeaderboardCollection(period: LeaderboardPeriod) {
+    const db = getFirebaseDb();
+    return period === 'allTime'
+        ? collection(db, 'leaderboard')
+        : collection(db, ...getPeriodEntriesPath(period));
+}
+
+/**
+ * Update user's leaderboard profile fields
+ * Score and level are only credited server-side from verified sessions (see submitScore)
  */
 export async function updateLeaderboard(
     userId: string,
     username: string,
-    totalScore: number,
-    highestLevel: number,
     profilePicture?: string
 ): Promise<void> {
     if (!isFirebaseConfigured()) {
@@ -46,11 +58,9 @@ export async function updateLeaderboard(
     const db = getFirebaseDb();
     const leaderboardRef = doc(db, 'leaderboard', userId);
 
-    const entry: Omit<LeaderboardEntry, 'rank'> = {
+    const entry: Pick<LeaderboardEntry, 'userId' | 'username' | 'profilePicture' | 'lastUpdated'> = {
         userId,
         username,
-        totalScore,
-        highestLevel,
         profilePicture,
         lastUpdated: serverTimestamp() as Timestamp,
     };
@@ -58,11 +68,53 @@ export async function updateLeaderboard(
     await setDoc(leaderboardRef, entry, { merge: true });
 }
 
+// Client errors (bad or oversized submission, auth refused) and missing server setup don't get
+// better by retrying; timeouts and rate limits do
+function isPermanentSubmissionFailure(status: number): boolean {
+    return (status >= 400 && status < 500 && status !== 408 && status !== 429) || status === 503;
+}
+
+/**
+ * Submit a finished round for server-side verification
+ * The server recomputes the score from the event log before crediting the leaderboard
+ * @returns The verification result, or null when there is no user or the server refused the submission for good
+ */
+export async function submitScore(submission: ScoreSubmission): Promise<ScoreVerificationResult | null> {
+    if (!isFirebaseConfigured()) {
+        throw new Error('Firebase is not configured');
+    }
+
+    const user = getFirebaseAuth().currentUser;
+    if (!user) return null;
+
+    const token = await user.getIdToken();
+    const response = await fetch('/api/scores', {
+        method: 'POST',
+        headers: {
+            'Content-Type': 'application/json',
+            Authorization: `Bearer ${token}`,
+        },
+        body: JSON.stringify(submission),
+    });
+
+    // Rejected submissions still return a verification result
+    if (!response.ok && response.status !== 422 && isPermanentSubmissionFailure(response.status)) {
+        console.warn(`⚠️ Score submission dropped (${response.status})`);
+        return null;
+    }
+    if (!response.ok && response.status !== 422) {
+        throw new Error(`Score submission failed (${response.status})`);
+    }
+
+    return response.json();
+}
+
 /**
- * Get global leaderboard (top N players)
+ * Get global leaderboard (top N players) for a period
  */
 export async function getGlobalLeaderboard(
-    limitCount: number = 100
+    limitCount: number = 100,
+    period: LeaderboardPeriod = 'allTime'
 ): Promise<LeaderboardEntry[]> {
     if (!isFirebaseConfigured()) {
         console.log('⚠️ Firebase not configured, returning empty leaderboard');
@@ -70,9 +122,8 @@ export async function getGlobalLeaderboard(
     }
 
     try {
-        console.log(`🔍 Fetching top ${limitCount} from leaderboard...`);
-        const db = getFirebaseDb();
-        const leaderboardRef = collection(db, 'leaderboard');
+        console.log(`🔍 Fetching top ${limitCount} from ${period} leaderboard...`);
+        const leaderboardRef = getLeaderboardCollection(period);
         const q = query(
             leaderboardRef,
             orderBy('totalScore', 'desc'),
@@ -96,15 +147,18 @@ export async function getGlobalLeaderboard(
 }
 
 /**
- * Get user's rank on leaderboard
+ * Get user's rank on leaderboard for a period
  */
-export async function getUserRank(userId: string): Promise<number | null> {
+export async function getUserRank(
+    userId: string,
+    period: LeaderboardPeriod = 'allTime'
+): Promise<number | null> {
     if (!isFirebaseConfigured()) {
         return null;
     }
 
-    const db = getFirebaseDb();
-    const userRef = doc(db, 'leaderboard', userId);
+    const leaderboardRef = getLeaderboardCollection(period);
+    const userRef = doc(leaderboardRef, userId);
     const userSnapshot = await getDoc(userRef);
 
     if (!userSnapshot.exists()) {
@@ -115,7 +169,6 @@ export async function getUserRank(userId: string): Promise<number | null> {
     const userScore = userData.totalScore;
 
     // Count how many users have a higher score
-    const leaderboardRef = collection(db, 'leaderboard');
     const q = query(
         leaderboardRef,
         where('totalScore', '>', userScore)
@@ -126,18 +179,19 @@ export async function getUserRank(userId: string): Promise<number | null> {
 }
 
 /**
- * Get leaderboard around user (user's rank ± N positions)
+ * Get leaderboard around user (user's rank ± N positions) for a period
  */
 export async function getLeaderboardAroundUser(
     userId: string,
-    range: number = 5
+    range: number = 5,
+    period: LeaderboardPeriod = 'allTime'
 ): Promise<LeaderboardEntry[]> {
     if (!isFirebaseConfigured()) {
         return [];
     }
 
-    const db = getFirebaseDb();
-    const userRef = doc(db, 'leaderboard', userId);
+    const leaderboardRef = getLeaderboardCollection(period);
+    const userRef = doc(leaderboardRef, userId);
     const userSnapshot = await getDoc(userRef);
 
     if (!userSnapshot.exists()) {
@@ -148,7 +202,6 @@ export async function getLeaderboardAroundUser(
     const userScore = userData.totalScore;
 
     // Get users above
-    const leaderboardRef = collection(db, 'leaderboard');
     const aboveQuery = query(
         leaderboardRef,
         where('totalScore', '>=', userScore),
@@ -164,9 +217,10 @@ export async function getLeaderboardAroundUser(
         limit(range)
     );
 
-    const [aboveSnapshot, belowSnapshot] = await Promise.all([
+    const [aboveSnapshot, belowSnapshot, userRank] = await Promise.all([
         getDocs(aboveQuery),
         getDocs(belowQuery),
+        getUserRank(userId, period),
     ]);
 
     const above = aboveSnapshot.docs.map(doc => doc.data() as LeaderboardEntry);
@@ -175,13 +229,52 @@ export async function getLeaderboardAroundUser(
     // Combine and sort
     const combined = [...above, ...below].sort((a, b) => b.totalScore - a.totalScore);
 
-    // Add ranks
+    // Add ranks relative to the user's actual position
+    const userIndex = combined.findIndex(entry => entry.userId === userId);
+    const firstRank = userRank !== null && userIndex >= 0 ? userRank - userIndex : 1;
     return combined.map((entry, index) => ({
         ...entry,
-        rank: index + 1,
+        rank: firstRank + index,
     }));
 }
 
+/**
+ * Get the Daily Glitch leaderboard for a date (YYYY-MM-DD)
+ * Entries use the leaderboard shape: totalScore is the score of the single daily attempt
+ */
+export async function getDailyGlitchLeaderboard(
+    date: string,
+    limitCount: number = 50
+): Promise<LeaderboardEntry[]> {
+    if (!isFirebaseConfigured()) {
+        return [];
+    }
+
+    try {
+        const db = getFirebaseDb();
+        const entriesRef = collection(db, DAILY_GLITCH_COLLECTION, date, 'entries');
+        const q = query(
+            entriesRef,
+            orderBy('totalScore', 'desc'),
+            limit(limitCount)
+        );
+
+        const snapshot = await getDocs(q);
+
+        // Rejected attempts are kept for review but not ranked
+        return snapshot.docs
+            .map(doc => doc.data() as LeaderboardEntry & { status?: string })
+            .filter(entry => entry.status !== 'rejected')
+            .map((entry, index) => ({
+                ...entry,
+                rank: index + 1,
+            }));
+    } catch (error) {
+        console.error('❌ Error fetching Daily Glitch leaderboard:', error);
+        return [];
+    }
+}
+
 /**
  * Get top players by level
  */
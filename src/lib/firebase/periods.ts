@@ -0,0 +1,55 @@
+// Leaderboard Periods
+// Period buckets for daily/weekly/monthly leaderboards (all computed in UTC)
+// Each bucket lives at leaderboardPeriods/{periodKey}/entries/{userId}
+
+export type LeaderboardPeriod = 'daily' | 'weekly' | 'monthly' | 'allTime';
+
+export type TimedLeaderboardPeriod = Exclude<LeaderboardPeriod, 'allTime'>;
+
+export const TIMED_PERIODS: TimedLeaderboardPeriod[] = ['daily', 'weekly', 'monthly'];
+
+export const PERIODS_COLLECTION = 'leaderboardPeriods';
+
+// Daily Glitch results live at dailyGlitch/{date}/entries/{userId}, separate from the period buckets
+export const DAILY_GLITCH_COLLECTION = 'dailyGlitch';
+
+const pad = (value: number) => value.toString().padStart(2, '0');
+
+/**
+ * ISO 8601 week number and its week-based year
+ */
+function getIsoWeek(date: Date): { year: number; week: number } {
+    const day = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+    // Thursday of the current week decides the year
+    const dayOfWeek = day.getUTCDay() || 7;
+    day.setUTCDate(day.getUTCDate() + 4 - dayOfWeek);
+    const yearStart = new Date(Date.UTC(day.getUTCFullYear(), 0, 1));
+    const week = Math.ceil(((day.getTime() - yearStart.getTime()) / 86400000 + 1) / 7);
+    return { year: day.getUTCFullYear(), week };
+}
+
+/**
+ * Get the bucket key for a period, e.g. daily-2024-03-09, weekly-2024-W10, monthly-2024-03
+ */
+export function getPeriodKey(period: TimedLeaderboardPeriod, date: Date = new Date()): string {
+    const year = date.getUTCFullYear();
+    const month = pad(date.getUTCMonth() + 1);
+
+    switch (period) {
+        case 'daily':
+            return `daily-${year}-${month}-${pad(date.getUTCDate())}`;
+        case 'weekly': {
+            const isoWeek = getIsoWeek(date);
+            return `weekly-${isoWeek.year}-W${pad(isoWeek.week)}`;
+        }
+        case 'monthly':
+            return `monthly-${year}-${month}`;
+    }
+}
+
+/**
+ * Collection path segments holding the entries of the current bucket of a period
+ */
+export function getPeriodEntriesPath(period: TimedLeaderboardPeriod, date: Date = new Date()): [string, string, string] {
+    return [PERIODS_COLLECTION, getPeriodKey(period, date), 'entries'];
+}
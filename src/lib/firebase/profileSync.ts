@@ -12,7 +12,8 @@ import {
     getProfileMetadata,
     updateProfileMetadata
 } from '../storage/gameStorage';
-import { saveProfile as saveFirebaseProfile, loadProfile as loadFirebaseProfile } from './database';
+import { loadProfile as loadFirebaseProfile } from './database';
+import { flushSyncQueue, queueProfileWrite } from './syncQueue';
 import { isFirebaseConfigured } from './config';
 
 /**
@@ -97,13 +98,14 @@ export async function syncProfileWithAuth(): Promise<void> {
                 setCurrentProfileId(profileId);
             }
 
-            // Save to Firebase
-            await saveFirebaseProfile(user.uid, {
+            // Save to Firebase (queued, so it is retried if it fails)
+            queueProfileWrite(user.uid, {
                 username,
                 email: user.email || undefined,
                 walletAddress: user.uid,
                 profilePicture
             });
+            await flushSyncQueue();
 
             console.log('✅ Created Firebase profile');
         }
@@ -133,12 +135,13 @@ export async function updateProfileName(newName: string): Promise<void> {
     // Update Firebase if authenticated
     if (user && isFirebaseConfigured()) {
         const metadata = getProfileMetadata(profileId);
-        await saveFirebaseProfile(user.uid, {
+        queueProfileWrite(user.uid, {
             username: newName,
             email: user.email || undefined,
             walletAddress: user.uid,
             profilePicture: metadata?.profilePicture
         });
+        await flushSyncQueue();
     }
 }
 
@@ -246,12 +249,13 @@ export async function linkCurrentProfileToFirebase(): Promise<void> {
     });
 
     // Save to Firebase
-    await saveFirebaseProfile(user.uid, {
+    queueProfileWrite(user.uid, {
         username: localMetadata.name,
         email: user.email || undefined,
         walletAddress: user.uid,
         profilePicture: localMetadata.profilePicture,
     });
+    await flushSyncQueue();
 
     console.log('✅ Profile linked to Firebase');
 }
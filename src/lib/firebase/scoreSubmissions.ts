@@ -0,0 +1,160 @@
+// Score Submission Service (server only)
+// Verifies submitted rounds and credits the all-time and period leaderboards with the verified score
+
+import { FieldValue } from 'firebase-admin/firestore';
+import { getAdminDb } from './admin';
+import { TIMED_PERIODS, DAILY_GLITCH_COLLECTION, getPeriodEntriesPath, getPeriodKey } from './periods';
+import {
+    ScoreSubmission,
+    ScoreVerificationResult,
+    verifyScoreSubmission,
+} from '@/lib/game/scoreVerification';
+import { getDailyGlitchDate } from '@/lib/game/dailyGlitch';
+
+/**
+ * Mark a result as rejected with an extra server-side issue
+ */
+function rejectResult(result: ScoreVerificationResult, code: 'daily-puzzle' | 'daily-attempt-used', message: string): void {
+    result.issues.push({ code, severity: 'reject', message });
+    result.status = 'rejected';
+    result.acceptedScore = 0;
+}
+
+/**
+ * Verify a submission and record the outcome
+ * - verified: score credited to the leaderboard
+ * - flagged: score credited, entry marked for review
+ * - rejected: nothing credited, attempt kept for review
+ */
+export async function recordScoreSubmission(
+    userId: string,
+    submission: ScoreSubmission
+): Promise<ScoreVerificationResult> {
+    const result = verifyScoreSubmission(submission);
+    if (submission.dailyDate) {
+        return recordDailyGlitchSubmission(userId, submission, result);
+    }
+
+    const db = getAdminDb();
+    // Keyed by replay id, so a submission retried by the client's sync queue is only credited once
+    const sessions = db.collection('sessions');
+    const sessionRef = submission.replay?.id ? sessions.doc(`${userId}_${submission.replay.id}`) : sessions.doc();
+    const leaderboardRef = db.collection('leaderboard').doc(userId);
+    const now = new Date();
+    const periodRefs = TIMED_PERIODS.map(period =>
+        db.collection(getPeriodEntriesPath(period, now).join('/')).doc(userId)
+    );
+
+    await db.runTransaction(async (transaction) => {
+        const [sessionSnap, leaderboardSnap, ...periodSnaps] = await transaction.getAll(sessionRef, leaderboardRef, ...periodRefs);
+        if (sessionSnap.exists) return;
+        const currentHighest = leaderboardSnap.exists ? leaderboardSnap.get('highestLevel') || 0 : 0;
+
+        transaction.set(sessionRef, {
+            userId,
+            replayId: submission.replay?.id ?? null,
+            level: submission.level,
+            seed: submission.seed ?? null,
+            victory: !!submission.victory,
+            claimedScore: submission.finalScore,
+            recomputedScore: result.recomputedScore,
+            acceptedScore: result.acceptedScore,
+            wordsFound: result.wordsFound,
+            attempts: result.attempts,
+            status: result.status,
+            issues: result.issues,
+            timestamp: FieldValue.serverTimestamp(),
+        });
+
+        if (result.status === 'rejected') {
+            transaction.set(leaderboardRef, {
+                userId,
+                rejectedSessions: FieldValue.increment(1),
+            }, { merge: true });
+            return;
+        }
+
+        const reachedLevel = submission.victory ? submission.level + 1 : submission.level;
+        transaction.set(leaderboardRef, {
+            userId,
+            totalScore: FieldValue.increment(result.acceptedScore),
+            highestLevel: Math.max(currentHighest, reachedLevel),
+            verifiedSessions: FieldValue.increment(1),
+            ...(result.status === 'flagged' ? { flaggedSessions: FieldValue.increment(1) } : {}),
+            lastUpdated: FieldValue.serverTimestamp(),
+        }, { merge: true });
+
+        // Period buckets carry the profile fields so they can be listed on their own
+        periodRefs.forEach((periodRef, index) => {
+            const periodHighest = periodSnaps[index].exists ? periodSnaps[index].get('highestLevel') || 0 : 0;
+            transaction.set(periodRef, {
+                userId,
+                username: leaderboardSnap.get('username') || 'Anonymous',
+                profilePicture: leaderboardSnap.get('profilePicture') ?? null,
+                periodKey: getPeriodKey(TIMED_PERIODS[index], now),
+                totalScore: FieldValue.increment(result.acceptedScore),
+                highestLevel: Math.max(periodHighest, reachedLevel),
+                lastUpdated: FieldValue.serverTimestamp(),
+            }, { merge: true });
+        });
+    });
+
+    if (result.status !== 'verified') {
+        console.warn(`⚠️ Session ${sessionRef.id} ${result.status}:`, result.issues.map(i => i.code).join(', '));
+    }
+
+    return result;
+}
+
+/**
+ * Record a Daily Glitch round on the daily leaderboard
+ * Only the first submission per player and day counts
+ */
+async function recordDailyGlitchSubmission(
+    userId: string,
+    submission: ScoreSubmission,
+    result: ScoreVerificationResult
+): Promise<ScoreVerificationResult> {
+    const db = getAdminDb();
+    const date = submission.dailyDate!;
+
+    // Rounds may finish just after midnight, so yesterday's puzzle is still accepted
+    const now = Date.now();
+    const openDates = [getDailyGlitchDate(new Date(now)), getDailyGlitchDate(new Date(now - 86400000))];
+    if (!openDates.includes(date)) {
+        rejectResult(result, 'daily-puzzle', `The Daily Glitch for ${date} is closed`);
+    }
+
+    const entryRef = db.collection(DAILY_GLITCH_COLLECTION).doc(date).collection('entries').doc(userId);
+    const leaderboardRef = db.collection('leaderboard').doc(userId);
+
+    await db.runTransaction(async (transaction) => {
+        const [entrySnap, leaderboardSnap] = await transaction.getAll(entryRef, leaderboardRef);
+        if (entrySnap.exists) {
+            rejectResult(result, 'daily-attempt-used', `Daily Glitch for ${date} was already played`);
+            return;
+        }
+
+        // Rejected rounds still use up the attempt
+        transaction.set(entryRef, {
+            userId,
+            username: leaderboardSnap.get('username') || 'Anonymous',
+            profilePicture: leaderboardSnap.get('profilePicture') ?? null,
+            totalScore: result.acceptedScore,
+            highestLevel: submission.level,
+            wordsFound: result.wordsFound,
+            accuracy: submission.accuracy,
+            levelTime: submission.levelTime ?? null,
+            replayId: submission.replay?.id ?? null,
+            status: result.status,
+            issues: result.issues,
+            lastUpdated: FieldValue.serverTimestamp(),
+        });
+    });
+
+    if (result.status !== 'verified') {
+        console.warn(`⚠️ Daily Glitch ${date} for ${userId} ${result.status}:`, result.issues.map(i => i.code).join(', '));
+    }
+
+    return result;
+}
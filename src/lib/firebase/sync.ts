@@ -1,30 +1,29 @@
 // Firebase Sync Service
 // Automatically syncs game progress to Firebase and manages offline/online state
+// Writes go through the persistent sync queue (see syncQueue), so nothing is lost while offline
 import { getCurrentUser } from './auth';
-import { updateLeaderboard } from './leaderboard';
 import { isFirebaseConfigured } from './config';
+import { loadProgress as loadFirebaseProgress } from './database';
 import {
-    loadProgress as loadLocalProgress,
-    loadProfile as loadLocalStats,
-    saveProfileForId,
-    saveProgress as saveLocalProgress,
-    saveProfile as saveLocalProfile,
-    getCurrentProfileId,
-    getProfileMetadata,
-    createProfile,
-    STORAGE_KEYS
-} from '../storage/gameStorage';
-import { StoredProgress, GameStats } from '../storage/types';
-import { UserProgress, saveProgress as saveFirebaseProgress, loadProgress as loadFirebaseProgress, saveProfile as saveFirebaseProfile, saveSession } from './database';
+    flushSyncQueue,
+    getSyncQueueStatus,
+    queueProgressSync,
+    queueSession,
+    retrySyncQueueNow,
+} from './syncQueue';
 import { GameSession } from '@/types/game';
+import { ReplayLog } from '@/lib/game/replay';
+import { mergeChallengeSyncState } from '@/lib/game/dailyChallenges';
 
 // Sync state
 let isSyncing = false;
 let lastSyncTime = 0;
-const SYNC_INTERVAL = 30000; // Sync every 30 seconds
+let autoSyncStarted = false;
+const SYNC_INTERVAL = 30000; // Merge progress every 30 seconds
 
 /**
  * Initialize auto-sync on app load
+ * Progress, stats and achievements are merged field by field with the cloud (see syncMerge)
  */
 export async function initializeSync(): Promise<void> {
     if (!isFirebaseConfigured()) return;
@@ -36,174 +35,98 @@ export async function initializeSync(): Promise<void> {
         const { syncProfileWithAuth } = await import('./profileSync');
         await syncProfileWithAuth();
 
-        // Load data
+        // Challenges completed or claimed on another device carry over
         const cloudData = await loadFirebaseProgress(user.uid);
-        const localProgress = loadLocalProgress();
-        const localStats = loadLocalStats();
-
-        if (cloudData && localProgress && localStats) {
-            // MERGE: Keep the better progress
-            // For now, simpler: Use Cloud levels if higher
-            const cloudLevel = cloudData.highestLevel || cloudData.currentLevel;
-            const localLevel = Math.max(localProgress.currentLevel, ...(localProgress.unlockedLevels || []));
-
-            if (cloudLevel > localLevel) {
-                // Restore from Cloud
-                console.log('📥 Cloud progress better, restoring...');
-                await restoreFromCloud(cloudData);
-            } else {
-                // Push Local to Cloud
-                await saveFirebaseProgress(user.uid, localProgress, localStats);
-                console.log('✅ Local progress fresher, synced to Firebase');
-            }
-
-        } else if (localProgress && localStats) {
-            // Upload local progress to Firebase
-            await saveFirebaseProgress(user.uid, localProgress, localStats);
-            console.log('📤 Uploaded local progress to Firebase');
-        } else if (cloudData) {
-            // Restore from Cloud (New Device case)
-            console.log('📥 restoring from Cloud (New Device)...');
-            await restoreFromCloud(cloudData);
-        }
-
-        startAutoSync();
+        mergeChallengeSyncState(cloudData?.dailyChallenges);
     } catch (error) {
         console.error('❌ Sync initialization failed:', error);
     }
+
+    queueProgressSync();
+    await runSync();
+    startAutoSync();
 }
 
-async function restoreFromCloud(cloudData: UserProgress) {
-    let profileId = getCurrentProfileId();
-    if (!profileId) {
-        // Create a profile for the cloud user
-        profileId = createProfile('Cloud User');
+/**
+ * Flush the sync queue, tracking the sync status
+ */
+async function runSync(): Promise<void> {
+    isSyncing = true;
+    try {
+        await flushSyncQueue();
+        lastSyncTime = Date.now();
+    } catch (error) {
+        console.error('❌ Sync failed:', error);
+    } finally {
+        isSyncing = false;
     }
-
-    // Restore Progress (StoredProgress)
-    // We need to restore the full object including bestScores map
-    const restoredProgress: StoredProgress = {
-        currentLevel: cloudData.currentLevel || 1,
-        unlockedLevels: cloudData.unlockedLevels || [1],
-        bestScores: cloudData.bestScores || {},
-        achievements: [] // We should ideally map cloud achievements here if we had them
-    };
-
-    // Direct write to storage to ensure we overwrite/restore fully
-    localStorage.setItem(STORAGE_KEYS.PROGRESS, JSON.stringify(restoredProgress));
-
-    // Restore Stats (GameStats)
-    const restoredStats: GameStats = {
-        totalScore: cloudData.totalScore || 0,
-        totalWordsFound: cloudData.totalWordsFound || 0,
-        levelsCompleted: cloudData.levelsCompleted || 0,
-        totalPlayTime: 0,
-        currentLevel: cloudData.currentLevel,
-        unlockedLevels: cloudData.unlockedLevels || [1],
-        averageAccuracy: 0,
-        bestRoundScore: 0,
-        bestScore: 0,
-        totalRoundsPlayed: 0,
-        wordsPerMinute: 0,
-        averageScorePerRound: 0,
-        totalAttempts: 0,
-        totalCorrectFinds: 0,
-        averageRoundTime: 0,
-        fastestRoundTime: 0,
-        perfectRounds: 0,
-        longestCombo: 0,
-        highestRound: cloudData.highestLevel,
-        bestAccuracy: 0
-    };
-
-    saveProfileForId(profileId, restoredStats);
-
-    // Reload page to reflect changes? 
-    // Usually React state updates if we trigger listeners, but storage events don't trigger in same window.
-    // For now, next refresh will show it.
 }
 
 /**
  * Save progress to Firebase (called after level completion)
+ * Queues a merge of the current profile with the cloud and tries to send it right away
  */
-export async function syncProgressToFirebase(progress: StoredProgress): Promise<void> {
+export async function syncProgressToFirebase(): Promise<void> {
     if (!isFirebaseConfigured()) return;
-    const user = getCurrentUser();
-    if (!user) return;
 
-    const stats = loadLocalStats();
-    if (!stats) return;
-
-    try {
-        await saveFirebaseProgress(user.uid, progress, stats);
-
-        // Update leaderboard
-        const profileId = getCurrentProfileId();
-        const profile = profileId ? getProfileMetadata(profileId) : null;
-        const username = profile?.name || user.displayName || 'Anonymous';
-
-        // Calculate derived values
-        const derivedHighestLevel = Math.max(progress.currentLevel, ...(progress.unlockedLevels || []));
-        const derivedTotalScore = stats.totalScore;
-
-        await updateLeaderboard(
-            user.uid,
-            username,
-            derivedTotalScore,
-            derivedHighestLevel,
-            profile?.profilePicture
-        );
-
-        console.log('✅ Progress synced to Firebase');
-    } catch (error) {
-        console.error('❌ Failed to sync progress:', error);
-    }
+    queueProgressSync();
+    await runSync();
 }
 
 /**
  * Save game session to Firebase (called after each level)
+ * When the round's replay is available it is also submitted for score verification,
+ * which credits the all-time and daily/weekly/monthly leaderboards.
+ * Queued first, so rounds played offline or signed out are sent later
  */
-export async function saveGameSession(session: GameSession): Promise<void> {
+export async function saveGameSession(
+    session: GameSession,
+    replay?: ReplayLog,
+    timeRemaining?: number
+): Promise<void> {
     if (!isFirebaseConfigured()) return;
 
-    const user = getCurrentUser();
-    if (!user) return;
+    queueSession(session, replay, timeRemaining);
+    await runSync();
+}
 
-    try {
-        await saveSession(user.uid, session);
-        console.log('✅ Session saved to Firebase');
-    } catch (error) {
-        console.error('❌ Failed to save session:', error);
-    }
+/**
+ * Submit a Daily Glitch round (called once per day, instead of saveGameSession)
+ * Verified results go to the daily leaderboard only
+ */
+export async function saveDailyGlitchSession(
+    session: GameSession,
+    replay: ReplayLog,
+    date: string,
+    timeRemaining?: number
+): Promise<void> {
+    if (!isFirebaseConfigured()) return;
+
+    queueSession(session, replay, timeRemaining, date);
+    await runSync();
 }
 
 /**
  * Start automatic background sync
  */
 function startAutoSync(): void {
-    // Sync every 30 seconds
+    if (autoSyncStarted) return;
+    autoSyncStarted = true;
+
+    // Connectivity is back: retry everything now instead of waiting out the backoff
+    window.addEventListener('online', () => {
+        retrySyncQueueNow().catch(error => console.error('❌ Sync after reconnect failed:', error));
+    });
+
     setInterval(async () => {
-        if (isSyncing) return;
-
-        const now = Date.now();
-        if (now - lastSyncTime < SYNC_INTERVAL) return;
-
-        isSyncing = true;
-        lastSyncTime = now;
-
-        try {
-            const user = getCurrentUser();
-            if (!user) return;
-
-            const progress = loadLocalProgress();
-            if (progress) {
-                await syncProgressToFirebase(progress);
-            }
-        } catch (error) {
-            console.error('❌ Auto-sync failed:', error);
-        } finally {
-            isSyncing = false;
+        if (isSyncing || !getCurrentUser()) return;
+
+        // Due retries go out on every check, a fresh progress merge every 30 seconds
+        if (Date.now() - lastSyncTime >= SYNC_INTERVAL) {
+            queueProgressSync();
         }
+
+        await runSync();
     }, 10000); // Check every 10 seconds
 }
 
@@ -216,20 +139,15 @@ export async function forceSyncNow(): Promise<void> {
         return;
     }
 
-    const user = getCurrentUser();
-    if (!user) {
+    if (!getCurrentUser()) {
         console.log('⚠️ No user logged in');
         return;
     }
 
-    const progress = loadLocalProgress();
-    if (!progress) {
-        console.log('⚠️ No progress to sync');
-        return;
-    }
-
     console.log('🔄 Force syncing...');
-    await syncProgressToFirebase(progress);
+    queueProgressSync();
+    await retrySyncQueueNow();
+    lastSyncTime = Date.now();
 }
 
 /**
@@ -246,10 +164,15 @@ export function getSyncStatus(): {
     enabled: boolean;
     lastSync: number;
     syncing: boolean;
+    pending: number; // queued writes not yet in the cloud
+    lastError?: string;
 } {
+    const queue = getSyncQueueStatus();
     return {
         enabled: isSyncEnabled(),
         lastSync: lastSyncTime,
         syncing: isSyncing,
+        pending: queue.pending,
+        lastError: queue.lastError,
     };
 }
@@ -0,0 +1,279 @@
+// Sync Merge Rules
+// Field-level merge of progress, stats and achievements between this device and another copy
+// (the cloud, or a backup file), so neither side's rounds, bests or achievements get dropped:
+// - bests (best scores, best accuracy, longest combo, highest level) take the maximum
+// - unlocked levels and achievements are unioned
+// - session-derived totals (score, words, play time, rounds...) are additive: rounds this device
+//   played since the last merge are added once, deduplicated by session id
+
+import { GameSession } from '@/types/game';
+import { Achievement, GameStats, StoredProgress } from '../storage/types';
+import { getSessionPlayTime } from '../storage/gameStorage';
+import { ACHIEVEMENTS } from '@/lib/constants';
+
+/**
+ * What one finished round adds to the totals
+ */
+export interface SessionContribution {
+    id: string;             // session id, see getSessionId
+    endedAt: number;
+    level: number;
+    score: number;
+    wordsFound: number;
+    playTime: number;       // seconds, as counted by updateStats
+    attempts: number;
+    correctFinds: number;
+    accuracy: number;       // 0-100
+    maxCombo: number;
+}
+
+export interface AchievementRecord {
+    id: string;
+    unlockedAt?: number;
+}
+
+/**
+ * Everything that is merged between two copies of a profile
+ */
+export interface ProgressSnapshot {
+    progress: StoredProgress;
+    stats: GameStats;
+    achievements: AchievementRecord[];
+}
+
+// Totals that grow with every round
+const ADDITIVE_STATS = [
+    'totalScore',
+    'totalWordsFound',
+    'levelsCompleted',
+    'totalPlayTime',
+    'totalRoundsPlayed',
+    'totalAttempts',
+    'totalCorrectFinds',
+    'perfectRounds',
+] as const;
+
+type AdditiveStat = typeof ADDITIVE_STATS[number];
+// averageAccuracy is a running average per round, so it merges as a sum over rounds
+type Totals = Record<AdditiveStat | 'accuracySum', number>;
+
+// Personal bests that only ever go up
+const MAX_STATS = ['bestScore', 'bestRoundScore', 'bestAccuracy', 'longestCombo', 'highestRound', 'currentLevel'] as const;
+
+// Session ids kept in the cloud document to recognize rounds that were already added
+export const MAX_COUNTED_SESSIONS = 500;
+
+/**
+ * Stable id of a round: its replay id, or its start time for rounds without a replay
+ */
+export function getSessionId(session: GameSession): string {
+    return session.replayId ?? `session-${session.startTime}`;
+}
+
+export function toSessionContribution(session: GameSession): SessionContribution {
+    return {
+        id: getSessionId(session),
+        endedAt: session.endTime ?? Date.now(),
+        level: session.level,
+        score: session.score.finalScore,
+        wordsFound: session.score.wordsFound,
+        playTime: getSessionPlayTime(session),
+        attempts: session.attempts,
+        correctFinds: session.correctFinds,
+        accuracy: session.score.accuracy,
+        maxCombo: session.maxCombo,
+    };
+}
+
+export function createEmptyStats(): GameStats {
+    return {
+        totalWordsFound: 0,
+        levelsCompleted: 0,
+        bestScore: 0,
+        totalScore: 0,
+        averageAccuracy: 0,
+        totalPlayTime: 0,
+        currentLevel: 1,
+        unlockedLevels: [1],
+        totalRoundsPlayed: 0,
+        highestRound: 1,
+        bestRoundScore: 0,
+        fastestRoundTime: Infinity,
+        averageRoundTime: 0,
+        averageScorePerRound: 0,
+        totalAttempts: 0,
+        totalCorrectFinds: 0,
+        longestCombo: 0,
+        perfectRounds: 0,
+        wordsPerMinute: 0,
+        bestAccuracy: 0,
+    };
+}
+
+function getTotals(stats: Partial<GameStats>): Totals {
+    const totals = Object.fromEntries(ADDITIVE_STATS.map(key => [key, stats[key] || 0])) as Totals;
+    totals.accuracySum = (stats.averageAccuracy || 0) * (stats.totalRoundsPlayed || 0);
+    return totals;
+}
+
+function sumContributions(contributions: SessionContribution[]): Totals {
+    const totals = getTotals({});
+    contributions.forEach(c => {
+        totals.totalScore += c.score;
+        totals.totalWordsFound += c.wordsFound;
+        totals.levelsCompleted += 1;
+        totals.totalPlayTime += c.playTime;
+        totals.totalRoundsPlayed += 1;
+        totals.totalAttempts += c.attempts;
+        totals.totalCorrectFinds += c.correctFinds;
+        totals.perfectRounds += c.accuracy >= 100 ? 1 : 0;
+        totals.accuracySum += c.accuracy;
+    });
+    return totals;
+}
+
+// 0 and Infinity both mean "no round timed yet"
+const knownTime = (time: number | undefined) => (time && Number.isFinite(time) && time > 0 ? time : Infinity);
+
+/**
+ * Stats with the given totals, recomputing the averages that derive from them
+ */
+function withTotals(stats: GameStats, totals: Totals): GameStats {
+    const rounds = totals.totalRoundsPlayed;
+    return {
+        ...stats,
+        ...Object.fromEntries(ADDITIVE_STATS.map(key => [key, totals[key]])),
+        averageAccuracy: rounds > 0 ? totals.accuracySum / rounds : stats.averageAccuracy,
+        averageRoundTime: rounds > 0 ? totals.totalPlayTime / rounds : 0,
+        averageScorePerRound: rounds > 0 ? totals.totalScore / rounds : 0,
+        wordsPerMinute: totals.totalPlayTime > 0 ? (totals.totalWordsFound / totals.totalPlayTime) * 60 : 0,
+    };
+}
+
+/**
+ * Merge stats field by field
+ * local includes every pending round; rounds whose id is in remoteCounted are already part of
+ * the remote totals. Totals become max(local without pending, remote) + pending rounds the remote
+ * hasn't counted - a device that synced before never adds the same round twice, and a device
+ * merging for the first time can't double count the totals it uploaded earlier
+ */
+export function mergeStats(
+    local: GameStats,
+    remote: Partial<GameStats> | null,
+    pending: SessionContribution[] = [],
+    remoteCounted: string[] = []
+): GameStats {
+    const localTotals = getTotals(local);
+    const remoteTotals = getTotals(remote || {});
+    const pendingTotals = sumContributions(pending);
+    const newTotals = sumContributions(pending.filter(c => !remoteCounted.includes(c.id)));
+
+    const totals = Object.fromEntries(
+        (Object.keys(localTotals) as Array<keyof Totals>).map(key => [
+            key,
+            Math.max(localTotals[key] - pendingTotals[key], remoteTotals[key], 0) + newTotals[key],
+        ])
+    ) as Totals;
+
+    const merged: GameStats = {
+        ...local,
+        unlockedLevels: mergeLevels(local.unlockedLevels, remote?.unlockedLevels),
+        fastestRoundTime: Math.min(knownTime(local.fastestRoundTime), knownTime(remote?.fastestRoundTime)),
+    };
+    MAX_STATS.forEach(key => {
+        merged[key] = Math.max(local[key] || 0, remote?.[key] || 0);
+    });
+    return withTotals(merged, totals);
+}
+
+/**
+ * Add rounds on top of merged stats (rounds played while a merge was in flight)
+ */
+export function addContributions(stats: GameStats, contributions: SessionContribution[]): GameStats {
+    if (contributions.length === 0) return stats;
+    const totals = getTotals(stats);
+    const added = sumContributions(contributions);
+    (Object.keys(totals) as Array<keyof Totals>).forEach(key => { totals[key] += added[key]; });
+
+    const updated: GameStats = { ...stats };
+    contributions.forEach(c => {
+        updated.bestScore = Math.max(updated.bestScore, c.score);
+        updated.bestRoundScore = Math.max(updated.bestRoundScore, c.score);
+        updated.bestAccuracy = Math.max(updated.bestAccuracy, c.accuracy);
+        updated.longestCombo = Math.max(updated.longestCombo, c.maxCombo);
+        updated.highestRound = Math.max(updated.highestRound, c.level);
+        updated.currentLevel = Math.max(updated.currentLevel, c.level);
+        updated.unlockedLevels = mergeLevels(updated.unlockedLevels, [c.level]);
+        if (c.playTime > 0) updated.fastestRoundTime = Math.min(knownTime(updated.fastestRoundTime), c.playTime);
+    });
+    return withTotals(updated, totals);
+}
+
+function mergeLevels(a: number[] = [], b: number[] = []): number[] {
+    return [...new Set([...a, ...b])].sort((x, y) => x - y);
+}
+
+/**
+ * Merge progress: highest current level, union of unlocked levels, best score per level
+ */
+export function mergeProgress(local: StoredProgress, remote: StoredProgress | null): StoredProgress {
+    if (!remote) return local;
+    const bestScores: Record<number, number> = { ...remote.bestScores };
+    Object.entries(local.bestScores || {}).forEach(([level, score]) => {
+        bestScores[Number(level)] = Math.max(bestScores[Number(level)] || 0, score);
+    });
+    return {
+        ...local,
+        currentLevel: Math.max(local.currentLevel, remote.currentLevel || 1),
+        unlockedLevels: mergeLevels(local.unlockedLevels, remote.unlockedLevels),
+        bestScores,
+    };
+}
+
+/**
+ * Union of achievements, keeping the earliest unlock time
+ */
+export function mergeAchievements(local: AchievementRecord[], remote: AchievementRecord[] = []): AchievementRecord[] {
+    const merged = new Map<string, AchievementRecord>();
+    [...local, ...remote].forEach(record => {
+        const existing = merged.get(record.id);
+        const times = [existing?.unlockedAt, record.unlockedAt].filter((t): t is number => !!t);
+        merged.set(record.id, { id: record.id, unlockedAt: times.length > 0 ? Math.min(...times) : undefined });
+    });
+    return [...merged.values()];
+}
+
+/**
+ * Achievements this version of the game knows how to show
+ * (ids from newer versions stay in the merged records, but can't be displayed)
+ */
+export function toKnownAchievements(records: AchievementRecord[]): Achievement[] {
+    return records.flatMap(record => {
+        const definition = ACHIEVEMENTS[record.id as keyof typeof ACHIEVEMENTS];
+        return definition ? [{ ...definition, unlockedAt: record.unlockedAt }] : [];
+    });
+}
+
+/**
+ * Merge two copies of a profile
+ */
+export function mergeSnapshots(
+    local: ProgressSnapshot,
+    remote: ProgressSnapshot | null,
+    pending: SessionContribution[] = [],
+    remoteCounted: string[] = []
+): ProgressSnapshot {
+    return {
+        progress: mergeProgress(local.progress, remote?.progress ?? null),
+        stats: mergeStats(local.stats, remote?.stats ?? null, pending, remoteCounted),
+        achievements: mergeAchievements(local.achievements, remote?.achievements),
+    };
+}
+
+/**
+ * Session ids counted in the remote totals after a merge (newest kept)
+ */
+export function updateCountedSessions(counted: string[] = [], pending: SessionContribution[]): string[] {
+    const ids = [...counted.filter(id => !pending.some(c => c.id === id)), ...pending.map(c => c.id)];
+    return ids.slice(-MAX_COUNTED_SESSIONS);
+}
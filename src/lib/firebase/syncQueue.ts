@@ -0,0 +1,398 @@
+// Sync Queue
+// Persistent outbox of writes waiting for Firebase (sessions, progress, profile)
+// Entries survive reloads and are retried with exponential backoff until they go through.
+// Finished rounds stay queued until the cloud totals have counted them, so a round played
+// offline is added exactly once, whichever device syncs first
+
+import { getCurrentUser } from './auth';
+import { isFirebaseConfigured } from './config';
+import { updateLeaderboard, submitScore } from './leaderboard';
+import {
+    SessionSummary,
+    UserProgress,
+    saveProfile as saveFirebaseProfile,
+    saveSession,
+    updateProgress,
+} from './database';
+import {
+    ProgressSnapshot,
+    SessionContribution,
+    addContributions,
+    createEmptyStats,
+    getSessionId,
+    mergeAchievements,
+    mergeProgress,
+    mergeSnapshots,
+    toKnownAchievements,
+    toSessionContribution,
+    updateCountedSessions,
+} from './syncMerge';
+import {
+    STORAGE_KEYS,
+    getCurrentProfileId,
+    getProfileMetadata,
+    loadAchievements,
+    loadProfile as loadLocalStats,
+    loadProgress as loadLocalProgress,
+    replaceAchievements,
+    replaceProgress,
+    saveProfile as saveLocalStats,
+} from '../storage/gameStorage';
+import { readDocument, writeDocument } from '../storage/schema';
+import { GameSession } from '@/types/game';
+import { ReplayLog } from '@/lib/game/replay';
+import { ScoreSubmission, createScoreSubmission } from '@/lib/game/scoreVerification';
+import {
+    ChallengeSyncState,
+    getChallengeSyncState,
+    mergeChallengeSyncState,
+    unionChallengeSyncState,
+} from '@/lib/game/dailyChallenges';
+
+interface SyncEntryBase {
+    id: string;
+    profileId: string | null;   // local profile the write belongs to
+    createdAt: number;
+    attempts: number;           // failed attempts so far
+    nextAttemptAt: number;
+    lastError?: string;
+}
+
+export interface SessionSyncEntry extends SyncEntryBase {
+    kind: 'session';
+    summary: SessionSummary;
+    contribution?: SessionContribution; // unset for rounds that don't count towards the totals (Daily Glitch)
+    submission?: ScoreSubmission;       // dropped from older entries to keep the queue small
+    uploaded: boolean;                  // session document written and score submitted
+    counted: boolean;                   // added to the cloud totals
+}
+
+export interface ProgressSyncEntry extends SyncEntryBase {
+    kind: 'progress';
+}
+
+export interface ProfileSyncEntry extends SyncEntryBase {
+    kind: 'profile';
+    userId: string;
+    profile: { username: string; email?: string; walletAddress?: string; profilePicture?: string };
+}
+
+export type SyncEntry = SessionSyncEntry | ProgressSyncEntry | ProfileSyncEntry;
+
+export interface SyncQueueStatus {
+    pending: number;
+    lastError?: string;
+    nextAttemptAt?: number;
+}
+
+const BASE_RETRY_DELAY = 2000;
+const MAX_RETRY_DELAY = 5 * 60 * 1000;
+// Replays are the bulk of an entry - only the newest rounds keep theirs for score verification
+const MAX_QUEUED_SUBMISSIONS = 20;
+
+let flushing: Promise<void> | null = null;
+
+function loadQueue(): SyncEntry[] {
+    if (typeof window === 'undefined') return [];
+    return readDocument<{ entries: SyncEntry[] }>(STORAGE_KEYS.SYNC_QUEUE, 'syncQueue')?.entries ?? [];
+}
+
+function saveQueue(queue: SyncEntry[]): void {
+    try {
+        writeDocument(STORAGE_KEYS.SYNC_QUEUE, 'syncQueue', { entries: queue });
+    } catch (error) {
+        // Storage full: give up on the replays, the totals matter more
+        console.warn('⚠️ Sync queue too large, dropping queued replays:', error);
+        const trimmed = queue.map(entry => (entry.kind === 'session' ? { ...entry, submission: undefined } : entry));
+        writeDocument(STORAGE_KEYS.SYNC_QUEUE, 'syncQueue', { entries: trimmed });
+    }
+}
+
+/**
+ * Apply a change to the stored queue (always re-read, entries may have been added meanwhile)
+ */
+function updateQueue(change: (queue: SyncEntry[]) => SyncEntry[]): void {
+    saveQueue(change(loadQueue()));
+}
+
+/**
+ * Delay before the next attempt: 2s, 4s, 8s... up to 5 minutes, with jitter so
+ * devices coming back online together don't retry in lockstep
+ */
+function getRetryDelay(attempts: number): number {
+    const delay = Math.min(MAX_RETRY_DELAY, BASE_RETRY_DELAY * 2 ** Math.max(0, attempts - 1));
+    return delay * (0.8 + Math.random() * 0.4);
+}
+
+function createEntryBase(id: string, profileId: string | null): SyncEntryBase {
+    const now = Date.now();
+    return { id, profileId, createdAt: now, attempts: 0, nextAttemptAt: now };
+}
+
+/**
+ * Queue a finished round: its session document, its score submission (when a replay
+ * is available) and, unless it's a Daily Glitch round, its contribution to the totals
+ */
+export function queueSession(
+    session: GameSession,
+    replay?: ReplayLog,
+    timeRemaining?: number,
+    dailyDate?: string
+): void {
+    if (!isFirebaseConfigured()) return;
+
+    const profileId = getCurrentProfileId();
+    const contribution = toSessionContribution(session);
+    const entry: SessionSyncEntry = {
+        ...createEntryBase(`session:${getSessionId(session)}`, profileId),
+        kind: 'session',
+        summary: {
+            level: session.level,
+            score: session.score.finalScore,
+            wordsFound: session.score.wordsFound,
+            accuracy: session.score.accuracy,
+            endedAt: contribution.endedAt,
+        },
+        // updateStats only counts rounds towards a selected profile
+        contribution: dailyDate || !profileId ? undefined : contribution,
+        submission: replay
+            ? { ...createScoreSubmission(session, replay, timeRemaining), ...(dailyDate ? { dailyDate } : {}) }
+            : undefined,
+        uploaded: false,
+        counted: false,
+    };
+
+    updateQueue(queue => {
+        const entries = [...queue.filter(e => e.id !== entry.id), entry];
+        let kept = 0;
+        return entries.reverse().map(e => {
+            if (e.kind !== 'session' || !e.submission) return e;
+            return ++kept > MAX_QUEUED_SUBMISSIONS ? { ...e, submission: undefined } : e;
+        }).reverse();
+    });
+    if (entry.contribution) queueProgressSync();
+}
+
+/**
+ * Queue a merge of the current profile's progress with the cloud (one per profile)
+ */
+export function queueProgressSync(): void {
+    if (!isFirebaseConfigured()) return;
+    const profileId = getCurrentProfileId();
+    if (!profileId) return;
+    const id = `progress:${profileId}`;
+    updateQueue(queue => {
+        const existing = queue.find(e => e.id === id);
+        // A pending merge already picks up the latest local data - keep its backoff
+        return existing ? queue : [...queue, { ...createEntryBase(id, profileId), kind: 'progress' }];
+    });
+}
+
+/**
+ * Queue a write of the player's cloud profile (replaces an unsent write for the same user)
+ */
+export function queueProfileWrite(userId: string, profile: ProfileSyncEntry['profile']): void {
+    if (!isFirebaseConfigured()) return;
+    const entry: ProfileSyncEntry = {
+        ...createEntryBase(`profile:${userId}`, getCurrentProfileId()),
+        kind: 'profile',
+        userId,
+        profile,
+    };
+    updateQueue(queue => [...queue.filter(e => e.id !== entry.id), entry]);
+}
+
+function isPending(entry: SyncEntry): boolean {
+    return entry.kind !== 'session' || !entry.uploaded || (!!entry.contribution && !entry.counted);
+}
+
+export function getSyncQueueStatus(): SyncQueueStatus {
+    const pending = loadQueue().filter(isPending);
+    const failing = pending.filter(e => e.lastError).sort((a, b) => a.nextAttemptAt - b.nextAttemptAt);
+    return {
+        pending: pending.length,
+        lastError: failing[0]?.lastError,
+        nextAttemptAt: failing[0]?.nextAttemptAt,
+    };
+}
+
+/**
+ * Make every entry due now (e.g. when connectivity returns) and flush
+ */
+export function retrySyncQueueNow(): Promise<void> {
+    updateQueue(queue => queue.map(e => ({ ...e, nextAttemptAt: Date.now() })));
+    return flushSyncQueue();
+}
+
+/**
+ * Send every due entry, in order: profile writes, session uploads, then the progress merge
+ * A failed entry is rescheduled with backoff and the others still go through
+ */
+export function flushSyncQueue(): Promise<void> {
+    if (!flushing) {
+        flushing = flush().finally(() => { flushing = null; });
+    }
+    return flushing;
+}
+
+async function flush(): Promise<void> {
+    if (!isFirebaseConfigured()) return;
+    if (typeof navigator !== 'undefined' && navigator.onLine === false) return;
+    const user = getCurrentUser();
+    if (!user) return;
+
+    const profileId = getCurrentProfileId();
+    const isDue = (entry: SyncEntry) => entry.nextAttemptAt <= Date.now();
+
+    for (const entry of loadQueue()) {
+        if (entry.kind !== 'profile' || entry.userId !== user.uid || !isDue(entry)) continue;
+        if (!await attempt(entry, () => saveFirebaseProfile(user.uid, entry.profile))) continue;
+        updateQueue(queue => queue.filter(e => e.id !== entry.id || e.createdAt !== entry.createdAt));
+    }
+
+    for (const entry of loadQueue()) {
+        if (entry.kind !== 'session' || entry.profileId !== profileId || entry.uploaded || !isDue(entry)) continue;
+        const uploaded = await attempt(entry, async () => {
+            await saveSession(user.uid, entry.id.slice('session:'.length), entry.summary);
+            if (!entry.submission) return;
+            const result = await submitScore(entry.submission);
+            if (result && result.status !== 'verified') {
+                console.warn(`⚠️ Score ${result.status}:`, result.issues.map(i => i.message));
+            }
+        });
+        if (!uploaded) continue;
+        markSessions([entry.id], { uploaded: true, submission: undefined });
+    }
+
+    // Rounds waiting to be counted always have a merge queued (e.g. after switching profiles back)
+    if (getUncountedContributions(profileId).length > 0) queueProgressSync();
+    const progressEntry = loadQueue().find(e => e.kind === 'progress' && e.profileId === profileId);
+    if (progressEntry && isDue(progressEntry) && await attempt(progressEntry, () => syncProgress(user.uid, user.displayName))) {
+        updateQueue(queue => queue.filter(e => e.id !== progressEntry.id));
+        // Rounds finished during the merge need another one
+        if (getUncountedContributions(profileId).length > 0) queueProgressSync();
+    }
+
+    // Rounds that are uploaded and counted are done
+    updateQueue(queue => queue.filter(isPending));
+}
+
+/**
+ * Run one write, rescheduling the entry with backoff when it fails
+ */
+async function attempt(entry: SyncEntry, write: () => Promise<void>): Promise<boolean> {
+    try {
+        await write();
+        return true;
+    } catch (error) {
+        const attempts = entry.attempts + 1;
+        const lastError = error instanceof Error ? error.message : String(error);
+        updateQueue(queue => queue.map(e => (
+            e.id === entry.id ? { ...e, attempts, lastError, nextAttemptAt: Date.now() + getRetryDelay(attempts) } : e
+        )));
+        console.error(`❌ Sync of ${entry.id} failed (attempt ${attempts}):`, error);
+        return false;
+    }
+}
+
+function markSessions(ids: string[], changes: Partial<SessionSyncEntry>): void {
+    updateQueue(queue => queue.map(e => (e.kind === 'session' && ids.includes(e.id) ? { ...e, ...changes } : e)));
+}
+
+function getUncountedContributions(profileId: string | null): SessionContribution[] {
+    return loadQueue().flatMap(e => (
+        e.kind === 'session' && e.profileId === profileId && e.contribution && !e.counted ? [e.contribution] : []
+    ));
+}
+
+function loadLocalSnapshot(): ProgressSnapshot {
+    return {
+        progress: loadLocalProgress() ?? { currentLevel: 1, unlockedLevels: [1], bestScores: {} },
+        stats: loadLocalStats() ?? createEmptyStats(),
+        achievements: loadAchievements().unlocked.map(a => ({ id: a.id, unlockedAt: a.unlockedAt })),
+    };
+}
+
+/**
+ * Read the cloud document as a snapshot (documents written before full stats were synced
+ * only carry the totals)
+ */
+function fromCloudProgress(cloud: UserProgress): ProgressSnapshot {
+    return {
+        progress: {
+            currentLevel: cloud.currentLevel || 1,
+            unlockedLevels: cloud.unlockedLevels || [1],
+            bestScores: cloud.bestScores || {},
+        },
+        stats: cloud.stats ?? {
+            ...createEmptyStats(),
+            totalScore: cloud.totalScore || 0,
+            totalWordsFound: cloud.totalWordsFound || 0,
+            levelsCompleted: cloud.levelsCompleted || 0,
+            totalRoundsPlayed: cloud.levelsCompleted || 0,
+            currentLevel: cloud.currentLevel || 1,
+            highestRound: cloud.highestLevel || 1,
+            unlockedLevels: cloud.unlockedLevels || [1],
+        },
+        achievements: (cloud.achievements || []).map(id => ({ id, unlockedAt: cloud.achievementTimes?.[id] })),
+    };
+}
+
+function toCloudProgress(
+    snapshot: ProgressSnapshot,
+    countedSessions: string[],
+    dailyChallenges: ChallengeSyncState
+): Omit<UserProgress, 'lastUpdated'> {
+    const { progress, stats, achievements } = snapshot;
+    const achievementTimes: Record<string, number> = {};
+    achievements.forEach(a => { if (a.unlockedAt) achievementTimes[a.id] = a.unlockedAt; });
+    return {
+        currentLevel: progress.currentLevel,
+        highestLevel: Math.max(progress.currentLevel, ...progress.unlockedLevels),
+        totalScore: stats.totalScore,
+        totalWordsFound: stats.totalWordsFound,
+        levelsCompleted: stats.levelsCompleted,
+        unlockedLevels: progress.unlockedLevels,
+        bestScores: progress.bestScores,
+        achievements: achievements.map(a => a.id),
+        achievementTimes,
+        stats,
+        countedSessions,
+        dailyChallenges,
+    };
+}
+
+/**
+ * Merge this profile with the cloud document (in a transaction) and store the result on both sides
+ */
+async function syncProgress(userId: string, displayName: string | null): Promise<void> {
+    const profileId = getCurrentProfileId();
+    const pending = getUncountedContributions(profileId);
+    const local = loadLocalSnapshot();
+    let merged: ProgressSnapshot = local;
+    let cloudChallenges: ChallengeSyncState | undefined;
+
+    await updateProgress(userId, cloud => {
+        cloudChallenges = cloud?.dailyChallenges;
+        merged = mergeSnapshots(local, cloud ? fromCloudProgress(cloud) : null, pending, cloud?.countedSessions);
+        // Claims made on other devices stay in the cloud copy, so no reward can be claimed twice
+        return toCloudProgress(
+            merged,
+            updateCountedSessions(cloud?.countedSessions, pending),
+            unionChallengeSyncState(getChallengeSyncState(), cloud?.dailyChallenges)
+        );
+    });
+
+    // The cloud now counts the pending rounds; rounds finished during the merge are added on top
+    markSessions(pending.map(c => `session:${c.id}`), { counted: true });
+    const current = loadLocalSnapshot();
+    saveLocalStats(addContributions(merged.stats, getUncountedContributions(profileId)));
+    replaceProgress(mergeProgress(current.progress, merged.progress));
+    replaceAchievements(toKnownAchievements(mergeAchievements(current.achievements, merged.achievements)));
+    mergeChallengeSyncState(cloudChallenges);
+
+    // Score and level are credited by the server from verified sessions
+    const profile = profileId ? getProfileMetadata(profileId) : null;
+    await updateLeaderboard(userId, profile?.name || displayName || 'Anonymous', profile?.profilePicture);
+    console.log('✅ Progress synced to Firebase');
+}
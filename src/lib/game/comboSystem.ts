@@ -105,8 +105,20 @@ export function calculateScoreWithBonuses(
 /**
  * Check if combo should be reset (timeout)
  */
-export function shouldResetCombo(lastWordFoundTime: number): boolean {
-  return Date.now() - lastWordFoundTime > COMBO_TIMEOUT;
+export function shouldResetCombo(lastWordFoundTime: number, now: number = Date.now()): boolean {
+  return now - lastWordFoundTime > COMBO_TIMEOUT;
+}
+
+/**
+ * Combo tier reached at exactly this combo count, or 0 between tiers
+ * Tiers are the multiplier thresholds (2, 3, 5, 7, 10 ... 30), numbered from 1
+ */
+export function getComboTier(combo: number): number {
+  const thresholds = Object.keys(COMBO_MULTIPLIERS)
+    .map(Number)
+    .filter(threshold => threshold > 1)
+    .sort((a, b) => a - b);
+  return thresholds.indexOf(combo) + 1;
 }
 
 /**
@@ -0,0 +1,262 @@
+/**
+ * Custom Levels
+ * Levels authored in the level editor: a fixed word list and decoys, a palette and the
+ * glitch settings. Saved locally and shared as a short code or a JSON file
+ */
+
+import { Level } from '@/types/game';
+import { COLOR_PALETTES, DEFAULT_PALETTE_ID } from '@/lib/colorPalettes';
+import { STORAGE_KEYS } from '@/lib/storage/gameStorage';
+import { readDocument, writeDocument } from '@/lib/storage/schema';
+import { initializeLevel } from './difficulty';
+import { Minigame, WORD_COUNT_LIMITS } from './levelDefinitions';
+import { WordPack, normalizeWord } from './wordPacks';
+import { getSelectedLocale } from './locales';
+
+export const CUSTOM_LEVEL_VERSION = 1;
+
+// Share codes start with this prefix so pasted text can be recognized
+const SHARE_CODE_PREFIX = 'WGL1:';
+
+export const CUSTOM_LEVEL_LIMITS = {
+  words: WORD_COUNT_LIMITS,
+  decoys: { min: 0, max: 5 },
+  glitchSpeed: { min: 20, max: 200 },         // ms between updates
+  letterUpdateRate: { min: 0.005, max: 0.15 }, // share of letters changed per update
+  vortexStrength: { min: 0, max: 0.95 },
+  timeLimit: { min: 20, max: 300 },           // seconds
+  baseLevel: { min: 1, max: 100 },
+};
+
+export interface CustomLevel {
+  version: number;
+  id: string;
+  name: string;
+  author?: string;
+  language: string;         // locale of the words (alphabet, Hangman keyboard)
+  words: string[];
+  decoys: string[];
+  paletteId: string;
+  baseLevel: number;        // word timing and scoring follow this regular level
+  glitchSpeed: number;
+  letterUpdateRate: number;
+  vortexStrength: number;
+  timeLimit?: number;       // untimed when unset
+  minigame?: Minigame;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export type CustomLevelParseResult =
+  | { success: true; level: CustomLevel }
+  | { success: false; error: string };
+
+function createLevelId(name: string): string {
+  const slug = name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'level';
+  return `${slug}-${Date.now().toString(36)}`;
+}
+
+/**
+ * A new level with the settings of regular level 1
+ */
+export function createCustomLevel(): CustomLevel {
+  const base = initializeLevel(1);
+  const now = Date.now();
+  return {
+    version: CUSTOM_LEVEL_VERSION,
+    id: createLevelId('level'),
+    name: '',
+    language: getSelectedLocale().id,
+    words: [],
+    decoys: [],
+    paletteId: DEFAULT_PALETTE_ID,
+    baseLevel: 1,
+    glitchSpeed: base.glitchSpeed,
+    letterUpdateRate: base.letterUpdateRate,
+    vortexStrength: base.vortexStrength,
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+/**
+ * Parse a word list separated by newlines, commas or spaces, dropping invalid words and duplicates
+ */
+export function parseLevelWords(text: string): string[] {
+  const words = text
+    .split(/[\s,;]+/)
+    .map(normalizeWord)
+    .filter((word): word is string => word !== null);
+  return [...new Set(words)];
+}
+
+const inRange = (value: unknown, range: { min: number; max: number }): value is number =>
+  typeof value === 'number' && Number.isFinite(value) && value >= range.min && value <= range.max;
+
+/**
+ * Check a level against the editor limits
+ * Returns the first problem found, or null when the level can be played
+ */
+export function validateCustomLevel(level: CustomLevel): string | null {
+  const limits = CUSTOM_LEVEL_LIMITS;
+  if (!level.name.trim()) return 'The level needs a name';
+  if (level.words.length < limits.words.min || level.words.length > limits.words.max) {
+    return `A level needs ${limits.words.min}-${limits.words.max} words (has ${level.words.length})`;
+  }
+  if (level.decoys.length > limits.decoys.max) {
+    return `A level can have at most ${limits.decoys.max} decoys`;
+  }
+  const duplicate = level.decoys.find(decoy => level.words.includes(decoy));
+  if (duplicate) return `"${duplicate}" is both a word and a decoy`;
+  if (!COLOR_PALETTES.some(p => p.id === level.paletteId)) return 'Unknown palette';
+  if (!inRange(level.glitchSpeed, limits.glitchSpeed)) {
+    return `Glitch speed must be ${limits.glitchSpeed.min}-${limits.glitchSpeed.max}ms`;
+  }
+  if (!inRange(level.letterUpdateRate, limits.letterUpdateRate)) return 'Letter update rate is out of range';
+  if (!inRange(level.vortexStrength, limits.vortexStrength)) return 'Vortex strength is out of range';
+  if (level.timeLimit !== undefined && !inRange(level.timeLimit, limits.timeLimit)) {
+    return `Time limit must be ${limits.timeLimit.min}-${limits.timeLimit.max} seconds`;
+  }
+  if (!inRange(level.baseLevel, limits.baseLevel) || !Number.isInteger(level.baseLevel)) {
+    return `Word timing level must be ${limits.baseLevel.min}-${limits.baseLevel.max}`;
+  }
+  if (level.minigame !== undefined && level.minigame !== 'hangman' && level.minigame !== 'bridge') {
+    return 'Unknown minigame';
+  }
+  return null;
+}
+
+/**
+ * The Level a custom level plays as
+ */
+export function toPlayableLevel(custom: CustomLevel, seed?: number): Level {
+  const lengths = custom.words.map(word => word.length);
+  return {
+    ...initializeLevel(custom.baseLevel, seed),
+    wordCount: custom.words.length,
+    minWordLength: Math.min(...lengths),
+    maxWordLength: Math.max(...lengths),
+    glitchSpeed: custom.glitchSpeed,
+    letterUpdateRate: custom.letterUpdateRate,
+    vortexStrength: custom.vortexStrength,
+    timeLimit: custom.timeLimit,
+    decoys: [...custom.decoys],
+  };
+}
+
+/**
+ * A word pack holding exactly the level's words
+ */
+export function toWordPack(custom: CustomLevel): WordPack {
+  return {
+    id: `custom-level-${custom.id}`,
+    name: custom.name,
+    language: custom.language,
+    source: 'imported',
+    words: { easy: [...custom.words], medium: [], hard: [], extreme: [] },
+  };
+}
+
+function loadStoredLevels(): CustomLevel[] {
+  return readDocument<{ levels: CustomLevel[] }>(STORAGE_KEYS.CUSTOM_LEVELS, 'customLevels')?.levels ?? [];
+}
+
+function saveStoredLevels(levels: CustomLevel[]): void {
+  writeDocument(STORAGE_KEYS.CUSTOM_LEVELS, 'customLevels', { levels });
+}
+
+/**
+ * Saved custom levels, most recently edited first
+ */
+export function getCustomLevels(): CustomLevel[] {
+  return loadStoredLevels().sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+export function getCustomLevel(id: string): CustomLevel | null {
+  return loadStoredLevels().find(level => level.id === id) || null;
+}
+
+/**
+ * Store a custom level (replaces a level with the same id)
+ */
+export function saveCustomLevel(level: CustomLevel): CustomLevel {
+  const saved = { ...level, name: level.name.trim(), updatedAt: Date.now() };
+  saveStoredLevels([...loadStoredLevels().filter(l => l.id !== level.id), saved]);
+  return saved;
+}
+
+export function deleteCustomLevel(id: string): void {
+  saveStoredLevels(loadStoredLevels().filter(level => level.id !== id));
+}
+
+/**
+ * Shareable JSON document for a level (ids and timestamps are assigned on import)
+ */
+export function exportCustomLevel(level: CustomLevel): string {
+  const { id, createdAt, updatedAt, ...shared } = level;
+  return JSON.stringify(shared, null, 2);
+}
+
+/**
+ * Compact share code: prefix + base64 of the JSON document
+ */
+export function createShareCode(level: CustomLevel): string {
+  const bytes = new TextEncoder().encode(JSON.stringify(JSON.parse(exportCustomLevel(level))));
+  let binary = '';
+  bytes.forEach(byte => { binary += String.fromCharCode(byte); });
+  return SHARE_CODE_PREFIX + btoa(binary);
+}
+
+/**
+ * Read a level from a share code or an exported JSON file
+ * The level gets a new id so importing never overwrites a saved level
+ */
+export function parseCustomLevel(text: string): CustomLevelParseResult {
+  let json = text.trim();
+  if (json.startsWith(SHARE_CODE_PREFIX)) {
+    try {
+      const binary = atob(json.slice(SHARE_CODE_PREFIX.length).replace(/\s+/g, ''));
+      json = new TextDecoder().decode(Uint8Array.from(binary, char => char.charCodeAt(0)));
+    } catch {
+      return { success: false, error: 'The share code is damaged' };
+    }
+  }
+
+  let data: Record<string, unknown>;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    return { success: false, error: 'Paste a share code or pick an exported level file' };
+  }
+  if (!data || typeof data !== 'object') {
+    return { success: false, error: 'Expected a level object' };
+  }
+  if (typeof data.version !== 'number' || data.version > CUSTOM_LEVEL_VERSION) {
+    return { success: false, error: 'The level was made with a newer version of the game' };
+  }
+
+  const toWords = (value: unknown) => parseLevelWords(Array.isArray(value) ? value.join(' ') : '');
+  const name = typeof data.name === 'string' ? data.name.trim() : '';
+  const now = Date.now();
+  const level: CustomLevel = {
+    version: CUSTOM_LEVEL_VERSION,
+    id: createLevelId(name),
+    name,
+    author: typeof data.author === 'string' ? data.author : undefined,
+    language: typeof data.language === 'string' ? data.language : getSelectedLocale().id,
+    words: toWords(data.words),
+    decoys: toWords(data.decoys),
+    paletteId: typeof data.paletteId === 'string' ? data.paletteId : DEFAULT_PALETTE_ID,
+    baseLevel: data.baseLevel as number,
+    glitchSpeed: data.glitchSpeed as number,
+    letterUpdateRate: data.letterUpdateRate as number,
+    vortexStrength: data.vortexStrength as number,
+    timeLimit: data.timeLimit === undefined || data.timeLimit === null ? undefined : data.timeLimit as number,
+    minigame: data.minigame === undefined || data.minigame === null ? undefined : data.minigame as Minigame,
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  const error = validateCustomLevel(level);
+  return error ? { success: false, error } : { success: true, level };
+}
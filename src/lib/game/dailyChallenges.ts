@@ -3,6 +3,11 @@
  * Provides daily goals to keep players engaged
  */
 
+import { awardCurrency, CURRENCY_RATIO } from '@/lib/currency';
+import { getStorage } from '@/lib/storage/backend';
+import { STORAGE_KEYS, getCurrentProfileId } from '@/lib/storage/gameStorage';
+import { readDocument, writeDocument } from '@/lib/storage/schema';
+
 export interface DailyChallenge {
   id: string;
   date: string; // YYYY-MM-DD format
@@ -11,10 +16,32 @@ export interface DailyChallenge {
   reward: number; // Currency reward
   progress: number;
   completed: boolean;
+  claimed?: boolean; // Reward credited
+  current?: number; // Running value for streak challenges (resets on a lost level)
   title: string;
   description: string;
 }
 
+/**
+ * Outcome of a finished round, as fed from GameScreen.handleGameOver
+ */
+export interface ChallengeRoundResult {
+  wordsFound: number;
+  score: number;
+  maxCombo: number;
+  accuracy: number;
+  victory: boolean;
+}
+
+/**
+ * Challenge state carried through Firebase sync
+ */
+export interface ChallengeSyncState {
+  date: string;
+  completed: string[];
+  claimed: string[];
+}
+
 const CHALLENGE_TYPES = {
   words: {
     title: 'Word Hunter',
@@ -106,6 +133,20 @@ export function generateDailyChallenges(date: Date = new Date()): DailyChallenge
   return challenges;
 }
 
+/**
+ * Storage key of a day's challenges - per profile, since rewards go to the current profile
+ * (without a profile the device-wide key is used)
+ */
+function getChallengesKey(dateStr: string): string {
+  const profileId = getCurrentProfileId();
+  const base = STORAGE_KEYS.DAILY_CHALLENGES;
+  return profileId ? `${base}-${profileId}-${dateStr}` : `${base}-${dateStr}`;
+}
+
+function loadChallenges(key: string): DailyChallenge[] | null {
+  return readDocument<{ challenges: DailyChallenge[] }>(key, 'dailyChallenges')?.challenges ?? null;
+}
+
 /**
  * Get today's challenges
  */
@@ -114,16 +155,20 @@ export function getTodaysChallenges(): DailyChallenge[] {
   const dateStr = today.toISOString().split('T')[0];
   
   // Try to load from storage
-  const stored = localStorage.getItem(`daily-challenges-${dateStr}`);
-  if (stored) {
-    try {
-      return JSON.parse(stored);
-    } catch {
-      // If parse fails, generate new
+  const key = getChallengesKey(dateStr);
+  const legacyKey = `${STORAGE_KEYS.DAILY_CHALLENGES}-${dateStr}`;
+  if (getStorage().getItem(key) === null && key !== legacyKey) {
+    // Today's challenges saved before they were kept per profile go to the profile that reads them first
+    const legacy = getStorage().getItem(legacyKey);
+    if (legacy !== null) {
+      getStorage().setItem(key, legacy);
+      getStorage().removeItem(legacyKey);
     }
   }
+  const stored = loadChallenges(key);
+  if (stored) return stored;
   
-  // Generate new challenges
+  // Generate new challenges (none saved yet, or the saved ones were quarantined)
   const challenges = generateDailyChallenges(today);
   saveChallenges(challenges);
   return challenges;
@@ -135,7 +180,7 @@ export function getTodaysChallenges(): DailyChallenge[] {
 export function saveChallenges(challenges: DailyChallenge[]): void {
   if (challenges.length === 0) return;
   const dateStr = challenges[0].date;
-  localStorage.setItem(`daily-challenges-${dateStr}`, JSON.stringify(challenges));
+  writeDocument(getChallengesKey(dateStr), 'dailyChallenges', { challenges });
 }
 
 /**
@@ -148,24 +193,16 @@ export function updateChallengeProgress(
 ): DailyChallenge | null {
   const today = new Date();
   const dateStr = today.toISOString().split('T')[0];
-  const stored = localStorage.getItem(`daily-challenges-${dateStr}`);
+  const challenges = loadChallenges(getChallengesKey(dateStr));
+  const challenge = challenges?.find(c => c.id === challengeId);
   
-  if (!stored) return null;
+  if (!challenges || !challenge) return null;
   
-  try {
-    const challenges: DailyChallenge[] = JSON.parse(stored);
-    const challenge = challenges.find(c => c.id === challengeId);
-    
-    if (!challenge) return null;
-    
-    challenge.progress = Math.max(challenge.progress, progress);
-    challenge.completed = challenge.completed || completed;
-    
-    saveChallenges(challenges);
-    return challenge;
-  } catch {
-    return null;
-  }
+  challenge.progress = Math.max(challenge.progress, progress);
+  challenge.completed = challenge.completed || completed;
+  
+  saveChallenges(challenges);
+  return challenge;
 }
 
 /**
@@ -209,3 +246,118 @@ export function getChallengeProgress(challenge: DailyChallenge): number {
 }
 
 
+
+/**
+ * Feed a finished round into today's challenges
+ * Words, score, levels and perfect rounds accumulate over the day,
+ * combo keeps the best round and streak counts consecutive won levels
+ * @returns Challenges completed by this round
+ */
+export function recordRoundResult(result: ChallengeRoundResult): DailyChallenge[] {
+  const challenges = getTodaysChallenges();
+  const completed: DailyChallenge[] = [];
+
+  challenges.forEach(challenge => {
+    if (challenge.completed) return;
+
+    switch (challenge.type) {
+      case 'words':
+        challenge.progress += result.wordsFound;
+        break;
+      case 'score':
+        challenge.progress += result.score;
+        break;
+      case 'combo':
+        challenge.progress = Math.max(challenge.progress, result.maxCombo);
+        break;
+      case 'levels':
+        if (result.victory) challenge.progress += 1;
+        break;
+      case 'perfect':
+        if (result.victory && result.accuracy >= 100) challenge.progress += 1;
+        break;
+      case 'streak':
+        challenge.current = result.victory ? (challenge.current || 0) + 1 : 0;
+        challenge.progress = Math.max(challenge.progress, challenge.current);
+        break;
+    }
+
+    if (challenge.progress >= challenge.target) {
+      challenge.progress = challenge.target;
+      challenge.completed = true;
+      completed.push(challenge);
+    }
+  });
+
+  saveChallenges(challenges);
+  return completed;
+}
+
+/**
+ * Credit the reward of a completed challenge
+ * @returns Currency awarded (0 if not claimable)
+ */
+export function claimChallengeReward(challengeId: string): number {
+  const challenges = getTodaysChallenges();
+  const challenge = challenges.find(c => c.id === challengeId);
+  if (!challenge || !challenge.completed || challenge.claimed) return 0;
+
+  const awarded = awardCurrency(challenge.reward * CURRENCY_RATIO, `Daily challenge: ${challenge.title}`);
+  if (awarded <= 0) return 0;
+
+  challenge.claimed = true;
+  saveChallenges(challenges);
+  return awarded;
+}
+
+/**
+ * Get today's challenge state for Firebase sync
+ */
+export function getChallengeSyncState(): ChallengeSyncState {
+  const challenges = getTodaysChallenges();
+  return {
+    date: challenges[0]?.date || new Date().toISOString().split('T')[0],
+    completed: challenges.filter(c => c.completed).map(c => c.id),
+    claimed: challenges.filter(c => c.claimed).map(c => c.id),
+  };
+}
+
+/**
+ * Combine two devices' challenge state without losing a completion or claim
+ * The later day wins; on the same day completed and claimed challenges are unioned
+ */
+export function unionChallengeSyncState(
+  local: ChallengeSyncState,
+  other: ChallengeSyncState | undefined
+): ChallengeSyncState {
+  if (!other || other.date < local.date) return local;
+  if (other.date > local.date) return other;
+  return {
+    date: local.date,
+    completed: [...new Set([...local.completed, ...other.completed])],
+    claimed: [...new Set([...local.claimed, ...other.claimed])],
+  };
+}
+
+/**
+ * Merge challenge state from another device
+ * Completion and claims only ever move forward, so a reward can't be claimed twice
+ */
+export function mergeChallengeSyncState(state: ChallengeSyncState | undefined): void {
+  if (!state) return;
+
+  const challenges = getTodaysChallenges();
+  if (challenges.length === 0 || challenges[0].date !== state.date) return;
+
+  challenges.forEach(challenge => {
+    if (state.completed.includes(challenge.id) && !challenge.completed) {
+      challenge.completed = true;
+      challenge.progress = challenge.target;
+    }
+    if (state.claimed.includes(challenge.id)) {
+      challenge.claimed = true;
+    }
+  });
+
+  saveChallenges(challenges);
+}
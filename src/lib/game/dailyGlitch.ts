@@ -0,0 +1,131 @@
+/**
+ * Daily Glitch
+ * One shared puzzle per calendar day: every player gets the same level, palette,
+ * word set and word placement, derived from a date seed, and a single scored attempt.
+ * When words appear still follows each player's own finds
+ */
+
+import { STORAGE_KEYS, getCurrentProfileId } from '@/lib/storage/gameStorage';
+import { readDocument, writeDocument } from '@/lib/storage/schema';
+import { COLOR_PALETTES } from '@/lib/colorPalettes';
+import { hashSeed, createSeededRandom, randomInt, randomPick } from './random';
+
+const HISTORY_DAYS = 30;
+
+// Odd levels between 7 and 25: timed or long enough to be interesting, never a minigame level
+const DAILY_LEVEL_MIN = 7;
+const DAILY_LEVEL_STEPS = 10;
+
+export interface DailyGlitchPuzzle {
+  date: string; // YYYY-MM-DD format (UTC, same as daily challenges)
+  seed: number;
+  level: number;
+  paletteId: string;
+}
+
+export interface DailyGlitchResult {
+  date: string;
+  startedAt: number;
+  completedAt?: number;
+  score?: number;
+  wordsFound?: number;
+  accuracy?: number;
+  victory?: boolean;
+}
+
+/**
+ * Get the puzzle date for a moment in time
+ */
+export function getDailyGlitchDate(date: Date = new Date()): string {
+  return date.toISOString().split('T')[0];
+}
+
+/**
+ * Build the shared puzzle for a date
+ */
+export function getDailyGlitchPuzzle(date: Date | string = new Date()): DailyGlitchPuzzle {
+  const dateStr = typeof date === 'string' ? date : getDailyGlitchDate(date);
+  const seed = hashSeed(`daily-glitch:${dateStr}`);
+  const random = createSeededRandom(hashSeed(`${seed}:daily-setup`));
+
+  return {
+    date: dateStr,
+    seed,
+    level: DAILY_LEVEL_MIN + randomInt(random, DAILY_LEVEL_STEPS) * 2,
+    paletteId: randomPick(random, COLOR_PALETTES).id,
+  };
+}
+
+/**
+ * Check whether a round matches the shared puzzle of a date
+ */
+export function isDailyGlitchPuzzle(
+  dateStr: string,
+  round: { level: number; seed?: number; paletteId: string }
+): boolean {
+  const puzzle = getDailyGlitchPuzzle(dateStr);
+  return puzzle.level === round.level && puzzle.seed === round.seed && puzzle.paletteId === round.paletteId;
+}
+
+function getDailyGlitchKey(profileId: string): string {
+  return `${STORAGE_KEYS.DAILY_GLITCH}-${profileId}`;
+}
+
+function loadDailyGlitchResults(profileId: string): DailyGlitchResult[] {
+  return readDocument<{ results: DailyGlitchResult[] }>(getDailyGlitchKey(profileId), 'dailyGlitch')?.results ?? [];
+}
+
+function saveDailyGlitchResults(profileId: string, results: DailyGlitchResult[]): void {
+  writeDocument(getDailyGlitchKey(profileId), 'dailyGlitch', { results: results.slice(-HISTORY_DAYS) });
+}
+
+/**
+ * Get the current profile's attempt for a date (undefined if not played)
+ */
+export function getDailyGlitchResult(dateStr: string = getDailyGlitchDate()): DailyGlitchResult | undefined {
+  const profileId = getCurrentProfileId();
+  if (!profileId) return undefined;
+  return loadDailyGlitchResults(profileId).find(r => r.date === dateStr);
+}
+
+/**
+ * Check if the current profile already used today's attempt
+ */
+export function hasPlayedDailyGlitch(dateStr: string = getDailyGlitchDate()): boolean {
+  return getDailyGlitchResult(dateStr) !== undefined;
+}
+
+/**
+ * Use up the attempt for a puzzle
+ * Recorded when the round starts so quitting or reloading doesn't grant a retry
+ * @returns false if the attempt was already used
+ */
+export function startDailyGlitchAttempt(puzzle: DailyGlitchPuzzle): boolean {
+  const profileId = getCurrentProfileId();
+  if (!profileId) return false;
+
+  const results = loadDailyGlitchResults(profileId);
+  if (results.some(r => r.date === puzzle.date)) return false;
+
+  results.push({ date: puzzle.date, startedAt: Date.now() });
+  saveDailyGlitchResults(profileId, results);
+  return true;
+}
+
+/**
+ * Store the outcome of the attempt for a puzzle
+ */
+export function completeDailyGlitchAttempt(
+  dateStr: string,
+  outcome: { score: number; wordsFound: number; accuracy: number; victory: boolean }
+): void {
+  const profileId = getCurrentProfileId();
+  if (!profileId) return;
+
+  const results = loadDailyGlitchResults(profileId);
+  const result = results.find(r => r.date === dateStr);
+  if (!result || result.completedAt) return;
+
+  Object.assign(result, outcome, { completedAt: Date.now() });
+  saveDailyGlitchResults(profileId, results);
+}
@@ -0,0 +1,189 @@
+/**
+ * Difficulty Director
+ * Optional live tuning on top of initializeLevel: reads the player's recent rounds
+ * (accuracy, reaction time, failures) and nudges the level parameters within fixed bounds,
+ * so struggling players get room to breathe and strong players stay challenged.
+ * The whole adjustment is driven by one skill value that the replay records,
+ * so the server can re-apply exactly the same tuning when it verifies a round
+ */
+
+import { Level, GameSession } from '@/types/game';
+import { getWordClickableDuration } from '@/lib/constants';
+
+export interface RoundPerformance {
+  level: number;
+  endedAt: number;        // timestamp
+  victory: boolean;
+  accuracy: number;       // 0-100
+  reactionTime?: number;  // average ms from visibleAt to foundAt, unset when nothing was found
+  wordsFound: number;
+  wordCount: number;
+  skill?: number;         // skill the round was tuned with (unset when the director was off)
+}
+
+export type TunedParameter = 'glitchSpeed' | 'letterUpdateRate' | 'wordCount' | 'timeLimit' | 'visibilityScale';
+
+export interface ParameterChange {
+  parameter: TunedParameter;
+  from: number;
+  to: number;
+}
+
+export interface DifficultyAdjustment {
+  skill: number;              // -1 struggling, 0 on target, 1 dominating
+  roundsConsidered: number;
+  metrics: {
+    accuracy?: number;        // average %, 0-100
+    reactionTime?: number;    // average ms
+    failureRate?: number;     // 0-1
+  };
+  changes: ParameterChange[];
+  reasons: string[];          // human-readable explanation of the skill value
+}
+
+// Rounds the director looks back on, and the minimum before it adjusts anything
+export const DIRECTOR_HISTORY_SIZE = 5;
+const MIN_ROUNDS = 2;
+
+// Targets a typical player should hover around
+const TARGET_ACCURACY = 75;          // %
+const TARGET_FAILURE_RATE = 0.3;     // 30% of rounds lost
+const TARGET_REACTION_SHARE = 0.5;   // found halfway through the clickable window
+
+// Strength of each nudge at full skill (±1)
+export const DIRECTOR_BOUNDS: Record<TunedParameter, number> = {
+  glitchSpeed: 0.25,       // ±25% ms between glitch updates
+  letterUpdateRate: 0.25,  // ±25% letters changed per update
+  wordCount: 1,            // ±1 word
+  timeLimit: 0.2,          // ±20% seconds on timed levels
+  visibilityScale: 0.25,   // ±25% visibility and clickable windows
+};
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+const round = (value: number, decimals: number) => Math.round(value * 10 ** decimals) / 10 ** decimals;
+const average = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length;
+
+/**
+ * Summarize a finished round for the director's history
+ */
+export function summarizeRound(session: GameSession, victory: boolean, skill?: number): RoundPerformance {
+  const realWords = session.words.filter(w => !w.isFake);
+  const reactionTimes = realWords
+    .filter(w => w.found && w.reactionTime !== undefined)
+    .map(w => w.reactionTime as number);
+
+  return {
+    level: session.level,
+    endedAt: session.endTime ?? Date.now(),
+    victory,
+    accuracy: session.attempts > 0 ? (session.correctFinds / session.attempts) * 100 : 100,
+    reactionTime: reactionTimes.length > 0 ? Math.round(average(reactionTimes)) : undefined,
+    wordsFound: realWords.filter(w => w.found).length,
+    wordCount: realWords.length,
+    skill,
+  };
+}
+
+/**
+ * Tune a level for a skill value, staying within DIRECTOR_BOUNDS
+ * Positive skill makes the round harder, negative easier, 0 leaves it unchanged
+ */
+export function applyDifficultySkill(level: Level, skill: number): { level: Level; changes: ParameterChange[] } {
+  const s = clamp(skill, -1, 1);
+  if (s === 0) return { level, changes: [] };
+
+  const tuned: Level = {
+    ...level,
+    // Slower glitch updates (more ms) are easier
+    glitchSpeed: Math.max(20, Math.round(level.glitchSpeed * (1 - DIRECTOR_BOUNDS.glitchSpeed * s))),
+    letterUpdateRate: round(clamp(level.letterUpdateRate * (1 + DIRECTOR_BOUNDS.letterUpdateRate * s), 0.005, 0.15), 4),
+    wordCount: clamp(level.wordCount + Math.round(DIRECTOR_BOUNDS.wordCount * s), 3, 10),
+    timeLimit: level.timeLimit
+      ? Math.max(20, Math.round(level.timeLimit * (1 - DIRECTOR_BOUNDS.timeLimit * s)))
+      : undefined,
+    visibilityScale: round((level.visibilityScale ?? 1) * (1 - DIRECTOR_BOUNDS.visibilityScale * s), 2),
+  };
+
+  const changes: ParameterChange[] = [];
+  (Object.keys(DIRECTOR_BOUNDS) as TunedParameter[]).forEach(parameter => {
+    const from = parameter === 'visibilityScale' ? level.visibilityScale ?? 1 : level[parameter];
+    const to = tuned[parameter];
+    if (from !== undefined && to !== undefined && from !== to) {
+      changes.push({ parameter, from, to });
+    }
+  });
+
+  return { level: tuned, changes };
+}
+
+/**
+ * Rate recent performance from -1 (struggling) to 1 (dominating)
+ * Accuracy, reaction time and failure rate each give a signal against their target;
+ * the average is damped while there are only a few rounds to go on
+ */
+export function assessPerformance(
+  history: RoundPerformance[],
+  level: number
+): Omit<DifficultyAdjustment, 'changes'> {
+  const rounds = [...history]
+    .sort((a, b) => b.endedAt - a.endedAt)
+    .slice(0, DIRECTOR_HISTORY_SIZE);
+
+  if (rounds.length < MIN_ROUNDS) {
+    return {
+      skill: 0,
+      roundsConsidered: rounds.length,
+      metrics: {},
+      reasons: [`Needs ${MIN_ROUNDS} finished rounds before adjusting (has ${rounds.length})`],
+    };
+  }
+
+  const signals: number[] = [];
+  const reasons: string[] = [];
+
+  const accuracy = average(rounds.map(r => r.accuracy));
+  signals.push(clamp((accuracy - TARGET_ACCURACY) / (100 - TARGET_ACCURACY), -1, 1));
+  reasons.push(`Accuracy ${Math.round(accuracy)}% (target ${TARGET_ACCURACY}%)`);
+
+  const failureRate = rounds.filter(r => !r.victory).length / rounds.length;
+  signals.push(clamp((TARGET_FAILURE_RATE - failureRate) / TARGET_FAILURE_RATE, -1, 1));
+  reasons.push(`Lost ${rounds.filter(r => !r.victory).length} of the last ${rounds.length} rounds`);
+
+  const reactionTimes = rounds.filter(r => r.reactionTime !== undefined).map(r => r.reactionTime as number);
+  const reactionTime = reactionTimes.length > 0 ? average(reactionTimes) : undefined;
+  if (reactionTime !== undefined) {
+    // Compare with the clickable window of the level about to be played
+    const share = reactionTime / Math.min(3000, getWordClickableDuration(level));
+    signals.push(clamp((TARGET_REACTION_SHARE - share) / TARGET_REACTION_SHARE, -1, 1));
+    reasons.push(`Words found ${(reactionTime / 1000).toFixed(1)}s after appearing on average`);
+  }
+
+  const confidence = Math.min(1, rounds.length / DIRECTOR_HISTORY_SIZE);
+  const skill = round(clamp(average(signals) * confidence, -1, 1), 2);
+  if (skill > 0) {
+    reasons.push('Playing above target - the round is tuned harder');
+  } else if (skill < 0) {
+    reasons.push('Playing below target - the round is tuned easier');
+  } else {
+    reasons.push('Playing on target - no changes');
+  }
+
+  return {
+    skill,
+    roundsConsidered: rounds.length,
+    metrics: { accuracy: Math.round(accuracy), reactionTime: reactionTime && Math.round(reactionTime), failureRate },
+    reasons,
+  };
+}
+
+/**
+ * Tune a level from the player's recent rounds and explain the adjustment
+ */
+export function directLevel(level: Level, history: RoundPerformance[]): { level: Level; adjustment: DifficultyAdjustment } {
+  const assessment = assessPerformance(history, level.level);
+  const tuned = applyDifficultySkill(level, assessment.skill);
+  return {
+    level: tuned.level,
+    adjustment: { ...assessment, changes: tuned.changes },
+  };
+}
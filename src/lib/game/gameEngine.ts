@@ -2,6 +2,7 @@ import { Level, GameWord, GameScore } from '@/types/game';
 import { initializeLevel, getTextSizingForDifficulty } from './difficulty';
 import { generateWords } from './wordGenerator';
 import { calculateScore, calculateFinalScore } from './scoring';
+import { isPointOnWord } from './orientation';
 import { CHAR_WIDTH, CHAR_HEIGHT } from '@/lib/constants';
 
 export { initializeLevel, generateWords, calculateScore, calculateFinalScore };
@@ -29,17 +30,7 @@ export function checkWordClick(
   for (const word of words) {
     if (word.found) continue;
 
-    const textStartX = (word.startCol * width) - paddingX;
-    const textEndX = ((word.startCol + word.word.length) * width) + paddingX;
-    const textStartY = (word.startRow * height) - paddingY;
-    const textEndY = ((word.startRow + 1) * height) + paddingY;
-
-    if (
-      clickX >= textStartX &&
-      clickX <= textEndX &&
-      clickY >= textStartY &&
-      clickY <= textEndY
-    ) {
+    if (isPointOnWord(word, clickX, clickY, width, height, paddingX, paddingY)) {
       return word;
     }
   }
@@ -1,8 +1,11 @@
 /**
  * Hangman Hints System
  * Provides creative text and visual hints for the Hangman challenge
+ * Word categories are English-only; other locales get general hints in their own language
  */
 
+import { GameLocale, GAME_LOCALES, formatLocaleHint, toKeyboardLetter } from './locales';
+
 export interface WordHint {
   word: string;
   category: string;
@@ -236,7 +239,8 @@ const VISUAL_HINTS: Record<string, string[]> = {
 /**
  * Determine the category of a word
  */
-function getWordCategory(word: string): string {
+function getWordCategory(word: string, locale: GameLocale): string {
+  if (locale.id !== 'en') return 'general';
   const upperWord = word.toUpperCase();
   return WORD_CATEGORIES[upperWord] || 'general';
 }
@@ -244,11 +248,12 @@ function getWordCategory(word: string): string {
 /**
  * Analyze word characteristics for visual hints
  */
-function analyzeWord(word: string): string[] {
+function analyzeWord(word: string, locale: GameLocale): string[] {
   const characteristics: string[] = [];
   const upperWord = word.toUpperCase();
-  const vowels = upperWord.match(/[AEIOU]/g) || [];
-  const consonants = upperWord.match(/[BCDFGHJKLMNPQRSTVWXYZ]/g) || [];
+  const letters = upperWord.split('').filter(char => toKeyboardLetter(char, locale));
+  const vowels = letters.filter(char => locale.vowels.includes(char));
+  const consonants = letters.filter(char => !locale.vowels.includes(char));
   
   // Length
   if (word.length <= 3) {
@@ -275,7 +280,7 @@ function analyzeWord(word: string): string[] {
   }
   
   // Starting letter
-  if (/^[AEIOU]/.test(upperWord)) {
+  if (locale.vowels.includes(upperWord[0])) {
     characteristics.push('startsVowel');
   } else {
     characteristics.push('startsConsonant');
@@ -287,14 +292,15 @@ function analyzeWord(word: string): string[] {
 /**
  * Generate a hint for a word
  */
-export function generateWordHint(word: string): WordHint {
+export function generateWordHint(word: string, locale: GameLocale = GAME_LOCALES.en): WordHint {
   const upperWord = word.toUpperCase();
-  const category = getWordCategory(upperWord);
+  const category = getWordCategory(upperWord, locale);
   const config = CATEGORY_CONFIG[category] || CATEGORY_CONFIG.general;
-  const characteristics = analyzeWord(upperWord);
+  const characteristics = analyzeWord(upperWord, locale);
   
   // Get random text hint
-  const textHint = config.hints[Math.floor(Math.random() * config.hints.length)];
+  const textHints = locale.id === 'en' ? config.hints : locale.hints.general;
+  const textHint = textHints[Math.floor(Math.random() * textHints.length)];
   
   // Build visual hint from characteristics
   const visualHints: string[] = [];
@@ -325,14 +331,19 @@ export function generateWordHint(word: string): WordHint {
 /**
  * Generate hints for multiple words
  */
-export function generateHintsForWords(words: string[]): WordHint[] {
-  return words.map(word => generateWordHint(word));
+export function generateHintsForWords(words: string[], locale: GameLocale = GAME_LOCALES.en): WordHint[] {
+  return words.map(word => generateWordHint(word, locale));
 }
 
 /**
  * Get a progressive hint based on wrong guesses
  */
-export function getProgressiveHint(wordHint: WordHint, wrongGuesses: number, maxWrong: number): string {
+export function getProgressiveHint(
+  wordHint: WordHint,
+  wrongGuesses: number,
+  maxWrong: number,
+  locale: GameLocale = GAME_LOCALES.en
+): string {
   const progressRatio = wrongGuesses / maxWrong;
   
   if (progressRatio === 0) {
@@ -341,22 +352,32 @@ export function getProgressiveHint(wordHint: WordHint, wrongGuesses: number, max
     return `${wordHint.categoryIcon} ${wordHint.textHint} • ${wordHint.visualHint}`;
   } else if (progressRatio < 0.66) {
     // Reveal first letter
-    return `${wordHint.categoryIcon} Starts with "${wordHint.word[0]}" • ${wordHint.textHint}`;
+    const startsWith = formatLocaleHint(locale.hints.startsWith, { letter: wordHint.word[0] });
+    return `${wordHint.categoryIcon} ${startsWith} • ${wordHint.textHint}`;
   } else {
     // Reveal length and last letter
-    return `${wordHint.categoryIcon} ${wordHint.word.length} letters • Ends with "${wordHint.word[wordHint.word.length - 1]}"`;
+    return `${wordHint.categoryIcon} ${formatLocaleHint(locale.hints.lengthEndsWith, {
+      length: wordHint.word.length,
+      letter: wordHint.word[wordHint.word.length - 1],
+    })}`;
   }
 }
 
 /**
  * Get letter frequency hint
  */
-export function getLetterFrequencyHint(words: string[], guessedLetters: Set<string>): { letter: string; frequency: number }[] {
+export function getLetterFrequencyHint(
+  words: string[],
+  guessedLetters: Set<string>,
+  locale: GameLocale = GAME_LOCALES.en
+): { letter: string; frequency: number }[] {
   const letterCount: Record<string, number> = {};
   const allLetters = words.join('').toUpperCase();
   
-  for (const letter of allLetters) {
-    if (letter.match(/[A-Z]/) && !guessedLetters.has(letter)) {
+  for (const char of allLetters) {
+    // Accented letters count towards the key that reveals them
+    const letter = toKeyboardLetter(char, locale);
+    if (letter && !guessedLetters.has(letter)) {
       letterCount[letter] = (letterCount[letter] || 0) + 1;
     }
   }
@@ -0,0 +1,350 @@
+/**
+ * Level Definitions
+ * Level settings come from versioned JSON files in src/data/levels instead of code.
+ * Each file holds rules for a level range; every rule that matches a level is applied
+ * in order (files in LEVEL_FILES order, rules in file order), later rules overriding earlier ones.
+ * Designers rebalance by editing the JSON - the loader validates it and resolves each level
+ * to a Level plus its palette, boss and minigame settings
+ */
+
+import { Level, Difficulty, WordOrientation } from '@/types/game';
+import { COLOR_PALETTES } from '@/lib/colorPalettes';
+import progressionLevels from '@/data/levels/progression.json';
+import easyLevels from '@/data/levels/01-easy.json';
+import averageLevels from '@/data/levels/02-average.json';
+import hardLevels from '@/data/levels/03-hard.json';
+import bossLevels from '@/data/levels/bosses.json';
+import minigameLevels from '@/data/levels/minigames.json';
+
+export const LEVEL_SCHEMA_VERSION = 1;
+
+// Built-in level files, in the order their rules are applied
+// (a new file in src/data/levels needs its import added here)
+const LEVEL_FILES: unknown[] = [progressionLevels, easyLevels, averageLevels, hardLevels, bossLevels, minigameLevels];
+
+export type Minigame = 'hangman' | 'bridge';
+export type MandatoryPalette = 'average' | 'hard';
+
+/**
+ * A number, or a value that changes with the level:
+ * base + perStep × floor((level - startLevel) / step), clamped to [min, max]
+ */
+export type ScaledValue = number | {
+  base: number;
+  perStep?: number;
+  step?: number;        // levels per step, 1 when unset
+  startLevel?: number;  // level where the value equals base, 1 when unset
+  min?: number;
+  max?: number;
+};
+
+export interface LevelRule {
+  from: number;
+  to?: number;          // open-ended when unset
+  every?: number;       // only every n-th level counted from `from`
+  note?: string;        // free text for designers, ignored by the game
+  difficulty?: Difficulty;
+  paletteId?: string;
+  mandatoryPalette?: MandatoryPalette;
+  minigame?: Minigame;
+  wordCount?: ScaledValue;
+  minWordLength?: number;
+  maxWordLength?: number;
+  glitchSpeed?: ScaledValue;
+  letterUpdateRate?: ScaledValue;
+  vortexStrength?: ScaledValue;
+  timeLimit?: ScaledValue;
+  orientations?: WordOrientation[];
+  visibilityMs?: { min: ScaledValue; max: ScaledValue };
+  clickableMs?: ScaledValue;
+}
+
+export interface LevelDefinitionFile {
+  version: number;
+  name: string;
+  description?: string;
+  rules: LevelRule[];
+}
+
+export interface LevelModifiers {
+  visibilityMs: { min: number; max: number }; // how long a word stays visible
+  clickableMs: number;                         // how long a visible word can be clicked
+}
+
+export interface LevelDefinition {
+  level: Level;
+  paletteId: string;
+  mandatoryPalette: MandatoryPalette | null;
+  minigame: Minigame | null;
+  modifiers: LevelModifiers;
+  sources: string[];  // names of the files whose rules applied
+}
+
+export interface PaletteRange {
+  paletteId: string;
+  start: number;
+  end: number;
+}
+
+export type LevelFileValidation =
+  | { success: true; file: LevelDefinitionFile }
+  | { success: false; errors: string[] };
+
+// Hard limits no file can go past
+export const WORD_COUNT_LIMITS = { min: 3, max: 10 };
+
+const DIFFICULTIES: Difficulty[] = ['easy', 'medium', 'hard', 'extreme'];
+const ORIENTATIONS: WordOrientation[] = ['horizontal', 'vertical', 'diagonal', 'reversed'];
+const MANDATORY_PALETTES: MandatoryPalette[] = ['average', 'hard'];
+const MINIGAMES: Minigame[] = ['hangman', 'bridge'];
+
+const SCALED_FIELDS = ['wordCount', 'glitchSpeed', 'letterUpdateRate', 'vortexStrength', 'timeLimit', 'clickableMs'] as const;
+const RULE_KEYS = new Set<string>([
+  'from', 'to', 'every', 'note', 'difficulty', 'paletteId', 'mandatoryPalette', 'minigame',
+  'minWordLength', 'maxWordLength', 'orientations', 'visibilityMs', ...SCALED_FIELDS,
+]);
+const SCALED_KEYS = new Set(['base', 'perStep', 'step', 'startLevel', 'min', 'max']);
+
+const isPositiveInteger = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isInteger(value) && value >= 1;
+
+function validateScaledValue(value: unknown, path: string, errors: string[]): void {
+  if (typeof value === 'number') {
+    if (!Number.isFinite(value)) errors.push(`${path} must be a finite number`);
+    return;
+  }
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    errors.push(`${path} must be a number or { base, perStep?, step?, startLevel?, min?, max? }`);
+    return;
+  }
+  const scaled = value as Record<string, unknown>;
+  Object.keys(scaled).forEach(key => {
+    if (!SCALED_KEYS.has(key)) errors.push(`${path}.${key} is not a known field`);
+    else if (typeof scaled[key] !== 'number' || !Number.isFinite(scaled[key])) errors.push(`${path}.${key} must be a number`);
+  });
+  if (scaled.base === undefined) errors.push(`${path}.base is required`);
+  if (scaled.step !== undefined && !isPositiveInteger(scaled.step)) errors.push(`${path}.step must be a whole number ≥ 1`);
+  if (typeof scaled.min === 'number' && typeof scaled.max === 'number' && scaled.min > scaled.max) {
+    errors.push(`${path}.min is greater than max`);
+  }
+}
+
+function validateRule(rule: unknown, path: string, errors: string[]): void {
+  if (!rule || typeof rule !== 'object' || Array.isArray(rule)) {
+    errors.push(`${path} must be an object`);
+    return;
+  }
+  const r = rule as Record<string, unknown>;
+
+  Object.keys(r).forEach(key => {
+    if (!RULE_KEYS.has(key)) errors.push(`${path}.${key} is not a known field`);
+  });
+
+  if (!isPositiveInteger(r.from)) errors.push(`${path}.from must be a level number ≥ 1`);
+  if (r.to !== undefined && (!isPositiveInteger(r.to) || (isPositiveInteger(r.from) && r.to < r.from))) {
+    errors.push(`${path}.to must be a level number ≥ from`);
+  }
+  if (r.every !== undefined && !isPositiveInteger(r.every)) errors.push(`${path}.every must be a whole number ≥ 1`);
+  if (r.note !== undefined && typeof r.note !== 'string') errors.push(`${path}.note must be text`);
+
+  if (r.difficulty !== undefined && !DIFFICULTIES.includes(r.difficulty as Difficulty)) {
+    errors.push(`${path}.difficulty must be one of ${DIFFICULTIES.join(', ')}`);
+  }
+  if (r.paletteId !== undefined && !COLOR_PALETTES.some(p => p.id === r.paletteId)) {
+    errors.push(`${path}.paletteId "${String(r.paletteId)}" is not a known palette`);
+  }
+  if (r.mandatoryPalette !== undefined && !MANDATORY_PALETTES.includes(r.mandatoryPalette as MandatoryPalette)) {
+    errors.push(`${path}.mandatoryPalette must be one of ${MANDATORY_PALETTES.join(', ')}`);
+  }
+  if (r.minigame !== undefined && !MINIGAMES.includes(r.minigame as Minigame)) {
+    errors.push(`${path}.minigame must be one of ${MINIGAMES.join(', ')}`);
+  }
+
+  (['minWordLength', 'maxWordLength'] as const).forEach(key => {
+    if (r[key] !== undefined && !isPositiveInteger(r[key])) errors.push(`${path}.${key} must be a whole number ≥ 1`);
+  });
+  if (isPositiveInteger(r.minWordLength) && isPositiveInteger(r.maxWordLength) && r.minWordLength > r.maxWordLength) {
+    errors.push(`${path}.minWordLength is greater than maxWordLength`);
+  }
+
+  SCALED_FIELDS.forEach(key => {
+    if (r[key] !== undefined) validateScaledValue(r[key], `${path}.${key}`, errors);
+  });
+
+  if (r.orientations !== undefined) {
+    if (!Array.isArray(r.orientations) || r.orientations.length === 0) {
+      errors.push(`${path}.orientations must be a non-empty list`);
+    } else {
+      r.orientations.forEach(orientation => {
+        if (!ORIENTATIONS.includes(orientation as WordOrientation)) {
+          errors.push(`${path}.orientations: "${String(orientation)}" must be one of ${ORIENTATIONS.join(', ')}`);
+        }
+      });
+    }
+  }
+
+  if (r.visibilityMs !== undefined) {
+    const visibility = r.visibilityMs as Record<string, unknown> | null;
+    if (!visibility || typeof visibility !== 'object') {
+      errors.push(`${path}.visibilityMs must be { min, max }`);
+    } else {
+      validateScaledValue(visibility.min, `${path}.visibilityMs.min`, errors);
+      validateScaledValue(visibility.max, `${path}.visibilityMs.max`, errors);
+    }
+  }
+}
+
+/**
+ * Check a parsed level file against the schema
+ * Unknown fields are errors so a typo never silently does nothing
+ */
+export function validateLevelFile(data: unknown): LevelFileValidation {
+  const errors: string[] = [];
+  if (!data || typeof data !== 'object' || Array.isArray(data)) {
+    return { success: false, errors: ['Expected a level file object'] };
+  }
+  const file = data as Record<string, unknown>;
+
+  if (!isPositiveInteger(file.version)) {
+    errors.push('version is required');
+  } else if (file.version > LEVEL_SCHEMA_VERSION) {
+    errors.push(`version ${file.version} is newer than this game supports (${LEVEL_SCHEMA_VERSION})`);
+  }
+  if (typeof file.name !== 'string' || !file.name.trim()) errors.push('name is required');
+  if (file.description !== undefined && typeof file.description !== 'string') errors.push('description must be text');
+  if (!Array.isArray(file.rules)) {
+    errors.push('rules must be a list');
+  } else {
+    file.rules.forEach((rule, i) => validateRule(rule, `rules[${i}]`, errors));
+  }
+
+  return errors.length > 0
+    ? { success: false, errors }
+    : { success: true, file: data as LevelDefinitionFile };
+}
+
+/**
+ * Parse and validate a level file from JSON text
+ */
+export function parseLevelFile(text: string): LevelFileValidation {
+  try {
+    return validateLevelFile(JSON.parse(text));
+  } catch {
+    return { success: false, errors: ['The file is not valid JSON'] };
+  }
+}
+
+function ruleMatches(rule: LevelRule, level: number): boolean {
+  if (level < rule.from || (rule.to !== undefined && level > rule.to)) return false;
+  return !rule.every || (level - rule.from) % rule.every === 0;
+}
+
+function resolveValue(value: ScaledValue, level: number): number {
+  if (typeof value === 'number') return value;
+  const steps = Math.floor((level - (value.startLevel ?? 1)) / (value.step ?? 1));
+  let resolved = value.base + (value.perStep ?? 0) * steps;
+  if (value.min !== undefined) resolved = Math.max(value.min, resolved);
+  if (value.max !== undefined) resolved = Math.min(value.max, resolved);
+  return resolved;
+}
+
+/**
+ * Palettes in level order, taken from rules that set a palette for a bounded range
+ */
+export function getPaletteRanges(files: LevelDefinitionFile[] = getBuiltinLevelFiles()): PaletteRange[] {
+  return files
+    .flatMap(file => file.rules)
+    .filter(rule => rule.paletteId && rule.to !== undefined && !rule.every)
+    .map(rule => ({ paletteId: rule.paletteId as string, start: rule.from, end: rule.to as number }))
+    .sort((a, b) => a.start - b.start);
+}
+
+/**
+ * Resolve a level from a set of level files
+ * Throws when the files leave a required setting undefined for the level
+ */
+export function resolveLevelDefinition(level: number, files: LevelDefinitionFile[]): LevelDefinition {
+  const merged: Partial<LevelRule> = {};
+  const sources: string[] = [];
+
+  files.forEach(file => {
+    file.rules.forEach(rule => {
+      if (!ruleMatches(rule, level)) return;
+      Object.assign(merged, rule);
+      if (!sources.includes(file.name)) sources.push(file.name);
+    });
+  });
+
+  const required = <K extends keyof LevelRule>(key: K): NonNullable<LevelRule[K]> => {
+    const value = merged[key];
+    if (value === undefined || value === null) {
+      throw new Error(`Level ${level} has no ${key} in the level files`);
+    }
+    return value as NonNullable<LevelRule[K]>;
+  };
+
+  // Levels past the last palette keep playing on it
+  const paletteRanges = getPaletteRanges(files);
+  const paletteId = merged.paletteId ?? paletteRanges[paletteRanges.length - 1]?.paletteId ?? required('paletteId');
+
+  const visibility = required('visibilityMs');
+  const visibleMin = resolveValue(visibility.min, level);
+  const visibleMax = resolveValue(visibility.max, level);
+  const wordCount = Math.round(resolveValue(required('wordCount'), level));
+
+  return {
+    level: {
+      level,
+      difficulty: required('difficulty'),
+      wordCount: Math.max(WORD_COUNT_LIMITS.min, Math.min(wordCount, WORD_COUNT_LIMITS.max)),
+      minWordLength: required('minWordLength'),
+      maxWordLength: required('maxWordLength'),
+      glitchSpeed: resolveValue(required('glitchSpeed'), level),
+      letterUpdateRate: resolveValue(required('letterUpdateRate'), level),
+      timeLimit: merged.timeLimit !== undefined ? resolveValue(merged.timeLimit, level) : undefined,
+      vortexStrength: resolveValue(required('vortexStrength'), level),
+      orientations: [...required('orientations')],
+    },
+    paletteId,
+    mandatoryPalette: merged.mandatoryPalette ?? null,
+    minigame: merged.minigame ?? null,
+    modifiers: {
+      visibilityMs: { min: Math.min(visibleMin, visibleMax), max: Math.max(visibleMin, visibleMax) },
+      clickableMs: resolveValue(required('clickableMs'), level),
+    },
+    sources,
+  };
+}
+
+let builtinFiles: LevelDefinitionFile[] | null = null;
+const definitionCache = new Map<number, LevelDefinition>();
+
+/**
+ * The level files shipped with the game, validated once
+ * A broken file is a build mistake, so it fails loudly instead of being skipped
+ */
+export function getBuiltinLevelFiles(): LevelDefinitionFile[] {
+  if (!builtinFiles) {
+    builtinFiles = LEVEL_FILES.map(data => {
+      const result = validateLevelFile(data);
+      if (!result.success) {
+        throw new Error(`Invalid level file "${(data as { name?: string }).name}": ${result.errors.join('; ')}`);
+      }
+      return result.file;
+    });
+  }
+  return builtinFiles;
+}
+
+/**
+ * Resolved settings for a level from the built-in level files
+ */
+export function getLevelDefinition(level: number): LevelDefinition {
+  const validLevel = Math.max(1, Math.floor(level));
+  let definition = definitionCache.get(validLevel);
+  if (!definition) {
+    definition = resolveLevelDefinition(validLevel, getBuiltinLevelFiles());
+    definitionCache.set(validLevel, definition);
+  }
+  return definition;
+}
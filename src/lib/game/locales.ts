@@ -0,0 +1,123 @@
+/**
+ * Game Locales
+ * Each locale brings its own alphabet: the letters that fill the glitch matrix,
+ * the Hangman keyboard, and the text of the Hangman hints
+ */
+
+import { loadSettings } from '@/lib/storage/gameStorage';
+
+export type LocaleId = 'en' | 'es' | 'de' | 'el';
+
+export interface GameLocale {
+  id: LocaleId;
+  name: string;          // Native name shown in settings
+  letters: string;       // Base alphabet, also the Hangman keyboard
+  extraLetters: string;  // Accented forms that appear in words and filler but share a key
+  vowels: string;
+  hints: {
+    general: string[];
+    startsWith: string;      // {letter}
+    lengthEndsWith: string;  // {length}, {letter}
+  };
+}
+
+export const DEFAULT_LOCALE_ID: LocaleId = 'en';
+
+// Non-letter filler mixed into the matrix for every locale
+export const FILLER_SYMBOLS = '!@#$&*()-_+=/[]{};:<>.,0123456789Ω';
+
+export const GAME_LOCALES: Record<LocaleId, GameLocale> = {
+  en: {
+    id: 'en',
+    name: 'English',
+    letters: 'ABCDEFGHIJKLMNOPQRSTUVWXYZ',
+    extraLetters: '',
+    vowels: 'AEIOU',
+    hints: {
+      general: ['Common word', 'You know this one!', 'Think simple', 'Everyday vocab'],
+      startsWith: 'Starts with "{letter}"',
+      lengthEndsWith: '{length} letters • Ends with "{letter}"',
+    },
+  },
+  es: {
+    id: 'es',
+    name: 'Español',
+    letters: 'ABCDEFGHIJKLMNÑOPQRSTUVWXYZ',
+    extraLetters: 'ÁÉÍÓÚÜ',
+    vowels: 'AEIOUÁÉÍÓÚÜ',
+    hints: {
+      general: ['Palabra común', '¡Tú sabes esta!', 'Piensa en algo simple', 'Vocabulario diario'],
+      startsWith: 'Empieza con "{letter}"',
+      lengthEndsWith: '{length} letras • Termina en "{letter}"',
+    },
+  },
+  de: {
+    id: 'de',
+    name: 'Deutsch',
+    letters: 'ABCDEFGHIJKLMNOPQRSTUVWXYZÄÖÜ',
+    extraLetters: '',
+    vowels: 'AEIOUÄÖÜ',
+    hints: {
+      general: ['Alltägliches Wort', 'Das kennst du!', 'Denk einfach', 'Grundwortschatz'],
+      startsWith: 'Beginnt mit "{letter}"',
+      lengthEndsWith: '{length} Buchstaben • Endet auf "{letter}"',
+    },
+  },
+  el: {
+    id: 'el',
+    name: 'Ελληνικά',
+    letters: 'ΑΒΓΔΕΖΗΘΙΚΛΜΝΞΟΠΡΣΤΥΦΧΨΩ',
+    extraLetters: 'ΆΈΉΊΌΎΏ',
+    vowels: 'ΑΕΗΙΟΥΩΆΈΉΊΌΎΏ',
+    hints: {
+      general: ['Κοινή λέξη', 'Την ξέρεις!', 'Σκέψου απλά', 'Καθημερινό λεξιλόγιο'],
+      startsWith: 'Ξεκινά με «{letter}»',
+      lengthEndsWith: '{length} γράμματα • Τελειώνει σε «{letter}»',
+    },
+  },
+};
+
+/**
+ * Find a locale by id or language tag (e.g. 'de-AT'), falling back to English
+ */
+export function getLocale(language?: string): GameLocale {
+  const id = language?.trim().toLowerCase().split(/[-_]/)[0];
+  return (id && GAME_LOCALES[id as LocaleId]) || GAME_LOCALES[DEFAULT_LOCALE_ID];
+}
+
+export function getAllLocales(): GameLocale[] {
+  return Object.values(GAME_LOCALES);
+}
+
+/**
+ * Characters the matrix draws random filler from
+ */
+export function getFillerCharacters(locale: GameLocale = GAME_LOCALES[DEFAULT_LOCALE_ID]): string {
+  return locale.letters + locale.extraLetters + FILLER_SYMBOLS;
+}
+
+/**
+ * Map a word character to the keyboard letter that reveals it
+ * Accented forms reveal their base letter (Á → A), unless the alphabet has its own key (Ñ, Ä)
+ * @returns null for characters outside the alphabet
+ */
+export function toKeyboardLetter(char: string, locale: GameLocale): string | null {
+  const upper = char.toLocaleUpperCase();
+  if (locale.letters.includes(upper)) return upper;
+  const base = upper.normalize('NFD').replace(/\p{M}/gu, '');
+  return base.length === 1 && locale.letters.includes(base) ? base : null;
+}
+
+/**
+ * Render a hint template, e.g. 'Starts with "{letter}"'
+ */
+export function formatLocaleHint(template: string, values: Record<string, string | number>): string {
+  return template.replace(/\{(\w+)\}/g, (match, key: string) => (key in values ? String(values[key]) : match));
+}
+
+/**
+ * The locale chosen in settings
+ */
+export function getSelectedLocale(): GameLocale {
+  return getLocale(loadSettings().locale);
+}
@@ -0,0 +1,148 @@
+/**
+ * Word Orientation
+ * Grid geometry for hidden words that run vertically, diagonally or backwards.
+ * A word starts at startCol/startRow with its first letter and steps one cell per letter
+ */
+
+import { GameWord, WordOrientation } from '@/types/game';
+import { getLevelDefinition } from './levelDefinitions';
+
+export interface GridCell {
+  col: number;
+  row: number;
+}
+
+// Words only need their text, start and orientation to be placed
+export type PlacedWord = Pick<GameWord, 'word' | 'startCol' | 'startRow' | 'orientation'>;
+
+export const ORIENTATION_STEPS: Record<WordOrientation, { dCol: number; dRow: number }> = {
+  horizontal: { dCol: 1, dRow: 0 },
+  vertical: { dCol: 0, dRow: 1 },
+  diagonal: { dCol: 1, dRow: 1 },
+  reversed: { dCol: -1, dRow: 0 },
+};
+
+/**
+ * Orientations unlocked by a level - a difficulty axis for late levels
+ * Set per level range in src/data/levels/progression.json
+ * (horizontal only, + vertical at 15, + reversed at 25, + diagonal at 35)
+ */
+export function getOrientationsForLevel(level: number): WordOrientation[] {
+  return [...(getLevelDefinition(level).level.orientations ?? ['horizontal'])];
+}
+
+/**
+ * Cells covered by a word of the given length placed at col/row
+ */
+export function getCellsAt(
+  length: number,
+  col: number,
+  row: number,
+  orientation: WordOrientation = 'horizontal'
+): GridCell[] {
+  const { dCol, dRow } = ORIENTATION_STEPS[orientation];
+  return Array.from({ length }, (_, i) => ({ col: col + i * dCol, row: row + i * dRow }));
+}
+
+/**
+ * Cells covered by a placed word, in reading order
+ */
+export function getWordCells(word: PlacedWord): GridCell[] {
+  return getCellsAt(word.word.length, word.startCol, word.startRow, word.orientation);
+}
+
+/**
+ * Range of start cells that keep a word inside columns [0, cols) and rows [startRow, endRow)
+ * @returns null if the word doesn't fit in that orientation
+ */
+export function getStartRange(
+  length: number,
+  orientation: WordOrientation,
+  cols: number,
+  startRow: number,
+  endRow: number
+): { minCol: number; maxCol: number; minRow: number; maxRow: number } | null {
+  const { dCol, dRow } = ORIENTATION_STEPS[orientation];
+  const span = length - 1;
+  const range = {
+    minCol: dCol < 0 ? span : 0,
+    maxCol: dCol > 0 ? cols - 1 - span : cols - 1,
+    minRow: startRow,
+    maxRow: dRow > 0 ? endRow - 1 - span : endRow - 1,
+  };
+  return range.minCol <= range.maxCol && range.minRow <= range.maxRow ? range : null;
+}
+
+/**
+ * Check that every letter of a word is inside columns [0, cols) and rows [startRow, endRow)
+ */
+export function isWordInBounds(word: PlacedWord, cols: number, startRow: number, endRow: number): boolean {
+  return getWordCells(word).every(cell =>
+    cell.col >= 0 && cell.col < cols && cell.row >= startRow && cell.row < endRow
+  );
+}
+
+/**
+ * Check whether two placed words share a cell
+ */
+export function wordsOverlap(a: PlacedWord, b: PlacedWord): boolean {
+  const cellsA = new Set(getWordCells(a).map(cell => `${cell.col},${cell.row}`));
+  return getWordCells(b).some(cell => cellsA.has(`${cell.col},${cell.row}`));
+}
+
+/**
+ * Hit test in pixels: the point lies within padding of any letter cell
+ */
+export function isPointOnWord(
+  word: PlacedWord,
+  x: number,
+  y: number,
+  charWidth: number,
+  charHeight: number,
+  paddingX: number,
+  paddingY: number
+): boolean {
+  return getWordCells(word).some(cell =>
+    x >= cell.col * charWidth - paddingX &&
+    x <= (cell.col + 1) * charWidth + paddingX &&
+    y >= cell.row * charHeight - paddingY &&
+    y <= (cell.row + 1) * charHeight + paddingY
+  );
+}
+
+// A drag across the matrix in swipe mode, from the cell it started on to the one it ended on
+export interface SwipePath {
+  from: GridCell;
+  to: GridCell;
+}
+
+/**
+ * Cells of a swipe from one cell towards another, snapped to the nearest
+ * horizontal, vertical or diagonal line like in a classic word search
+ */
+export function getSwipeCells(from: GridCell, to: GridCell): GridCell[] {
+  const dCol = to.col - from.col;
+  const dRow = to.row - from.row;
+  const steps = Math.max(Math.abs(dCol), Math.abs(dRow));
+  if (steps === 0) return [from];
+
+  // Round the drag angle to the nearest 45°
+  const angle = Math.round(Math.atan2(dRow, dCol) / (Math.PI / 4)) * (Math.PI / 4);
+  const stepCol = Math.round(Math.cos(angle));
+  const stepRow = Math.round(Math.sin(angle));
+  return Array.from({ length: steps + 1 }, (_, i) => ({
+    col: from.col + i * stepCol,
+    row: from.row + i * stepRow,
+  }));
+}
+
+/**
+ * Check whether a swipe covers exactly the letters of a word, in either direction
+ */
+export function isSwipeOnWord(word: PlacedWord, cells: GridCell[]): boolean {
+  const wordCells = getWordCells(word);
+  if (wordCells.length !== cells.length) return false;
+  const sameCell = (a: GridCell, b: GridCell) => a.col === b.col && a.row === b.row;
+  return wordCells.every((cell, i) => sameCell(cell, cells[i])) ||
+    wordCells.every((cell, i) => sameCell(cell, cells[cells.length - 1 - i]));
+}
@@ -0,0 +1,75 @@
+/**
+ * Pluggable random number sources
+ * All round generation and word scheduling draws from a RandomSource, so a round's
+ * word set and placement can be recreated exactly from (level, seed). The scheduling
+ * stream is seeded too, but how many draws it uses depends on the game's update ticks
+ * and on when words are found, so the spawn timeline itself is not reproducible
+ */
+
+/**
+ * A function returning a float in [0, 1), same contract as Math.random
+ */
+export type RandomSource = () => number;
+
+/**
+ * Default unseeded source
+ */
+export const defaultRandom: RandomSource = () => Math.random();
+
+/**
+ * Hash a string into a 32-bit unsigned seed (FNV-1a)
+ */
+export function hashSeed(input: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < input.length; i++) {
+    hash ^= input.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Create a seeded PRNG (mulberry32)
+ * Same seed always produces the same sequence
+ */
+export function createSeededRandom(seed: number): RandomSource {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Generate a fresh seed for a new round
+ */
+export function generateSeed(): number {
+  return Math.floor(Math.random() * 4294967296) >>> 0;
+}
+
+/**
+ * Get the random source for one stream of a level (e.g. 'words', 'schedule')
+ * Each stream gets its own sequence so changes in one don't shift the other
+ * Falls back to Math.random when the level has no seed
+ */
+export function createLevelRandom(seed: number | undefined, stream: string): RandomSource {
+  if (seed === undefined) return defaultRandom;
+  return createSeededRandom(hashSeed(`${seed}:${stream}`));
+}
+
+/**
+ * Random integer in [0, maxExclusive)
+ */
+export function randomInt(random: RandomSource, maxExclusive: number): number {
+  return Math.floor(random() * maxExclusive);
+}
+
+/**
+ * Pick a random element from a non-empty array
+ */
+export function randomPick<T>(random: RandomSource, items: readonly T[]): T {
+  return items[randomInt(random, items.length)];
+}
@@ -0,0 +1,396 @@
+/**
+ * Replay System
+ * Records every meaningful event of a round into a compact log and rebuilds
+ * the round state at any point in time for playback
+ */
+
+import { GameScore, GameWord, InputMode, WordOrientation } from '@/types/game';
+import { SwipePath } from './orientation';
+
+export const REPLAY_VERSION = 1;
+
+// Event codes used in the compact tuple encoding
+const EVENT_CODES = {
+  spawn: 's',
+  despawn: 'd',
+  hit: 'h',
+  miss: 'm',
+  decoy: 'f',
+  combo: 'c',
+  pause: 'p',
+  resume: 'r',
+  extraTime: 'x',
+} as const;
+
+export type ReplayEventType = keyof typeof EVENT_CODES;
+type ReplayEventCode = typeof EVENT_CODES[ReplayEventType];
+
+// Orientation codes for spawn events; horizontal words leave the code out
+const ORIENTATION_CODES: WordOrientation[] = ['horizontal', 'vertical', 'diagonal', 'reversed'];
+
+/**
+ * Orientation of a spawn event's orientation code (horizontal when left out)
+ */
+export function getReplayOrientation(code?: number): WordOrientation {
+  return ORIENTATION_CODES[code ?? 0] ?? 'horizontal';
+}
+
+/**
+ * Compact event tuple: [timeMs, code, ...args]
+ * spawn:   [t, 's', wordIndex, col, row, clickableFromMs, clickableUntilMs, orientation?]
+ * despawn: [t, 'd', wordIndex]
+ * hit:     [t, 'h', wordIndex, x, y, swipeFromCol?, swipeFromRow?, swipeToCol?, swipeToRow?]
+ * miss:    [t, 'm', wordIndex (-1 for empty space), x, y, ...swipe?]
+ * decoy:   [t, 'f', wordIndex, x, y, ...swipe?]
+ * (the swipe cells are recorded in swipe mode, so the server can check the drag covered the word)
+ * combo:   [t, 'c', combo]
+ * pause:   [t, 'p']
+ * resume:  [t, 'r']
+ * extraTime: [t, 'x', seconds]
+ */
+export type ReplayTuple = [number, ReplayEventCode, ...number[]];
+
+export interface ReplayWord {
+  word: string;
+  points: number;
+  isFake?: boolean;
+}
+
+export interface ReplayLog {
+  version: number;
+  id: string;
+  level: number;
+  seed?: number;
+  paletteId: string;
+  wordPackId?: string;      // pack the words were drawn from (unset in older replays)
+  columns?: number;         // word grid columns, which decide the words that fit (unset in older replays)
+  recordedAt: number;       // timestamp when the round started
+  duration: number;         // ms from start to end of round
+  profileName?: string;
+  inputMode?: InputMode;    // 'tap' when unset
+  difficultySkill?: number; // adaptive difficulty the round was tuned with, 0 when unset
+  finalScore?: number;
+  accuracy?: number;
+  victory?: boolean;
+  words: ReplayWord[];      // word table referenced by index from events
+  events: ReplayTuple[];
+}
+
+export interface ReplayPoint {
+  x: number;
+  y: number;
+}
+
+export interface ReplayTap extends ReplayPoint {
+  t: number;
+  type: 'hit' | 'miss' | 'decoy';
+  word?: string;
+}
+
+export interface ReplayFrame {
+  words: GameWord[];
+  taps: ReplayTap[];        // taps that happened in the recent past (for markers)
+  combo: number;
+  isPaused: boolean;
+  eventIndex: number;       // number of events applied (changes only when state changes)
+}
+
+export interface ReplayRecorderOptions {
+  level: number;
+  seed?: number;
+  paletteId: string;
+  wordPackId?: string;
+  columns?: number;
+  profileName?: string;
+  inputMode?: InputMode;
+  difficultySkill?: number;
+  startTime?: number;
+}
+
+/**
+ * Collects round events as they happen
+ * Word spawns/despawns are detected by diffing the WordManager output
+ */
+export class ReplayRecorder {
+  private options: ReplayRecorderOptions;
+  private startTime: number;
+  private words: ReplayWord[];
+  private wordIndexes: Map<string, number>;
+  private visibleWords: Set<string>;
+  private events: ReplayTuple[];
+  private lastCombo: number;
+
+  constructor(options: ReplayRecorderOptions) {
+    this.options = options;
+    this.startTime = options.startTime ?? Date.now();
+    this.words = [];
+    this.wordIndexes = new Map();
+    this.visibleWords = new Set();
+    this.events = [];
+    this.lastCombo = 0;
+  }
+
+  private elapsed(now: number = Date.now()): number {
+    return Math.max(0, Math.round(now - this.startTime));
+  }
+
+  private getWordIndex(word: GameWord | string, points = 0, isFake?: boolean): number {
+    const text = typeof word === 'string' ? word : word.word;
+    const existing = this.wordIndexes.get(text);
+    if (existing !== undefined) return existing;
+
+    const index = this.words.length;
+    this.words.push(typeof word === 'string'
+      ? { word: text, points, isFake }
+      : { word: text, points: word.points, isFake: word.isFake || undefined });
+    this.wordIndexes.set(text, index);
+    return index;
+  }
+
+  /**
+   * Diff the current word states against the last seen ones and record spawns/despawns
+   */
+  recordWords(words: GameWord[], now: number = Date.now()): void {
+    const t = this.elapsed(now);
+    const currentlyVisible = new Set<string>();
+
+    words.forEach(word => {
+      const index = this.getWordIndex(word);
+      if (!word.isVisible || word.found) return;
+      currentlyVisible.add(word.word);
+
+      if (!this.visibleWords.has(word.word)) {
+        const visibleAt = word.visibleAt ?? now;
+        this.events.push([
+          t,
+          EVENT_CODES.spawn,
+          index,
+          word.startCol,
+          word.startRow,
+          this.elapsed(word.clickableAt ?? visibleAt),
+          this.elapsed(word.clickableUntil ?? visibleAt + word.visibleDuration),
+          ...(word.orientation && word.orientation !== 'horizontal'
+            ? [ORIENTATION_CODES.indexOf(word.orientation)]
+            : []),
+        ]);
+      }
+    });
+
+    this.visibleWords.forEach(text => {
+      if (!currentlyVisible.has(text)) {
+        this.events.push([t, EVENT_CODES.despawn, this.getWordIndex(text)]);
+      }
+    });
+
+    this.visibleWords = currentlyVisible;
+  }
+
+  /**
+   * Record a pointer interaction with its outcome
+   */
+  recordPointer(
+    type: 'hit' | 'miss' | 'decoy',
+    word: string,
+    point?: ReplayPoint,
+    swipe?: SwipePath,
+    now: number = Date.now()
+  ): void {
+    const index = word ? this.getWordIndex(word, 0, type === 'decoy' || undefined) : -1;
+    this.events.push([
+      this.elapsed(now),
+      EVENT_CODES[type],
+      index,
+      Math.round(point?.x ?? -1),
+      Math.round(point?.y ?? -1),
+      ...(swipe ? [swipe.from.col, swipe.from.row, swipe.to.col, swipe.to.row] : []),
+    ]);
+  }
+
+  recordCombo(combo: number, now: number = Date.now()): void {
+    if (combo === this.lastCombo) return;
+    this.lastCombo = combo;
+    this.events.push([this.elapsed(now), EVENT_CODES.combo, combo]);
+  }
+
+  recordPause(now: number = Date.now()): void {
+    this.events.push([this.elapsed(now), EVENT_CODES.pause]);
+  }
+
+  recordResume(now: number = Date.now()): void {
+    this.events.push([this.elapsed(now), EVENT_CODES.resume]);
+  }
+
+  recordExtraTime(seconds: number, now: number = Date.now()): void {
+    this.events.push([this.elapsed(now), EVENT_CODES.extraTime, seconds]);
+  }
+
+  /**
+   * Close the recording and produce the replay log
+   */
+  finish(score?: GameScore, victory?: boolean, now: number = Date.now()): ReplayLog {
+    return {
+      version: REPLAY_VERSION,
+      id: `replay-${this.startTime}-${Math.random().toString(36).substr(2, 6)}`,
+      level: this.options.level,
+      seed: this.options.seed,
+      paletteId: this.options.paletteId,
+      wordPackId: this.options.wordPackId,
+      columns: this.options.columns,
+      recordedAt: this.startTime,
+      duration: this.elapsed(now),
+      profileName: this.options.profileName,
+      inputMode: this.options.inputMode,
+      difficultySkill: this.options.difficultySkill || undefined,
+      finalScore: score?.finalScore,
+      accuracy: score?.accuracy,
+      victory,
+      words: [...this.words],
+      events: [...this.events],
+    };
+  }
+}
+
+/**
+ * Rebuild the round state at time t (ms since round start)
+ * wallNow is used to express clickable windows in real time for rendering
+ */
+export function buildReplayFrame(
+  log: ReplayLog,
+  t: number,
+  wallNow: number = Date.now(),
+  tapMarkerDuration: number = 600
+): ReplayFrame {
+  const states: GameWord[] = log.words.map(w => ({
+    word: w.word,
+    startCol: 0,
+    startRow: 0,
+    found: false,
+    points: w.points,
+    isVisible: false,
+    visibleDuration: 0,
+    isFake: w.isFake,
+  }));
+  const taps: ReplayTap[] = [];
+  let combo = 0;
+  let isPaused = false;
+  let eventIndex = 0;
+
+  for (const event of log.events) {
+    const [eventTime, code, ...args] = event;
+    if (eventTime > t) break;
+    eventIndex++;
+
+    switch (code) {
+      case EVENT_CODES.spawn: {
+        const [index, col, row, clickableFrom, clickableUntil, orientation] = args;
+        const state = states[index];
+        if (!state) break;
+        states[index] = {
+          ...state,
+          startCol: col,
+          startRow: row,
+          orientation: getReplayOrientation(orientation),
+          isVisible: true,
+          visibleAt: wallNow - (t - eventTime),
+          visibleDuration: Math.max(0, clickableUntil - eventTime),
+          clickableAt: wallNow - (t - clickableFrom),
+          clickableUntil: wallNow - (t - clickableUntil),
+        };
+        break;
+      }
+      case EVENT_CODES.despawn: {
+        const state = states[args[0]];
+        if (state && !state.found) {
+          states[args[0]] = { ...state, isVisible: false, visibleAt: undefined, clickableAt: undefined, clickableUntil: undefined };
+        }
+        break;
+      }
+      case EVENT_CODES.hit:
+      case EVENT_CODES.miss:
+      case EVENT_CODES.decoy: {
+        const [index, x, y] = args;
+        const state = states[index];
+        if (code === EVENT_CODES.hit && state) {
+          states[index] = { ...state, found: true, foundAt: wallNow - (t - eventTime), isVisible: false };
+        }
+        if (x >= 0 && y >= 0 && t - eventTime <= tapMarkerDuration) {
+          taps.push({
+            t: eventTime,
+            type: code === EVENT_CODES.hit ? 'hit' : code === EVENT_CODES.decoy ? 'decoy' : 'miss',
+            word: state?.word,
+            x,
+            y,
+          });
+        }
+        break;
+      }
+      case EVENT_CODES.combo:
+        combo = args[0];
+        break;
+      case EVENT_CODES.pause:
+        isPaused = true;
+        break;
+      case EVENT_CODES.resume:
+        isPaused = false;
+        break;
+    }
+  }
+
+  return { words: states, taps, combo, isPaused, eventIndex };
+}
+
+/**
+ * Count recorded events by type (used for replay summaries and score checks)
+ */
+export function countReplayEvents(log: ReplayLog): Record<ReplayEventType, number> {
+  const counts = Object.fromEntries(
+    Object.keys(EVENT_CODES).map(type => [type, 0])
+  ) as Record<ReplayEventType, number>;
+  const typeByCode = Object.fromEntries(
+    Object.entries(EVENT_CODES).map(([type, code]) => [code, type])
+  ) as Record<ReplayEventCode, ReplayEventType>;
+
+  log.events.forEach(([, code]) => {
+    const type = typeByCode[code];
+    if (type) counts[type]++;
+  });
+  return counts;
+}
+
+/**
+ * Encode a replay as a shareable string
+ */
+export function encodeReplay(log: ReplayLog): string {
+  const json = JSON.stringify(log);
+  return btoa(unescape(encodeURIComponent(json)));
+}
+
+/**
+ * Decode a shared replay string
+ * Returns null if the string is not a valid replay
+ */
+export function decodeReplay(code: string): ReplayLog | null {
+  try {
+    const json = decodeURIComponent(escape(atob(code.trim())));
+    const log = JSON.parse(json) as ReplayLog;
+    if (!isValidReplay(log)) return null;
+    return log;
+  } catch {
+    return null;
+  }
+}
+
+function isValidReplay(log: unknown): log is ReplayLog {
+  if (!log || typeof log !== 'object') return false;
+  const candidate = log as Partial<ReplayLog>;
+  return (
+    typeof candidate.version === 'number' &&
+    candidate.version <= REPLAY_VERSION &&
+    typeof candidate.level === 'number' &&
+    typeof candidate.paletteId === 'string' &&
+    typeof candidate.duration === 'number' &&
+    Array.isArray(candidate.words) &&
+    Array.isArray(candidate.events) &&
+    candidate.events.every(e => Array.isArray(e) && typeof e[0] === 'number' && typeof e[1] === 'string')
+  );
+}
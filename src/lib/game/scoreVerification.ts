@@ -0,0 +1,498 @@
+/**
+ * Score Verification
+ * Recomputes a submitted session from its recorded events and rejects or flags
+ * results that the game rules make impossible
+ *
+ * Shared by the client (to build submissions) and the server (to verify them)
+ */
+
+import { GameSession, GameWord, InputMode, Level } from '@/types/game';
+import { ReplayLog, REPLAY_VERSION, getReplayOrientation } from './replay';
+import { PlacedWord, getSwipeCells, isSwipeOnWord } from './orientation';
+import { calculateScore, calculateFinalScore, DECOY_PENALTY_POINTS, INPUT_MODE_MULTIPLIERS } from './scoring';
+import { initializeLevel } from './difficulty';
+import { applyDifficultySkill } from './difficultyDirector';
+import { getLevelDefinition } from './levelDefinitions';
+import { calculateWordPoints, generateWords } from './wordGenerator';
+import { WordPack, findBuiltinWordPack, getAllWordPacks, getBuiltinWordPack, getBuiltinWordPackId } from './wordPacks';
+import { getAllLocales } from './locales';
+import { createLevelRandom } from './random';
+import { getScaledClickableDuration } from '@/lib/constants';
+import { getPalette } from '@/lib/colorPalettes';
+import { isDailyGlitchPuzzle } from './dailyGlitch';
+import { EXTRA_TIME_SECONDS, MAX_EXTRA_TIME_PER_ROUND } from '@/lib/shop';
+
+// Minigame (hangman) words stay clickable far longer than regular words
+const MINIGAME_CLICKABLE_MS = 30000;
+// Slack for timer resolution and render latency between recording and state updates
+const TIMING_TOLERANCE_MS = 250;
+// Two distinct words can't realistically be found closer together than this
+const MIN_HUMAN_INTERVAL_MS = 120;
+// The in-game countdown ticks slower than wall time, so allow some drift on time values
+const TIMER_DRIFT_RATIO = 0.15;
+const TIMER_TOLERANCE_SECONDS = 2;
+// Relative score difference that is flagged / rejected
+const SCORE_FLAG_RATIO = 0.02;
+const SCORE_REJECT_RATIO = 0.1;
+const ACCURACY_TOLERANCE = 0.5;
+// Grid the word set is regenerated on: only its column count changes which words fit
+const WORD_GRID_CHAR_SIZE = 10;
+const WORD_GRID_ROWS = 40;
+const MAX_WORD_GRID_COLUMNS = 400;
+// Replays recorded before the column count was logged: wide enough for every pack word
+const LEGACY_WORD_GRID_COLUMNS = 64;
+// Share of the score held back from a fully eased round (skill -1); harder rounds are credited in full
+const EASED_ROUND_PENALTY = 0.25;
+
+export type VerificationStatus = 'verified' | 'flagged' | 'rejected';
+
+export type VerificationIssueCode =
+  | 'missing-events'
+  | 'level-mismatch'
+  | 'daily-puzzle'
+  | 'daily-attempt-used'
+  | 'word-set'
+  | 'unknown-word'
+  | 'fake-word-hit'
+  | 'duplicate-hit'
+  | 'word-points'
+  | 'spawn-schedule'
+  | 'hit-before-spawn'
+  | 'hit-outside-window'
+  | 'swipe-path'
+  | 'clickable-window'
+  | 'inhuman-speed'
+  | 'words-found'
+  | 'attempts'
+  | 'accuracy-mismatch'
+  | 'level-time'
+  | 'time-remaining'
+  | 'extra-time'
+  | 'difficulty-skill'
+  | 'score-mismatch';
+
+export interface VerificationIssue {
+  code: VerificationIssueCode;
+  severity: 'flag' | 'reject';
+  message: string;
+}
+
+/**
+ * Everything the client sends for a finished round
+ * Claimed values come from the client's session, events from its replay log
+ */
+export interface ScoreSubmission {
+  level: number;
+  seed?: number;
+  paletteId: string;
+  finalScore: number;
+  wordsFound: number;
+  attempts: number;
+  correctFinds: number;
+  accuracy: number;
+  levelTime?: number;       // seconds
+  timeRemaining?: number;   // seconds left on the countdown (timed levels)
+  victory?: boolean;
+  dailyDate?: string;       // set for Daily Glitch rounds (YYYY-MM-DD)
+  wordPack?: WordPack;      // custom pack the round drew from (built-in packs are known to the server)
+  replay: ReplayLog;
+}
+
+export interface ScoreVerificationResult {
+  status: VerificationStatus;
+  issues: VerificationIssue[];
+  recomputedScore: number;   // final score recomputed from events
+  runningScore: number;      // sum of per-word scores as shown in the HUD
+  acceptedScore: number;     // score that may be credited to the leaderboard (reduced for eased rounds)
+  wordsFound: number;
+  attempts: number;
+}
+
+/**
+ * Build a submission from a finished session and its replay
+ */
+export function createScoreSubmission(
+  session: GameSession,
+  replay: ReplayLog,
+  timeRemaining?: number
+): ScoreSubmission {
+  return {
+    level: session.level,
+    seed: session.seed,
+    paletteId: replay.paletteId,
+    finalScore: session.score.finalScore,
+    wordsFound: session.score.wordsFound,
+    attempts: session.attempts,
+    correctFinds: session.correctFinds,
+    accuracy: session.score.accuracy,
+    levelTime: session.score.levelTime,
+    timeRemaining,
+    victory: replay.victory,
+    wordPack: replay.wordPackId && !findBuiltinWordPack(replay.wordPackId)
+      ? getAllWordPacks().find(pack => pack.id === replay.wordPackId)
+      : undefined,
+    replay,
+  };
+}
+
+/**
+ * Check if a level hosts a minigame (hangman words get extended click windows)
+ */
+function isMinigameLevel(level: number): boolean {
+  return getLevelDefinition(level).minigame !== null;
+}
+
+function isSubmittedWordPack(pack: WordPack | undefined, packId: string): pack is WordPack {
+  return !!pack && pack.id === packId && pack.source !== 'builtin' && typeof pack.language === 'string' &&
+    !!pack.words && typeof pack.words === 'object' &&
+    Object.values(pack.words).every(list => Array.isArray(list) && list.every(word => typeof word === 'string'));
+}
+
+/**
+ * Packs the round may have drawn from: the recorded built-in pack, the submitted custom pack,
+ * or every built-in pack for replays recorded before the pack was logged
+ */
+function getCandidateWordPacks(submission: ScoreSubmission): WordPack[] {
+  const { wordPackId } = submission.replay;
+  if (wordPackId === undefined) return getAllLocales().map(locale => getBuiltinWordPack(locale.id));
+  if (typeof wordPackId !== 'string') return [];
+  const builtin = findBuiltinWordPack(wordPackId);
+  if (builtin) return [builtin];
+  return isSubmittedWordPack(submission.wordPack, wordPackId) ? [submission.wordPack] : [];
+}
+
+/**
+ * Words and decoys generateWords draws for the level, seed and pack (word -> isFake)
+ */
+function getExpectedWords(level: Level, wordPack: WordPack, columns?: number): Map<string, boolean> {
+  const gridColumns = typeof columns === 'number' && Number.isInteger(columns) && columns >= 15
+    ? Math.min(columns, MAX_WORD_GRID_COLUMNS)
+    : LEGACY_WORD_GRID_COLUMNS;
+  const words = generateWords(
+    level,
+    gridColumns * WORD_GRID_CHAR_SIZE,
+    WORD_GRID_ROWS * WORD_GRID_CHAR_SIZE,
+    0,
+    0,
+    WORD_GRID_CHAR_SIZE,
+    WORD_GRID_CHAR_SIZE,
+    undefined,
+    createLevelRandom(level.seed, 'words'),
+    createLevelRandom(level.seed, 'placement'),
+    wordPack
+  );
+  return new Map(words.map(word => [word.word, !!word.isFake]));
+}
+
+/**
+ * Replay the submitted events against the game rules and recompute the score
+ */
+export function verifyScoreSubmission(submission: ScoreSubmission): ScoreVerificationResult {
+  const issues: VerificationIssue[] = [];
+  const reject = (code: VerificationIssueCode, message: string) => issues.push({ code, severity: 'reject', message });
+  const flag = (code: VerificationIssueCode, message: string) => issues.push({ code, severity: 'flag', message });
+
+  const { replay } = submission;
+  const emptyResult = (): ScoreVerificationResult => ({
+    status: 'rejected',
+    issues,
+    recomputedScore: 0,
+    runningScore: 0,
+    acceptedScore: 0,
+    wordsFound: 0,
+    attempts: 0,
+  });
+
+  if (!replay || !Array.isArray(replay.events) || !Array.isArray(replay.words) || replay.version > REPLAY_VERSION) {
+    reject('missing-events', 'Submission has no readable event log');
+    return emptyResult();
+  }
+  if (replay.level !== submission.level || replay.seed !== submission.seed) {
+    reject('level-mismatch', `Event log is for level ${replay.level}, submission claims level ${submission.level}`);
+    return emptyResult();
+  }
+  if (typeof submission.seed !== 'number') {
+    reject('level-mismatch', 'Round has no seed, so its words cannot be regenerated');
+    return emptyResult();
+  }
+
+  if (submission.dailyDate && !isDailyGlitchPuzzle(submission.dailyDate, submission)) {
+    reject('daily-puzzle', `Round doesn't match the Daily Glitch puzzle for ${submission.dailyDate}`);
+    return emptyResult();
+  }
+
+  // Adaptive difficulty is re-applied from the recorded skill (bounded by the director),
+  // but never for the Daily Glitch, which is the same puzzle for everyone
+  const claimedSkill = submission.dailyDate ? 0 : replay.difficultySkill ?? 0;
+  if (typeof claimedSkill !== 'number' || !Number.isFinite(claimedSkill)) {
+    reject('difficulty-skill', `Round claims an unreadable difficulty skill (${claimedSkill})`);
+    return emptyResult();
+  }
+  const difficultySkill = Math.min(1, Math.max(-1, claimedSkill));
+  const level = applyDifficultySkill(initializeLevel(submission.level, submission.seed), difficultySkill).level;
+  const paletteDifficulty = getPalette(submission.paletteId).difficulty;
+  // Own keys only - inherited names like "constructor" would turn every multiplier into NaN
+  const inputMode: InputMode = replay.inputMode && Object.hasOwn(INPUT_MODE_MULTIPLIERS, replay.inputMode) ? replay.inputMode : 'tap';
+  const maxClickableMs = isMinigameLevel(level.level)
+    ? MINIGAME_CLICKABLE_MS
+    : getScaledClickableDuration(level.level, level.visibilityScale);
+
+  // The word table must be what generateWords draws for this level, seed and pack -
+  // the client's own list is never trusted
+  const candidates = getCandidateWordPacks(submission).map(pack => ({
+    pack,
+    expected: getExpectedWords(level, pack, replay.columns),
+  }));
+  if (candidates.length === 0) {
+    reject('word-set', `Round claims the unknown word pack "${replay.wordPackId}"`);
+    return emptyResult();
+  }
+  const { pack: wordPack, expected: expectedWords } = candidates.find(({ expected }) =>
+    replay.words.every(w => expected.get(w.word) === !!w.isFake)
+  ) ?? candidates[0];
+  replay.words.forEach(w => {
+    if (expectedWords.get(w.word) !== !!w.isFake) {
+      reject('word-set', `"${w.word}" is not one of this round's ${w.isFake ? 'decoys' : 'words'}`);
+    }
+  });
+  if (submission.dailyDate && wordPack.id !== getBuiltinWordPackId()) {
+    reject('daily-puzzle', 'Daily Glitch rounds use the built-in English words');
+  }
+  if (wordPack.source !== 'builtin') {
+    flag('word-set', `Words come from the custom pack "${wordPack.name}"`);
+  }
+
+  // Word points are derived from the word itself, never trusted from the client
+  replay.words.forEach(w => {
+    if (!w.isFake && w.points !== calculateWordPoints(w.word, level)) {
+      reject('word-points', `"${w.word}" claims ${w.points} points`);
+    }
+  });
+
+  const words: GameWord[] = replay.words.map(w => ({
+    word: w.word,
+    startCol: 0,
+    startRow: 0,
+    found: false,
+    points: w.points,
+    isVisible: false,
+    visibleDuration: 0,
+    isFake: w.isFake,
+  }));
+  const clickWindows = new Map<number, { from: number; until: number }>();
+  const placements = new Map<number, PlacedWord>();
+
+  let hits = 0;
+  let attempts = 0;
+  let decoyHits = 0;
+  let runningScore = 0;
+  let lastHitAt: number | undefined;
+  let pausedSince: number | undefined;
+  let pausedTotal = 0;
+  let extraTimeUses = 0;
+  let extraSeconds = 0;
+
+  for (const [t, code, ...args] of replay.events) {
+    switch (code) {
+      case 's': {
+        const [index, col, row, from, until, orientation] = args;
+        const word = words[index];
+        if (!word) {
+          reject('unknown-word', `Spawn of unknown word #${index}`);
+          break;
+        }
+        if (word.found || clickWindows.has(index)) {
+          reject('spawn-schedule', `"${word.word}" appeared again while ${word.found ? 'already found' : 'on screen'}`);
+          break;
+        }
+        clickWindows.set(index, { from, until });
+        placements.set(index, { word: word.word, startCol: col, startRow: row, orientation: getReplayOrientation(orientation) });
+        // Never more words on screen than the level has (the Hangman finale shows all of them at once)
+        if (clickWindows.size > level.wordCount) {
+          reject('spawn-schedule', `${clickWindows.size} words on screen at once, the level has ${level.wordCount}`);
+        }
+        if (until - from > maxClickableMs + TIMING_TOLERANCE_MS) {
+          reject('clickable-window', `"${word.word}" stayed clickable for ${until - from}ms (max ${maxClickableMs}ms)`);
+        }
+        break;
+      }
+      case 'd':
+        clickWindows.delete(args[0]);
+        break;
+      case 'm':
+        attempts++;
+        break;
+      case 'f':
+        // Decoys cost points in the HUD and in the final score, same as in GameScreen
+        attempts++;
+        decoyHits++;
+        runningScore = Math.max(0, runningScore - DECOY_PENALTY_POINTS);
+        break;
+      case 'h': {
+        attempts++;
+        const index = args[0];
+        const word = words[index];
+        if (!word) {
+          reject('unknown-word', `Hit on unknown word #${index}`);
+          break;
+        }
+        if (word.isFake) {
+          reject('fake-word-hit', `Decoy "${word.word}" counted as a find`);
+          break;
+        }
+        if (word.found) {
+          reject('duplicate-hit', `"${word.word}" found more than once`);
+          break;
+        }
+
+        const clickWindow = clickWindows.get(index);
+        if (!clickWindow) {
+          reject('hit-before-spawn', `"${word.word}" found while it was not on screen`);
+          break;
+        }
+        if (t < clickWindow.from - TIMING_TOLERANCE_MS || t > clickWindow.until + TIMING_TOLERANCE_MS) {
+          reject('hit-outside-window', `"${word.word}" found at ${t}ms, clickable ${clickWindow.from}-${clickWindow.until}ms`);
+          break;
+        }
+        // The swipe bonus is only paid for drags that really ran across the word's letters
+        if (inputMode === 'swipe') {
+          const [, , , fromCol, fromRow, toCol, toRow] = args;
+          const placement = placements.get(index);
+          const onWord = placement && [fromCol, fromRow, toCol, toRow].every(Number.isInteger) &&
+            isSwipeOnWord(placement, getSwipeCells({ col: fromCol, row: fromRow }, { col: toCol, row: toRow }));
+          if (!onWord) {
+            reject('swipe-path', `"${word.word}" found in swipe mode without a drag across it`);
+            break;
+          }
+        }
+        if (lastHitAt !== undefined && t - lastHitAt < MIN_HUMAN_INTERVAL_MS) {
+          flag('inhuman-speed', `"${word.word}" found ${t - lastHitAt}ms after the previous word`);
+        }
+
+        // Score the find the same way GameScreen does at the moment of the hit
+        const foundAt = replay.recordedAt + t;
+        const previous = words
+          .filter(w => w.found && w.foundAt)
+          .sort((a, b) => (b.foundAt || 0) - (a.foundAt || 0))[0];
+        const timeSinceLastWord = previous?.foundAt ? (foundAt - previous.foundAt) / 1000 : undefined;
+        const combo = Math.max(0, hits + 1 - 3);
+        const elapsed = (t - pausedTotal - (pausedSince !== undefined ? t - pausedSince : 0)) / 1000;
+        const hudTimeRemaining = level.timeLimit ? Math.max(0, level.timeLimit + extraSeconds - elapsed) : undefined;
+        runningScore += calculateScore(word, hudTimeRemaining, combo, attempts, hits + 1, paletteDifficulty, timeSinceLastWord, inputMode).finalScore;
+
+        words[index] = { ...word, found: true, foundAt };
+        clickWindows.delete(index);
+        hits++;
+        lastHitAt = t;
+        break;
+      }
+      case 'p':
+        if (pausedSince === undefined) pausedSince = t;
+        break;
+      case 'r':
+        if (pausedSince !== undefined) {
+          pausedTotal += t - pausedSince;
+          pausedSince = undefined;
+        }
+        break;
+      case 'x':
+        // Bought extra seconds: only on timed rounds, never in the shared daily puzzle
+        extraTimeUses++;
+        if (!level.timeLimit || submission.dailyDate) {
+          reject('extra-time', 'Extra time used in a round that does not allow it');
+        } else if (args[0] !== EXTRA_TIME_SECONDS || extraTimeUses > MAX_EXTRA_TIME_PER_ROUND) {
+          reject('extra-time', `Extra time #${extraTimeUses} of ${args[0]}s is not allowed`);
+        } else {
+          extraSeconds += args[0];
+        }
+        break;
+    }
+  }
+  if (pausedSince !== undefined) {
+    pausedTotal += replay.duration - pausedSince;
+  }
+
+  // Counters must agree with what the events show
+  if (hits > level.wordCount) {
+    reject('words-found', `${hits} words found, the level has ${level.wordCount}`);
+  }
+  if (submission.wordsFound > hits || submission.correctFinds > hits) {
+    reject('words-found', `Claims ${submission.wordsFound} words, events show ${hits}`);
+  } else if (submission.wordsFound < hits) {
+    flag('words-found', `Claims ${submission.wordsFound} words, events show ${hits}`);
+  }
+  if (submission.attempts < submission.correctFinds) {
+    reject('attempts', `${submission.correctFinds} finds from only ${submission.attempts} attempts`);
+  } else if (submission.attempts !== attempts) {
+    flag('attempts', `Claims ${submission.attempts} attempts, events show ${attempts}`);
+  }
+
+  const expectedAccuracy = submission.attempts > 0
+    ? (submission.correctFinds / submission.attempts) * 100
+    : 100;
+  if (Math.abs(submission.accuracy - expectedAccuracy) > ACCURACY_TOLERANCE) {
+    reject('accuracy-mismatch', `Accuracy ${submission.accuracy.toFixed(1)}% doesn't match ${submission.correctFinds}/${submission.attempts} attempts`);
+  }
+
+  // Time values: the client clock can drift, but not beyond what the round duration allows
+  const activeSeconds = Math.max(0, replay.duration - pausedTotal) / 1000;
+  const timeTolerance = activeSeconds * TIMER_DRIFT_RATIO + TIMER_TOLERANCE_SECONDS;
+  let levelTime = submission.levelTime;
+  if (levelTime === undefined || Math.abs(levelTime - activeSeconds) > timeTolerance) {
+    flag('level-time', `Level time ${levelTime ?? '-'}s, events span ${activeSeconds.toFixed(1)}s`);
+    levelTime = activeSeconds;
+  }
+
+  let timeRemaining = level.timeLimit ? submission.timeRemaining : undefined;
+  if (level.timeLimit) {
+    const expectedRemaining = Math.max(0, level.timeLimit + extraSeconds - activeSeconds);
+    if (timeRemaining === undefined || timeRemaining > expectedRemaining + timeTolerance) {
+      reject('time-remaining', `Claims ${timeRemaining ?? '-'}s remaining, at most ${expectedRemaining.toFixed(1)}s possible`);
+      timeRemaining = expectedRemaining;
+    }
+  }
+
+  // Recompute the final score exactly like GameScreen.handleGameOver
+  const recomputed = calculateFinalScore(
+    words,
+    timeRemaining,
+    Math.max(0, hits - 3),
+    Math.max(attempts, hits),
+    hits,
+    levelTime,
+    paletteDifficulty,
+    level.level,
+    inputMode,
+    decoyHits
+  );
+  const recomputedScore = recomputed.finalScore;
+  // NaN fails every comparison below, so a score that isn't a number would otherwise pass as verified
+  if (!Number.isFinite(recomputedScore) || !Number.isFinite(submission.finalScore)) {
+    reject('score-mismatch', `Claims ${submission.finalScore} points, events support ${recomputedScore}`);
+    return emptyResult();
+  }
+  const difference = submission.finalScore - recomputedScore;
+  const baseline = Math.max(recomputedScore, 1);
+  if (difference > baseline * SCORE_REJECT_RATIO) {
+    reject('score-mismatch', `Claims ${submission.finalScore} points, events support ${recomputedScore}`);
+  } else if (Math.abs(difference) > baseline * SCORE_FLAG_RATIO) {
+    flag('score-mismatch', `Claims ${submission.finalScore} points, events support ${recomputedScore}`);
+  }
+
+  const status: VerificationStatus = issues.some(i => i.severity === 'reject')
+    ? 'rejected'
+    : issues.length > 0 ? 'flagged' : 'verified';
+
+  return {
+    status,
+    issues,
+    recomputedScore,
+    runningScore,
+    // Rounds the director made easier are credited less, so claiming a low skill doesn't pay
+    acceptedScore: status === 'rejected'
+      ? 0
+      : Math.floor(Math.min(submission.finalScore, recomputedScore) * (1 + EASED_ROUND_PENALTY * Math.min(0, difficultySkill))),
+    wordsFound: hits,
+    attempts,
+  };
+}
@@ -1,6 +1,22 @@
-import { GameScore, GameWord, Level } from '@/types/game';
+import { GameScore, GameWord, Level, InputMode } from '@/types/game';
 import { getDifficultyMultiplier, PaletteDifficulty } from '@/lib/colorPalettes';
 
+/**
+ * Score multiplier per input mode
+ * Dragging across the exact letters takes more skill than tapping near a word;
+ * typing still means spotting and reading the word, so it scores like tapping
+ */
+export const INPUT_MODE_MULTIPLIERS: Record<InputMode, number> = {
+  tap: 1.0,
+  swipe: 1.25,
+  keyboard: 1.0,
+};
+
+/**
+ * Points taken off before multipliers for every decoy clicked or typed
+ */
+export const DECOY_PENALTY_POINTS = 25;
+
 /**
  * Performance-based combo multiplier calculation
  * Balanced to reward skill while maintaining fairness
@@ -123,7 +139,8 @@ export function calculateScore(
   totalAttempts: number = 0,
   correctFinds: number = 0,
   paletteDifficulty: PaletteDifficulty = 'easy',
-  timeSinceLastWord?: number // Time in seconds since last word was found
+  timeSinceLastWord?: number, // Time in seconds since last word was found
+  inputMode: InputMode = 'tap'
 ): GameScore {
   const basePoints = word.points;
   
@@ -165,7 +182,8 @@ export function calculateScore(
   // Final score calculation with difficulty multiplier
   const beforeMultipliers = basePoints + timeBonus + accuracyBonus + comboBonus;
   const afterCombo = beforeMultipliers * comboMultiplier;
-  const finalScore = Math.floor(afterCombo * difficultyMultiplier);
+  const inputModeMultiplier = INPUT_MODE_MULTIPLIERS[inputMode];
+  const finalScore = Math.floor(afterCombo * difficultyMultiplier * inputModeMultiplier);
   
   return {
     wordsFound: 1,
@@ -175,6 +193,7 @@ export function calculateScore(
     accuracy,
     finalScore,
     difficultyMultiplier,
+    inputModeMultiplier,
     comboBonus,
   };
 }
@@ -187,7 +206,9 @@ export function calculateFinalScore(
   correctFinds: number = 0,
   levelTime?: number, // Time taken to complete the level in seconds
   paletteDifficulty: PaletteDifficulty = 'easy',
-  level?: number // Level number for level-based multipliers
+  level?: number, // Level number for level-based multipliers
+  inputMode: InputMode = 'tap',
+  decoyHits: number = 0 // Decoys clicked or typed during the round
 ): GameScore {
   const foundWords = words.filter(w => w.found);
   const totalBasePoints = foundWords.reduce((sum, word) => sum + word.points, 0);
@@ -295,14 +316,18 @@ export function calculateFinalScore(
     }
   }
   
+  // Decoy penalty: every decoy taken for a word costs points (never below zero)
+  const decoyPenalty = decoyHits * DECOY_PENALTY_POINTS;
+  
   // Calculate score before multipliers
-  const beforeMultipliers = totalBasePoints + timeBonus + accuracyBonus + 
-                            perfectAccuracyBonus + comboBonus + wordLengthBonus + speedBonus;
+  const beforeMultipliers = Math.max(0, totalBasePoints + timeBonus + accuracyBonus + 
+                            perfectAccuracyBonus + comboBonus + wordLengthBonus + speedBonus - decoyPenalty);
   
   // Apply multipliers
   const afterCombo = beforeMultipliers * comboMultiplier;
   const afterLevel = afterCombo * levelMultiplier;
-  const finalScore = Math.floor(afterLevel * difficultyMultiplier);
+  const inputModeMultiplier = INPUT_MODE_MULTIPLIERS[inputMode];
+  const finalScore = Math.floor(afterLevel * difficultyMultiplier * inputModeMultiplier);
   
   // Calculate performance rating
   const expectedTime = level ? 30 + (level * 5) : undefined;
@@ -326,11 +351,13 @@ export function calculateFinalScore(
     // Enhanced scoring breakdown
     levelMultiplier,
     difficultyMultiplier,
+    inputModeMultiplier,
     speedBonus,
     accuracyBonus,
     perfectAccuracyBonus,
     comboBonus,
     wordLengthBonus,
+    decoyPenalty,
     performanceRating,
     scoreBreakdown: {
       baseScore: totalBasePoints,
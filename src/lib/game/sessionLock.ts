@@ -0,0 +1,55 @@
+/**
+ * Game Session Lock
+ * Only one tab plays a counted round at a time, so two game screens can't both run
+ * updateStats on the same profile. Built on the Web Locks API: the lock is held while the
+ * game screen is open and freed by the browser when the tab closes or crashes. Another tab
+ * can take the lock over, after which the first tab's round no longer counts
+ */
+
+const LOCK_NAME = 'word-glitch-game-session';
+
+export interface GameSessionLock {
+  release(): void;
+}
+
+export interface AcquireLockOptions {
+  takeOver?: boolean;    // take the lock from the tab holding it
+  onLost?: () => void;   // called when another tab takes the lock over
+}
+
+// Browsers without Web Locks (or where it fails) play without coordination
+const UNCOORDINATED_LOCK: GameSessionLock = { release: () => {} };
+
+/**
+ * Hold the game session lock until release() is called
+ * @returns The lock, or null while another tab holds it
+ */
+export function acquireGameSessionLock({ takeOver = false, onLost }: AcquireLockOptions = {}): Promise<GameSessionLock | null> {
+  if (typeof navigator === 'undefined' || !navigator.locks) {
+    return Promise.resolve(UNCOORDINATED_LOCK);
+  }
+
+  return new Promise(resolve => {
+    let settled = false;
+    let release = () => {};
+    const held = new Promise<void>(done => { release = done; });
+
+    navigator.locks.request(LOCK_NAME, takeOver ? { steal: true } : { ifAvailable: true }, lock => {
+      settled = true;
+      if (!lock) {
+        resolve(null);
+        return;
+      }
+      resolve({ release });
+      return held;
+    }).catch((err: DOMException) => {
+      if (!settled) {
+        console.warn('Game session lock unavailable:', err);
+        resolve(UNCOORDINATED_LOCK);
+      } else if (err.name === 'AbortError') {
+        // The lock was taken over by another tab
+        onLost?.();
+      }
+    });
+  });
+}
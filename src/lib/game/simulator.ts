@@ -0,0 +1,335 @@
+/**
+ * Headless Game Simulator
+ * Plays rounds without React or a canvas: words come from generateWords, appear on the
+ * WordManager schedule (driven by a virtual clock) and are scored like GameScreen does.
+ * Simulated players click with a configurable reaction-time distribution and accuracy,
+ * so level balance changes can be measured before they ship
+ *
+ * Minigames (Hangman, Bridge Constructor) are not simulated - only the word rounds are
+ */
+
+import { GameScore, GameWord, InputMode, Level } from '@/types/game';
+import { getPaletteForLevel } from './levelProgression';
+import { getTextSizingForDifficulty, initializeLevel } from './difficulty';
+import { Minigame, getLevelDefinition } from './levelDefinitions';
+import { generateWords } from './wordGenerator';
+import { WordManager } from './wordManager';
+import { getBuiltinWordPack } from './wordPacks';
+import { calculateFinalScore } from './scoring';
+import { shouldResetCombo } from './comboSystem';
+import { RandomSource, createLevelRandom, hashSeed } from './random';
+
+export type PerformanceRating = NonNullable<GameScore['performanceRating']>;
+
+export const PERFORMANCE_RATINGS: PerformanceRating[] = ['S', 'A', 'B', 'C', 'D', 'F'];
+
+export interface SimulatedPlayer {
+  id: string;
+  name: string;
+  reactionTime: { mean: number; stdDev: number }; // ms from a word appearing to the click (log-normal)
+  accuracy: number;       // 0-1, chance a click on a word lands
+  decoyRate: number;      // 0-1, chance of clicking a decoy while it is on screen
+  inputMode: InputMode;
+}
+
+export const SIMULATED_PLAYERS: SimulatedPlayer[] = [
+  {
+    id: 'novice',
+    name: 'Novice',
+    reactionTime: { mean: 1600, stdDev: 700 },
+    accuracy: 0.7,
+    decoyRate: 0.25,
+    inputMode: 'tap',
+  },
+  {
+    id: 'average',
+    name: 'Average',
+    reactionTime: { mean: 1100, stdDev: 450 },
+    accuracy: 0.82,
+    decoyRate: 0.12,
+    inputMode: 'tap',
+  },
+  {
+    id: 'expert',
+    name: 'Expert',
+    reactionTime: { mean: 700, stdDev: 250 },
+    accuracy: 0.93,
+    decoyRate: 0.04,
+    inputMode: 'tap',
+  },
+];
+
+export interface SimulationOptions {
+  seed?: number;            // base seed, every round derives its own from it
+  patience?: number;        // seconds a player keeps going on an untimed level
+  viewport?: { width: number; height: number; top: number; bottom: number }; // px, with HUD exclusion zones
+}
+
+export interface SimulatedRound {
+  level: number;
+  seed: number;
+  victory: boolean;
+  wordsFound: number;
+  wordCount: number;
+  attempts: number;
+  accuracy: number;         // 0-100
+  levelTime: number;        // seconds
+  maxComboChain: number;    // longest chain of finds within the combo timeout
+  score: number;
+  rating: PerformanceRating;
+}
+
+export interface LevelBalanceReport {
+  level: number;
+  paletteId: string;
+  wordCount: number;
+  timeLimit?: number;
+  minigame: Minigame | null;
+  rounds: number;
+  completionRate: number;   // 0-1
+  averageTime?: number;     // seconds, over completed rounds
+  accuracy: number;         // average %, 0-100
+  score: { mean: number; p10: number; median: number; p90: number };
+  ratings: Record<PerformanceRating, number>; // share of rounds, 0-1
+}
+
+// GameScreen updates the word schedule every 100ms
+const TICK_MS = 100;
+// Clock value at the start of a round (WordManager treats 0 as "never")
+const SIMULATION_EPOCH = 1_000_000;
+// Players can't click faster than this after a word appears
+const MIN_REACTION_MS = 250;
+const DEFAULT_PATIENCE_SECONDS = 120;
+// Desktop window with the default GameHUD / WordList exclusion zones
+const DEFAULT_VIEWPORT = { width: 1280, height: 800, top: 120, bottom: 200 };
+
+/**
+ * Sample a log-normal reaction time (always positive, long tail of slow reactions)
+ */
+function sampleReactionTime(random: RandomSource, player: SimulatedPlayer): number {
+  const { mean, stdDev } = player.reactionTime;
+  const sigma2 = Math.log(1 + (stdDev * stdDev) / (mean * mean));
+  const mu = Math.log(mean) - sigma2 / 2;
+  // Box-Muller
+  const normal = Math.sqrt(-2 * Math.log(1 - random())) * Math.cos(2 * Math.PI * random());
+  return Math.max(MIN_REACTION_MS, Math.exp(mu + Math.sqrt(sigma2) * normal));
+}
+
+interface PlannedClick {
+  word: string;
+  visibleAt: number;        // the appearance the player reacts to
+  at: number;
+  isFake: boolean;
+}
+
+/**
+ * Play one round of a level with a simulated player
+ */
+export function simulateRound(
+  levelNumber: number,
+  player: SimulatedPlayer,
+  seed: number,
+  options: SimulationOptions = {}
+): SimulatedRound {
+  const level: Level = initializeLevel(levelNumber, seed);
+  const palette = getPaletteForLevel(levelNumber);
+  const viewport = options.viewport ?? DEFAULT_VIEWPORT;
+  const { charWidth, charHeight } = getTextSizingForDifficulty(palette.difficulty, levelNumber, palette.textSizeMultiplier);
+  const width = Math.floor(viewport.width / charWidth) * charWidth;
+  const height = Math.floor(viewport.height / charHeight) * charHeight;
+  const topRows = Math.ceil(viewport.top / charHeight);
+  const bottomRows = Math.ceil(viewport.bottom / charHeight);
+
+  let now = SIMULATION_EPOCH;
+  const words = generateWords(
+    level,
+    width,
+    height,
+    topRows,
+    bottomRows,
+    charWidth,
+    charHeight,
+    palette.difficulty,
+    createLevelRandom(seed, 'words'),
+    createLevelRandom(seed, 'placement'),
+    getBuiltinWordPack()
+  );
+  const manager = new WordManager(
+    words,
+    width,
+    height,
+    topRows,
+    bottomRows,
+    levelNumber,
+    palette.difficulty,
+    charWidth,
+    charHeight,
+    createLevelRandom(seed, 'schedule'),
+    level.visibilityScale,
+    () => now
+  );
+  const random = createLevelRandom(seed, 'player');
+
+  const wordCount = words.filter(w => !w.isFake).length;
+  const limitMs = (level.timeLimit ?? options.patience ?? DEFAULT_PATIENCE_SECONDS) * 1000;
+  const seen = new Set<string>();
+  let planned: PlannedClick[] = [];
+  let current: GameWord[] = words;
+  let attempts = 0;
+  let hits = 0;
+  let decoyHits = 0;
+  let lastFoundAt: number | undefined;
+  let chain = 0;
+  let maxComboChain = 0;
+
+  while (hits < wordCount && now - SIMULATION_EPOCH < limitMs) {
+    now += TICK_MS;
+    manager.setComboMultiplier(Math.max(0, hits - 3));
+    current = manager.updateWords();
+    if (!current.some(w => w.isVisible && !w.found)) {
+      for (let i = 0; i < 20; i++) {
+        if (manager.forceWordAppearance()) {
+          current = manager.updateWords();
+          break;
+        }
+      }
+    }
+
+    // Decide once per appearance whether and when the player clicks it
+    manager.getVisibleWords().forEach(word => {
+      const key = `${word.word}@${word.visibleAt}`;
+      if (seen.has(key) || word.visibleAt === undefined) return;
+      seen.add(key);
+      if (word.isFake && random() >= player.decoyRate) return;
+      planned.push({
+        word: word.word,
+        visibleAt: word.visibleAt,
+        at: word.visibleAt + sampleReactionTime(random, player),
+        isFake: !!word.isFake,
+      });
+    });
+
+    const due = planned.filter(click => click.at <= now).sort((a, b) => a.at - b.at);
+    planned = planned.filter(click => click.at > now);
+    for (const click of due) {
+      const target = manager.getVisibleWords().find(w => w.word === click.word && w.visibleAt === click.visibleAt);
+      // The word vanished before the player got to it
+      if (!target) continue;
+      if (!click.isFake && !manager.isWordClickable(target)) {
+        // Still fading in - click as soon as it can be clicked
+        planned.push({ ...click, at: target.clickableAt ?? now + TICK_MS });
+        continue;
+      }
+
+      attempts++;
+      if (click.isFake) {
+        decoyHits++;
+        continue;
+      }
+      if (random() >= player.accuracy) {
+        // Fumbled the click, try again after another look
+        planned.push({ ...click, at: now + sampleReactionTime(random, player) / 2 });
+        continue;
+      }
+      if (!manager.markWordFound(target.word)) continue;
+
+      hits++;
+      chain = lastFoundAt !== undefined && !shouldResetCombo(lastFoundAt, now) ? chain + 1 : 1;
+      maxComboChain = Math.max(maxComboChain, chain);
+      lastFoundAt = now;
+    }
+  }
+
+  const levelTime = (now - SIMULATION_EPOCH) / 1000;
+  const timeRemaining = level.timeLimit ? Math.max(0, level.timeLimit - levelTime) : undefined;
+  // Score the round exactly like GameScreen.handleGameOver
+  const final = calculateFinalScore(
+    current,
+    timeRemaining,
+    Math.max(0, hits - 3),
+    Math.max(attempts, hits),
+    hits,
+    levelTime,
+    palette.difficulty,
+    levelNumber,
+    player.inputMode,
+    decoyHits
+  );
+
+  return {
+    level: levelNumber,
+    seed,
+    victory: hits === wordCount,
+    wordsFound: hits,
+    wordCount,
+    attempts,
+    accuracy: final.accuracy,
+    levelTime,
+    maxComboChain,
+    score: final.finalScore,
+    rating: final.performanceRating ?? 'F',
+  };
+}
+
+const percentile = (sorted: number[], p: number) =>
+  sorted[Math.min(sorted.length - 1, Math.floor((sorted.length - 1) * p))];
+
+/**
+ * Play a level many times and summarize completion, scores and ratings
+ * Rounds use seeds derived from options.seed, so a report can be reproduced exactly
+ */
+export function simulateLevel(
+  level: number,
+  player: SimulatedPlayer,
+  rounds: number,
+  options: SimulationOptions = {}
+): LevelBalanceReport {
+  const baseSeed = options.seed ?? 1;
+  const results = Array.from({ length: rounds }, (_, round) =>
+    simulateRound(level, player, hashSeed(`${baseSeed}:${level}:${round}`), options)
+  );
+
+  const completed = results.filter(r => r.victory);
+  const scores = results.map(r => r.score).sort((a, b) => a - b);
+  const ratings = Object.fromEntries(PERFORMANCE_RATINGS.map(rating => [rating, 0])) as Record<PerformanceRating, number>;
+  results.forEach(r => { ratings[r.rating] += 1 / rounds; });
+  const config = initializeLevel(level);
+
+  return {
+    level,
+    paletteId: getPaletteForLevel(level).id,
+    wordCount: config.wordCount,
+    timeLimit: config.timeLimit,
+    minigame: getLevelDefinition(level).minigame,
+    rounds,
+    completionRate: completed.length / rounds,
+    averageTime: completed.length > 0
+      ? completed.reduce((sum, r) => sum + r.levelTime, 0) / completed.length
+      : undefined,
+    accuracy: results.reduce((sum, r) => sum + r.accuracy, 0) / rounds,
+    score: {
+      mean: Math.round(scores.reduce((sum, score) => sum + score, 0) / rounds),
+      p10: percentile(scores, 0.1),
+      median: percentile(scores, 0.5),
+      p90: percentile(scores, 0.9),
+    },
+    ratings,
+  };
+}
+
+/**
+ * Balance report for a range of levels (inclusive)
+ */
+export function simulateLevels(
+  from: number,
+  to: number,
+  player: SimulatedPlayer,
+  rounds: number,
+  options: SimulationOptions = {}
+): LevelBalanceReport[] {
+  const reports: LevelBalanceReport[] = [];
+  for (let level = from; level <= to; level++) {
+    reports.push(simulateLevel(level, player, rounds, options));
+  }
+  return reports;
+}
@@ -1,7 +1,11 @@
-import { Level, GameWord } from '@/types/game';
-import { WORD_LISTS, getWordVisibilityDuration, CHAR_WIDTH, CHAR_HEIGHT } from '@/lib/constants';
+import { Level, GameWord, WordOrientation } from '@/types/game';
+import { getScaledVisibilityRange, CHAR_WIDTH, CHAR_HEIGHT } from '@/lib/constants';
 import { getTextSizingForDifficulty } from './difficulty';
 import { PaletteDifficulty } from '@/lib/colorPalettes';
+import { RandomSource, createLevelRandom } from './random';
+import { WordPack, getBuiltinWordPack, getWordPackWords } from './wordPacks';
+import { GAME_LOCALES, getLocale } from './locales';
+import { getCellsAt, getStartRange } from './orientation';
 
 export function generateWords(
   level: Level, 
@@ -11,10 +15,14 @@ export function generateWords(
   bottomExclusionRows: number = 0,
   charWidth?: number,
   charHeight?: number,
-  paletteDifficulty?: PaletteDifficulty
+  paletteDifficulty?: PaletteDifficulty,
+  random: RandomSource = createLevelRandom(level.seed, 'words'),
+  // Positions use their own stream so the chosen words don't depend on the screen size
+  placementRandom: RandomSource = createLevelRandom(level.seed, 'placement'),
+  wordPack: WordPack = getBuiltinWordPack()
 ): GameWord[] {
   const words: GameWord[] = [];
-  const availableWords = getWordsForDifficulty(level);
+  const availableWords = getWordsForDifficulty(level, random, wordPack);
   
   // Use dynamic sizing if provided, otherwise use defaults based on palette difficulty and level
   const textSizing = paletteDifficulty 
@@ -25,10 +33,9 @@ export function generateWords(
   
   // Ensure minimum dimensions for mobile (prevent division by zero or invalid calculations)
   // After level 14, text gets smaller, so we need minimum safe dimensions
-  const safeWidth = Math.max(width, 6); // Minimum 6px per character (smaller for level 14+)
   const safeHeight = Math.max(height, 10); // Minimum 10px per character
   
-  const cols = Math.max(15, Math.floor(canvasWidth / safeWidth)); // Minimum 15 columns for mobile
+  const cols = getWordGridColumns(canvasWidth, width); // Minimum 6px per character (smaller for level 14+)
   const rows = Math.max(15, Math.floor(canvasHeight / safeHeight)); // Minimum 15 rows for mobile
   
   // Calculate playable area (excluding UI sections)
@@ -65,13 +72,18 @@ export function generateWords(
   const finalBottomExclusion = adjustedBottomExclusion;
 
   // Filter words by length requirements
-  const validWords = availableWords.filter(
+  let validWords = availableWords.filter(
     word => word.length >= level.minWordLength && word.length <= level.maxWordLength
   );
 
+  // Small custom packs may have nothing in the level's length range - use whatever fits
+  if (validWords.length === 0 && wordPack.source !== 'builtin') {
+    validWords = availableWords.filter(word => word.length <= cols);
+  }
+
   if (validWords.length === 0) {
     // Fallback to any words if none match
-    return generateFallbackWords(level, cols, rows, topExclusionRows, bottomExclusionRows);
+    return generateFallbackWords(level, cols, rows, random, placementRandom, topExclusionRows, bottomExclusionRows);
   }
 
   const usedPositions = new Set<string>();
@@ -91,25 +103,29 @@ export function generateWords(
     }
     
     const wordPool = availableWords.length > 0 ? availableWords : validWords;
-    const word = wordPool[Math.floor(Math.random() * wordPool.length)];
+    const word = wordPool[Math.floor(random() * wordPool.length)];
+    const orientation = pickOrientation(level, random);
     const position = findValidPosition(
       word, 
       cols, 
       playableRows, 
       usedPositions, 
       level,
-      playableStartRow
+      placementRandom,
+      playableStartRow,
+      orientation
     );
 
     if (position) {
       const points = calculateWordPoints(word, level);
       // Use level-based visibility duration
-      const durationRange = getWordVisibilityDuration(level.level);
-      const visibleDuration = durationRange.min + Math.random() * (durationRange.max - durationRange.min);
+      const durationRange = getScaledVisibilityRange(level.level, level.visibilityScale);
+      const visibleDuration = durationRange.min + random() * (durationRange.max - durationRange.min);
       words.push({
         word,
         startCol: position.col,
         startRow: position.row,
+        ...(position.orientation !== 'horizontal' ? { orientation: position.orientation } : {}),
         found: false,
         points,
         isVisible: false, // Start hidden
@@ -117,56 +133,68 @@ export function generateWords(
         isFake: false,
       });
       // Mark all character positions as used to prevent overlaps
-      for (let i = 0; i < word.length; i++) {
-        usedPositions.add(`${position.col + i},${position.row}`);
-      }
+      getCellsAt(word.length, position.col, position.row, position.orientation).forEach(cell => {
+        usedPositions.add(`${cell.col},${cell.row}`);
+      });
       usedWords.add(word);
     }
   }
 
-  // Generate fake/tricky words
-  const fakeWordCount = getFakeWordCount(level);
+  // Generate fake/tricky words (custom levels bring their own)
+  const customDecoys = level.decoys?.filter(decoy => !validWords.includes(decoy));
+  const fakeWordCount = customDecoys ? customDecoys.length : getFakeWordCount(level);
   const fakeWordsGenerated: string[] = [];
   let fakeAttempts = 0;
   const maxFakeAttempts = fakeWordCount * 50;
 
-  // Use real words as base to generate fake words
+  // Use real words as base to generate fake words, swapping in letters of the pack's alphabet
+  const fakeWordAlphabet = getLocale(wordPack.language).letters;
   const realWordsForFakes = words.filter(w => !w.isFake).map(w => w.word);
   
   while (fakeWordsGenerated.length < fakeWordCount && fakeAttempts < maxFakeAttempts && realWordsForFakes.length > 0) {
     fakeAttempts++;
     
-    // Pick a random real word to create a fake version of
-    const baseWord = realWordsForFakes[Math.floor(Math.random() * realWordsForFakes.length)];
-    const fakeWord = generateFakeWord(baseWord);
-    
-    // Make sure fake word is different from all real words and other fake words
-    if (fakeWordsGenerated.includes(fakeWord) || validWords.includes(fakeWord)) {
-      continue;
-    }
-    
-    // Check if fake word meets length requirements
-    if (fakeWord.length < level.minWordLength || fakeWord.length > level.maxWordLength) {
-      continue;
+    let fakeWord: string;
+    if (customDecoys) {
+      // Place the custom decoys in order, whatever their length
+      fakeWord = customDecoys[fakeWordsGenerated.length];
+    } else {
+      // Pick a random real word to create a fake version of
+      const baseWord = realWordsForFakes[Math.floor(random() * realWordsForFakes.length)];
+      fakeWord = generateFakeWord(baseWord, random, fakeWordAlphabet);
+
+      // Make sure fake word is different from all real words and other fake words
+      if (fakeWordsGenerated.includes(fakeWord) || validWords.includes(fakeWord)) {
+        continue;
+      }
+
+      // Check if fake word meets length requirements
+      if (fakeWord.length < level.minWordLength || fakeWord.length > level.maxWordLength) {
+        continue;
+      }
     }
     
+    const orientation = pickOrientation(level, random);
     const position = findValidPosition(
       fakeWord, 
       cols, 
       playableRows, 
       usedPositions, 
       level,
-      playableStartRow
+      placementRandom,
+      playableStartRow,
+      orientation
     );
 
     if (position) {
       // Fake words don't give points, but use same visibility duration
-      const durationRange = getWordVisibilityDuration(level.level);
-      const visibleDuration = durationRange.min + Math.random() * (durationRange.max - durationRange.min);
+      const durationRange = getScaledVisibilityRange(level.level, level.visibilityScale);
+      const visibleDuration = durationRange.min + random() * (durationRange.max - durationRange.min);
       words.push({
         word: fakeWord,
         startCol: position.col,
         startRow: position.row,
+        ...(position.orientation !== 'horizontal' ? { orientation: position.orientation } : {}),
         found: false,
         points: 0, // Fake words don't give points
         isVisible: false, // Start hidden
@@ -174,9 +202,9 @@ export function generateWords(
         isFake: true, // Mark as fake word
       });
       // Mark all character positions as used to prevent overlaps
-      for (let i = 0; i < fakeWord.length; i++) {
-        usedPositions.add(`${position.col + i},${position.row}`);
-      }
+      getCellsAt(fakeWord.length, position.col, position.row, position.orientation).forEach(cell => {
+        usedPositions.add(`${cell.col},${cell.row}`);
+      });
       fakeWordsGenerated.push(fakeWord);
     }
   }
@@ -184,48 +212,67 @@ export function generateWords(
   return words;
 }
 
-function getWordsForDifficulty(level: Level): string[] {
-  // ALL words are available at ALL levels - no restrictions!
-  // This includes all hidden words, comedic words, horror, fantasy, sci-fi, etc.
+/**
+ * Columns of the grid words are drawn for (minimum 15 columns for mobile)
+ * Words longer than this are skipped, so the choice of words depends on it
+ */
+export function getWordGridColumns(canvasWidth: number, charWidth: number): number {
+  return Math.max(15, Math.floor(canvasWidth / Math.max(charWidth, 6)));
+}
+
+function getWordsForDifficulty(level: Level, random: RandomSource, wordPack: WordPack): string[] {
+  // ALL words of the pack are available at ALL levels - no restrictions!
+  // For the built-in pack this includes all hidden words, comedic words, horror, fantasy, sci-fi, etc.
   // The word length requirements (minWordLength/maxWordLength) will filter appropriately
-  const allWords: string[] = [
-    ...WORD_LISTS.easy,
-    ...WORD_LISTS.medium,
-    ...WORD_LISTS.hard,
-    ...WORD_LISTS.extreme,
-  ];
-  
-  // Remove duplicates for cleaner selection
-  const uniqueWords = [...new Set(allWords)];
+  // Duplicates are removed for cleaner selection
+  const uniqueWords = getWordPackWords(wordPack);
   
   // Shuffle the array to ensure truly random selection across all categories
-  return shuffleArray(uniqueWords);
+  return shuffleArray(uniqueWords, random);
 }
 
 /**
  * Fisher-Yates shuffle algorithm for truly random word selection
  */
-function shuffleArray<T>(array: T[]): T[] {
+function shuffleArray<T>(array: T[], random: RandomSource): T[] {
   const shuffled = [...array];
   for (let i = shuffled.length - 1; i > 0; i--) {
-    const j = Math.floor(Math.random() * (i + 1));
+    const j = Math.floor(random() * (i + 1));
     [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
   }
   return shuffled;
 }
 
+/**
+ * Pick the orientation of a word from the ones the level unlocks
+ * Draws from the words stream only when there is a choice, so horizontal-only levels stay unchanged
+ */
+function pickOrientation(level: Level, random: RandomSource): WordOrientation {
+  const orientations = level.orientations ?? ['horizontal'];
+  if (orientations.length <= 1) return orientations[0] ?? 'horizontal';
+  return orientations[Math.floor(random() * orientations.length)];
+}
+
 function findValidPosition(
   word: string,
   cols: number,
   rows: number,
   usedPositions: Set<string>,
   level: Level,
-  rowOffset: number = 0
-): { col: number; row: number } | null {
-  // Ensure word fits in the available columns
-  if (word.length > cols) {
+  random: RandomSource,
+  rowOffset: number = 0,
+  orientation: WordOrientation = 'horizontal'
+): { col: number; row: number; orientation: WordOrientation } | null {
+  // Ensure word fits in the available area; words too long to run vertically fall back to horizontal
+  let range = getStartRange(word.length, orientation, cols, rowOffset, rowOffset + rows);
+  if (!range && orientation !== 'horizontal') {
+    orientation = 'horizontal';
+    range = getStartRange(word.length, orientation, cols, rowOffset, rowOffset + rows);
+  }
+  if (!range) {
     return null; // Word is too long for the canvas
   }
+  const { minCol, maxCol, minRow, maxRow } = range;
 
   // Avoid center 50% area (vortex zone) - but within playable area
   const centerCol = cols / 2;
@@ -233,11 +280,8 @@ function findValidPosition(
   const avoidRadius = Math.min(cols, rows) * 0.25;
 
   for (let attempt = 0; attempt < 50; attempt++) {
-    // Ensure word fits: col + word.length <= cols, so col <= cols - word.length
-    const maxCol = Math.max(0, cols - word.length);
-    if (maxCol < 0) return null; // Word doesn't fit
-    const col = Math.floor(Math.random() * (maxCol + 1));
-    const row = Math.floor(Math.random() * rows) + rowOffset; // Add offset for playable area
+    const col = minCol + Math.floor(random() * (maxCol - minCol + 1));
+    const row = minRow + Math.floor(random() * (maxRow - minRow + 1));
 
     // Check if too close to center
     const distFromCenter = Math.sqrt(
@@ -246,32 +290,26 @@ function findValidPosition(
     if (distFromCenter < avoidRadius) continue;
 
     // Check if position is available
-    let valid = true;
-    for (let i = 0; i < word.length; i++) {
-      const key = `${col + i},${row}`;
-      if (usedPositions.has(key)) {
-        valid = false;
-        break;
-      }
-    }
+    const valid = getCellsAt(word.length, col, row, orientation)
+      .every(cell => !usedPositions.has(`${cell.col},${cell.row}`));
 
     if (valid) {
-      return { col, row };
+      return { col, row, orientation };
     }
   }
 
   // Fallback: any position in playable area (with bounds check)
-  const maxCol = Math.max(0, cols - word.length);
-  if (maxCol < 0) return null; // Word doesn't fit
-  const col = Math.floor(Math.random() * (maxCol + 1));
-  const row = Math.floor(Math.random() * rows) + rowOffset;
-  return { col, row };
+  const col = minCol + Math.floor(random() * (maxCol - minCol + 1));
+  const row = minRow + Math.floor(random() * (maxRow - minRow + 1));
+  return { col, row, orientation };
 }
 
 function generateFallbackWords(
   level: Level, 
   cols: number, 
   rows: number,
+  random: RandomSource,
+  placementRandom: RandomSource,
   topExclusionRows: number = 0,
   bottomExclusionRows: number = 0
 ): GameWord[] {
@@ -295,14 +333,14 @@ function generateFallbackWords(
   ];
   
   // Shuffle fallback words for variety
-  const shuffledWords = shuffleArray(baseWords);
+  const shuffledWords = shuffleArray(baseWords, random);
   
   const playableStartRow = topExclusionRows;
   const playableEndRow = rows - bottomExclusionRows;
   const playableRows = Math.max(1, playableEndRow - playableStartRow);
   
   // Use level-based visibility duration
-  const durationRange = getWordVisibilityDuration(level.level);
+  const durationRange = getScaledVisibilityRange(level.level, level.visibilityScale);
   
   for (let i = 0; i < level.wordCount; i++) {
     const word = shuffledWords[i % shuffledWords.length];
@@ -311,10 +349,10 @@ function generateFallbackWords(
     if (word.length > cols) continue; // Skip words that don't fit
     
     const maxCol = Math.max(0, cols - word.length);
-    const col = Math.floor(Math.random() * (maxCol + 1));
-    const row = Math.floor(Math.random() * playableRows) + playableStartRow;
+    const col = Math.floor(placementRandom() * (maxCol + 1));
+    const row = Math.floor(placementRandom() * playableRows) + playableStartRow;
     
-    const visibleDuration = durationRange.min + Math.random() * (durationRange.max - durationRange.min);
+    const visibleDuration = durationRange.min + random() * (durationRange.max - durationRange.min);
     
     words.push({
       word,
@@ -335,7 +373,7 @@ function generateFallbackWords(
  * Generate fake/tricky words that look similar to real words
  * These are designed to confuse players and trick them into clicking
  */
-function generateFakeWord(realWord: string): string {
+function generateFakeWord(realWord: string, random: RandomSource, alphabet: string = GAME_LOCALES.en.letters): string {
   const word = realWord.toUpperCase();
   const length = word.length;
   
@@ -344,15 +382,15 @@ function generateFakeWord(realWord: string): string {
     // Strategy 1: Change one letter (most common)
     () => {
       if (length < 2) return null;
-      const pos = Math.floor(Math.random() * length);
-      const chars = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ';
-      const newChar = chars[Math.floor(Math.random() * chars.length)];
+      const pos = Math.floor(random() * length);
+      const chars = alphabet;
+      const newChar = chars[Math.floor(random() * chars.length)];
       return word.substring(0, pos) + newChar + word.substring(pos + 1);
     },
     // Strategy 2: Swap two adjacent letters
     () => {
       if (length < 2) return null;
-      const pos = Math.floor(Math.random() * (length - 1));
+      const pos = Math.floor(random() * (length - 1));
       const chars = word.split('');
       [chars[pos], chars[pos + 1]] = [chars[pos + 1], chars[pos]];
       return chars.join('');
@@ -360,15 +398,15 @@ function generateFakeWord(realWord: string): string {
     // Strategy 3: Add an extra letter
     () => {
       if (length >= 8) return null; // Don't make words too long
-      const pos = Math.floor(Math.random() * (length + 1));
-      const chars = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ';
-      const newChar = chars[Math.floor(Math.random() * chars.length)];
+      const pos = Math.floor(random() * (length + 1));
+      const chars = alphabet;
+      const newChar = chars[Math.floor(random() * chars.length)];
       return word.substring(0, pos) + newChar + word.substring(pos);
     },
     // Strategy 4: Remove one letter (only for longer words)
     () => {
       if (length <= 3) return null; // Don't make words too short
-      const pos = Math.floor(Math.random() * length);
+      const pos = Math.floor(random() * length);
       return word.substring(0, pos) + word.substring(pos + 1);
     },
     // Strategy 5: Change last letter to similar looking letter
@@ -388,14 +426,14 @@ function generateFakeWord(realWord: string): string {
         'V': ['U', 'Y'],
       };
       const replacements = similarChars[lastChar] || ['X', 'Y', 'Z'];
-      const newChar = replacements[Math.floor(Math.random() * replacements.length)];
+      const newChar = replacements[Math.floor(random() * replacements.length)];
       return word.substring(0, length - 1) + newChar;
     },
   ];
   
   // Try each strategy until one works
   for (let i = 0; i < strategies.length * 2; i++) {
-    const strategy = strategies[Math.floor(Math.random() * strategies.length)];
+    const strategy = strategies[Math.floor(random() * strategies.length)];
     const fakeWord = strategy();
     if (fakeWord && fakeWord !== word && fakeWord.length >= 2) {
       return fakeWord;
@@ -404,11 +442,11 @@ function generateFakeWord(realWord: string): string {
   
   // Fallback: just change a random letter
   if (length >= 2) {
-    const pos = Math.floor(Math.random() * length);
-    const chars = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ';
-    let newChar = chars[Math.floor(Math.random() * chars.length)];
+    const pos = Math.floor(random() * length);
+    const chars = alphabet;
+    let newChar = chars[Math.floor(random() * chars.length)];
     while (newChar === word[pos]) {
-      newChar = chars[Math.floor(Math.random() * chars.length)];
+      newChar = chars[Math.floor(random() * chars.length)];
     }
     return word.substring(0, pos) + newChar + word.substring(pos + 1);
   }
@@ -428,7 +466,7 @@ function getFakeWordCount(level: Level): number {
   return Math.floor(level.wordCount * 0.3); // 30% fake words at higher levels
 }
 
-function calculateWordPoints(word: string, level: Level): number {
+export function calculateWordPoints(word: string, level: Level): number {
   const basePoints = word.length * 10;
   const difficultyMultiplier = {
     easy: 1,
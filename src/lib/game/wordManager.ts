@@ -1,7 +1,24 @@
-import { GameWord, Level } from '@/types/game';
-import { CHAR_WIDTH, CHAR_HEIGHT, getWordVisibilityDuration, getWordClickableDuration } from '@/lib/constants';
+import { GameWord, Level, WordOrientation } from '@/types/game';
+import { CHAR_WIDTH, CHAR_HEIGHT, getScaledVisibilityRange, getScaledClickableDuration } from '@/lib/constants';
 import { getTextSizingForDifficulty } from './difficulty';
 import { PaletteDifficulty } from '@/lib/colorPalettes';
+import { RandomSource, defaultRandom } from './random';
+import { getStartRange, isWordInBounds, wordsOverlap } from './orientation';
+
+// Longest clickable window once a word is on screen (appearances use the level's full window)
+const MAX_CLICKABLE_MS = 3000;
+
+/**
+ * Compare typed text case- and accent-insensitively, so any keyboard layout can type a word
+ */
+function normalizeTypedWord(text: string): string {
+  return text.trim().toLocaleUpperCase().normalize('NFD').replace(/\p{M}/gu, '');
+}
+
+/**
+ * Current time in ms, same contract as Date.now (replaceable for headless simulation)
+ */
+export type Clock = () => number;
 
 /**
  * Manages word visibility, timing, and repositioning
@@ -26,6 +43,9 @@ export class WordManager {
   private lastWordFoundAt: number; // Track when last word was found (for trigger-based appearance)
   private timeSinceLastAppearance: number; // Track time since any word appeared
   private comboMultiplier: number; // Combo-based appearance speed boost
+  private random: RandomSource; // Source for scheduling and repositioning (seeded per round; draws used depend on ticks and finds)
+  private visibilityScale: number; // Stretches or shortens visibility/clickable windows (difficulty director)
+  private clock: Clock; // Time source for all scheduling (a virtual clock in the simulator)
 
   constructor(
     words: GameWord[],
@@ -36,9 +56,15 @@ export class WordManager {
     level: number,
     paletteDifficulty?: PaletteDifficulty,
     charWidth?: number,
-    charHeight?: number
+    charHeight?: number,
+    random: RandomSource = defaultRandom,
+    visibilityScale = 1,
+    clock: Clock = Date.now
   ) {
     this.words = words;
+    this.random = random;
+    this.visibilityScale = visibilityScale;
+    this.clock = clock;
     this.canvasWidth = canvasWidth;
     this.canvasHeight = canvasHeight;
     this.topExclusionRows = topExclusionRows;
@@ -93,7 +119,7 @@ export class WordManager {
    * Notify that a word was found (triggers faster next word appearance)
    */
   onWordFound(): void {
-    this.lastWordFoundAt = Date.now();
+    this.lastWordFoundAt = this.clock();
     // Clear scheduled appearances to allow immediate new word
     this.nextWordScheduledAt.clear();
   }
@@ -107,13 +133,13 @@ export class WordManager {
     
     if (isWordFoundTrigger) {
       // Word found trigger: very fast appearance (200-800ms)
-      baseDelay = 200 + Math.random() * 600;
+      baseDelay = 200 + this.random() * 600;
     } else if (visibleWords === 0) {
       // No words visible: fast appearance (300-1200ms)
-      baseDelay = 300 + Math.random() * 900;
+      baseDelay = 300 + this.random() * 900;
     } else {
       // Word already visible: slower appearance (800-2500ms)
-      baseDelay = 800 + Math.random() * 1700;
+      baseDelay = 800 + this.random() * 1700;
     }
     
     // Apply level-based scaling (higher levels = slightly faster)
@@ -123,7 +149,7 @@ export class WordManager {
     const comboFactor = 1.0 / this.comboMultiplier;
     
     // Add extra randomness (0.5x to 1.5x multiplier)
-    const randomFactor = 0.5 + Math.random();
+    const randomFactor = 0.5 + this.random();
     
     return Math.max(100, baseDelay * levelFactor * comboFactor * randomFactor);
   }
@@ -132,7 +158,7 @@ export class WordManager {
    * Update word visibility states and handle timing with enhanced randomness
    */
   updateWords(): GameWord[] {
-    const now = Date.now();
+    const now = this.clock();
     const visibleWords = this.words.filter(w => w.isVisible && !w.found).length;
     
     // Update time since last appearance
@@ -169,7 +195,7 @@ export class WordManager {
         if (!word.clickableAt && word.visibleAt) {
           // Word becomes clickable after fully visible (200ms delay to ensure rendering)
           const fullyVisibleDelay = 200;
-          const clickableDuration = Math.min(3000, getWordClickableDuration(this.level)); // Enforce 3s max
+          const clickableDuration = getScaledClickableDuration(this.level, this.visibilityScale, MAX_CLICKABLE_MS); // Enforce 3s max
           word.clickableAt = word.visibleAt + fullyVisibleDelay;
           word.clickableUntil = word.visibleAt + fullyVisibleDelay + clickableDuration;
         }
@@ -217,8 +243,8 @@ export class WordManager {
         // Trigger 1: Word found trigger (immediate appearance after word found)
         if (isWordFoundTrigger && visibleWords === 0) {
           // Moderate chance (50-70%) to appear immediately after word found
-          const triggerChance = 0.5 + Math.random() * 0.2;
-          shouldAppear = Math.random() < triggerChance;
+          const triggerChance = 0.5 + this.random() * 0.2;
+          shouldAppear = this.random() < triggerChance;
         }
         // Trigger 2: No words visible (ensure at least one word)
         else if (visibleWords === 0) {
@@ -226,35 +252,35 @@ export class WordManager {
           const timeFactor = Math.min(1.0, this.timeSinceLastAppearance / 2000); // Max chance after 2s
           const baseChance = this.level <= 5 ? 0.85 : this.level <= 10 ? 0.75 : 0.65;
           const appearChance = baseChance + (timeFactor * 0.2); // Increase chance over time
-          shouldAppear = Math.random() < Math.min(0.95, appearChance);
+          shouldAppear = this.random() < Math.min(0.95, appearChance);
         }
         // Trigger 3: One word visible (add second word if allowed)
         else if (visibleWords === 1 && this.maxVisibleWords >= 2) {
           // More random chance (15-35% based on level)
           const baseChance = this.level <= 10 ? 0.25 : this.level <= 20 ? 0.20 : 0.15;
-          const randomVariation = (Math.random() - 0.5) * 0.2; // ±10% variation
+          const randomVariation = (this.random() - 0.5) * 0.2; // ±10% variation
           const appearChance = Math.max(0.1, Math.min(0.4, baseChance + randomVariation));
-          shouldAppear = Math.random() < appearChance;
+          shouldAppear = this.random() < appearChance;
         }
         // Trigger 4: Time-based random appearance (increased frequency to fill the gap)
         // Applies when words are visible OR when no words visible (to compensate for lower word found trigger)
         if (!shouldAppear) {
           // Increased random trigger: 10-15% chance (was 2%) to fill the difference
           const randomTriggerChance = visibleWords === 0 ? 0.12 : 0.10; // Slightly higher when no words visible
-          if (Math.random() < randomTriggerChance) {
+          if (this.random() < randomTriggerChance) {
             shouldAppear = true;
           }
         }
         
         if (shouldAppear) {
           // Reposition word randomly in playable area
-          const newPosition = this.findRandomPosition(word.word);
+          const newPosition = this.findRandomPosition(word.word, word.orientation);
           if (newPosition) {
             // Get level-based visibility duration
-            const durationRange = getWordVisibilityDuration(this.level);
-            const visibleDuration = durationRange.min + Math.random() * (durationRange.max - durationRange.min);
+            const durationRange = getScaledVisibilityRange(this.level, this.visibilityScale);
+            const visibleDuration = durationRange.min + this.random() * (durationRange.max - durationRange.min);
             const fullyVisibleDelay = 200; // Small delay to ensure word is fully rendered before clickable
-            const clickableDuration = getWordClickableDuration(this.level);
+            const clickableDuration = getScaledClickableDuration(this.level, this.visibilityScale);
             
             // Update cooldown for this word
             this.wordCooldowns.set(word.word, now);
@@ -267,6 +293,7 @@ export class WordManager {
               ...word,
               startCol: newPosition.col,
               startRow: newPosition.row,
+              orientation: newPosition.orientation,
               isVisible: true,
               visibleAt: now,
               visibleDuration,
@@ -326,9 +353,7 @@ export class WordManager {
       if (word.found) return word;
       
       // If word position is out of bounds, reset it
-      if (word.startCol + word.word.length > this.cols || 
-          word.startRow < this.playableStartRow || 
-          word.startRow >= this.playableEndRow) {
+      if (!isWordInBounds(word, this.cols, this.playableStartRow, this.playableEndRow)) {
         return {
           ...word,
           isVisible: false,
@@ -362,10 +387,14 @@ export class WordManager {
   }
 
   /**
-   * Find a random valid position for a word
+   * Find a random valid position for a word in its orientation
+   * Words that no longer fit vertically/diagonally (e.g. after a resize) fall back to horizontal
    * Enhanced for mobile and smaller text sizes after level 14
    */
-  private findRandomPosition(word: string): { col: number; row: number } | null {
+  private findRandomPosition(
+    word: string,
+    orientation: WordOrientation = 'horizontal'
+  ): { col: number; row: number; orientation: WordOrientation } | null {
     // Ensure we have valid playable area
     if (this.playableEndRow <= this.playableStartRow) {
       return null; // No playable area
@@ -384,25 +413,22 @@ export class WordManager {
       return null;
     }
 
+    let range = getStartRange(word.length, orientation, this.cols, this.playableStartRow, this.playableEndRow);
+    if (!range && orientation !== 'horizontal') {
+      orientation = 'horizontal';
+      range = getStartRange(word.length, orientation, this.cols, this.playableStartRow, this.playableEndRow);
+    }
+    if (!range) return null; // Word doesn't fit
+    const { minCol, maxCol, minRow, maxRow } = range;
+
     const maxAttempts = 100; // Increased attempts for better positioning
     const centerCol = this.cols / 2;
     const centerRow = (this.playableStartRow + this.playableEndRow) / 2;
     const avoidRadius = Math.min(this.cols, this.playableEndRow - this.playableStartRow) * 0.2; // Reduced to allow more positions
 
     for (let attempt = 0; attempt < maxAttempts; attempt++) {
-      // Ensure word fits: col + word.length <= cols, so col <= cols - word.length
-      const maxCol = Math.max(0, this.cols - word.length);
-      if (maxCol < 0) return null; // Word doesn't fit
-      
-      const col = Math.floor(Math.random() * (maxCol + 1));
-      // playableRows already defined above, reuse it
-      if (playableRows <= 0) return null; // No playable rows
-      const row = Math.floor(Math.random() * playableRows) + this.playableStartRow;
-
-      // Validate bounds
-      if (col < 0 || col + word.length > this.cols || row < this.playableStartRow || row >= this.playableEndRow) {
-        continue; // Invalid position, try again
-      }
+      const col = minCol + Math.floor(this.random() * (maxCol - minCol + 1));
+      const row = minRow + Math.floor(this.random() * (maxRow - minRow + 1));
 
       // Check if too close to center (only for first few attempts, then allow center)
       if (attempt < 30) {
@@ -413,37 +439,18 @@ export class WordManager {
       }
 
       // Check if position overlaps with other visible words
-      const overlaps = this.words.some(w => {
-        if (!w.isVisible || w.found) return false;
-        if (w.startRow !== row) return false;
-        
-        const wStart = w.startCol;
-        const wEnd = w.startCol + w.word.length;
-        const newStart = col;
-        const newEnd = col + word.length;
-        
-        return !(newEnd <= wStart || newStart >= wEnd);
-      });
+      const candidate = { word, startCol: col, startRow: row, orientation };
+      const overlaps = this.words.some(w => w.isVisible && !w.found && wordsOverlap(w, candidate));
 
       if (!overlaps) {
-        return { col, row };
+        return { col, row, orientation };
       }
     }
 
-    // Fallback: any position in playable area (with bounds check)
-    const maxCol = Math.max(0, this.cols - word.length);
-    if (maxCol < 0) return null; // Word doesn't fit
-    // playableRows already defined above, reuse it
-    if (playableRows <= 0) return null;
-    const col = Math.floor(Math.random() * (maxCol + 1));
-    const row = Math.floor(Math.random() * playableRows) + this.playableStartRow;
-    
-    // Final validation
-    if (col >= 0 && col + word.length <= this.cols && row >= this.playableStartRow && row < this.playableEndRow) {
-      return { col, row };
-    }
-    
-    return null;
+    // Fallback: any position in playable area
+    const col = minCol + Math.floor(this.random() * (maxCol - minCol + 1));
+    const row = minRow + Math.floor(this.random() * (maxRow - minRow + 1));
+    return { col, row, orientation };
   }
 
   /**
@@ -454,7 +461,7 @@ export class WordManager {
     if (!word.isVisible) return false;
     if (!word.clickableAt || !word.clickableUntil) return false;
     
-    const now = Date.now();
+    const now = this.clock();
     return now >= word.clickableAt && now <= word.clickableUntil;
   }
 
@@ -465,6 +472,17 @@ export class WordManager {
     return this.words.filter(w => w.isVisible && !w.found);
   }
 
+  /**
+   * Find the visible word matching typed text (keyboard input mode)
+   * Real words win over a decoy with the same letters
+   */
+  findTypedWord(input: string): GameWord | undefined {
+    const typed = normalizeTypedWord(input);
+    if (!typed) return undefined;
+    const matches = this.getVisibleWords().filter(w => normalizeTypedWord(w.word) === typed);
+    return matches.find(w => !w.isFake) ?? matches[0];
+  }
+
   /**
    * Mark a word as found
    */
@@ -473,7 +491,8 @@ export class WordManager {
     const word = this.words.find(w => w.word === wordText && !w.found && !w.isFake);
     if (word && this.isWordClickable(word)) {
       word.found = true;
-      word.foundAt = Date.now();
+      word.foundAt = this.clock();
+      word.reactionTime = word.visibleAt ? word.foundAt - word.visibleAt : undefined;
       word.isVisible = false; // Hide it immediately
       word.visibleAt = undefined;
       word.clickableAt = undefined;
@@ -493,7 +512,7 @@ export class WordManager {
    * Force at least one word to appear (used when no words are visible)
    */
   forceWordAppearance(): boolean {
-    const now = Date.now();
+    const now = this.clock();
     const nonFoundWords = this.words.filter(w => !w.found && !w.isVisible);
     
     if (nonFoundWords.length === 0) return false;
@@ -517,14 +536,14 @@ export class WordManager {
     
     // Try each word multiple times until one successfully appears
     for (let attempt = 0; attempt < 50; attempt++) {
-      const randomWord = nonFoundWords[Math.floor(Math.random() * nonFoundWords.length)];
-      const newPosition = this.findRandomPosition(randomWord.word);
+      const randomWord = nonFoundWords[Math.floor(this.random() * nonFoundWords.length)];
+      const newPosition = this.findRandomPosition(randomWord.word, randomWord.orientation);
       
       if (newPosition) {
-        const durationRange = getWordVisibilityDuration(this.level);
-        const visibleDuration = durationRange.min + Math.random() * (durationRange.max - durationRange.min);
+        const durationRange = getScaledVisibilityRange(this.level, this.visibilityScale);
+        const visibleDuration = durationRange.min + this.random() * (durationRange.max - durationRange.min);
         const fullyVisibleDelay = 200;
-        const clickableDuration = Math.min(3000, getWordClickableDuration(this.level)); // Enforce 3s max
+        const clickableDuration = getScaledClickableDuration(this.level, this.visibilityScale, MAX_CLICKABLE_MS); // Enforce 3s max
         
         const wordIndex = this.words.findIndex(w => w.word === randomWord.word && !w.found);
         if (wordIndex !== -1) {
@@ -532,6 +551,7 @@ export class WordManager {
             ...this.words[wordIndex],
             startCol: newPosition.col,
             startRow: newPosition.row,
+            orientation: newPosition.orientation,
             isVisible: true,
             visibleAt: now,
             visibleDuration,
@@ -555,15 +575,16 @@ export class WordManager {
         
         const wordIndex = this.words.findIndex(w => w.word === word.word && !w.found);
         if (wordIndex !== -1) {
-          const durationRange = getWordVisibilityDuration(this.level);
-          const visibleDuration = durationRange.min + Math.random() * (durationRange.max - durationRange.min);
+          const durationRange = getScaledVisibilityRange(this.level, this.visibilityScale);
+          const visibleDuration = durationRange.min + this.random() * (durationRange.max - durationRange.min);
           const fullyVisibleDelay = 200;
-          const clickableDuration = Math.min(3000, getWordClickableDuration(this.level)); // Enforce 3s max
+          const clickableDuration = getScaledClickableDuration(this.level, this.visibilityScale, MAX_CLICKABLE_MS); // Enforce 3s max
           
           this.words[wordIndex] = {
             ...this.words[wordIndex],
             startCol: safeCol,
             startRow: safeRow,
+            orientation: 'horizontal',
             isVisible: true,
             visibleAt: now,
             visibleDuration,
@@ -0,0 +1,278 @@
+/**
+ * Word Packs
+ * A word pack bundles the words a round draws from: the built-in lists of each locale,
+ * or custom packs imported from JSON/CSV files or pasted in as plain text
+ */
+
+import { Difficulty } from '@/types/game';
+import { WORD_LISTS, LOCALE_WORD_LISTS } from '@/lib/constants';
+import { STORAGE_KEYS, loadSettings, saveSettings } from '@/lib/storage/gameStorage';
+import { readDocument, writeDocument } from '@/lib/storage/schema';
+import { LocaleId, GAME_LOCALES, DEFAULT_LOCALE_ID, getAllLocales, getSelectedLocale } from './locales';
+
+const DIFFICULTIES: Difficulty[] = ['easy', 'medium', 'hard', 'extreme'];
+const MIN_WORD_LENGTH = 2;
+const MAX_WORD_LENGTH = 16;
+const MIN_PACK_WORDS = 5;
+
+export type WordPackSource = 'builtin' | 'imported' | 'pasted';
+
+export interface WordPack {
+  id: string;
+  name: string;
+  language: string;   // BCP 47 code, e.g. 'en', 'de'
+  source: WordPackSource;
+  words: Record<Difficulty, string[]>;
+  tags?: string[];    // Category tags, e.g. 'vocabulary', 'holiday'
+  createdAt?: number;
+}
+
+export interface WordPackMeta {
+  name: string;
+  language?: string;
+  tags?: string[];
+}
+
+export type WordPackParseResult =
+  | { success: true; pack: WordPack }
+  | { success: false; error: string };
+
+export function getBuiltinWordPackId(localeId: LocaleId = DEFAULT_LOCALE_ID): string {
+  return `builtin-${localeId}`;
+}
+
+/**
+ * The pack built from the hardcoded word lists of a locale
+ * (WORD_LISTS for English, LOCALE_WORD_LISTS for the others)
+ */
+export function getBuiltinWordPack(localeId: LocaleId = DEFAULT_LOCALE_ID): WordPack {
+  const lists = localeId === 'en' ? WORD_LISTS : LOCALE_WORD_LISTS[localeId];
+  return {
+    id: getBuiltinWordPackId(localeId),
+    name: localeId === 'en' ? 'Word Glitch Classic' : `Word Glitch Classic · ${GAME_LOCALES[localeId].name}`,
+    language: localeId,
+    source: 'builtin',
+    words: {
+      easy: [...lists.easy],
+      medium: [...lists.medium],
+      hard: [...lists.hard],
+      extreme: [...lists.extreme],
+    },
+  };
+}
+
+/**
+ * All unique words of a pack, across difficulties
+ */
+export function getWordPackWords(pack: WordPack): string[] {
+  return [...new Set(DIFFICULTIES.flatMap(difficulty => pack.words[difficulty] || []))];
+}
+
+/**
+ * Uppercase and validate a single word; letters of any script are allowed
+ */
+export function normalizeWord(raw: string): string | null {
+  const word = raw.trim().toLocaleUpperCase();
+  if (word.length < MIN_WORD_LENGTH || word.length > MAX_WORD_LENGTH) return null;
+  return /^\p{L}+$/u.test(word) ? word : null;
+}
+
+/**
+ * Difficulty for words that come without one, matching the level word lengths
+ */
+function getDifficultyForLength(word: string): Difficulty {
+  if (word.length <= 4) return 'easy';
+  if (word.length <= 5) return 'medium';
+  if (word.length <= 7) return 'hard';
+  return 'extreme';
+}
+
+function isDifficulty(value: string): value is Difficulty {
+  return (DIFFICULTIES as string[]).includes(value);
+}
+
+function createEmptyWords(): Record<Difficulty, string[]> {
+  return { easy: [], medium: [], hard: [], extreme: [] };
+}
+
+function createPackId(name: string): string {
+  const slug = name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'pack';
+  return `${slug}-${Date.now().toString(36)}`;
+}
+
+/**
+ * Build a pack from collected words, dropping duplicates and invalid entries
+ */
+function buildPack(
+  source: WordPackSource,
+  meta: WordPackMeta,
+  entries: { word: string; difficulty?: string }[]
+): WordPackParseResult {
+  const name = meta.name.trim();
+  if (!name) {
+    return { success: false, error: 'The pack needs a name' };
+  }
+
+  const words = createEmptyWords();
+  const seen = new Set<string>();
+  entries.forEach(entry => {
+    const word = normalizeWord(entry.word);
+    if (!word || seen.has(word)) return;
+    seen.add(word);
+
+    const difficulty = entry.difficulty?.trim().toLowerCase();
+    words[difficulty && isDifficulty(difficulty) ? difficulty : getDifficultyForLength(word)].push(word);
+  });
+
+  if (seen.size < MIN_PACK_WORDS) {
+    return { success: false, error: `A pack needs at least ${MIN_PACK_WORDS} valid words (found ${seen.size})` };
+  }
+
+  return {
+    success: true,
+    pack: {
+      id: createPackId(name),
+      name,
+      language: meta.language?.trim() || 'en',
+      source,
+      words,
+      tags: meta.tags?.map(tag => tag.trim().toLowerCase()).filter(Boolean),
+      createdAt: Date.now(),
+    },
+  };
+}
+
+/**
+ * Parse a JSON pack file
+ * Accepts { name, language?, tags?, words } where words is either a flat list
+ * or an object of per-difficulty lists
+ */
+export function parseWordPackJson(text: string, fallbackName = 'Imported Pack'): WordPackParseResult {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    return { success: false, error: 'The file is not valid JSON' };
+  }
+
+  const json = (Array.isArray(data) ? { words: data } : data) as {
+    name?: unknown;
+    language?: unknown;
+    tags?: unknown;
+    words?: unknown;
+  };
+  if (!json || typeof json !== 'object') {
+    return { success: false, error: 'Expected a word list or a pack object' };
+  }
+
+  const entries: { word: string; difficulty?: string }[] = [];
+  if (Array.isArray(json.words)) {
+    json.words.forEach(word => {
+      if (typeof word === 'string') entries.push({ word });
+    });
+  } else if (json.words && typeof json.words === 'object') {
+    Object.entries(json.words as Record<string, unknown>).forEach(([difficulty, list]) => {
+      if (!Array.isArray(list)) return;
+      list.forEach(word => {
+        if (typeof word === 'string') entries.push({ word, difficulty });
+      });
+    });
+  } else {
+    return { success: false, error: 'The pack has no "words" list' };
+  }
+
+  return buildPack('imported', {
+    name: typeof json.name === 'string' ? json.name : fallbackName,
+    language: typeof json.language === 'string' ? json.language : undefined,
+    tags: Array.isArray(json.tags) ? json.tags.filter((tag): tag is string => typeof tag === 'string') : undefined,
+  }, entries);
+}
+
+/**
+ * Parse a CSV pack file: one word per line, optionally followed by its difficulty
+ * A header row (word,difficulty) is skipped
+ */
+export function parseWordPackCsv(text: string, meta: WordPackMeta): WordPackParseResult {
+  const entries = text
+    .split(/\r?\n/)
+    .map(line => line.split(/[,;\t]/).map(cell => cell.trim().replace(/^"|"$/g, '')))
+    .filter(([word]) => word && word.toLowerCase() !== 'word')
+    .map(([word, difficulty]) => ({ word, difficulty }));
+
+  return buildPack('imported', meta, entries);
+}
+
+/**
+ * Parse a pasted list separated by newlines, commas or spaces
+ */
+export function parsePastedWordList(text: string, meta: WordPackMeta): WordPackParseResult {
+  const entries = text
+    .split(/[\s,;]+/)
+    .filter(Boolean)
+    .map(word => ({ word }));
+
+  return buildPack('pasted', meta, entries);
+}
+
+function loadCustomWordPacks(): WordPack[] {
+  return readDocument<{ packs: WordPack[] }>(STORAGE_KEYS.WORD_PACKS, 'wordPacks')?.packs ?? [];
+}
+
+function saveCustomWordPacks(packs: WordPack[]): void {
+  writeDocument(STORAGE_KEYS.WORD_PACKS, 'wordPacks', { packs });
+}
+
+/**
+ * Built-in packs of every locale followed by every saved custom pack
+ */
+export function getAllWordPacks(): WordPack[] {
+  return [...getAllLocales().map(locale => getBuiltinWordPack(locale.id)), ...loadCustomWordPacks()];
+}
+
+/**
+ * The built-in pack with this id, null for custom packs
+ */
+export function findBuiltinWordPack(packId: string): WordPack | null {
+  const locale = getAllLocales().find(locale => getBuiltinWordPackId(locale.id) === packId);
+  return locale ? getBuiltinWordPack(locale.id) : null;
+}
+
+/**
+ * Find a pack by id, falling back to the built-in pack of the selected locale
+ */
+export function getWordPack(packId?: string): WordPack {
+  const builtin = packId ? findBuiltinWordPack(packId) : null;
+  if (builtin) return builtin;
+  return loadCustomWordPacks().find(pack => pack.id === packId) || getBuiltinWordPack(getSelectedLocale().id);
+}
+
+/**
+ * Store a custom pack (replaces a pack with the same id)
+ */
+export function saveWordPack(pack: WordPack): void {
+  if (pack.source === 'builtin') return;
+  const packs = loadCustomWordPacks().filter(p => p.id !== pack.id);
+  packs.push(pack);
+  saveCustomWordPacks(packs);
+}
+
+/**
+ * Remove a custom pack; the locale's built-in pack becomes active if it was selected
+ */
+export function deleteWordPack(packId: string): void {
+  saveCustomWordPacks(loadCustomWordPacks().filter(pack => pack.id !== packId));
+  if (loadSettings().wordPackId === packId) {
+    setActiveWordPack(getBuiltinWordPackId(getSelectedLocale().id));
+  }
+}
+
+/**
+ * The pack chosen in settings
+ */
+export function getActiveWordPack(): WordPack {
+  return getWordPack(loadSettings().wordPackId);
+}
+
+export function setActiveWordPack(packId: string): void {
+  saveSettings({ ...loadSettings(), wordPackId: packId });
+}
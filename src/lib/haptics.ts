@@ -0,0 +1,44 @@
+/**
+ * Haptic Feedback
+ * Vibration patterns for game events, honoring the vibration setting.
+ * A no-op where navigator.vibrate isn't available (desktop browsers, iOS Safari)
+ */
+
+import { loadSettings } from '@/lib/storage/gameStorage';
+
+export type HapticEvent =
+  | 'wordFound'
+  | 'miss'
+  | 'decoy'
+  | 'comboMilestone'
+  | 'lowTime'
+  | 'victory'
+  | 'gameOver';
+
+// Milliseconds: vibrate, pause, vibrate, ...
+// Kept short and distinct so they can be told apart without looking
+export const HAPTIC_PATTERNS: Record<HapticEvent, number[]> = {
+  wordFound: [25],                      // Single crisp tap
+  miss: [10],                           // Barely-there tick
+  decoy: [70, 40, 70],                  // Double buzz - you got tricked
+  comboMilestone: [20, 30, 20, 30, 40], // Rising triple
+  lowTime: [120, 80, 120],              // Long double - hurry up
+  victory: [40, 60, 40, 60, 120],
+  gameOver: [250, 100, 250],
+};
+
+function canVibrate(): boolean {
+  return typeof navigator !== 'undefined' && typeof navigator.vibrate === 'function';
+}
+
+/**
+ * Play the vibration pattern for an event
+ */
+export function triggerHaptic(event: HapticEvent): void {
+  if (!canVibrate() || !loadSettings().vibrationEnabled) return;
+  try {
+    navigator.vibrate(HAPTIC_PATTERNS[event]);
+  } catch {
+    // Some browsers throw before the first user gesture - haptics are optional
+  }
+}
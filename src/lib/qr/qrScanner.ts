@@ -0,0 +1,130 @@
+/**
+ * QR Code Scanning
+ * Reads QR codes from camera frames and images with the browser's BarcodeDetector
+ * (Chrome and Edge on Android, ChromeOS and macOS, Samsung Internet). Everywhere else
+ * (iOS Safari, Firefox, desktop Chrome on Windows and Linux) the jsQR decoder reads the
+ * pixels from a canvas instead; it is loaded only when it is needed
+ */
+
+interface DetectedBarcode {
+  rawValue: string;
+}
+
+interface BarcodeDetectorInstance {
+  detect(source: ImageBitmapSource): Promise<DetectedBarcode[]>;
+}
+
+interface BarcodeDetectorConstructor {
+  new (options: { formats: string[] }): BarcodeDetectorInstance;
+  getSupportedFormats(): Promise<string[]>;
+}
+
+export type QrSource = HTMLVideoElement | HTMLCanvasElement | ImageBitmap;
+
+// Longest side the fallback decoder works on - bigger images are scaled down to keep it quick
+const FALLBACK_MAX_SIDE = 1600;
+// A saved transfer image holds up to 99 codes
+const MAX_CODES_PER_IMAGE = 100;
+
+let detector: BarcodeDetectorInstance | null = null;
+let nativeSupport: Promise<boolean> | null = null;
+
+function getBarcodeDetector(): BarcodeDetectorConstructor | null {
+  const global = globalThis as { BarcodeDetector?: BarcodeDetectorConstructor };
+  return global.BarcodeDetector ?? null;
+}
+
+function hasNativeQrSupport(): Promise<boolean> {
+  if (!nativeSupport) {
+    const BarcodeDetector = getBarcodeDetector();
+    nativeSupport = BarcodeDetector
+      ? BarcodeDetector.getSupportedFormats().then(formats => formats.includes('qr_code'), () => false)
+      : Promise.resolve(false);
+  }
+  return nativeSupport;
+}
+
+/**
+ * Whether this browser can read QR codes from the camera or images
+ */
+export async function isQrScanningSupported(): Promise<boolean> {
+  if (await hasNativeQrSupport()) return true;
+  return typeof document !== 'undefined' && !!document.createElement('canvas').getContext('2d');
+}
+
+function getSourceSize(source: QrSource): { width: number; height: number } {
+  return source instanceof HTMLVideoElement
+    ? { width: source.videoWidth, height: source.videoHeight }
+    : { width: source.width, height: source.height };
+}
+
+/**
+ * Decode with jsQR, which finds one code per pass: every code found is painted over
+ * so the next pass finds another, until none is left or maxCodes are read
+ */
+async function detectWithJsQr(source: QrSource, maxCodes: number): Promise<string[]> {
+  const { default: jsQR } = await import('jsqr');
+  const { width, height } = getSourceSize(source);
+  if (width === 0 || height === 0) return [];
+
+  const scale = Math.min(1, FALLBACK_MAX_SIDE / Math.max(width, height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(width * scale));
+  canvas.height = Math.max(1, Math.round(height * scale));
+  const context = canvas.getContext('2d', { willReadFrequently: true });
+  if (!context) return [];
+  context.drawImage(source, 0, 0, canvas.width, canvas.height);
+
+  const codes: string[] = [];
+  while (codes.length < maxCodes) {
+    const { data } = context.getImageData(0, 0, canvas.width, canvas.height);
+    const code = jsQR(data, canvas.width, canvas.height, { inversionAttempts: 'dontInvert' });
+    // The same code twice means painting over it didn't take - stop rather than loop
+    if (!code || codes.includes(code.data)) break;
+    codes.push(code.data);
+    if (codes.length === maxCodes) break;
+
+    const { topLeftCorner, topRightCorner, bottomRightCorner, bottomLeftCorner } = code.location;
+    const moduleSize = Math.hypot(topRightCorner.x - topLeftCorner.x, topRightCorner.y - topLeftCorner.y) / (17 + 4 * code.version);
+    context.fillStyle = '#fff';
+    context.strokeStyle = '#fff';
+    context.lineWidth = moduleSize * 2;
+    context.beginPath();
+    context.moveTo(topLeftCorner.x, topLeftCorner.y);
+    context.lineTo(topRightCorner.x, topRightCorner.y);
+    context.lineTo(bottomRightCorner.x, bottomRightCorner.y);
+    context.lineTo(bottomLeftCorner.x, bottomLeftCorner.y);
+    context.closePath();
+    context.fill();
+    context.stroke();
+  }
+  return codes;
+}
+
+/**
+ * Text of every QR code found in a video frame, canvas or image (empty when none)
+ * Without BarcodeDetector a camera frame yields at most one code
+ */
+export async function detectQrCodes(source: QrSource): Promise<string[]> {
+  if (!await hasNativeQrSupport()) {
+    return detectWithJsQr(source, source instanceof HTMLVideoElement ? 1 : MAX_CODES_PER_IMAGE);
+  }
+  if (!detector) {
+    const BarcodeDetector = getBarcodeDetector() as BarcodeDetectorConstructor;
+    detector = new BarcodeDetector({ formats: ['qr_code'] });
+  }
+  const codes = await detector.detect(source);
+  return codes.map(code => code.rawValue);
+}
+
+/**
+ * QR codes in an image file (a screenshot or a saved transfer image)
+ */
+export async function detectQrCodesInFile(file: File): Promise<string[]> {
+  const bitmap = await createImageBitmap(file);
+  try {
+    return await detectQrCodes(bitmap);
+  } finally {
+    bitmap.close();
+  }
+}
@@ -0,0 +1,246 @@
+import { STORAGE_KEYS, getCurrentProfileId } from '@/lib/storage/gameStorage';
+import { readDocument, writeDocument } from '@/lib/storage/schema';
+import { spendCurrency, getCurrencyBalance } from '@/lib/currency';
+import { COLOR_PALETTES, ColorPalette, PaletteDifficulty, getPalette } from '@/lib/colorPalettes';
+import { getLevelRangeForPalette, getPaletteForLevel, isPaletteUnlocked } from '@/lib/game/levelProgression';
+import { hasMandatoryPalette } from '@/lib/constants';
+
+const STORAGE_KEY = STORAGE_KEYS.INVENTORY;
+
+export type ConsumableId = 'hint' | 'extra-time' | 'hangman-life';
+
+// Round power-up tuning (shared with score verification)
+export const HINT_DURATION_MS = 3000;
+export const EXTRA_TIME_SECONDS = 10;
+export const MAX_EXTRA_TIME_PER_ROUND = 3;
+
+export interface ShopItem {
+  id: string;
+  name: string;
+  description: string;
+  price: number;
+  consumable?: ConsumableId; // One-shot items kept in the inventory until used
+  paletteId?: string;        // Permanent palette unlock
+}
+
+export interface Inventory {
+  consumables: Record<ConsumableId, number>;
+  palettes: string[]; // Palettes unlocked by purchase, outside the level progression
+  selectedPalette?: string; // Palette chosen in the menu for regular rounds, the level's palette when unset
+}
+
+export type PurchaseResult =
+  | { success: true; item: ShopItem; balance: number }
+  | { success: false; reason: 'no-profile' | 'unknown-item' | 'already-owned' | 'insufficient-funds' };
+
+export const CONSUMABLE_ITEMS: ShopItem[] = [
+  {
+    id: 'hint',
+    name: 'Hint Reveal',
+    description: 'Marks a real word on screen for a few seconds',
+    price: 25,
+    consumable: 'hint',
+  },
+  {
+    id: 'extra-time',
+    name: `+${EXTRA_TIME_SECONDS} Seconds`,
+    description: `Adds ${EXTRA_TIME_SECONDS}s to the countdown of a timed round`,
+    price: 40,
+    consumable: 'extra-time',
+  },
+  {
+    id: 'hangman-life',
+    name: 'Hangman Extra Life',
+    description: 'Absorbs the wrong guess that would end a Hangman challenge',
+    price: 60,
+    consumable: 'hangman-life',
+  },
+];
+
+const PALETTE_PRICES: Record<PaletteDifficulty, number> = {
+  easy: 150,
+  average: 300,
+  hard: 500,
+};
+
+function getPaletteItemId(paletteId: string): string {
+  return `palette:${paletteId}`;
+}
+
+function createPaletteItem(palette: ColorPalette): ShopItem {
+  const range = getLevelRangeForPalette(palette.id);
+  return {
+    id: getPaletteItemId(palette.id),
+    name: palette.name,
+    description: range
+      ? `Unlock now instead of at level ${range.start}`
+      : palette.description,
+    price: PALETTE_PRICES[palette.difficulty],
+    paletteId: palette.id,
+  };
+}
+
+/**
+ * Palette unlocks on sale (every palette except the starting one)
+ */
+export function getPaletteShopItems(): ShopItem[] {
+  return COLOR_PALETTES
+    .filter(palette => getLevelRangeForPalette(palette.id)?.start !== 1)
+    .map(createPaletteItem);
+}
+
+/**
+ * Find a shop item by id
+ */
+export function getShopItem(itemId: string): ShopItem | undefined {
+  return CONSUMABLE_ITEMS.find(item => item.id === itemId)
+    || getPaletteShopItems().find(item => item.id === itemId);
+}
+
+function getInventoryKey(profileId: string): string {
+  return `${STORAGE_KEY}-${profileId}`;
+}
+
+function createEmptyInventory(): Inventory {
+  return {
+    consumables: { 'hint': 0, 'extra-time': 0, 'hangman-life': 0 },
+    palettes: [],
+  };
+}
+
+function loadInventory(profileId: string): Inventory {
+  const stored = readDocument<Partial<Inventory>>(getInventoryKey(profileId), 'inventory');
+  if (!stored) return createEmptyInventory();
+  const empty = createEmptyInventory();
+  return {
+    consumables: { ...empty.consumables, ...stored.consumables },
+    palettes: Array.isArray(stored.palettes) ? stored.palettes : [],
+    selectedPalette: typeof stored.selectedPalette === 'string' ? stored.selectedPalette : undefined,
+  };
+}
+
+function saveInventory(profileId: string, inventory: Inventory): void {
+  writeDocument(getInventoryKey(profileId), 'inventory', inventory);
+}
+
+/**
+ * Get the current profile's inventory
+ */
+export function getInventory(): Inventory {
+  const profileId = getCurrentProfileId();
+  if (!profileId) return createEmptyInventory();
+  return loadInventory(profileId);
+}
+
+/**
+ * Get how many of a consumable the current profile owns
+ */
+export function getConsumableCount(id: ConsumableId): number {
+  return getInventory().consumables[id] || 0;
+}
+
+/**
+ * Check if a palette was unlocked through the shop
+ */
+export function isPalettePurchased(paletteId: string): boolean {
+  return getInventory().palettes.includes(paletteId);
+}
+
+/**
+ * Check if the player may use a palette at a level: reached through the level progression or bought
+ */
+export function isPaletteAvailable(paletteId: string, level: number): boolean {
+  return isPaletteUnlocked(paletteId, level) || isPalettePurchased(paletteId);
+}
+
+/**
+ * Remember the palette chosen in the menu for the current profile's rounds
+ * Choosing the level's own palette goes back to following the level progression
+ */
+export function selectPalette(paletteId: string, level: number): void {
+  const profileId = getCurrentProfileId();
+  if (!profileId || !isPaletteAvailable(paletteId, level)) return;
+
+  const inventory = loadInventory(profileId);
+  const selectedPalette = paletteId === getPaletteForLevel(level).id ? undefined : paletteId;
+  if (inventory.selectedPalette === selectedPalette) return;
+  saveInventory(profileId, { ...inventory, selectedPalette });
+}
+
+/**
+ * Palette of a regular round: the one chosen in the menu while it's available, else the level's
+ * (boss levels always play in their own palette)
+ */
+export function getPaletteForRound(level: number): ColorPalette {
+  const { selectedPalette } = getInventory();
+  return selectedPalette && !hasMandatoryPalette(level) && isPaletteAvailable(selectedPalette, level)
+    ? getPalette(selectedPalette)
+    : getPaletteForLevel(level);
+}
+
+/**
+ * Buy an item: charges the currency (recorded in the transaction log) and adds it to the inventory
+ */
+export function purchaseShopItem(itemId: string): PurchaseResult {
+  const profileId = getCurrentProfileId();
+  if (!profileId) {
+    return { success: false, reason: 'no-profile' };
+  }
+
+  const item = getShopItem(itemId);
+  if (!item) {
+    return { success: false, reason: 'unknown-item' };
+  }
+
+  const inventory = loadInventory(profileId);
+  if (item.paletteId && inventory.palettes.includes(item.paletteId)) {
+    return { success: false, reason: 'already-owned' };
+  }
+
+  if (!spendCurrency(item.price, `Bought ${item.name}`, item.id)) {
+    return { success: false, reason: 'insufficient-funds' };
+  }
+
+  if (item.consumable) {
+    inventory.consumables[item.consumable] = (inventory.consumables[item.consumable] || 0) + 1;
+  }
+  if (item.paletteId) {
+    inventory.palettes.push(item.paletteId);
+  }
+  saveInventory(profileId, inventory);
+
+  return { success: true, item, balance: getCurrencyBalance() };
+}
+
+/**
+ * Use up one consumable
+ * @returns false if none is left
+ */
+export function consumeShopItem(id: ConsumableId): boolean {
+  const profileId = getCurrentProfileId();
+  if (!profileId) return false;
+
+  const inventory = loadInventory(profileId);
+  if ((inventory.consumables[id] || 0) <= 0) return false;
+
+  inventory.consumables[id]--;
+  saveInventory(profileId, inventory);
+  return true;
+}
+
+/**
+ * Restore an inventory into the current profile (profile backups)
+ * 'merge' keeps every palette owned on either side but this device's consumable counts: they go
+ * down as items are used, so taking the backup's count would hand used items back
+ */
+export function restoreInventory(inventory: Inventory, mode: 'merge' | 'replace'): void {
+  const profileId = getCurrentProfileId();
+  if (!profileId) return;
+
+  const current = mode === 'merge' ? loadInventory(profileId) : createEmptyInventory();
+  saveInventory(profileId, {
+    consumables: mode === 'merge' ? current.consumables : { ...current.consumables, ...inventory.consumables },
+    palettes: [...new Set([...current.palettes, ...inventory.palettes])],
+    selectedPalette: mode === 'merge' ? current.selectedPalette ?? inventory.selectedPalette : inventory.selectedPalette,
+  });
+}
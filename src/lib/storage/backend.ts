@@ -0,0 +1,311 @@
+/**
+ * Storage Backends
+ * All game data goes through one synchronous key-value interface, with three implementations:
+ * - localStorage: the original store, ~5MB and unavailable in some private windows
+ * - indexedDB: much larger quota; reads come from an in-memory copy loaded at startup,
+ *   writes update the copy at once and are persisted in the background (right away when the
+ *   page is hidden or closed)
+ * - memory: nothing persisted (private windows where both fail, Node scripts and unit tests)
+ *
+ * The backend is chosen once at startup by initializeStorage; until then (and outside a
+ * browser) getStorage falls back to localStorage or memory
+ *
+ * Other tabs of the game share the data: localStorage reports their writes through storage
+ * events, the IndexedDB backend relays its writes over a BroadcastChannel so every tab's
+ * in-memory copy stays current. Either way onExternalStorageChange hears about them
+ */
+
+export type StorageBackendKind = 'localStorage' | 'indexedDB' | 'memory';
+
+export type StorageChangeListener = (keys: string[]) => void;
+
+export interface StorageBackend {
+  readonly kind: StorageBackendKind;
+  getItem(key: string): string | null;
+  setItem(key: string, value: string): void; // may throw when the store is full (localStorage)
+  removeItem(key: string): void;
+  keys(): string[];
+}
+
+// Keys that belong to the game (copied over when switching to IndexedDB)
+const GAME_KEY_PREFIXES = ['word-glitch-', 'daily-challenges-'];
+// Left in localStorage after the copy: when the game's data moved (the originals stay behind)
+const MOVED_TO_IDB_KEY = 'word-glitch-moved-to-indexeddb';
+
+const IDB_NAME = 'word-glitch';
+const IDB_STORE = 'documents';
+const CHANNEL_NAME = 'word-glitch-storage';
+
+let activeBackend: StorageBackend | null = null;
+let defaultBackend: StorageBackend | null = null;
+const changeListeners = new Set<StorageChangeListener>();
+let markStorageReady: (backend: StorageBackend) => void = () => {};
+const storageReady = new Promise<StorageBackend>(resolve => { markStorageReady = resolve; });
+
+// A write relayed between tabs; stamps order concurrent writes the same way in every tab
+interface RelayedWrite {
+  key: string;
+  value: string | null;   // null removes the key
+  time: number;
+  tabId: string;
+}
+
+export function createMemoryStorage(initial: Record<string, string> = {}): StorageBackend {
+  const data = new Map(Object.entries(initial));
+  return {
+    kind: 'memory',
+    getItem: key => data.get(key) ?? null,
+    setItem: (key, value) => { data.set(key, String(value)); },
+    removeItem: key => { data.delete(key); },
+    keys: () => [...data.keys()],
+  };
+}
+
+export function createLocalStorage(): StorageBackend {
+  return {
+    kind: 'localStorage',
+    getItem: key => localStorage.getItem(key),
+    setItem: (key, value) => localStorage.setItem(key, value),
+    removeItem: key => localStorage.removeItem(key),
+    keys: () => Array.from({ length: localStorage.length }, (_, i) => localStorage.key(i))
+      .filter((key): key is string => key !== null),
+  };
+}
+
+/**
+ * localStorage exists and accepts writes (it throws on access in some private windows)
+ */
+function isLocalStorageUsable(): boolean {
+  try {
+    const probe = '__word-glitch-probe__';
+    localStorage.setItem(probe, probe);
+    localStorage.removeItem(probe);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  const request = indexedDB.open(IDB_NAME, 1);
+  request.onupgradeneeded = () => request.result.createObjectStore(IDB_STORE);
+  return requestToPromise(request);
+}
+
+/**
+ * Open the IndexedDB store and load everything into memory
+ * On first use the game's localStorage keys are moved over
+ */
+export async function openIndexedDBStorage(): Promise<StorageBackend> {
+  const db = await openDatabase();
+  const readStore = db.transaction(IDB_STORE, 'readonly').objectStore(IDB_STORE);
+  const [keys, values] = await Promise.all([
+    requestToPromise(readStore.getAllKeys()),
+    requestToPromise(readStore.getAll()),
+  ]);
+  const cache = new Map<string, string>(keys.map((key, i) => [String(key), values[i] as string]));
+
+  // Writes are batched per tick into one transaction; null removes the key
+  let pending = new Map<string, string | null>();
+  const persist = () => {
+    if (pending.size === 0) return;
+    const batch = pending;
+    pending = new Map();
+    const transaction = db.transaction(IDB_STORE, 'readwrite');
+    const store = transaction.objectStore(IDB_STORE);
+    batch.forEach((value, key) => (value === null ? store.delete(key) : store.put(value, key)));
+    transaction.onerror = () => console.error('Failed to persist game data:', transaction.error);
+  };
+  const schedule = (key: string, value: string | null) => {
+    if (pending.size === 0) setTimeout(persist, 0);
+    pending.set(key, value);
+  };
+  // A closing tab may never run the queued timer; transactions started now still commit
+  if (typeof window !== 'undefined') {
+    window.addEventListener('pagehide', persist);
+    document.addEventListener('visibilitychange', () => {
+      if (document.visibilityState === 'hidden') persist();
+    });
+  }
+
+  // Last write per key as [time, tabId]; a relayed write only applies when it is newer
+  const tabId = Math.random().toString(36).substr(2, 9);
+  const stamps = new Map<string, [number, string]>();
+  const isNewer = (write: RelayedWrite) => {
+    const [time, writer] = stamps.get(write.key) ?? [0, ''];
+    return write.time > time || (write.time === time && write.tabId > writer);
+  };
+  const channel = typeof BroadcastChannel !== 'undefined' ? new BroadcastChannel(CHANNEL_NAME) : null;
+
+  const apply = (key: string, value: string | null) => {
+    if (value === null) {
+      cache.delete(key);
+    } else {
+      cache.set(key, value);
+    }
+    schedule(key, value);
+  };
+
+  const write = (key: string, value: string | null) => {
+    apply(key, value);
+    const time = Math.max(Date.now(), (stamps.get(key)?.[0] ?? 0) + 1);
+    stamps.set(key, [time, tabId]);
+    const relayed: RelayedWrite = { key, value, time, tabId };
+    channel?.postMessage(relayed);
+  };
+
+  if (channel) {
+    channel.onmessage = (event: MessageEvent<RelayedWrite>) => {
+      const relayed = event.data;
+      if (!isNewer(relayed)) return;
+      stamps.set(relayed.key, [relayed.time, relayed.tabId]);
+      // Persisted here too: whichever tab's transaction commits last, the database ends on the newest write
+      apply(relayed.key, relayed.value);
+      notifyExternalChange([relayed.key]);
+    };
+  }
+
+  const backend: StorageBackend = {
+    kind: 'indexedDB',
+    getItem: key => cache.get(key) ?? null,
+    setItem: (key, value) => write(key, String(value)),
+    removeItem: key => write(key, null),
+    keys: () => [...cache.keys()],
+  };
+
+  if (cache.size === 0 && isLocalStorageUsable()) {
+    await importFromLocalStorage(db, cache);
+  }
+  return backend;
+}
+
+/**
+ * Copy the game's localStorage keys into IndexedDB
+ * The originals are kept (with a marker saying when they were copied), so a build that goes back
+ * to localStorage, or a player who forces it, still finds the data as it was at the move
+ */
+async function importFromLocalStorage(db: IDBDatabase, cache: Map<string, string>): Promise<void> {
+  const local = createLocalStorage();
+  const keys = local.keys().filter(key =>
+    key !== MOVED_TO_IDB_KEY && GAME_KEY_PREFIXES.some(prefix => key.startsWith(prefix)));
+  if (keys.length === 0) return;
+
+  const transaction = db.transaction(IDB_STORE, 'readwrite');
+  const store = transaction.objectStore(IDB_STORE);
+  keys.forEach(key => {
+    const value = local.getItem(key)!;
+    store.put(value, key);
+    cache.set(key, value);
+  });
+  await new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+  // Only once the copy is committed
+  local.setItem(MOVED_TO_IDB_KEY, new Date().toISOString());
+  console.log(`📦 Copied ${keys.length} saved documents to IndexedDB`);
+}
+
+function notifyExternalChange(keys: string[]): void {
+  changeListeners.forEach(listener => {
+    try {
+      listener(keys);
+    } catch (err) {
+      console.error('Storage change listener failed:', err);
+    }
+  });
+}
+
+/**
+ * Forward localStorage writes made by other tabs (browsers only fire storage events there)
+ */
+function watchLocalStorage(): void {
+  window.addEventListener('storage', event => {
+    if (event.storageArea === localStorage && event.key !== null) {
+      notifyExternalChange([event.key]);
+    }
+  });
+}
+
+/**
+ * Listen for game data changed by another tab (already readable through getStorage
+ * when the listener runs)
+ * @returns A function that stops listening
+ */
+export function onExternalStorageChange(listener: StorageChangeListener): () => void {
+  changeListeners.add(listener);
+  return () => {
+    changeListeners.delete(listener);
+  };
+}
+
+/**
+ * The fallback backend before initializeStorage has run
+ */
+function getDefaultBackend(): StorageBackend {
+  return typeof window !== 'undefined' && isLocalStorageUsable() ? createLocalStorage() : createMemoryStorage();
+}
+
+/**
+ * Choose the storage backend (call once at startup, before anything reads game data)
+ * 'auto' prefers IndexedDB, then localStorage, then memory; an unavailable choice falls
+ * back along the same order
+ */
+export async function initializeStorage(preferred: StorageBackendKind | 'auto' = 'auto'): Promise<StorageBackend> {
+  if (activeBackend) return activeBackend;
+  activeBackend = await openStorage(preferred);
+  markStorageReady(activeBackend);
+  return activeBackend;
+}
+
+async function openStorage(preferred: StorageBackendKind | 'auto'): Promise<StorageBackend> {
+  if ((preferred === 'auto' || preferred === 'indexedDB') && typeof indexedDB !== 'undefined') {
+    try {
+      return await openIndexedDBStorage();
+    } catch (err) {
+      console.warn('IndexedDB unavailable, falling back:', err);
+    }
+  }
+  if (preferred !== 'memory' && typeof window !== 'undefined' && isLocalStorageUsable()) {
+    watchLocalStorage();
+    return createLocalStorage();
+  }
+  if (preferred !== 'memory') console.warn('⚠️ No persistent storage available - progress will not be saved');
+  return createMemoryStorage();
+}
+
+/**
+ * Resolves once initializeStorage has chosen the backend - for code outside the page
+ * (e.g. context providers) that reads game data before the page has opened storage
+ */
+export function whenStorageReady(): Promise<StorageBackend> {
+  return activeBackend ? Promise.resolve(activeBackend) : storageReady;
+}
+
+/**
+ * Use a specific backend, e.g. createMemoryStorage() in unit tests
+ */
+export function setStorageBackend(backend: StorageBackend): void {
+  activeBackend = backend;
+  markStorageReady(backend);
+}
+
+export function getStorage(): StorageBackend {
+  if (activeBackend) return activeBackend;
+  if (!defaultBackend) defaultBackend = getDefaultBackend();
+  return defaultBackend;
+}
+
+/**
+ * Parse the configured backend (NEXT_PUBLIC_STORAGE_BACKEND), 'auto' when unset or unknown
+ */
+export function parseStorageBackendKind(value: string | undefined): StorageBackendKind | 'auto' {
+  return value === 'localStorage' || value === 'indexedDB' || value === 'memory' ? value : 'auto';
+}
@@ -5,8 +5,14 @@ import {
   StoredLeaderboard,
   GameSettings,
   ProfileMetadata,
-  StoredProfiles
+  StoredProfiles,
+  StoredReplays,
+  StoredRoundHistory
 } from './types';
+import { ReplayLog } from '@/lib/game/replay';
+import { RoundPerformance } from '@/lib/game/difficultyDirector';
+import { getStorage } from './backend';
+import { DocumentKind, QUARANTINE_KEY, getQuarantinedDocuments, readDocument, writeDocument } from './schema';
 export const STORAGE_KEYS = {
   CURRENT_LEVEL: 'word-glitch-level',
   PROGRESS: 'word-glitch-progress',
@@ -16,6 +22,16 @@ export const STORAGE_KEYS = {
   LEADERBOARD: 'word-glitch-leaderboard',
   SETTINGS: 'word-glitch-settings',
   PROFILE: 'word-glitch-profile',
+  REPLAYS: 'word-glitch-replays',
+  ROUNDS: 'word-glitch-rounds',
+  WORD_PACKS: 'word-glitch-word-packs',
+  CUSTOM_LEVELS: 'word-glitch-custom-levels',
+  SYNC_QUEUE: 'word-glitch-sync-queue',
+  DAILY_GLITCH: 'word-glitch-daily-glitch',
+  DAILY_CHALLENGES: 'daily-challenges',
+  CURRENCY: 'word-glitch-currency',
+  INVENTORY: 'word-glitch-inventory',
+  QUARANTINE: QUARANTINE_KEY,
 };
 import { GameStats, Achievement, LeaderboardEntry } from '@/types/profile';
 import { GameSession } from '@/types/game';
@@ -33,32 +49,43 @@ function getAchievementsKey(profileId: string): string {
   return `${STORAGE_KEYS.ACHIEVEMENTS}-${profileId}`;
 }
 
+function getReplaysKey(profileId: string): string {
+  return `${STORAGE_KEYS.REPLAYS}-${profileId}`;
+}
+
+function getRoundsKey(profileId: string): string {
+  return `${STORAGE_KEYS.ROUNDS}-${profileId}`;
+}
+
+function getSettingsKey(profileId: string): string {
+  return `${STORAGE_KEYS.SETTINGS}-${profileId}`;
+}
+
 export function getCurrentProfileId(): string | null {
   try {
-    return localStorage.getItem(STORAGE_KEYS.CURRENT_PROFILE);
+    return getStorage().getItem(STORAGE_KEYS.CURRENT_PROFILE);
   } catch {
     return null;
   }
 }
 
 export function setCurrentProfileId(profileId: string): void {
-  localStorage.setItem(STORAGE_KEYS.CURRENT_PROFILE, profileId);
+  getStorage().setItem(STORAGE_KEYS.CURRENT_PROFILE, profileId);
+}
+
+/**
+ * Log out of the current profile (the profile itself is kept)
+ */
+export function clearCurrentProfileId(): void {
+  getStorage().removeItem(STORAGE_KEYS.CURRENT_PROFILE);
 }
 
 function loadProfilesList(): StoredProfiles {
-  try {
-    const data = localStorage.getItem(STORAGE_KEYS.PROFILES);
-    if (!data) {
-      return { profiles: [] };
-    }
-    return JSON.parse(data) as StoredProfiles;
-  } catch {
-    return { profiles: [] };
-  }
+  return readDocument<StoredProfiles>(STORAGE_KEYS.PROFILES, 'profiles') ?? { profiles: [] };
 }
 
 function saveProfilesList(profiles: StoredProfiles): void {
-  localStorage.setItem(STORAGE_KEYS.PROFILES, JSON.stringify(profiles));
+  writeDocument(STORAGE_KEYS.PROFILES, 'profiles', profiles);
 }
 
 export function getAllProfiles(): ProfileMetadata[] {
@@ -188,6 +215,41 @@ export function updateProfileMetadata(profileId: string, updates: Partial<Profil
   saveProfilesList(profiles);
 }
 
+/**
+ * Add or update a profile from a backup, keeping its id so later imports land on the same profile
+ * A new profile whose name is taken gets a numbered name; a wallet already linked to another
+ * profile is left off. 'merge' only fills in what the local profile is missing
+ */
+export function restoreProfileMetadata(metadata: ProfileMetadata, mode: 'merge' | 'replace'): void {
+  const profiles = loadProfilesList();
+  const others = profiles.profiles.filter(p => p.id !== metadata.id);
+  const nameTaken = (name: string) => others.some(p => p.name.toLowerCase() === name.toLowerCase());
+  const walletAddress = metadata.walletAddress
+    && !others.some(p => p.walletAddress?.toLowerCase() === metadata.walletAddress!.toLowerCase())
+    ? metadata.walletAddress
+    : undefined;
+
+  const existing = profiles.profiles.find(p => p.id === metadata.id);
+  if (existing) {
+    existing.lastPlayed = Math.max(existing.lastPlayed, metadata.lastPlayed);
+    if (mode === 'replace') {
+      if (!nameTaken(metadata.name)) existing.name = metadata.name;
+      existing.profilePicture = metadata.profilePicture;
+      if (walletAddress) existing.walletAddress = walletAddress;
+    } else {
+      existing.profilePicture = existing.profilePicture || metadata.profilePicture;
+      existing.walletAddress = existing.walletAddress || walletAddress;
+    }
+  } else {
+    let name = metadata.name;
+    for (let n = 2; nameTaken(name); n++) {
+      name = `${metadata.name} (${n})`;
+    }
+    profiles.profiles.push({ ...metadata, name, walletAddress });
+  }
+  saveProfilesList(profiles);
+}
+
 export function unlinkWalletFromProfile(profileId: string): void {
   const profiles = loadProfilesList();
   const profile = profiles.profiles.find(p => p.id === profileId);
@@ -266,13 +328,16 @@ export function deleteProfile(profileId: string): void {
   saveProfilesList(profiles);
 
   // Clean up profile data
-  localStorage.removeItem(getProfileKey(profileId));
-  localStorage.removeItem(getProgressKey(profileId));
-  localStorage.removeItem(getAchievementsKey(profileId));
+  getStorage().removeItem(getProfileKey(profileId));
+  getStorage().removeItem(getProgressKey(profileId));
+  getStorage().removeItem(getAchievementsKey(profileId));
+  getStorage().removeItem(getReplaysKey(profileId));
+  getStorage().removeItem(getSettingsKey(profileId));
+  getStorage().removeItem(getRoundsKey(profileId));
 
   // If this was the current profile, clear it
   if (getCurrentProfileId() === profileId) {
-    localStorage.removeItem(STORAGE_KEYS.CURRENT_PROFILE);
+    clearCurrentProfileId();
   }
 }
 
@@ -282,7 +347,7 @@ export function saveProfileForId(profileId: string, stats: GameStats): void {
     stats,
     lastPlayed: Date.now(),
   };
-  localStorage.setItem(getProfileKey(profileId), JSON.stringify(profile));
+  writeDocument(getProfileKey(profileId), 'profile', profile);
 }
 
 export function saveProfile(stats: GameStats): void {
@@ -301,49 +366,8 @@ export function saveProfile(stats: GameStats): void {
   }
 }
 
-/**
- * Migrate old GameStats to include new extended statistics fields
- */
-function migrateStats(stats: GameStats): GameStats {
-  // If stats already has all new fields, return as-is
-  if ('totalRoundsPlayed' in stats && stats.totalRoundsPlayed !== undefined) {
-    return stats;
-  }
-
-  // Migrate old stats to new format
-  return {
-    ...stats,
-    totalRoundsPlayed: stats.levelsCompleted,
-    highestRound: stats.currentLevel,
-    bestRoundScore: stats.bestScore,
-    fastestRoundTime: Infinity, // Unknown for old profiles - will be set on next round
-    averageRoundTime: stats.levelsCompleted > 0 ? stats.totalPlayTime / stats.levelsCompleted : 0,
-    averageScorePerRound: stats.levelsCompleted > 0 ? stats.totalScore / stats.levelsCompleted : 0,
-    totalAttempts: stats.totalWordsFound, // Estimate: assume 1 attempt per word found
-    totalCorrectFinds: stats.totalWordsFound,
-    longestCombo: 0, // Unknown for old profiles
-    perfectRounds: 0, // Unknown for old profiles
-    wordsPerMinute: stats.totalPlayTime > 0 ? (stats.totalWordsFound / stats.totalPlayTime) * 60 : 0,
-    bestAccuracy: stats.averageAccuracy, // Use average as best estimate
-  };
-}
-
 function loadProfileForId(profileId: string): GameStats | null {
-  try {
-    const data = localStorage.getItem(getProfileKey(profileId));
-    if (!data) return null;
-    const profile: StoredProfile = JSON.parse(data);
-    const stats = profile.stats;
-    // Migrate stats if needed
-    const migratedStats = migrateStats(stats);
-    // Save migrated stats back if migration occurred
-    if (migratedStats !== stats) {
-      saveProfileForId(profileId, migratedStats);
-    }
-    return migratedStats;
-  } catch {
-    return null;
-  }
+  return readDocument<StoredProfile>(getProfileKey(profileId), 'profile')?.stats ?? null;
 }
 
 export function loadProfile(): GameStats | null {
@@ -351,9 +375,8 @@ export function loadProfile(): GameStats | null {
   if (!profileId) {
     // Backward compatibility: try to load old profile format
     try {
-      const data = localStorage.getItem(STORAGE_KEYS.PROFILE);
-      if (data) {
-        const profile: StoredProfile = JSON.parse(data);
+      const profile = readDocument<StoredProfile>(STORAGE_KEYS.PROFILE, 'profile');
+      if (profile) {
         // Migrate old profile to new system
         const migratedId = createProfile('Player');
         saveProfileForId(migratedId, profile.stats);
@@ -379,7 +402,7 @@ function saveProgressForId(profileId: string, level: number, unlockedLevels: num
       [level]: Math.max(existing?.bestScores[level] || 0, bestScore),
     },
   };
-  localStorage.setItem(getProgressKey(profileId), JSON.stringify(progress));
+  writeDocument(getProgressKey(profileId), 'progress', progress);
 }
 
 export function saveProgress(level: number, unlockedLevels: number[], bestScore: number): void {
@@ -396,7 +419,7 @@ export function saveProgress(level: number, unlockedLevels: number[], bestScore:
           [level]: Math.max(existing?.bestScores?.[level] || 0, bestScore),
         },
       };
-      localStorage.setItem(STORAGE_KEYS.PROGRESS, JSON.stringify(progress));
+      writeDocument(STORAGE_KEYS.PROGRESS, 'progress', progress);
       console.log('Saved progress (no profile):', level);
       return;
     } catch (e) {
@@ -409,30 +432,26 @@ export function saveProgress(level: number, unlockedLevels: number[], bestScore:
 }
 
 function loadProgressForId(profileId: string): StoredProgress | null {
-  try {
-    const data = localStorage.getItem(getProgressKey(profileId));
-    if (!data) return null;
-    return JSON.parse(data) as StoredProgress;
-  } catch {
-    return null;
-  }
+  return readDocument<StoredProgress>(getProgressKey(profileId), 'progress');
 }
 
 export function loadProgress(): StoredProgress | null {
   const profileId = getCurrentProfileId();
   if (!profileId) {
     // Backward compatibility
-    try {
-      const data = localStorage.getItem(STORAGE_KEYS.PROGRESS);
-      if (data) return JSON.parse(data) as StoredProgress;
-    } catch {
-      // Ignore
-    }
-    return null;
+    return readDocument<StoredProgress>(STORAGE_KEYS.PROGRESS, 'progress');
   }
   return loadProgressForId(profileId);
 }
 
+/**
+ * Replace the stored progress of the current profile (used when merging synced progress)
+ */
+export function replaceProgress(progress: StoredProgress): void {
+  const profileId = getCurrentProfileId();
+  writeDocument(profileId ? getProgressKey(profileId) : STORAGE_KEYS.PROGRESS, 'progress', progress);
+}
+
 // Achievement Storage (now profile-specific)
 function saveAchievementForId(profileId: string, achievement: Achievement): void {
   const existing = loadAchievementsForId(profileId);
@@ -442,7 +461,7 @@ function saveAchievementForId(profileId: string, achievement: Achievement): void
       { ...achievement, unlockedAt: Date.now() },
     ],
   };
-  localStorage.setItem(getAchievementsKey(profileId), JSON.stringify(achievements));
+  writeDocument(getAchievementsKey(profileId), 'achievements', achievements);
 }
 
 export function saveAchievement(achievement: Achievement): void {
@@ -452,32 +471,28 @@ export function saveAchievement(achievement: Achievement): void {
 }
 
 function loadAchievementsForId(profileId: string): StoredAchievements {
-  try {
-    const data = localStorage.getItem(getAchievementsKey(profileId));
-    if (!data) {
-      return { unlocked: [] };
-    }
-    return JSON.parse(data) as StoredAchievements;
-  } catch {
-    return { unlocked: [] };
-  }
+  return readDocument<StoredAchievements>(getAchievementsKey(profileId), 'achievements') ?? { unlocked: [] };
 }
 
 export function loadAchievements(): StoredAchievements {
   const profileId = getCurrentProfileId();
   if (!profileId) {
     // Backward compatibility
-    try {
-      const data = localStorage.getItem(STORAGE_KEYS.ACHIEVEMENTS);
-      if (data) return JSON.parse(data) as StoredAchievements;
-    } catch {
-      // Ignore
-    }
-    return { unlocked: [] };
+    return readDocument<StoredAchievements>(STORAGE_KEYS.ACHIEVEMENTS, 'achievements') ?? { unlocked: [] };
   }
   return loadAchievementsForId(profileId);
 }
 
+/**
+ * Replace the unlocked achievements of the current profile (used when merging synced progress)
+ */
+export function replaceAchievements(unlocked: Achievement[]): void {
+  const profileId = getCurrentProfileId();
+  if (!profileId) return;
+  const achievements: StoredAchievements = { unlocked };
+  writeDocument(getAchievementsKey(profileId), 'achievements', achievements);
+}
+
 export function hasAchievement(achievementId: string): boolean {
   const achievements = loadAchievements();
   return achievements.unlocked.some(a => a.id === achievementId);
@@ -498,7 +513,13 @@ export function saveScore(entry: LeaderboardEntry): void {
 
   const leaderboard = loadLeaderboard();
   leaderboard.entries.push(entry);
-  // Sort by time (faster is better) and accuracy (higher is better)
+  saveLeaderboard(leaderboard);
+}
+
+/**
+ * Sort by time (faster is better) and accuracy (higher is better), keeping the top entries
+ */
+function saveLeaderboard(leaderboard: StoredLeaderboard): void {
   // Primary sort: time (ascending - lower time is better)
   // Secondary sort: accuracy (descending - higher accuracy is better)
   leaderboard.entries.sort((a, b) => {
@@ -516,7 +537,27 @@ export function saveScore(entry: LeaderboardEntry): void {
     return b.accuracy - a.accuracy;
   });
   leaderboard.entries = leaderboard.entries.slice(0, leaderboard.maxEntries);
-  localStorage.setItem(STORAGE_KEYS.LEADERBOARD, JSON.stringify(leaderboard));
+  writeDocument(STORAGE_KEYS.LEADERBOARD, 'leaderboard', leaderboard);
+}
+
+/**
+ * Local leaderboard entries of one profile
+ */
+export function getProfileLeaderboardEntries(profileId: string): LeaderboardEntry[] {
+  return loadLeaderboard().entries.filter(entry => entry.profileId === profileId);
+}
+
+/**
+ * Replace the local leaderboard entries of one profile (used when importing a backup)
+ */
+export function replaceProfileLeaderboardEntries(profileId: string, entries: LeaderboardEntry[]): void {
+  const leaderboard = loadLeaderboard();
+  const profile = getProfileMetadata(profileId);
+  leaderboard.entries = [
+    ...leaderboard.entries.filter(entry => entry.profileId !== profileId),
+    ...entries.map(entry => ({ ...entry, profileId, profileName: profile?.name ?? entry.profileName })),
+  ];
+  saveLeaderboard(leaderboard);
 }
 
 /**
@@ -666,46 +707,176 @@ export function getLeaderboardByLevel(level: number, limit = 10): LeaderboardEnt
 }
 
 function loadLeaderboard(): StoredLeaderboard {
+  return readDocument<StoredLeaderboard>(STORAGE_KEYS.LEADERBOARD, 'leaderboard') ?? { entries: [], maxEntries: 100 };
+}
+
+// Replay Storage (profile-specific)
+const MAX_RECENT_REPLAYS = 10;
+const MAX_BEST_REPLAYS = 10;
+
+function loadReplaysForId(profileId: string): StoredReplays {
+  return readDocument<StoredReplays>(getReplaysKey(profileId), 'replays') ?? { replays: [] };
+}
+
+/**
+ * Save a replay for the current profile
+ * Keeps the most recent replays plus the best-scoring ones so shared best runs survive
+ */
+export function saveReplay(replay: ReplayLog): void {
+  const profileId = getCurrentProfileId();
+  if (!profileId) return;
+
+  const stored = loadReplaysForId(profileId);
+  const all = [...stored.replays.filter(r => r.id !== replay.id), replay];
+
+  const recent = [...all]
+    .sort((a, b) => b.recordedAt - a.recordedAt)
+    .slice(0, MAX_RECENT_REPLAYS);
+  const best = [...all]
+    .sort((a, b) => (b.finalScore || 0) - (a.finalScore || 0))
+    .slice(0, MAX_BEST_REPLAYS);
+  const kept = new Map<string, ReplayLog>();
+  [...recent, ...best].forEach(r => kept.set(r.id, r));
+
+  const replays: StoredReplays = {
+    replays: [...kept.values()].sort((a, b) => b.recordedAt - a.recordedAt),
+  };
+
   try {
-    const data = localStorage.getItem(STORAGE_KEYS.LEADERBOARD);
-    if (!data) {
-      return { entries: [], maxEntries: 100 };
-    }
-    return JSON.parse(data) as StoredLeaderboard;
-  } catch {
-    return { entries: [], maxEntries: 100 };
+    writeDocument(getReplaysKey(profileId), 'replays', replays);
+  } catch (err) {
+    // Replays are optional - never break the round if storage is full
+    console.warn('Failed to save replay:', err);
   }
 }
 
-// Settings Storage
+export function loadReplays(): ReplayLog[] {
+  const profileId = getCurrentProfileId();
+  if (!profileId) return [];
+  return loadReplaysForId(profileId).replays;
+}
+
+/**
+ * Find a replay by id across all local profiles
+ */
+export function getReplay(replayId: string): ReplayLog | null {
+  const profiles = loadProfilesList();
+  for (const profile of profiles.profiles) {
+    const replay = loadReplaysForId(profile.id).replays.find(r => r.id === replayId);
+    if (replay) return replay;
+  }
+  return null;
+}
+
+// Round History (for the difficulty director)
+const MAX_ROUND_HISTORY = 20;
+
+export function loadRoundHistory(): RoundPerformance[] {
+  const profileId = getCurrentProfileId();
+  if (!profileId) return [];
+  return readDocument<StoredRoundHistory>(getRoundsKey(profileId), 'rounds')?.rounds ?? [];
+}
+
+/**
+ * Record a finished round for the current profile, keeping the most recent ones
+ */
+export function saveRoundPerformance(round: RoundPerformance): void {
+  const profileId = getCurrentProfileId();
+  if (!profileId) return;
+
+  const history: StoredRoundHistory = {
+    rounds: [round, ...loadRoundHistory()].slice(0, MAX_ROUND_HISTORY),
+  };
+  try {
+    writeDocument(getRoundsKey(profileId), 'rounds', history);
+  } catch (err) {
+    console.warn('Failed to save round history:', err);
+  }
+}
+
+// Settings Storage (now profile-specific)
+// The global key holds the device settings from before profiles had their own;
+// it is used without a profile and as the starting point for a profile's first save
+export const DEFAULT_SETTINGS: GameSettings = {
+  soundEnabled: true,
+  musicEnabled: false,
+  vibrationEnabled: true,
+  colorPalette: 'ocean', // Default palette
+};
+
 export function saveSettings(settings: GameSettings): void {
-  localStorage.setItem(STORAGE_KEYS.SETTINGS, JSON.stringify(settings));
+  const profileId = getCurrentProfileId();
+  const key = profileId ? getSettingsKey(profileId) : STORAGE_KEYS.SETTINGS;
+  writeDocument(key, 'settings', settings);
 }
 
 export function loadSettings(): GameSettings {
+  const profileId = getCurrentProfileId();
+  const settings = (profileId && readDocument<GameSettings>(getSettingsKey(profileId), 'settings'))
+    || readDocument<GameSettings>(STORAGE_KEYS.SETTINGS, 'settings');
+  if (!settings) {
+    return { ...DEFAULT_SETTINGS };
+  }
+  // Ensure colorPalette is set (for backward compatibility)
+  if (!settings.colorPalette) {
+    settings.colorPalette = 'ocean';
+  }
+  return settings;
+}
+
+/**
+ * Restore the current profile's settings to the defaults
+ */
+export function resetSettings(): GameSettings {
+  const settings = { ...DEFAULT_SETTINGS };
+  saveSettings(settings);
+  return settings;
+}
+
+// Schema Migrations
+// Stored documents by key: the global key itself or `${key}-${profileId}`, in migration order
+const VERSIONED_DOCUMENTS: Array<[string, DocumentKind]> = [
+  [STORAGE_KEYS.PROFILES, 'profiles'],
+  [STORAGE_KEYS.PROFILE, 'profile'],
+  [STORAGE_KEYS.PROGRESS, 'progress'],
+  [STORAGE_KEYS.ACHIEVEMENTS, 'achievements'],
+  [STORAGE_KEYS.SETTINGS, 'settings'],
+  [STORAGE_KEYS.REPLAYS, 'replays'],
+  [STORAGE_KEYS.ROUNDS, 'rounds'],
+  [STORAGE_KEYS.LEADERBOARD, 'leaderboard'],
+  [STORAGE_KEYS.CURRENCY, 'currency'],
+  [STORAGE_KEYS.INVENTORY, 'inventory'],
+  [STORAGE_KEYS.CUSTOM_LEVELS, 'customLevels'],
+  [STORAGE_KEYS.WORD_PACKS, 'wordPacks'],
+  [STORAGE_KEYS.DAILY_GLITCH, 'dailyGlitch'],
+  [STORAGE_KEYS.DAILY_CHALLENGES, 'dailyChallenges'],
+  [STORAGE_KEYS.SYNC_QUEUE, 'syncQueue'],
+];
+
+/**
+ * Bring every stored document up to the current schema version (run once at startup)
+ * Reads migrate documents on their own too; this makes sure documents of profiles that aren't
+ * opened are migrated while the migrations for their version still exist, and quarantines
+ * broken documents up front
+ */
+export function runStorageMigrations(): void {
+  let keys: string[];
   try {
-    const data = localStorage.getItem(STORAGE_KEYS.SETTINGS);
-    if (!data) {
-      return {
-        soundEnabled: true,
-        musicEnabled: false,
-        vibrationEnabled: true,
-        colorPalette: 'ocean', // Default palette
-      };
-    }
-    const settings = JSON.parse(data) as GameSettings;
-    // Ensure colorPalette is set (for backward compatibility)
-    if (!settings.colorPalette) {
-      settings.colorPalette = 'ocean';
-    }
-    return settings;
+    keys = getStorage().keys();
   } catch {
-    return {
-      soundEnabled: true,
-      musicEnabled: false,
-      vibrationEnabled: true,
-      colorPalette: 'ocean',
-    };
+    return;
+  }
+
+  const startedAt = Date.now();
+  VERSIONED_DOCUMENTS.forEach(([base, kind]) => {
+    keys
+      .filter(key => key === base || key.startsWith(`${base}-`))
+      .forEach(key => readDocument(key, kind));
+  });
+
+  const quarantined = getQuarantinedDocuments().filter(doc => doc.quarantinedAt >= startedAt).length;
+  if (quarantined > 0) {
+    console.warn(`⚠️ ${quarantined} stored document(s) could not be read and were quarantined`);
   }
 }
 
@@ -751,7 +922,25 @@ export function resetProfile(): void {
     unlockedLevels: [1],
     bestScores: {},
   };
-  localStorage.setItem(getProgressKey(profileId), JSON.stringify(initialProgress));
+  writeDocument(getProgressKey(profileId), 'progress', initialProgress);
+}
+
+/**
+ * Seconds a round counts towards the play time totals
+ * levelTime from the score when available, otherwise the session start/end times
+ */
+export function getSessionPlayTime(session: GameSession): number {
+  const playTime = session.score.levelTime !== undefined
+    ? Math.round(session.score.levelTime)
+    : (session.endTime && session.startTime
+      ? Math.round((session.endTime - session.startTime) / 1000)
+      : 0);
+
+  // Sanity check: If we found words, it couldn't have taken 0 seconds
+  if (playTime <= 0 && session.score.wordsFound > 0) {
+    return Math.max(1, session.score.wordsFound * 2); // Estimate ~2s per word if time is somehow 0
+  }
+  return playTime;
 }
 
 export function updateStats(session: GameSession): void {
@@ -764,13 +953,7 @@ export function updateStats(session: GameSession): void {
 
   const existing = loadProfile();
   if (!existing) {
-    // Use levelTime from score if available, otherwise calculate from session times
-    // Use consistent rounding (round to nearest second) for accuracy
-    const playTime = session.score.levelTime !== undefined
-      ? Math.round(session.score.levelTime)
-      : (session.endTime && session.startTime
-        ? Math.round((session.endTime - session.startTime) / 1000)
-        : 0);
+    const playTime = getSessionPlayTime(session);
 
     const isPerfectRound = session.score.accuracy >= 100;
     const wordsPerMin = playTime > 0 ? (session.score.wordsFound / playTime) * 60 : 0;
@@ -806,18 +989,7 @@ export function updateStats(session: GameSession): void {
     return;
   }
 
-  // Calculate play time with safeguards
-  // Use levelTime from score if available, otherwise calculate from session times
-  let playTime = session.score.levelTime !== undefined
-    ? Math.round(session.score.levelTime)
-    : (session.endTime && session.startTime
-      ? Math.round((session.endTime - session.startTime) / 1000)
-      : 0);
-
-  // Sanity check: If we found words, it couldn't have taken 0 seconds
-  if (playTime <= 0 && session.score.wordsFound > 0) {
-    playTime = Math.max(1, session.score.wordsFound * 2); // Estimate ~2s per word if time is somehow 0
-  }
+  const playTime = getSessionPlayTime(session);
 
   const newRoundsPlayed = (existing.totalRoundsPlayed || existing.levelsCompleted) + 1;
   const isPerfectRound = session.score.accuracy >= 100;
@@ -0,0 +1,259 @@
+/**
+ * Profile Backups
+ * One profile's stats, progress, achievements, local leaderboard entries, settings, currency
+ * ledger and inventory in a single versioned JSON file. Imports merge with the local copy using
+ * the same rules as cloud sync (src/lib/firebase/syncMerge.ts) or replace it.
+ *
+ * The file is signed with HMAC-SHA-256. The key ships with the game, so the signature catches
+ * truncated, corrupted or hand-edited files - it does not stop someone determined to forge one
+ */
+
+import { GameSettings, GameStats, LeaderboardEntry, ProfileMetadata, StoredProgress } from './types';
+import {
+  getCurrentProfileId,
+  getProfileLeaderboardEntries,
+  getProfileMetadata,
+  loadAchievements,
+  loadProfile,
+  loadProgress,
+  loadSettings,
+  replaceAchievements,
+  replaceProfileLeaderboardEntries,
+  replaceProgress,
+  restoreProfileMetadata,
+  saveProfileForId,
+  saveSettings,
+  setCurrentProfileId,
+} from './gameStorage';
+import {
+  AchievementRecord,
+  ProgressSnapshot,
+  createEmptyStats,
+  mergeSnapshots,
+  toKnownAchievements,
+} from '@/lib/firebase/syncMerge';
+import { CurrencyData, getCurrencyData, restoreCurrencyData, syncCurrencyWithTotalScore } from '@/lib/currency';
+import { Inventory, getInventory, restoreInventory } from '@/lib/shop';
+
+export const BACKUP_FORMAT = 'word-glitch-profile-backup';
+export const BACKUP_VERSION = 1;
+
+const SIGNING_KEY = 'word-glitch-backup-v1';
+
+export type ImportMode = 'merge' | 'replace';
+
+export interface ProfileBackup {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  exportedAt: number;
+  profile: ProfileMetadata;
+  stats: GameStats | null;
+  progress: StoredProgress | null;
+  achievements: AchievementRecord[];
+  leaderboard: LeaderboardEntry[];   // this profile's entries of the local leaderboard
+  settings: GameSettings;
+  currency: CurrencyData | null;
+  inventory: Inventory;
+  signature: string;
+}
+
+export interface BackupOptions {
+  compact?: boolean;  // leave out the profile picture and transaction log, no indentation (device transfer)
+}
+
+export type ParseBackupResult =
+  | { success: true; backup: ProfileBackup }
+  | { success: false; error: string };
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * JSON with sorted keys, so the same data always signs the same way
+ */
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(canonicalJson).join(',')}]`;
+  if (isObject(value)) {
+    const entries = Object.keys(value)
+      .filter(key => value[key] !== undefined)
+      .sort()
+      .map(key => `${JSON.stringify(key)}:${canonicalJson(value[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+async function sign(payload: object): Promise<string> {
+  if (typeof crypto === 'undefined' || !crypto.subtle) {
+    throw new Error('Backups need a secure (https) page to be signed');
+  }
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(SIGNING_KEY),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(canonicalJson(payload)));
+  return Array.from(new Uint8Array(signature), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * The ledger totals without the transaction log (merging still settles the balance)
+ */
+function compactLedger(ledger: CurrencyData | null): CurrencyData | null {
+  return ledger && { ...ledger, transactions: [] };
+}
+
+/**
+ * Bundle the current profile into a signed backup file (JSON text)
+ */
+export async function createProfileBackup({ compact = false }: BackupOptions = {}): Promise<string> {
+  const profileId = getCurrentProfileId();
+  const profile = profileId ? getProfileMetadata(profileId) : null;
+  if (!profileId || !profile) {
+    throw new Error('No active profile. Please create or login to a profile first.');
+  }
+
+  // Round-trip first so the signed data is exactly what gets written (Infinity becomes null)
+  const payload: Omit<ProfileBackup, 'signature'> = JSON.parse(JSON.stringify({
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    exportedAt: Date.now(),
+    profile: compact ? { ...profile, profilePicture: undefined } : profile,
+    stats: loadProfile(),
+    progress: loadProgress(),
+    achievements: loadAchievements().unlocked.map(a => ({ id: a.id, unlockedAt: a.unlockedAt })),
+    leaderboard: getProfileLeaderboardEntries(profileId),
+    settings: loadSettings(),
+    currency: compact ? compactLedger(getCurrencyData()) : getCurrencyData(),
+    inventory: getInventory(),
+  }));
+  return JSON.stringify({ ...payload, signature: await sign(payload) }, null, compact ? undefined : 2);
+}
+
+/**
+ * What is wrong with the parts of a backup, or null when they are all usable
+ */
+function validateBackup(data: Record<string, unknown>): string | null {
+  const { profile, stats, progress, achievements, leaderboard, settings, currency, inventory } = data;
+  if (!isObject(profile) || typeof profile.id !== 'string' || typeof profile.name !== 'string') {
+    return 'The backup has no valid profile';
+  }
+  if (stats !== null && !(isObject(stats) && typeof stats.totalScore === 'number')) {
+    return 'The backup stats are invalid';
+  }
+  if (progress !== null && !(isObject(progress) && typeof progress.currentLevel === 'number'
+    && Array.isArray(progress.unlockedLevels))) {
+    return 'The backup progress is invalid';
+  }
+  if (!Array.isArray(achievements) || !achievements.every(a => isObject(a) && typeof a.id === 'string')) {
+    return 'The backup achievements are invalid';
+  }
+  if (!Array.isArray(leaderboard) || !leaderboard.every(e => isObject(e) && typeof e.id === 'string'
+    && typeof e.score === 'number')) {
+    return 'The backup leaderboard entries are invalid';
+  }
+  if (!isObject(settings)) {
+    return 'The backup settings are invalid';
+  }
+  if (currency !== null && !(isObject(currency) && typeof currency.currency === 'number'
+    && Array.isArray(currency.transactions))) {
+    return 'The backup currency ledger is invalid';
+  }
+  if (!isObject(inventory) || !isObject(inventory.consumables) || !Array.isArray(inventory.palettes)) {
+    return 'The backup inventory is invalid';
+  }
+  return null;
+}
+
+/**
+ * Read a backup file and check its format, version, signature and contents
+ */
+export async function parseProfileBackup(text: string): Promise<ParseBackupResult> {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    return { success: false, error: 'The file is not valid JSON' };
+  }
+  if (!isObject(data) || data.format !== BACKUP_FORMAT || typeof data.version !== 'number') {
+    return { success: false, error: 'This is not a Word Glitch profile backup' };
+  }
+  if (data.version > BACKUP_VERSION) {
+    return { success: false, error: 'This backup was made by a newer version of the game' };
+  }
+
+  const { signature, ...payload } = data;
+  try {
+    if (typeof signature !== 'string' || signature !== await sign(payload)) {
+      return { success: false, error: 'The backup has been modified or damaged' };
+    }
+  } catch (err) {
+    return { success: false, error: err instanceof Error ? err.message : 'Could not check the backup signature' };
+  }
+
+  const error = validateBackup(data);
+  if (error) return { success: false, error };
+  return { success: true, backup: data as unknown as ProfileBackup };
+}
+
+/**
+ * Stats as written to the file - JSON turns the "no round timed yet" Infinity into null
+ */
+function readStats(stats: GameStats | null): GameStats {
+  if (!stats) return createEmptyStats();
+  return { ...createEmptyStats(), ...stats, fastestRoundTime: stats.fastestRoundTime ?? Infinity };
+}
+
+function toSnapshot(backup: ProfileBackup): ProgressSnapshot {
+  return {
+    progress: backup.progress ?? { currentLevel: 1, unlockedLevels: [1], bestScores: {} },
+    stats: readStats(backup.stats),
+    achievements: backup.achievements,
+  };
+}
+
+/**
+ * Bring a parsed backup into this device and make its profile the current one
+ * The backup lands on the local profile with the same id, or becomes a new profile.
+ * 'merge' combines both copies like cloud sync does (bests take the maximum, levels,
+ * achievements, leaderboard entries and purchases are unioned) and keeps this device's
+ * settings; 'replace' overwrites the local copy with the backup
+ * @returns The id of the restored profile
+ */
+export function importProfileBackup(backup: ProfileBackup, mode: ImportMode): string {
+  const profileId = backup.profile.id;
+  const isNewProfile = !getProfileMetadata(profileId);
+  restoreProfileMetadata(backup.profile, mode);
+  setCurrentProfileId(profileId);
+
+  const imported = toSnapshot(backup);
+  const local: ProgressSnapshot = {
+    progress: loadProgress() ?? { currentLevel: 1, unlockedLevels: [1], bestScores: {} },
+    stats: loadProfile() ?? createEmptyStats(),
+    achievements: loadAchievements().unlocked.map(a => ({ id: a.id, unlockedAt: a.unlockedAt })),
+  };
+  // Neither copy has rounds the other hasn't seen as pending, so totals take the larger side
+  const snapshot = mode === 'merge' && !isNewProfile ? mergeSnapshots(local, imported) : imported;
+  saveProfileForId(profileId, snapshot.stats);
+  replaceProgress(snapshot.progress);
+  replaceAchievements(toKnownAchievements(snapshot.achievements));
+
+  const entries = new Map(backup.leaderboard.map(entry => [entry.id, entry]));
+  if (mode === 'merge') {
+    getProfileLeaderboardEntries(profileId).forEach(entry => entries.set(entry.id, entry));
+  }
+  replaceProfileLeaderboardEntries(profileId, [...entries.values()]);
+
+  if (mode === 'replace' || isNewProfile) {
+    saveSettings(backup.settings);
+  }
+  restoreCurrencyData(backup.currency ?? { currency: 0, totalEarned: 0, transactions: [] }, mode);
+  // A new profile takes the backup's items as they are
+  restoreInventory(backup.inventory, isNewProfile ? 'replace' : mode);
+  syncCurrencyWithTotalScore(snapshot.stats.totalScore);
+
+  return profileId;
+}
@@ -0,0 +1,144 @@
+/**
+ * Profile Transfer
+ * Moves a profile between devices without a server or account. The sender turns a compact
+ * profile backup (see profileBackup.ts) into numbered text frames, one per QR code; the
+ * receiver collects them in any order, checks the backup and merges it.
+ *
+ * Frame format: WGT1:<transferId>:<index>/<total>:<chunk>
+ * The chunks joined together are 'z' + base64url(deflate-raw(backup)), or 'j' + base64url(backup)
+ * where the browser can't compress
+ */
+
+import { ParseBackupResult, createProfileBackup, parseProfileBackup } from './profileBackup';
+
+export const TRANSFER_PREFIX = 'WGT1';
+
+// Characters of payload per frame - keeps each QR code around version 13, easy to scan off a screen
+const FRAME_CHUNK_LENGTH = 300;
+const MAX_FRAMES = 99;
+
+export interface TransferFrame {
+  transferId: string;
+  index: number;   // 1-based
+  total: number;
+  chunk: string;
+}
+
+export type AddFrameResult = 'added' | 'duplicate' | 'invalid';
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(text: string) {
+  const binary = atob(text.replace(/-/g, '+').replace(/_/g, '/'));
+  return Uint8Array.from(binary, char => char.charCodeAt(0));
+}
+
+async function pipeBytes(bytes: BufferSource, transform: CompressionStream | DecompressionStream): Promise<Uint8Array> {
+  const stream = new Blob([bytes]).stream().pipeThrough(transform);
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+/**
+ * The current profile as QR frame texts, in order
+ */
+export async function createTransferFrames(): Promise<string[]> {
+  const json = new TextEncoder().encode(await createProfileBackup({ compact: true }));
+  const payload = typeof CompressionStream !== 'undefined'
+    ? 'z' + toBase64Url(await pipeBytes(json, new CompressionStream('deflate-raw')))
+    : 'j' + toBase64Url(json);
+
+  const total = Math.ceil(payload.length / FRAME_CHUNK_LENGTH);
+  if (total > MAX_FRAMES) {
+    throw new Error('This profile is too large to transfer by QR code - use a backup file instead');
+  }
+  const transferId = Math.random().toString(36).substr(2, 6);
+  return Array.from({ length: total }, (_, i) =>
+    `${TRANSFER_PREFIX}:${transferId}:${i + 1}/${total}:${payload.slice(i * FRAME_CHUNK_LENGTH, (i + 1) * FRAME_CHUNK_LENGTH)}`
+  );
+}
+
+/**
+ * Read one scanned frame, null when the text isn't a transfer frame
+ */
+export function parseTransferFrame(text: string): TransferFrame | null {
+  const match = /^WGT1:([a-z0-9]+):(\d+)\/(\d+):([A-Za-z0-9_-]+)$/.exec(text.trim());
+  if (!match) return null;
+  const index = Number(match[2]);
+  const total = Number(match[3]);
+  if (index < 1 || index > total || total > MAX_FRAMES) return null;
+  return { transferId: match[1], index, total, chunk: match[4] };
+}
+
+/**
+ * Collects the frames of one transfer as they are scanned
+ * A frame from a different transfer (the sender started over) restarts the collection
+ */
+export class TransferReceiver {
+  private transferId: string | null = null;
+  private chunks = new Map<number, string>();
+  private expected = 0;
+
+  get received(): number {
+    return this.chunks.size;
+  }
+
+  get total(): number {
+    return this.expected;
+  }
+
+  get isComplete(): boolean {
+    return this.expected > 0 && this.chunks.size === this.expected;
+  }
+
+  /**
+   * Frame numbers still missing
+   */
+  getMissing(): number[] {
+    return Array.from({ length: this.expected }, (_, i) => i + 1).filter(index => !this.chunks.has(index));
+  }
+
+  addFrame(text: string): AddFrameResult {
+    const frame = parseTransferFrame(text);
+    if (!frame) return 'invalid';
+    if (frame.transferId !== this.transferId || frame.total !== this.expected) {
+      this.transferId = frame.transferId;
+      this.expected = frame.total;
+      this.chunks = new Map();
+    }
+    if (this.chunks.has(frame.index)) return 'duplicate';
+    this.chunks.set(frame.index, frame.chunk);
+    return 'added';
+  }
+
+  /**
+   * Unpack the collected frames and check the backup inside
+   */
+  async assemble(): Promise<ParseBackupResult> {
+    if (!this.isComplete) {
+      return { success: false, error: `Still missing ${this.expected - this.chunks.size} of ${this.expected} codes` };
+    }
+    const payload = Array.from({ length: this.expected }, (_, i) => this.chunks.get(i + 1)).join('');
+    try {
+      const bytes = fromBase64Url(payload.slice(1));
+      if (payload[0] === 'j') {
+        return await parseProfileBackup(new TextDecoder().decode(bytes));
+      }
+      if (payload[0] !== 'z') {
+        return { success: false, error: 'Unknown transfer encoding' };
+      }
+      if (typeof DecompressionStream === 'undefined') {
+        return { success: false, error: 'This browser cannot unpack the transfer - use a backup file instead' };
+      }
+      const json = await pipeBytes(bytes, new DecompressionStream('deflate-raw'));
+      return await parseProfileBackup(new TextDecoder().decode(json));
+    } catch {
+      return { success: false, error: 'The transfer could not be unpacked - scan the codes again' };
+    }
+  }
+}
@@ -0,0 +1,279 @@
+/**
+ * Storage Schema
+ * Every stored game document carries a schemaVersion stamp. Older documents are brought
+ * up to date by ordered migrations when they are read (and all at once at startup, see
+ * runStorageMigrations). Documents that can't be parsed or fail validation are moved to
+ * quarantine instead of being replaced with defaults, so a bad read never wipes a player's
+ * progress; the player can restore or download them from Settings. Documents written by a newer
+ * version of the game (another tab or a cached build open across a deploy) stay where they are
+ * and are read-only for this version
+ */
+
+import { GameStats } from './types';
+import { getStorage } from './backend';
+
+export type DocumentKind =
+  | 'profiles'
+  | 'profile'
+  | 'progress'
+  | 'achievements'
+  | 'leaderboard'
+  | 'settings'
+  | 'replays'
+  | 'rounds'
+  | 'currency'
+  | 'inventory'
+  | 'customLevels'
+  | 'wordPacks'
+  | 'dailyGlitch'
+  | 'dailyChallenges'
+  | 'syncQueue';
+
+// 'newer-version' only appears in quarantines made before newer documents were left in place;
+// 'replaced' is a document set aside when a quarantined copy was restored over it
+export type QuarantineReason = 'unreadable' | 'invalid' | 'newer-version' | 'migration-failed' | 'replaced';
+
+export interface QuarantinedDocument {
+  key: string;
+  kind: DocumentKind;
+  reason: QuarantineReason;
+  raw: string;              // the stored text, untouched
+  quarantinedAt: number;
+}
+
+type StoredDocument = Record<string, unknown>;
+type Migration = (doc: StoredDocument) => StoredDocument;
+
+interface DocumentSchema {
+  migrations: Migration[];  // migrations[n] upgrades version n to n + 1 (unstamped documents are version 0)
+  validate: (doc: StoredDocument) => boolean;
+}
+
+export const QUARANTINE_KEY = 'word-glitch-quarantine';
+
+const isObject = (value: unknown): value is StoredDocument =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// First stamped version: the shape as it was before versioning
+const stamp: Migration = doc => doc;
+
+/**
+ * Fill in the extended statistics missing from old profiles and settle the duplicated round count
+ * (levelsCompleted and totalRoundsPlayed both count rounds played, older saves let them drift)
+ */
+const migrateStats: Migration = doc => {
+  const stats = doc.stats as GameStats;
+  const extended: GameStats = stats.totalRoundsPlayed !== undefined ? stats : {
+    ...stats,
+    totalRoundsPlayed: stats.levelsCompleted,
+    highestRound: stats.currentLevel,
+    bestRoundScore: stats.bestScore,
+    fastestRoundTime: Infinity, // Unknown for old profiles - will be set on next round
+    averageRoundTime: stats.levelsCompleted > 0 ? stats.totalPlayTime / stats.levelsCompleted : 0,
+    averageScorePerRound: stats.levelsCompleted > 0 ? stats.totalScore / stats.levelsCompleted : 0,
+    totalAttempts: stats.totalWordsFound, // Estimate: assume 1 attempt per word found
+    totalCorrectFinds: stats.totalWordsFound,
+    longestCombo: 0, // Unknown for old profiles
+    perfectRounds: 0, // Unknown for old profiles
+    wordsPerMinute: stats.totalPlayTime > 0 ? (stats.totalWordsFound / stats.totalPlayTime) * 60 : 0,
+    bestAccuracy: stats.averageAccuracy, // Use average as best estimate
+  };
+  const rounds = Math.max(extended.totalRoundsPlayed || 0, extended.levelsCompleted || 0);
+  return { ...doc, stats: { ...extended, totalRoundsPlayed: rounds, levelsCompleted: rounds } };
+};
+
+/**
+ * Lists that were stored as bare arrays before versioning reach their first migration as
+ * { items } (see readDocument) and are kept under their own field from then on
+ */
+const wrapItems = (field: string): Migration => ({ items, ...doc }) =>
+  Array.isArray(items) ? { ...doc, [field]: items } : doc;
+
+const migrateProgress: Migration = doc => ({
+  ...doc,
+  unlockedLevels: Array.isArray(doc.unlockedLevels) ? doc.unlockedLevels : [1],
+  bestScores: isObject(doc.bestScores) ? doc.bestScores : {},
+});
+
+const SCHEMAS: Record<DocumentKind, DocumentSchema> = {
+  profiles: { migrations: [stamp], validate: doc => Array.isArray(doc.profiles) },
+  profile: {
+    migrations: [migrateStats],
+    validate: doc => isObject(doc.stats) && typeof doc.stats.totalScore === 'number',
+  },
+  progress: {
+    migrations: [migrateProgress],
+    validate: doc => typeof doc.currentLevel === 'number' && Array.isArray(doc.unlockedLevels),
+  },
+  achievements: { migrations: [stamp], validate: doc => Array.isArray(doc.unlocked) },
+  leaderboard: { migrations: [stamp], validate: doc => Array.isArray(doc.entries) },
+  settings: { migrations: [stamp], validate: () => true },
+  replays: { migrations: [stamp], validate: doc => Array.isArray(doc.replays) },
+  rounds: { migrations: [stamp], validate: doc => Array.isArray(doc.rounds) },
+  currency: {
+    migrations: [stamp],
+    validate: doc => typeof doc.currency === 'number' && Array.isArray(doc.transactions),
+  },
+  inventory: { migrations: [stamp], validate: () => true },
+  customLevels: { migrations: [wrapItems('levels')], validate: doc => Array.isArray(doc.levels) },
+  wordPacks: { migrations: [wrapItems('packs')], validate: doc => Array.isArray(doc.packs) },
+  dailyGlitch: { migrations: [wrapItems('results')], validate: doc => Array.isArray(doc.results) },
+  dailyChallenges: { migrations: [wrapItems('challenges')], validate: doc => Array.isArray(doc.challenges) },
+  syncQueue: { migrations: [wrapItems('entries')], validate: doc => Array.isArray(doc.entries) },
+};
+
+/**
+ * Current schema version of a kind of document
+ */
+export function getSchemaVersion(kind: DocumentKind): number {
+  return SCHEMAS[kind].migrations.length;
+}
+
+/**
+ * Schema version of the stored text, read from the stamp writeDocument puts last
+ * (so big documents don't have to be parsed on every write)
+ */
+function getStoredVersion(raw: string): number {
+  const match = /"schemaVersion":(\d+)\}\s*$/.exec(raw);
+  return match ? Number(match[1]) : 0;
+}
+
+/**
+ * Write a document stamped with the current schema version
+ * Skipped when the stored document comes from a newer version of the game, which this one
+ * can't read and must not overwrite. Throws like getStorage().setItem when storage is full
+ */
+export function writeDocument(key: string, kind: DocumentKind, data: object): void {
+  const version = getSchemaVersion(kind);
+  const stored = getStorage().getItem(key);
+  if (stored !== null && getStoredVersion(stored) > version) {
+    console.warn(`⚠️ Not saving ${key}: it was written by a newer version of the game`);
+    return;
+  }
+  getStorage().setItem(key, JSON.stringify({ ...data, schemaVersion: version }));
+}
+
+/**
+ * Read a document, migrating it to the current version (and saving the result)
+ * Returns null when the key is empty, the document had to be quarantined or it comes from
+ * a newer version of the game (left in place for that version)
+ */
+export function readDocument<T extends object>(key: string, kind: DocumentKind): T | null {
+  let raw: string | null;
+  try {
+    raw = getStorage().getItem(key);
+  } catch {
+    return null;
+  }
+  if (raw === null) return null;
+
+  let doc: unknown;
+  try {
+    doc = JSON.parse(raw);
+  } catch {
+    quarantineDocument(key, kind, raw, 'unreadable');
+    return null;
+  }
+  // Lists saved before they were versioned (custom levels, packs, the sync queue...)
+  if (Array.isArray(doc)) doc = { items: doc };
+  if (!isObject(doc)) {
+    quarantineDocument(key, kind, raw, 'invalid');
+    return null;
+  }
+
+  const schema = SCHEMAS[kind];
+  const version = typeof doc.schemaVersion === 'number' ? doc.schemaVersion : 0;
+  if (version > schema.migrations.length) {
+    console.warn(`⚠️ ${key} was saved by a newer version of the game - reload to update`);
+    return null;
+  }
+
+  let migrated = doc;
+  try {
+    for (let v = version; v < schema.migrations.length; v++) {
+      migrated = schema.migrations[v](migrated);
+    }
+  } catch {
+    quarantineDocument(key, kind, raw, 'migration-failed');
+    return null;
+  }
+  if (!schema.validate(migrated)) {
+    quarantineDocument(key, kind, raw, 'invalid');
+    return null;
+  }
+
+  const { schemaVersion, ...data } = migrated;
+  if (version < schema.migrations.length) {
+    try {
+      writeDocument(key, kind, data);
+    } catch (err) {
+      // Still usable from memory - the migration runs again on the next read
+      console.warn(`Failed to save migrated ${key}:`, err);
+    }
+  }
+  return data as T;
+}
+
+/**
+ * Move a document aside: its text is kept in the quarantine list and the key is freed,
+ * so the game can start that document fresh without losing the original
+ */
+function quarantineDocument(key: string, kind: DocumentKind, raw: string, reason: QuarantineReason): void {
+  console.warn(`⚠️ Quarantined ${key} (${reason})`);
+  const entry: QuarantinedDocument = { key, kind, reason, raw, quarantinedAt: Date.now() };
+  try {
+    // Nothing is evicted - the same text quarantined again (e.g. after a restore) is kept once
+    const entries = getQuarantinedDocuments();
+    if (!entries.some(e => e.key === key && e.raw === raw)) {
+      getStorage().setItem(QUARANTINE_KEY, JSON.stringify([...entries, entry]));
+    }
+    getStorage().removeItem(key);
+  } catch (err) {
+    // No room to keep a copy - leave the original where it is
+    console.warn(`Failed to quarantine ${key}:`, err);
+  }
+}
+
+/**
+ * Documents moved to quarantine, oldest first
+ */
+export function getQuarantinedDocuments(): QuarantinedDocument[] {
+  try {
+    const data = getStorage().getItem(QUARANTINE_KEY);
+    const entries: unknown = data ? JSON.parse(data) : [];
+    return Array.isArray(entries) ? entries as QuarantinedDocument[] : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Put a quarantined document back under its key, e.g. once an update can read it again
+ * The document currently stored there is quarantined in its place, so nothing is lost
+ * @returns false when the document is no longer in quarantine
+ */
+export function restoreQuarantinedDocument(document: QuarantinedDocument): boolean {
+  const entries = getQuarantinedDocuments();
+  const index = entries.findIndex(e => e.key === document.key && e.quarantinedAt === document.quarantinedAt);
+  if (index === -1) return false;
+
+  const entry = entries[index];
+  const current = getStorage().getItem(entry.key);
+  const remaining = entries.filter((_, i) => i !== index);
+  if (current !== null && current !== entry.raw) {
+    remaining.push({ key: entry.key, kind: entry.kind, reason: 'replaced', raw: current, quarantinedAt: Date.now() });
+  }
+  getStorage().setItem(QUARANTINE_KEY, JSON.stringify(remaining));
+  getStorage().setItem(entry.key, entry.raw);
+  return true;
+}
+
+/**
+ * Delete a quarantined document for good
+ */
+export function discardQuarantinedDocument(document: QuarantinedDocument): void {
+  const entries = getQuarantinedDocuments();
+  getStorage().setItem(QUARANTINE_KEY, JSON.stringify(
+    entries.filter(e => e.key !== document.key || e.quarantinedAt !== document.quarantinedAt)
+  ));
+}
@@ -1,6 +1,8 @@
 import { GameStats, Achievement, LeaderboardEntry } from '@/types/profile';
 export type { GameStats, Achievement, LeaderboardEntry };
-import { GameSession } from '@/types/game';
+import { GameSession, InputMode } from '@/types/game';
+import { ReplayLog } from '@/lib/game/replay';
+import { RoundPerformance } from '@/lib/game/difficultyDirector';
 
 export interface StoredProfile {
   stats: GameStats;
@@ -23,12 +25,28 @@ export interface StoredLeaderboard {
   maxEntries: number;
 }
 
+export interface StoredReplays {
+  replays: ReplayLog[];
+}
+
+export interface StoredRoundHistory {
+  rounds: RoundPerformance[]; // newest first, read by the difficulty director
+}
+
 export interface GameSettings {
   soundEnabled: boolean;
+  sfxVolume?: number; // Sound effects volume 0-1, 0.7 when unset
   musicEnabled: boolean;
   vibrationEnabled: boolean;
   difficultyPreference?: 'easy' | 'medium' | 'hard' | 'extreme';
   colorPalette?: string; // ID of selected color palette
+  inputMode?: InputMode; // Tap words, drag across their letters or type them, 'tap' when unset
+  adaptiveDifficulty?: boolean; // Tune each round from recent performance, off when unset
+  reducedMotion?: boolean; // Calmer glitch animation, follows the system preference when unset
+  textScale?: number; // Matrix text size override (0.8-1.5), 1 when unset
+  musicStationId?: string; // Station the music player starts on, last played when unset
+  locale?: string; // Game locale ID (alphabet, built-in words, Hangman hints), 'en' when unset
+  wordPackId?: string; // ID of the active word pack (built-in pack when unset)
 }
 
 export interface ProfileMetadata {
@@ -1,5 +1,9 @@
 export type Difficulty = 'easy' | 'medium' | 'hard' | 'extreme';
 export type GameState = 'menu' | 'playing' | 'paused' | 'gameover';
+// Reading direction of a hidden word: left-to-right, top-to-bottom, down-right, right-to-left
+export type WordOrientation = 'horizontal' | 'vertical' | 'diagonal' | 'reversed';
+// How words are marked: tap anywhere on the word, drag across its letters, or type it
+export type InputMode = 'tap' | 'swipe' | 'keyboard';
 
 export interface Level {
   level: number;
@@ -11,14 +15,20 @@ export interface Level {
   letterUpdateRate: number;   // % of letters updated per cycle
   timeLimit?: number;         // seconds (optional)
   vortexStrength: number;     // 0-1
+  seed?: number;              // seed for reproducible rounds (optional)
+  orientations?: WordOrientation[]; // orientations words may be placed in (horizontal only when unset)
+  visibilityScale?: number;   // multiplier on word visibility/clickable windows (1 when unset)
+  decoys?: string[];          // fixed decoy words (custom levels), generated from the real words when unset
 }
 
 export interface GameWord {
   word: string;
   startCol: number;
   startRow: number;
+  orientation?: WordOrientation; // horizontal when unset; startCol/startRow is the first letter
   found: boolean;
   foundAt?: number;           // timestamp
+  reactionTime?: number;      // ms from becoming visible to being found
   points: number;
   isVisible: boolean;         // whether word is currently showing
   visibleAt?: number;         // timestamp when word became visible
@@ -40,11 +50,13 @@ export interface GameScore {
   // Enhanced scoring breakdown
   levelMultiplier?: number; // Multiplier based on level number
   difficultyMultiplier?: number; // Multiplier based on palette difficulty
+  inputModeMultiplier?: number; // Multiplier for the input mode (swipe-to-select pays more)
   speedBonus?: number; // Bonus for completing level quickly
   accuracyBonus?: number; // Bonus points for accuracy
   perfectAccuracyBonus?: number; // Extra bonus for 100% accuracy
   comboBonus?: number; // Bonus points from combos
   wordLengthBonus?: number; // Bonus for finding longer words
+  decoyPenalty?: number; // Points lost to clicked or typed decoys
   performanceRating?: 'S' | 'A' | 'B' | 'C' | 'D' | 'F'; // Performance grade
   scoreBreakdown?: {
     baseScore: number;
@@ -70,5 +82,7 @@ export interface GameSession {
   maxCombo: number;
   attempts: number;
   correctFinds: number;
+  seed?: number;              // seed the round was generated from
+  replayId?: string;          // replay log recorded for this round
 }
 
@@ -57,5 +57,6 @@ export interface LeaderboardEntry {
   walletAddress?: string; // Wallet address if linked
   totalScore?: number; // Total score across all levels from profile stats
   totalTime?: number; // Total play time in seconds from profile stats
+  replayId?: string; // Replay recorded for this run (stored locally)
 }
 